@@ -0,0 +1,140 @@
+/**
+ * Alpha Vantage Fixture Server
+ * Vite dev-server middleware storing and serving raw Alpha Vantage responses
+ * for the record/replay mode (see src/api/alphaVantageFixtures.ts).
+ *
+ * Record while using the live API:
+ *   VITE_ALPHA_VANTAGE_RECORD=true
+ * then pick "Alpha Vantage (recorded)" as the data source to replay.
+ *
+ * Fixture layout (dev/fixtures/alphavantage), one file per request:
+ *   <FUNCTION>/<option>-<value>_<option>-<value>.json
+ *   GET  <prefix>/<FUNCTION>/<options>.json  the recorded response, or 404
+ *   PUT  <prefix>/<FUNCTION>/<options>.json  record (overwrite) a response
+ *
+ * Bodies are stored verbatim, including error payloads such as the
+ * 'Note' rate-limit message, so they replay exactly as received.
+ */
+
+import fs from 'node:fs';
+import path from 'node:path';
+import { fileURLToPath } from 'node:url';
+import type { IncomingMessage, ServerResponse } from 'node:http';
+import type { Plugin } from 'vite';
+import { ALPHA_VANTAGE_FIXTURE_PREFIX } from '../src/api/devServerPaths';
+
+const DEFAULT_FIXTURES_DIR = path.join(
+  path.dirname(fileURLToPath(import.meta.url)),
+  'fixtures',
+  'alphavantage'
+);
+
+/** Largest response accepted for recording (full intraday months are a few MB) */
+const MAX_BODY_BYTES = 50 * 1024 * 1024;
+
+export interface AlphaVantageFixtureServerOptions {
+  /** URL prefix the middleware is mounted on */
+  prefix?: string;
+  /** Directory holding the recorded responses */
+  fixturesDir?: string;
+}
+
+/**
+ * Resolve a request path to a fixture file inside the fixtures directory
+ */
+function resolveFixturePath(dir: string, pathname: string): string | undefined {
+  let file: string;
+  try {
+    file = path.join(dir, decodeURIComponent(pathname));
+  } catch {
+    return undefined;
+  }
+  if (!file.startsWith(dir + path.sep) || path.extname(file) !== '.json') {
+    return undefined;
+  }
+  return file;
+}
+
+function readBody(req: IncomingMessage): Promise<string> {
+  return new Promise((resolve, reject) => {
+    let body = '';
+    req.setEncoding('utf-8');
+    req.on('data', (chunk: string) => {
+      body += chunk;
+      if (body.length > MAX_BODY_BYTES) {
+        reject(new Error('Fixture too large'));
+        req.destroy();
+      }
+    });
+    req.on('end', () => resolve(body));
+    req.on('error', reject);
+  });
+}
+
+function sendJson(res: ServerResponse, status: number, body: unknown): void {
+  res.statusCode = status;
+  res.setHeader('Content-Type', 'application/json');
+  res.end(JSON.stringify(body));
+}
+
+/**
+ * Vite plugin recording and replaying Alpha Vantage responses during `vite dev`
+ */
+export function alphaVantageFixtureServer(options: AlphaVantageFixtureServerOptions = {}): Plugin {
+  const prefix = options.prefix ?? ALPHA_VANTAGE_FIXTURE_PREFIX;
+  const dir = path.resolve(options.fixturesDir ?? DEFAULT_FIXTURES_DIR);
+
+  return {
+    name: 'alphavantage-fixture-server',
+    apply: 'serve',
+    configureServer(server) {
+      server.middlewares.use(prefix, (req, res) => {
+        const url = new URL(req.url ?? '/', 'http://localhost');
+        const file = resolveFixturePath(dir, url.pathname);
+        if (!file) {
+          sendJson(res, 400, { error: `Invalid fixture path ${url.pathname}` });
+          return;
+        }
+
+        if (req.method === 'PUT') {
+          readBody(req)
+            .then((body) => {
+              // Reject anything that is not JSON rather than record it
+              JSON.parse(body);
+              fs.mkdirSync(path.dirname(file), { recursive: true });
+              fs.writeFileSync(file, body.endsWith('\n') ? body : `${body}\n`);
+              res.statusCode = 204;
+              res.end();
+            })
+            .catch((error: unknown) => {
+              sendJson(res, 400, {
+                error: error instanceof Error ? error.message : 'Failed to record fixture',
+              });
+            });
+          return;
+        }
+
+        if (req.method !== 'GET') {
+          sendJson(res, 405, { error: `Unsupported method ${req.method}` });
+          return;
+        }
+
+        try {
+          if (!fs.existsSync(file)) {
+            sendJson(res, 404, { error: `No fixture recorded at ${url.pathname}` });
+            return;
+          }
+          res.statusCode = 200;
+          res.setHeader('Content-Type', 'application/json');
+          res.end(fs.readFileSync(file, 'utf-8'));
+        } catch (error) {
+          sendJson(res, 500, {
+            error: error instanceof Error ? error.message : 'Failed to read fixture',
+          });
+        }
+      });
+    },
+  };
+}
+
+export default alphaVantageFixtureServer;
@@ -0,0 +1,238 @@
+/**
+ * Alpha Vantage Stub Server
+ * Vite dev-server middleware mimicking the Alpha Vantage `query` endpoint,
+ * with data from the mock generator (src/api/alphaVantageStub.ts).
+ *
+ * Point the client at it (the Playwright config does):
+ *   VITE_ALPHA_VANTAGE_BASE_URL=/__stub/alphavantage/query
+ *
+ * Besides the data, it emulates the API's failure modes:
+ * - rate limits per API key: a 'Note' past the per-minute budget, an
+ *   'Information' message past the daily one
+ * - invalid symbols: the 'Invalid API call' message (empty objects for
+ *   GLOBAL_QUOTE and OVERVIEW)
+ * - rejected API keys and slow replies
+ *
+ * Routes:
+ *   GET <prefix>/query?function=...  the API
+ *   GET <prefix>/config              current settings and usage
+ *   PUT <prefix>/config              replace settings (JSON; missing fields
+ *                                    take their defaults) and reset usage;
+ *                                    400 for unknown or mistyped fields
+ */
+
+import type { IncomingMessage, ServerResponse } from 'node:http';
+import type { Plugin, ViteDevServer } from 'vite';
+
+export const ALPHA_VANTAGE_STUB_PREFIX = '/__stub/alphavantage';
+
+/** Module building the responses, loaded through Vite so it can use app code */
+const STUB_MODULE = '/src/api/alphaVantageStub.ts';
+
+const MS_PER_MINUTE = 60 * 1000;
+
+export interface AlphaVantageStubConfig {
+  /** Calls per minute and API key before a 'Note'; 0 for no limit */
+  callsPerMinute: number;
+  /** Calls per day and API key before an 'Information' message; 0 for no limit */
+  callsPerDay: number;
+  /** Delay before every reply, in milliseconds */
+  latencyMs: number;
+  /** API keys answered with the invalid-key error */
+  rejectedKeys: string[];
+}
+
+export interface AlphaVantageStubServerOptions extends Partial<AlphaVantageStubConfig> {
+  /** URL prefix the middleware is mounted on */
+  prefix?: string;
+}
+
+/** Free-tier call frequency, matching the client's request queue */
+const DEFAULT_CONFIG: AlphaVantageStubConfig = {
+  callsPerMinute: 5,
+  callsPerDay: 0,
+  latencyMs: 0,
+  rejectedKeys: [],
+};
+
+/**
+ * Check for a whole number of at least 0
+ */
+function isCount(value: unknown): boolean {
+  return typeof value === 'number' && Number.isInteger(value) && value >= 0;
+}
+
+/** Settings a PUT /config body may set, with their checks */
+const CONFIG_FIELDS: Record<keyof AlphaVantageStubConfig, (value: unknown) => boolean> = {
+  callsPerMinute: isCount,
+  callsPerDay: isCount,
+  latencyMs: isCount,
+  rejectedKeys: (value) => Array.isArray(value) && value.every((key) => typeof key === 'string'),
+};
+
+/**
+ * Parse a PUT /config body
+ * Throws on malformed JSON, unknown fields and values of the wrong type.
+ */
+function parseConfigChanges(body: string): Partial<AlphaVantageStubConfig> {
+  const changes: unknown = JSON.parse(body || '{}');
+  if (typeof changes !== 'object' || changes === null || Array.isArray(changes)) {
+    throw new Error('Config must be a JSON object');
+  }
+  for (const [field, value] of Object.entries(changes)) {
+    if (!Object.hasOwn(CONFIG_FIELDS, field)) {
+      throw new Error(`Unknown config field: ${field}`);
+    }
+    if (!CONFIG_FIELDS[field as keyof AlphaVantageStubConfig](value)) {
+      throw new Error(`Invalid value for ${field}`);
+    }
+  }
+  return changes as Partial<AlphaVantageStubConfig>;
+}
+
+interface StubModule {
+  getStubResponse(params: Record<string, string>): unknown;
+}
+
+interface KeyUsage {
+  /** Call times within the last minute */
+  recent: number[];
+  /** UTC date the daily count belongs to */
+  day: string;
+  today: number;
+}
+
+function sendJson(res: ServerResponse, status: number, body: unknown): void {
+  res.statusCode = status;
+  res.setHeader('Content-Type', 'application/json');
+  res.end(JSON.stringify(body));
+}
+
+function readBody(req: IncomingMessage): Promise<string> {
+  return new Promise((resolve, reject) => {
+    let body = '';
+    req.setEncoding('utf-8');
+    req.on('data', (chunk: string) => {
+      body += chunk;
+    });
+    req.on('end', () => resolve(body));
+    req.on('error', reject);
+  });
+}
+
+/**
+ * Count a call against a key's budget; returns the rate-limit payload when
+ * the call is over budget (over-budget calls are not counted, like the API)
+ */
+function checkRateLimit(
+  usage: Map<string, KeyUsage>,
+  apiKey: string,
+  config: AlphaVantageStubConfig,
+  now: number
+): Record<string, string> | undefined {
+  const day = new Date(now).toISOString().slice(0, 10);
+  const entry = usage.get(apiKey) ?? { recent: [], day, today: 0 };
+  entry.recent = entry.recent.filter((time) => now - time < MS_PER_MINUTE);
+  if (entry.day !== day) {
+    entry.day = day;
+    entry.today = 0;
+  }
+  usage.set(apiKey, entry);
+
+  if (config.callsPerDay > 0 && entry.today >= config.callsPerDay) {
+    return {
+      Information: `We have detected your API key as ${apiKey} and our standard API rate limit is ${config.callsPerDay} requests per day. Please subscribe to any of the premium plans at https://www.alphavantage.co/premium/ to instantly remove all daily rate limits.`,
+    };
+  }
+  if (config.callsPerMinute > 0 && entry.recent.length >= config.callsPerMinute) {
+    return {
+      Note: `Thank you for using Alpha Vantage! Our standard API call frequency is ${config.callsPerMinute} calls per minute. Please visit https://www.alphavantage.co/premium/ if you would like to target a higher API call frequency.`,
+    };
+  }
+
+  entry.recent.push(now);
+  entry.today++;
+  return undefined;
+}
+
+/**
+ * Answer a query like the live API: always HTTP 200, errors in the body
+ */
+async function answerQuery(
+  server: ViteDevServer,
+  params: URLSearchParams,
+  usage: Map<string, KeyUsage>,
+  config: AlphaVantageStubConfig
+): Promise<unknown> {
+  const apiKey = params.get('apikey') ?? '';
+  if (config.rejectedKeys.includes(apiKey)) {
+    return {
+      'Error Message':
+        'the parameter apikey is invalid or missing. Please claim your free API key on (https://www.alphavantage.co/support/#api-key). It should take less than 20 seconds.',
+    };
+  }
+
+  const limited = checkRateLimit(usage, apiKey, config, Date.now());
+  if (limited) {
+    return limited;
+  }
+
+  const stub = (await server.ssrLoadModule(STUB_MODULE)) as StubModule;
+  return stub.getStubResponse(Object.fromEntries(params));
+}
+
+/**
+ * Vite plugin serving the Alpha Vantage stub during `vite dev`
+ */
+export function alphaVantageStubServer(options: AlphaVantageStubServerOptions = {}): Plugin {
+  const { prefix = ALPHA_VANTAGE_STUB_PREFIX, ...overrides } = options;
+  const initialConfig: AlphaVantageStubConfig = { ...DEFAULT_CONFIG, ...overrides };
+  let config = initialConfig;
+  const usage = new Map<string, KeyUsage>();
+
+  return {
+    name: 'alphavantage-stub-server',
+    apply: 'serve',
+    configureServer(server) {
+      server.middlewares.use(prefix, (req, res) => {
+        const url = new URL(req.url ?? '/', 'http://localhost');
+
+        if (url.pathname === '/config') {
+          if (req.method === 'PUT') {
+            readBody(req)
+              .then((body) => {
+                config = { ...initialConfig, ...parseConfigChanges(body) };
+                usage.clear();
+                sendJson(res, 200, { config });
+              })
+              .catch((error: unknown) => {
+                sendJson(res, 400, { error: error instanceof Error ? error.message : 'Invalid config' });
+              });
+            return;
+          }
+          sendJson(res, 200, { config, usage: Object.fromEntries(usage) });
+          return;
+        }
+
+        if (url.pathname !== '/query') {
+          sendJson(res, 404, { error: `No stub route for ${url.pathname}` });
+          return;
+        }
+
+        const started = Date.now();
+        answerQuery(server, url.searchParams, usage, config)
+          .then((body) => {
+            const delay = Math.max(0, config.latencyMs - (Date.now() - started));
+            setTimeout(() => sendJson(res, 200, body), delay);
+          })
+          .catch((error: unknown) => {
+            sendJson(res, 500, {
+              error: error instanceof Error ? error.message : 'Failed to build stub response',
+            });
+          });
+      });
+    },
+  };
+}
+
+export default alphaVantageStubServer;
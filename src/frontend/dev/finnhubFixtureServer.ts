@@ -0,0 +1,167 @@
+/**
+ * Finnhub Fixture Server
+ * Vite dev-server middleware that replays recorded Finnhub JSON responses,
+ * so the Finnhub provider can be exercised offline and without an API key.
+ *
+ * Enable it by pointing the client at the middleware:
+ *   VITE_FINNHUB_BASE_URL=/__fixtures/finnhub
+ *
+ * Fixture layout (dev/fixtures/finnhub):
+ *   candle/<SYMBOL>_<resolution>.json  /stock/candle (filtered by from/to)
+ *   quote/<SYMBOL>.json                /quote
+ *   profile2/<SYMBOL>.json             /stock/profile2
+ *   search.json                        /search (filtered by q)
+ *
+ * Recorded candles are shifted forward by whole weeks so the latest bar
+ * lands in the requested window; weekdays and session times are preserved.
+ */
+
+import fs from 'node:fs';
+import path from 'node:path';
+import { fileURLToPath } from 'node:url';
+import type { ServerResponse } from 'node:http';
+import type { Plugin } from 'vite';
+
+export const FINNHUB_FIXTURE_PREFIX = '/__fixtures/finnhub';
+
+const DEFAULT_FIXTURES_DIR = path.join(
+  path.dirname(fileURLToPath(import.meta.url)),
+  'fixtures',
+  'finnhub'
+);
+
+const SECONDS_PER_WEEK = 7 * 24 * 60 * 60;
+
+/** Finnhub's answer for unknown quote symbols */
+const EMPTY_QUOTE = { c: 0, d: null, dp: null, h: 0, l: 0, o: 0, pc: 0, t: 0 };
+
+interface CandleFixture {
+  s: string;
+  t?: number[];
+  o?: number[];
+  h?: number[];
+  l?: number[];
+  c?: number[];
+  v?: number[];
+}
+
+interface SearchFixture {
+  count: number;
+  result: { description: string; displaySymbol: string; symbol: string; type: string }[];
+}
+
+export interface FinnhubFixtureServerOptions {
+  /** URL prefix the middleware is mounted on */
+  prefix?: string;
+  /** Directory holding the recorded responses */
+  fixturesDir?: string;
+}
+
+/**
+ * Read a fixture file, or undefined when it has not been recorded
+ */
+function readFixture<T>(dir: string, ...segments: string[]): T | undefined {
+  const file = path.join(dir, ...segments);
+  if (!file.startsWith(dir) || !fs.existsSync(file)) {
+    return undefined;
+  }
+  return JSON.parse(fs.readFileSync(file, 'utf-8')) as T;
+}
+
+/**
+ * Keep only the candles inside [from, to], after shifting the recording
+ * forward by whole weeks so its latest bar is no older than a week
+ */
+function filterCandles(fixture: CandleFixture, from: number, to: number): CandleFixture {
+  const { o, h, l, c, v } = fixture;
+  if (fixture.s !== 'ok' || !fixture.t?.length || !o || !h || !l || !c || !v) {
+    return { s: 'no_data' };
+  }
+
+  const lastRecorded = fixture.t[fixture.t.length - 1];
+  const weeks = Math.max(0, Math.floor((to - lastRecorded) / SECONDS_PER_WEEK));
+  const t = fixture.t.map((time) => time + weeks * SECONDS_PER_WEEK);
+
+  const indexes = t
+    .map((time, i) => (time >= from && time <= to ? i : -1))
+    .filter((i) => i >= 0);
+  if (indexes.length === 0) {
+    return { s: 'no_data' };
+  }
+
+  return {
+    s: 'ok',
+    t: indexes.map((i) => t[i]),
+    o: indexes.map((i) => o[i]),
+    h: indexes.map((i) => h[i]),
+    l: indexes.map((i) => l[i]),
+    c: indexes.map((i) => c[i]),
+    v: indexes.map((i) => v[i]),
+  };
+}
+
+function sendJson(res: ServerResponse, status: number, body: unknown): void {
+  res.statusCode = status;
+  res.setHeader('Content-Type', 'application/json');
+  res.end(JSON.stringify(body));
+}
+
+/**
+ * Vite plugin serving recorded Finnhub responses during `vite dev`
+ */
+export function finnhubFixtureServer(options: FinnhubFixtureServerOptions = {}): Plugin {
+  const prefix = options.prefix ?? FINNHUB_FIXTURE_PREFIX;
+  const dir = path.resolve(options.fixturesDir ?? DEFAULT_FIXTURES_DIR);
+
+  return {
+    name: 'finnhub-fixture-server',
+    apply: 'serve',
+    configureServer(server) {
+      server.middlewares.use(prefix, (req, res) => {
+        const url = new URL(req.url ?? '/', 'http://localhost');
+        const params = url.searchParams;
+        const symbol = (params.get('symbol') ?? '').toUpperCase();
+
+        try {
+          switch (url.pathname) {
+            case '/stock/candle': {
+              const resolution = params.get('resolution') ?? 'D';
+              const from = Number(params.get('from') ?? 0);
+              const to = Number(params.get('to') ?? Number.MAX_SAFE_INTEGER);
+              const fixture = readFixture<CandleFixture>(dir, 'candle', `${symbol}_${resolution}.json`);
+              sendJson(res, 200, fixture ? filterCandles(fixture, from, to) : { s: 'no_data' });
+              return;
+            }
+            case '/quote': {
+              sendJson(res, 200, readFixture(dir, 'quote', `${symbol}.json`) ?? EMPTY_QUOTE);
+              return;
+            }
+            case '/stock/profile2': {
+              sendJson(res, 200, readFixture(dir, 'profile2', `${symbol}.json`) ?? {});
+              return;
+            }
+            case '/search': {
+              const query = (params.get('q') ?? '').toLowerCase();
+              const fixture = readFixture<SearchFixture>(dir, 'search.json');
+              const result = (fixture?.result ?? []).filter(
+                (match) =>
+                  match.symbol.toLowerCase().includes(query) ||
+                  match.description.toLowerCase().includes(query)
+              );
+              sendJson(res, 200, { count: result.length, result });
+              return;
+            }
+            default:
+              sendJson(res, 404, { error: `No fixture route for ${url.pathname}` });
+          }
+        } catch (error) {
+          sendJson(res, 500, {
+            error: error instanceof Error ? error.message : 'Failed to read fixture',
+          });
+        }
+      });
+    },
+  };
+}
+
+export default finnhubFixtureServer;
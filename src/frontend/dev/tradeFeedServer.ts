@@ -0,0 +1,245 @@
+/**
+ * Mock Trade Feed Server
+ * WebSocket endpoint on the Vite dev server streaming simulated trades
+ * (src/api/mockTradeFeed.ts) in the Finnhub streaming format:
+ *
+ *   ws://localhost:5173/__stream/trades
+ *   -> {"type":"subscribe","symbol":"AAPL","scenario":"default"}
+ *   -> {"type":"unsubscribe","symbol":"AAPL"}
+ *   <- {"type":"trade","data":[{"s":"AAPL","p":227.31,"v":100,"t":1718000000000}]}
+ *   <- {"type":"ping"}
+ *
+ * `scenario` is a mock-only extension naming the symbol's simulation
+ * scenario. Implements just enough of RFC 6455 for this: masked,
+ * unfragmented text frames, ping/pong and close, no extensions. Clients
+ * sending anything else are disconnected with a protocol error.
+ */
+
+import { createHash } from 'node:crypto';
+import type { IncomingMessage } from 'node:http';
+import type { Duplex } from 'node:stream';
+import type { Plugin, ViteDevServer } from 'vite';
+import { MOCK_TRADE_FEED_PATH } from '../src/api/devServerPaths';
+
+/** Module generating the trades, loaded through Vite so it can use app code */
+const FEED_MODULE = '/src/api/mockTradeFeed.ts';
+
+/** Key suffix of the opening handshake (RFC 6455 section 1.3) */
+const WEBSOCKET_GUID = '258EAFA5-E914-47DA-95CA-C5AB0DC85B11';
+
+const PING_INTERVAL_MS = 30 * 1000;
+
+const OPCODE_CONTINUATION = 0x0;
+const OPCODE_TEXT = 0x1;
+const OPCODE_CLOSE = 0x8;
+const OPCODE_PING = 0x9;
+const OPCODE_PONG = 0xa;
+
+/** Close status for frames this server doesn't support (RFC 6455 section 7.4.1) */
+const CLOSE_PROTOCOL_ERROR = 1002;
+
+export interface TradeFeedServerOptions {
+  /** URL path the feed is served on */
+  path?: string;
+  /** Time between trades of a subscribed symbol, in milliseconds */
+  tradeIntervalMs?: number;
+}
+
+interface FeedModule {
+  getMockTrade(symbol: string, scenarioId: string, timestamp: number): unknown;
+}
+
+interface Frame {
+  /** Final fragment of its message */
+  fin: boolean;
+  opcode: number;
+  /** Client frames must be masked */
+  masked: boolean;
+  payload: Buffer;
+}
+
+/**
+ * Encode an unmasked server frame
+ */
+function encodeFrame(opcode: number, payload: Buffer): Buffer {
+  let header: Buffer;
+  if (payload.length < 126) {
+    header = Buffer.alloc(2);
+    header[1] = payload.length;
+  } else if (payload.length < 65536) {
+    header = Buffer.alloc(4);
+    header[1] = 126;
+    header.writeUInt16BE(payload.length, 2);
+  } else {
+    header = Buffer.alloc(10);
+    header[1] = 127;
+    header.writeBigUInt64BE(BigInt(payload.length), 2);
+  }
+  header[0] = 0x80 | opcode;
+  return Buffer.concat([header, payload]);
+}
+
+/**
+ * Decode the complete frames at the front of a buffer
+ * Returns them with the bytes of a trailing partial frame.
+ */
+function decodeFrames(buffer: Buffer): { frames: Frame[]; rest: Buffer } {
+  const frames: Frame[] = [];
+  let offset = 0;
+
+  while (buffer.length - offset >= 2) {
+    const fin = (buffer[offset] & 0x80) !== 0;
+    const opcode = buffer[offset] & 0x0f;
+    const masked = (buffer[offset + 1] & 0x80) !== 0;
+    let length = buffer[offset + 1] & 0x7f;
+    let headerLength = 2;
+    if (length === 126) {
+      if (buffer.length - offset < 4) break;
+      length = buffer.readUInt16BE(offset + 2);
+      headerLength = 4;
+    } else if (length === 127) {
+      if (buffer.length - offset < 10) break;
+      length = Number(buffer.readBigUInt64BE(offset + 2));
+      headerLength = 10;
+    }
+
+    const maskLength = masked ? 4 : 0;
+    const frameLength = headerLength + maskLength + length;
+    if (buffer.length - offset < frameLength) break;
+
+    const payload = Buffer.from(buffer.subarray(offset + headerLength + maskLength, offset + frameLength));
+    if (masked) {
+      const mask = buffer.subarray(offset + headerLength, offset + headerLength + 4);
+      for (let i = 0; i < payload.length; i++) {
+        payload[i] ^= mask[i % 4];
+      }
+    }
+    frames.push({ fin, opcode, masked, payload });
+    offset += frameLength;
+  }
+
+  return { frames, rest: Buffer.from(buffer.subarray(offset)) };
+}
+
+/**
+ * Serve one client: track its subscriptions and stream their trades
+ */
+function handleConnection(server: ViteDevServer, socket: Duplex, tradeIntervalMs: number): void {
+  /** Subscribed symbols and their scenarios */
+  const subscriptions = new Map<string, string>();
+  let buffer = Buffer.alloc(0);
+
+  const send = (message: unknown) => {
+    if (!socket.destroyed) {
+      socket.write(encodeFrame(OPCODE_TEXT, Buffer.from(JSON.stringify(message))));
+    }
+  };
+
+  const tradeTimer = setInterval(() => {
+    if (subscriptions.size === 0) return;
+    (server.ssrLoadModule(FEED_MODULE) as Promise<FeedModule>)
+      .then((feed) => {
+        const now = Date.now();
+        const data = [...subscriptions]
+          .map(([symbol, scenario]) => feed.getMockTrade(symbol, scenario, now))
+          .filter((trade) => trade !== null);
+        if (data.length > 0) {
+          send({ type: 'trade', data });
+        }
+      })
+      .catch((error: unknown) => {
+        server.config.logger.error(`Mock trade feed: ${error instanceof Error ? error.message : String(error)}`);
+      });
+  }, tradeIntervalMs);
+  const pingTimer = setInterval(() => send({ type: 'ping' }), PING_INTERVAL_MS);
+
+  const cleanup = () => {
+    clearInterval(tradeTimer);
+    clearInterval(pingTimer);
+    subscriptions.clear();
+  };
+
+  const handleMessage = (text: string) => {
+    let message: { type?: string; symbol?: string; scenario?: string };
+    try {
+      message = JSON.parse(text);
+    } catch {
+      return;
+    }
+    if (typeof message.symbol !== 'string') return;
+    const symbol = message.symbol.toUpperCase();
+    if (message.type === 'subscribe') {
+      subscriptions.set(symbol, message.scenario ?? 'default');
+    } else if (message.type === 'unsubscribe') {
+      subscriptions.delete(symbol);
+    }
+  };
+
+  socket.on('data', (chunk: Buffer) => {
+    const decoded = decodeFrames(Buffer.concat([buffer, chunk]));
+    buffer = decoded.rest;
+    for (const frame of decoded.frames) {
+      // Fragmented messages and unmasked client frames aren't supported
+      if (!frame.fin || frame.opcode === OPCODE_CONTINUATION || !frame.masked) {
+        cleanup();
+        const status = Buffer.alloc(2);
+        status.writeUInt16BE(CLOSE_PROTOCOL_ERROR);
+        socket.end(encodeFrame(OPCODE_CLOSE, status));
+        return;
+      }
+      switch (frame.opcode) {
+        case OPCODE_TEXT:
+          handleMessage(frame.payload.toString('utf-8'));
+          break;
+        case OPCODE_PING:
+          socket.write(encodeFrame(OPCODE_PONG, frame.payload));
+          break;
+        case OPCODE_CLOSE:
+          cleanup();
+          socket.end(encodeFrame(OPCODE_CLOSE, frame.payload.subarray(0, 2)));
+          return;
+      }
+    }
+  });
+  socket.on('close', cleanup);
+  socket.on('error', cleanup);
+}
+
+/**
+ * Vite plugin serving the mock trade feed during `vite dev`
+ */
+export function tradeFeedServer(options: TradeFeedServerOptions = {}): Plugin {
+  const { path = MOCK_TRADE_FEED_PATH, tradeIntervalMs = 1000 } = options;
+
+  return {
+    name: 'mock-trade-feed-server',
+    apply: 'serve',
+    configureServer(server) {
+      // Other upgrades (e.g. HMR) are left to their own handlers
+      server.httpServer?.on('upgrade', (req: IncomingMessage, socket: Duplex) => {
+        const url = new URL(req.url ?? '/', 'http://localhost');
+        if (url.pathname !== path) return;
+
+        const key = req.headers['sec-websocket-key'];
+        if (typeof key !== 'string') {
+          socket.end('HTTP/1.1 400 Bad Request\r\n\r\n');
+          return;
+        }
+        const accept = createHash('sha1').update(key + WEBSOCKET_GUID).digest('base64');
+        socket.write(
+          [
+            'HTTP/1.1 101 Switching Protocols',
+            'Upgrade: websocket',
+            'Connection: Upgrade',
+            `Sec-WebSocket-Accept: ${accept}`,
+            '',
+            '',
+          ].join('\r\n')
+        );
+        handleConnection(server, socket, tradeIntervalMs);
+      });
+    },
+  };
+}
+
+export default tradeFeedServer;
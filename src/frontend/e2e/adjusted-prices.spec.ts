@@ -0,0 +1,32 @@
+import { test, expect } from '@playwright/test';
+import { openChart, readFirstBar } from './helpers';
+
+test.describe('Adjusted Prices', () => {
+
+  test.beforeEach(async ({ page }) => {
+    await openChart(page, { clearStorage: ['financeviz-adjusted-prices'] });
+  });
+
+  test('should switch between raw and adjusted prices', async ({ page }) => {
+    // MAX reaches back past AAPL's 4:1 split on 2020-08-31
+    await page.getByRole('button', { name: 'MAX' }).first().click();
+    const toggle = page.getByTestId('adjusted-prices-toggle').first();
+    await expect(toggle).toHaveAttribute('aria-pressed', 'false');
+    const raw = await readFirstBar(page);
+
+    await toggle.click();
+    await expect(toggle).toHaveAttribute('aria-pressed', 'true');
+    await expect.poll(async () => (await readFirstBar(page)).close).toBeLessThan(raw.close / 3);
+
+    await toggle.click();
+    await expect(toggle).toHaveAttribute('aria-pressed', 'false');
+    await expect.poll(async () => (await readFirstBar(page)).close).toBe(raw.close);
+  });
+
+  test('should remember the setting across reloads', async ({ page }) => {
+    await page.getByTestId('adjusted-prices-toggle').first().click();
+    await page.reload();
+    await expect(page.getByTestId('adjusted-prices-toggle').first()).toHaveAttribute('aria-pressed', 'true');
+  });
+
+});
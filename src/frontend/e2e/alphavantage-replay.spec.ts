@@ -0,0 +1,23 @@
+import { test, expect } from '@playwright/test';
+import { openChart } from './helpers';
+
+/**
+ * Replays the recorded responses in dev/fixtures/alphavantage
+ */
+test.describe('Alpha Vantage Replay', () => {
+
+  test.beforeEach(async ({ page }) => {
+    await openChart(page);
+    await page.locator('#data-source-select').selectOption('alphavantage-replay');
+  });
+
+  test('should serve the recorded quote', async ({ page }) => {
+    await expect(page.getByText('Prev Close:').locator('..')).toContainText('227.55', { timeout: 10000 });
+  });
+
+  test('should replay a recorded error payload', async ({ page }) => {
+    // The recorded 5min intraday response is an 'Invalid API call' message
+    await expect(page.getByText(/Invalid stock symbol/).first()).toBeVisible({ timeout: 10000 });
+  });
+
+});
@@ -0,0 +1,126 @@
+import { test, expect } from '@playwright/test';
+import { openChart } from './helpers';
+
+/**
+ * Runs the Alpha Vantage client against the local stub server
+ * (dev/alphaVantageStubServer.ts), which the Playwright config points it at.
+ * The stub's settings are shared, so these tests run one at a time.
+ */
+const STUB = '/__stub/alphavantage';
+
+test.describe('Alpha Vantage Stub', () => {
+  test.describe.configure({ mode: 'serial' });
+
+  test.beforeEach(async ({ request }) => {
+    await request.put(`${STUB}/config`, { data: { callsPerMinute: 0 } });
+  });
+
+  test.afterAll(async ({ request }) => {
+    await request.put(`${STUB}/config`, { data: {} });
+  });
+
+  test('should chart Alpha Vantage data end to end', async ({ page }) => {
+    await openChart(page);
+    await page.locator('#data-source-select').selectOption('alphavantage');
+    await expect(page.locator('canvas').first()).toBeVisible({ timeout: 15000 });
+    await expect(page.getByText('Error Loading Chart')).toHaveCount(0);
+    await expect(page.getByText(/Showing mock data/)).toHaveCount(0);
+    await expect(page.getByText('Prev Close:')).toBeVisible({ timeout: 15000 });
+  });
+
+  test('should answer every time series function in the API format', async ({ request }) => {
+    const daily = await (await request.get(`${STUB}/query?function=TIME_SERIES_DAILY&symbol=AAPL`)).json();
+    expect(daily['Meta Data']['2. Symbol']).toBe('AAPL');
+    expect(Object.keys(daily['Time Series (Daily)'])).toHaveLength(100);
+
+    const intraday = await (
+      await request.get(`${STUB}/query?function=TIME_SERIES_INTRADAY&symbol=AAPL&interval=5min`)
+    ).json();
+    expect(Object.keys(intraday['Time Series (5min)'])[0]).toMatch(/^\d{4}-\d{2}-\d{2} \d{2}:\d{2}:00$/);
+
+    const weekly = await (await request.get(`${STUB}/query?function=TIME_SERIES_WEEKLY&symbol=AAPL`)).json();
+    expect(weekly['Weekly Time Series']).toBeDefined();
+
+    const quote = await (await request.get(`${STUB}/query?function=GLOBAL_QUOTE&symbol=AAPL`)).json();
+    expect(quote['Global Quote']['01. symbol']).toBe('AAPL');
+
+    const search = await (await request.get(`${STUB}/query?function=SYMBOL_SEARCH&keywords=MSFT`)).json();
+    expect(search.bestMatches[0]['1. symbol']).toBe('MSFT');
+  });
+
+  test('should reject invalid symbols like the API', async ({ request }) => {
+    const series = await (await request.get(`${STUB}/query?function=TIME_SERIES_DAILY&symbol=NOPE`)).json();
+    expect(series['Error Message']).toContain('Invalid API call');
+
+    const quote = await (await request.get(`${STUB}/query?function=GLOBAL_QUOTE&symbol=NOPE`)).json();
+    expect(quote).toEqual({ 'Global Quote': {} });
+  });
+
+  test('should emulate the rate limits', async ({ request }) => {
+    await request.put(`${STUB}/config`, { data: { callsPerMinute: 1, callsPerDay: 2 } });
+    const query = `${STUB}/query?function=GLOBAL_QUOTE&symbol=AAPL`;
+
+    expect((await (await request.get(`${query}&apikey=one`)).json())['Global Quote']).toBeDefined();
+    expect((await (await request.get(`${query}&apikey=one`)).json()).Note).toContain('call frequency');
+
+    // Budgets are per key
+    expect((await (await request.get(`${query}&apikey=two`)).json())['Global Quote']).toBeDefined();
+
+    await request.put(`${STUB}/config`, { data: { callsPerMinute: 0, callsPerDay: 1 } });
+    await request.get(`${query}&apikey=one`);
+    expect((await (await request.get(`${query}&apikey=one`)).json()).Information).toContain('per day');
+  });
+
+  test('should hold client requests while the API rate limit is hit', async ({ page, request }) => {
+    await request.put(`${STUB}/config`, { data: { callsPerMinute: 1 } });
+    await openChart(page);
+    await page.locator('#data-source-select').selectOption('alphavantage');
+
+    // The quote and the series need two calls; the second one is refused
+    await expect(page.getByTestId('request-queue-indicator').first()).toHaveText(/Rate limited|queued/, {
+      timeout: 15000,
+    });
+  });
+
+  test('should fetch fundamentals only while the quote details are open', async ({ page }) => {
+    const overviews: string[] = [];
+    page.on('request', (req) => {
+      if (req.url().includes('function=OVERVIEW')) overviews.push(req.url());
+    });
+    await openChart(page);
+    await page.locator('#data-source-select').selectOption('alphavantage');
+    await expect(page.getByText('Prev Close:')).toBeVisible({ timeout: 15000 });
+    expect(overviews).toHaveLength(0);
+
+    await page.getByTestId('quote-details-toggle').click();
+    await expect.poll(() => overviews.length).toBe(1);
+    await expect(page.getByTestId('quote-details-panel').getByText(/\$[\d.]+T/)).toBeVisible();
+  });
+
+  test('should answer rejected keys with the invalid-key error', async ({ request }) => {
+    await request.put(`${STUB}/config`, { data: { callsPerMinute: 0, rejectedKeys: ['revoked-key'] } });
+    const query = `${STUB}/query?function=GLOBAL_QUOTE&symbol=AAPL`;
+
+    expect((await (await request.get(`${query}&apikey=revoked-key`)).json())['Error Message']).toContain('apikey');
+    expect((await (await request.get(`${query}&apikey=other-key`)).json())['Global Quote']).toBeDefined();
+  });
+
+  test('should refuse malformed settings', async ({ request }) => {
+    for (const data of [{ callsPerMinute: 'five' }, { rejectedKeys: 'revoked-key' }, { latencyMs: -1 }, { callsPerHour: 1 }]) {
+      expect((await request.put(`${STUB}/config`, { data })).status()).toBe(400);
+    }
+    expect((await request.put(`${STUB}/config`, { headers: { 'Content-Type': 'application/json' }, data: '{' })).status()).toBe(400);
+
+    // The settings in force are kept
+    const { config } = await (await request.get(`${STUB}/config`)).json();
+    expect(config.callsPerMinute).toBe(0);
+  });
+
+  test('should delay replies', async ({ request }) => {
+    await request.put(`${STUB}/config`, { data: { callsPerMinute: 0, latencyMs: 1500 } });
+    const started = Date.now();
+    await request.get(`${STUB}/query?function=GLOBAL_QUOTE&symbol=AAPL`);
+    expect(Date.now() - started).toBeGreaterThanOrEqual(1400);
+  });
+
+});
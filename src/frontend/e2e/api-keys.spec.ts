@@ -0,0 +1,67 @@
+import { test, expect } from '@playwright/test';
+import { openChart } from './helpers';
+
+/**
+ * API key settings against the Alpha Vantage stub server, which rejects
+ * configured keys and rate limits each key separately.
+ * The stub's settings are shared, so these tests run one at a time.
+ */
+const STUB = '/__stub/alphavantage';
+
+test.describe('API Keys', () => {
+  test.describe.configure({ mode: 'serial' });
+
+  test.beforeEach(async ({ request }) => {
+    await request.put(`${STUB}/config`, { data: { callsPerMinute: 0, rejectedKeys: ['revoked-key'] } });
+  });
+
+  test.afterAll(async ({ request }) => {
+    await request.put(`${STUB}/config`, { data: {} });
+  });
+
+  test('should test a pasted key and keep it across reloads', async ({ page }) => {
+    await openChart(page);
+    await page.locator('#data-source-select').selectOption('alphavantage');
+
+    await page.getByTestId('api-key-status').click();
+    await page.locator('#api-key-input-alphavantage').fill('team-key-1');
+    await page.getByRole('button', { name: 'Add & test' }).first().click();
+
+    const row = page.getByTestId('api-keys-alphavantage').getByTestId('api-key-row');
+    await expect(row.getByTestId('api-key-row-status')).toHaveText('Valid');
+    await expect(page.getByTestId('api-key-status')).toContainText('Key OK');
+
+    await page.reload();
+    await expect(page.getByTestId('api-key-status')).toContainText('Key OK');
+  });
+
+  test('should flag a key the API rejects', async ({ page }) => {
+    await openChart(page);
+    await page.locator('#data-source-select').selectOption('alphavantage');
+
+    await page.getByTestId('api-key-status').click();
+    await page.locator('#api-key-input-alphavantage').fill('revoked-key');
+    await page.getByRole('button', { name: 'Add & test' }).first().click();
+
+    const row = page.getByTestId('api-keys-alphavantage').getByTestId('api-key-row');
+    await expect(row.getByTestId('api-key-row-status')).toHaveText('Invalid');
+    await expect(page.getByTestId('api-key-status')).toContainText('Invalid key');
+  });
+
+  test('should move on to the next key when one is rate limited', async ({ page, request }) => {
+    const untested = { source: 'user', status: 'unverified', rateLimitedUntil: null };
+    await page.addInitScript((keys) => {
+      localStorage.setItem('financeviz-api-keys', JSON.stringify({ alphavantage: keys }));
+    }, [{ key: 'key-one', ...untested }, { key: 'key-two', ...untested }]);
+    await request.put(`${STUB}/config`, { data: { callsPerMinute: 1 } });
+
+    await openChart(page);
+    await page.locator('#data-source-select').selectOption('alphavantage');
+    await expect(page.getByTestId('api-key-status')).toContainText('/2)', { timeout: 15000 });
+
+    await page.getByTestId('api-key-status').click();
+    const rows = page.getByTestId('api-keys-alphavantage').getByTestId('api-key-row');
+    await expect(rows.nth(0).getByTestId('api-key-row-status')).toHaveText('Rate limited');
+    await expect(rows.nth(1).getByTestId('api-key-row-status')).not.toHaveText('Not tested');
+  });
+});
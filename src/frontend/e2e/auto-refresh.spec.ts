@@ -0,0 +1,101 @@
+import { test, expect, type Page } from '@playwright/test';
+import { openChart, readLastBar, readQuotePrice, blockTradeStream, MARKET_OPEN_TIME } from './helpers';
+
+/**
+ * Pretend the tab was hidden or shown again
+ */
+async function setPageHidden(page: Page, hidden: boolean) {
+  await page.evaluate((value) => {
+    Object.defineProperty(document, 'hidden', { configurable: true, get: () => value });
+    document.dispatchEvent(new Event('visibilitychange'));
+  }, hidden);
+}
+
+test.describe('Auto-refresh', () => {
+
+  test.beforeEach(async ({ page }) => {
+    await openChart(page, { clearStorage: ['financeviz-auto-refresh', 'financeviz-refresh-interval'] });
+  });
+
+  test('should refresh every minute by default', async ({ page }) => {
+    const select = page.getByTestId('auto-refresh-select').first().locator('select');
+    await expect(select).toHaveValue('60');
+    await expect(select.locator('option')).toHaveText(['Refresh off', 'Every 5s', 'Every 15s', 'Every 30s', 'Every 60s']);
+  });
+
+  test('should persist the refresh interval', async ({ page }) => {
+    await page.getByTestId('auto-refresh-select').first().locator('select').selectOption('5');
+    await page.reload();
+    await expect(page.getByTestId('auto-refresh-select').first().locator('select')).toHaveValue('5');
+  });
+
+  test('should keep the interval while refresh is off', async ({ page }) => {
+    const select = page.getByTestId('auto-refresh-select').first().locator('select');
+    await select.selectOption('15');
+    await select.selectOption('off');
+    await page.reload();
+    await expect(select).toHaveValue('off');
+    expect(await page.evaluate(() => localStorage.getItem('financeviz-refresh-interval'))).toBe('15');
+  });
+
+  test('should refresh remote sources at most once a minute', async ({ page }) => {
+    const select = page.getByTestId('auto-refresh-select').first().locator('select');
+    await select.selectOption('5');
+    await page.locator('#data-source-select').selectOption('alphavantage');
+
+    await expect(select).toHaveValue('60');
+    await expect(select.locator('option[value="5"]')).toBeDisabled();
+    await expect(select.locator('option[value="30"]')).toBeDisabled();
+  });
+});
+
+/**
+ * Refresh timing, at a fixed time during trading hours with the trade
+ * feed blocked, so only refreshes add bars to the mock series
+ */
+test.describe('Auto-refresh Timing', () => {
+
+  test.beforeEach(async ({ page }) => {
+    await page.clock.install({ time: MARKET_OPEN_TIME });
+    await blockTradeStream(page);
+    await openChart(page, { clearStorage: ['financeviz-auto-refresh', 'financeviz-refresh-interval'] });
+  });
+
+  test('should add new bars on the interval', async ({ page }) => {
+    const before = await readLastBar(page);
+
+    await page.clock.fastForward('05:00');
+
+    await expect.poll(async () => (await readLastBar(page)).time).not.toBe(before.time);
+  });
+
+  test('should update the quote in place', async ({ page }) => {
+    const before = await readQuotePrice(page);
+
+    await page.clock.fastForward('05:00');
+
+    await expect.poll(() => readQuotePrice(page)).not.toBe(before);
+  });
+
+  test('should not refresh while turned off', async ({ page }) => {
+    await page.getByTestId('auto-refresh-select').first().locator('select').selectOption('off');
+    const before = await readLastBar(page);
+
+    await page.clock.fastForward('05:00');
+    await page.waitForTimeout(500);
+
+    expect((await readLastBar(page)).time).toBe(before.time);
+  });
+
+  test('should pause while the tab is hidden and catch up when shown', async ({ page }) => {
+    const before = await readLastBar(page);
+
+    await setPageHidden(page, true);
+    await page.clock.fastForward('05:00');
+    await page.waitForTimeout(500);
+    expect((await readLastBar(page)).time).toBe(before.time);
+
+    await setPageHidden(page, false);
+    await expect.poll(async () => (await readLastBar(page)).time).not.toBe(before.time);
+  });
+});
@@ -0,0 +1,31 @@
+import { test, expect } from '@playwright/test';
+import { openChart, selectSymbol } from './helpers';
+
+test.describe('Crypto and FX Pairs', () => {
+
+  test.beforeEach(async ({ page }) => {
+    await openChart(page);
+  });
+
+  test('should list crypto and forex pairs in search', async ({ page }) => {
+    await page.getByLabel('Search symbols').fill('USD');
+    await expect(page.getByRole('option').filter({ hasText: 'BTC/USD' })).toContainText('Crypto');
+    await expect(page.getByRole('option').filter({ hasText: 'EUR/USD' })).toContainText('Forex');
+  });
+
+  test('should chart a crypto pair in its quote currency', async ({ page }) => {
+    await selectSymbol(page, 'BTC', 'BTC/USD');
+    await expect(page.getByText(/\$[\d,]+\.\d{2}$/).first()).toBeVisible();
+    await expect(page.getByTestId('legend-currency')).toHaveText('USD');
+  });
+
+  test('should show FX rates with pip precision and no volume', async ({ page }) => {
+    await selectSymbol(page, 'EUR', 'EUR/USD');
+    await expect(page.getByText(/^\$1\.\d{5}$/).first()).toBeVisible();
+    await expect(page.getByText('Volume:')).toHaveCount(0);
+
+    await selectSymbol(page, 'JPY', 'USD/JPY');
+    await expect(page.getByText(/^¥\d+\.\d{3}$/).first()).toBeVisible();
+  });
+
+});
@@ -0,0 +1,43 @@
+import { test, expect } from '@playwright/test';
+import { openChart } from './helpers';
+
+test.describe('Custom Intervals', () => {
+
+  test.beforeEach(async ({ page }) => {
+    await openChart(page, { clearStorage: ['financeviz-custom-intervals'] });
+  });
+
+  test('should offer resampled intervals for intraday ranges', async ({ page }) => {
+    const select = page.getByTestId('interval-select').first().locator('select').first();
+    await select.selectOption('10min');
+
+    await expect(select).toHaveValue('10min');
+    await expect(page.locator('canvas').first()).toBeVisible();
+  });
+
+  test('should reject an interval that already exists', async ({ page }) => {
+    await page.getByTestId('custom-interval-button').first().click();
+    await page.getByTestId('custom-interval-count').fill('1');
+    await page.getByTestId('custom-interval-unit').selectOption('h');
+    await page.getByTestId('custom-interval-add').click();
+
+    await expect(page.getByTestId('custom-interval-error')).toContainText('already available');
+  });
+
+  test('should add, select and remove a user-defined interval', async ({ page }) => {
+    const select = page.getByTestId('interval-select').first().locator('select').first();
+
+    await page.getByTestId('custom-interval-button').first().click();
+    await page.getByTestId('custom-interval-count').fill('3');
+    await page.getByTestId('custom-interval-unit').selectOption('min');
+    await page.getByTestId('custom-interval-add').click();
+
+    await expect(page.getByTestId('custom-interval-popover')).toBeHidden();
+    await expect(select).toHaveValue('3min');
+
+    await page.getByTestId('custom-interval-button').first().click();
+    await page.getByTestId('custom-interval-remove-3min').click();
+    await expect(select).toHaveValue('5min');
+  });
+
+});
@@ -0,0 +1,63 @@
+import { test, expect } from '@playwright/test';
+import { openChart, readFirstBar, readLastBar } from './helpers';
+
+test.describe('Custom Date Range', () => {
+
+  test.beforeEach(async ({ page }) => {
+    await openChart(page);
+  });
+
+  test('should reject an end date before the start date', async ({ page }) => {
+    await page.getByTestId('custom-range-button').first().click();
+    await page.getByTestId('custom-range-start').fill('2024-06-10');
+    await page.getByTestId('custom-range-end').fill('2024-06-01');
+    await page.getByTestId('custom-range-apply').click();
+
+    await expect(page.getByTestId('custom-range-error')).toContainText('End date must be after start date');
+    await expect(page.getByTestId('custom-range-popover')).toBeVisible();
+  });
+
+  test('should reject ranges starting more than 20 years back', async ({ page }) => {
+    await page.getByTestId('custom-range-button').first().click();
+    await page.getByTestId('custom-range-start').fill('2000-01-01');
+    await page.getByTestId('custom-range-end').fill('2024-01-01');
+    await page.getByTestId('custom-range-apply').click();
+
+    await expect(page.getByTestId('custom-range-error')).toContainText('20 years');
+  });
+
+  test('should chart a range reaching far back', async ({ page }) => {
+    const startYear = new Date().getFullYear() - 19;
+    await page.getByTestId('custom-range-button').first().click();
+    await page.getByTestId('custom-range-start').fill(`${startYear}-03-01`);
+    await page.getByTestId('custom-range-end').fill(`${startYear + 18}-12-31`);
+    await page.getByTestId('custom-range-apply').click();
+
+    await expect(page.getByTestId('custom-range-popover')).toBeHidden();
+    await expect.poll(async () => (await readFirstBar(page)).time).toContain(String(startYear));
+  });
+
+  test('should apply a valid range and pick an interval for its span', async ({ page }) => {
+    await page.getByTestId('custom-range-button').first().click();
+    await page.getByTestId('custom-range-start').fill('2024-01-01');
+    await page.getByTestId('custom-range-end').fill('2024-06-30');
+    await page.getByTestId('custom-range-apply').click();
+
+    await expect(page.getByTestId('custom-range-popover')).toBeHidden();
+    await expect(page.getByTestId('custom-range-button').first()).toHaveAttribute('aria-pressed', 'true');
+    await expect(page.getByTestId('interval-select').first().locator('select')).toHaveValue('daily');
+    await expect(page.locator('canvas').first()).toBeVisible();
+  });
+
+  test('should chart the whole range', async ({ page }) => {
+    await page.getByTestId('custom-range-button').first().click();
+    await page.getByTestId('custom-range-start').fill('2024-01-01');
+    await page.getByTestId('custom-range-end').fill('2024-06-30');
+    await page.getByTestId('custom-range-apply').click();
+
+    // First and last trading days of the range
+    await expect.poll(async () => (await readFirstBar(page)).time).toContain('Jan 2, 2024');
+    expect((await readLastBar(page)).time).toContain('Jun 28, 2024');
+  });
+
+});
@@ -0,0 +1,40 @@
+import { test, expect } from '@playwright/test';
+import { openChart } from './helpers';
+
+test.describe('Data Quality Report', () => {
+
+  test.beforeEach(async ({ page }) => {
+    await openChart(page, { clearStorage: ['financeviz-adjusted-prices'] });
+  });
+
+  test('should not show a badge for a clean series', async ({ page }) => {
+    await page.getByRole('button', { name: '1Y' }).first().click();
+    await expect(page.getByTestId('data-quality-badge')).toHaveCount(0);
+  });
+
+  test('should flag the unadjusted split as a price spike', async ({ page }) => {
+    await page.getByRole('button', { name: 'MAX' }).first().click();
+    const badge = page.getByTestId('data-quality-badge');
+    await expect(badge).toBeVisible();
+
+    await badge.click();
+    const panel = page.getByTestId('data-quality-panel');
+    await expect(panel).toBeVisible();
+    await expect(page.getByTestId('data-quality-count-spike')).toBeVisible();
+
+    await panel.getByTestId('data-quality-jump').first().click();
+    await expect(page.locator('canvas').first()).toBeVisible();
+
+    await panel.getByRole('button', { name: 'Close data quality panel' }).click();
+    await expect(panel).toHaveCount(0);
+  });
+
+  test('should clear the spike when prices are adjusted', async ({ page }) => {
+    await page.getByRole('button', { name: 'MAX' }).first().click();
+    await expect(page.getByTestId('data-quality-badge')).toBeVisible();
+
+    await page.getByTestId('adjusted-prices-toggle').first().click();
+    await expect(page.getByTestId('data-quality-badge')).toHaveCount(0);
+  });
+
+});
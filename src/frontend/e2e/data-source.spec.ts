@@ -0,0 +1,41 @@
+import { test, expect } from '@playwright/test';
+import { openChart } from './helpers';
+
+/**
+ * Provider selection; Alpha Vantage requests go to the local stub server
+ * the Playwright config points the client at
+ */
+test.describe('Data Source', () => {
+
+  test.beforeEach(async ({ page }) => {
+    await openChart(page, { clearStorage: ['financeviz-data-source'] });
+  });
+
+  test('should list every registered provider', async ({ page }) => {
+    const select = page.locator('#data-source-select');
+    await expect(select).toHaveValue('mock');
+    await expect(select.locator('option')).toHaveText([
+      'Mock Data',
+      /^Alpha Vantage API/,
+      /^Finnhub API/,
+      /^Alpha Vantage \(recorded\)/,
+    ]);
+  });
+
+  test('should load data from the selected provider', async ({ page }) => {
+    const request = page.waitForRequest(/\/__stub\/alphavantage\/query\?.*function=/);
+    await page.locator('#data-source-select').selectOption('alphavantage');
+
+    await request;
+    await expect(page.locator('canvas').first()).toBeVisible({ timeout: 15000 });
+    await expect(page.getByText(/Showing mock data/)).toHaveCount(0);
+  });
+
+  test('should remember the data source after reload', async ({ page }) => {
+    await page.locator('#data-source-select').selectOption('finnhub');
+    await page.reload();
+
+    await expect(page.locator('#data-source-select')).toHaveValue('finnhub');
+  });
+
+});
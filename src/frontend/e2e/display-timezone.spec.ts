@@ -0,0 +1,50 @@
+import { test, expect } from '@playwright/test';
+import { openChart, selectSymbol, readLegendAt } from './helpers';
+
+test.describe('Display Timezone', () => {
+
+  test.beforeEach(async ({ page }) => {
+    await openChart(page, { clearStorage: ['financeviz-display-timezone'] });
+  });
+
+  test('should show the hovered bar time in the selected timezone', async ({ page }) => {
+    await page.getByTestId('timezone-select').first().locator('select').selectOption('UTC');
+
+    const bar = await readLegendAt(page, 0.5);
+    expect(bar.time).toContain('UTC');
+  });
+
+  test('should remember the selected timezone after reload', async ({ page }) => {
+    const select = page.getByTestId('timezone-select').first().locator('select');
+    await select.selectOption('local');
+    await page.reload();
+
+    await expect(page.getByTestId('timezone-select').first().locator('select')).toHaveValue('local');
+  });
+
+  test('should show daily bars as dates', async ({ page }) => {
+    await page.getByRole('button', { name: '1Y' }).first().click();
+    await page.getByTestId('timezone-select').first().locator('select').selectOption('UTC');
+
+    const bar = await readLegendAt(page, 0.5);
+    expect(bar.time).not.toMatch(/\d{2}:\d{2}/);
+  });
+
+  test('should show a time on intraday bars at UTC midnight', async ({ page }) => {
+    await selectSymbol(page, 'BTC', 'BTC/USD');
+    await page.getByRole('button', { name: '5D' }).first().click();
+    await page.getByTestId('interval-select').first().locator('select').first().selectOption('2h');
+    await page.getByTestId('timezone-select').first().locator('select').selectOption('UTC');
+
+    // Two-hour crypto bars include one at 00:00 UTC every day
+    const times = new Set<string>();
+    for (let i = 1; i < 100; i++) {
+      times.add((await readLegendAt(page, i / 100)).time);
+    }
+    expect([...times].some((time) => time.includes('00:00'))).toBe(true);
+    for (const time of times) {
+      expect(time).toMatch(/\d{2}:\d{2}/);
+    }
+  });
+
+});
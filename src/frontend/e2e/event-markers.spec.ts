@@ -0,0 +1,50 @@
+import { test, expect } from '@playwright/test';
+import { openChart } from './helpers';
+
+test.describe('Event Markers', () => {
+
+  test.beforeEach(async ({ page }) => {
+    await openChart(page, { clearStorage: ['financeviz-event-visibility'] });
+  });
+
+  test('should list every event type, enabled by default', async ({ page }) => {
+    await page.getByTestId('events-menu-button').first().click();
+    await expect(page.getByTestId('events-menu')).toBeVisible();
+
+    for (const type of ['earnings', 'dividend', 'split']) {
+      await expect(page.getByTestId(`event-toggle-${type}`)).toBeChecked();
+    }
+  });
+
+  test('should place quarterly earnings and dividends on the chart', async ({ page }) => {
+    // AAPL reports and pays out every quarter; a year holds four of each
+    await page.getByRole('button', { name: '1Y' }).first().click();
+    const markers = page.getByTestId('event-marker-list');
+    await expect.poll(() => markers.getByTestId('event-marker-earnings').count()).toBeGreaterThanOrEqual(3);
+    await expect(markers.getByTestId('event-marker-earnings').first()).toHaveText(/^Earnings · .+: EPS/);
+    await expect.poll(() => markers.getByTestId('event-marker-dividend').count()).toBeGreaterThanOrEqual(3);
+    await expect(markers.getByTestId('event-marker-dividend').first()).toHaveText(/\$0\.25 per share/);
+  });
+
+  test('should remove the markers of hidden event types', async ({ page }) => {
+    await page.getByRole('button', { name: '1Y' }).first().click();
+    const markers = page.getByTestId('event-marker-list');
+    await expect(markers.getByTestId('event-marker-earnings').first()).toBeAttached();
+
+    await page.getByTestId('events-menu-button').first().click();
+    await page.getByTestId('event-toggle-earnings').uncheck();
+    await expect(markers.getByTestId('event-marker-earnings')).toHaveCount(0);
+    await expect(markers.getByTestId('event-marker-dividend').first()).toBeAttached();
+  });
+
+  test('should remember hidden event types across reloads', async ({ page }) => {
+    await page.getByTestId('events-menu-button').first().click();
+    await page.getByTestId('event-toggle-earnings').uncheck();
+    await page.reload();
+
+    await page.getByTestId('events-menu-button').first().click();
+    await expect(page.getByTestId('event-toggle-earnings')).not.toBeChecked();
+    await expect(page.getByTestId('event-toggle-dividend')).toBeChecked();
+  });
+
+});
@@ -0,0 +1,35 @@
+import { test, expect } from '@playwright/test';
+import { openChart, readLegendAt } from './helpers';
+
+test.describe('Extended Hours', () => {
+
+  test.beforeEach(async ({ page }) => {
+    await openChart(page, { clearStorage: ['financeviz-extended-hours'] });
+  });
+
+  test('should toggle extended hours on intraday intervals', async ({ page }) => {
+    const toggle = page.getByTestId('extended-hours-toggle').first();
+    await expect(toggle).toHaveAttribute('aria-pressed', 'false');
+
+    await toggle.click();
+    await expect(toggle).toHaveAttribute('aria-pressed', 'true');
+    await expect(page.locator('canvas').first()).toBeVisible();
+  });
+
+  test('should add pre-market bars when turned on', async ({ page }) => {
+    // The 1D chart opens on the regular session
+    await readLegendAt(page, 0.01);
+    await expect(page.getByTestId('legend-session')).toHaveCount(0);
+
+    await page.getByTestId('extended-hours-toggle').first().click();
+    await page.mouse.move(0, 0);
+    await readLegendAt(page, 0.01);
+    await expect(page.getByTestId('legend-session')).toHaveText('Pre');
+  });
+
+  test('should disable the toggle for daily intervals', async ({ page }) => {
+    await page.getByRole('button', { name: '1Y' }).first().click();
+    await expect(page.getByTestId('extended-hours-toggle').first()).toBeDisabled();
+  });
+
+});
@@ -0,0 +1,34 @@
+import { test, expect } from '@playwright/test';
+import { openChart, selectSymbol } from './helpers';
+
+/**
+ * Runs the Finnhub provider against the recorded responses
+ * (dev/fixtures/finnhub) the Playwright config points it at
+ */
+test.describe('Finnhub Provider', () => {
+
+  test.beforeEach(async ({ page }) => {
+    await openChart(page, { clearStorage: ['financeviz-data-source'] });
+    await page.locator('#data-source-select').selectOption('finnhub');
+  });
+
+  test('should show the recorded quote', async ({ page }) => {
+    await expect(page.getByTestId('quote-price')).toHaveText('$188.46', { timeout: 15000 });
+    await expect(page.getByText(/Showing mock data/)).toHaveCount(0);
+  });
+
+  test('should chart recorded candles', async ({ page }) => {
+    await page.getByRole('button', { name: '1Y' }).first().click();
+
+    await expect(page.locator('canvas').first()).toBeVisible({ timeout: 15000 });
+    await expect(page.getByText('Error Loading Chart')).toHaveCount(0);
+    await expect(page.getByText(/Showing mock data/)).toHaveCount(0);
+  });
+
+  test('should switch to another recorded symbol', async ({ page }) => {
+    await selectSymbol(page, 'MSFT', 'MSFT');
+
+    await expect(page.getByTestId('quote-price')).toHaveText('$477.44', { timeout: 15000 });
+  });
+
+});
@@ -0,0 +1,128 @@
+import { expect, type Page } from '@playwright/test';
+
+/**
+ * Shared page setup and chart readers for the e2e specs
+ */
+
+/** Wed Oct 14 2026, 15:00 ET: regular US trading hours */
+export const MARKET_OPEN_TIME = new Date('2026-10-14T19:00:00Z');
+
+interface OpenChartOptions {
+  /** localStorage keys to clear before the chart loads */
+  clearStorage?: string[];
+}
+
+/**
+ * Values the legend shows for a hovered bar
+ */
+export interface LegendBar {
+  time: string;
+  open: number;
+  high: number;
+  low: number;
+  close: number;
+}
+
+/**
+ * Wait for the main chart to be drawn
+ */
+export async function waitForChart(page: Page) {
+  await expect(page.locator('canvas').first()).toBeVisible({ timeout: 10000 });
+}
+
+/**
+ * Open the app at desktop size and wait for the chart
+ */
+export async function openChart(page: Page, { clearStorage = [] }: OpenChartOptions = {}) {
+  await page.setViewportSize({ width: 1280, height: 900 });
+  await page.goto('/');
+  if (clearStorage.length > 0) {
+    await page.evaluate((keys) => keys.forEach((key) => localStorage.removeItem(key)), clearStorage);
+    await page.reload();
+  }
+  await waitForChart(page);
+}
+
+/**
+ * Select a symbol through the search box
+ */
+export async function selectSymbol(page: Page, query: string, symbol: string) {
+  await page.getByLabel('Search symbols').fill(query);
+  await page.getByRole('option').filter({ hasText: symbol }).first().click();
+  await expect(page.getByRole('heading', { level: 1 })).toHaveText(symbol);
+}
+
+/**
+ * Read the price shown in the quote header
+ */
+export async function readQuotePrice(page: Page): Promise<number> {
+  const text = await page.getByTestId('quote-price').textContent();
+  return parseFloat((text ?? '').replace(/[^\d.]/g, ''));
+}
+
+/**
+ * Hover the main chart at a fraction of its plot width (0 = left edge,
+ * 1 = right edge) and read the legend
+ */
+export async function readLegendAt(page: Page, fraction: number): Promise<LegendBar> {
+  const box = await page.locator('canvas').first().boundingBox();
+  expect(box).not.toBeNull();
+  await page.mouse.move(box!.x + box!.width * fraction, box!.y + box!.height / 2);
+
+  const time = page.getByTestId('legend-time');
+  await expect(time).toBeVisible();
+  const text = (await time.locator('..').textContent()) ?? '';
+  const value = (label: string) => parseFloat(text.match(new RegExp(`${label}:\\s*([\\d.]+)`))?.[1] ?? 'NaN');
+  return {
+    time: (await time.textContent()) ?? '',
+    open: value('O'),
+    high: value('H'),
+    low: value('L'),
+    close: value('C'),
+  };
+}
+
+/**
+ * Read the oldest bar of a chart that fits its data
+ */
+export async function readFirstBar(page: Page): Promise<LegendBar> {
+  return readLegendAt(page, 0.002);
+}
+
+/**
+ * Read the newest bar of a chart that fits its data
+ */
+export async function readLastBar(page: Page): Promise<LegendBar> {
+  return readLegendAt(page, 0.995);
+}
+
+/**
+ * Keep the dev server's mock trade feed from connecting, so bars change
+ * only through fetches
+ */
+export async function blockTradeStream(page: Page) {
+  await page.routeWebSocket(/\/__stream\/trades/, (ws) => ws.close());
+}
+
+/**
+ * Zoom the main chart around its center; negative steps zoom in
+ */
+export async function zoomChart(page: Page, steps: number) {
+  const box = await page.locator('canvas').first().boundingBox();
+  expect(box).not.toBeNull();
+  await page.mouse.move(box!.x + box!.width / 2, box!.y + box!.height / 2);
+  await page.mouse.wheel(0, steps * 100);
+}
+
+/**
+ * Drag the main chart sideways; positive distances scroll back in time
+ */
+export async function dragChart(page: Page, distance: number) {
+  const box = await page.locator('canvas').first().boundingBox();
+  expect(box).not.toBeNull();
+  const y = box!.y + box!.height / 2;
+  await page.mouse.move(box!.x + box!.width / 2, y);
+  await page.mouse.down();
+  await page.mouse.move(box!.x + box!.width / 2 + distance, y, { steps: 10 });
+  await page.mouse.up();
+}
@@ -0,0 +1,59 @@
+import { test, expect, type Page } from '@playwright/test';
+import { openChart } from './helpers';
+
+test.describe('Oscillator Indicator Panes', () => {
+
+  test.beforeEach(async ({ page }) => {
+    await openChart(page);
+  });
+
+  async function addOscillator(page: Page, type: string) {
+    await page.getByTestId('indicators-button').first().click();
+    await page.getByTestId(`indicator-item-${type}`).click();
+  }
+
+  test('should mount a pane below the chart for each oscillator', async ({ page }) => {
+    await addOscillator(page, 'rsi');
+    await expect(page.getByTestId('indicator-pane-rsi')).toBeVisible();
+
+    await addOscillator(page, 'macd');
+    await expect(page.getByTestId('indicator-pane-macd')).toBeVisible();
+
+    // One drag handle per pane
+    await expect(page.getByTestId('pane-resize-handle')).toHaveCount(2);
+  });
+
+  test('should resize a pane when dragging its handle', async ({ page }) => {
+    await addOscillator(page, 'rsi');
+    const pane = page.getByTestId('indicator-pane-rsi');
+    await expect(pane).toBeVisible();
+
+    const before = await pane.boundingBox();
+    const handle = await page.getByTestId('pane-resize-handle').boundingBox();
+    expect(before).not.toBeNull();
+    expect(handle).not.toBeNull();
+
+    // Drag the handle upwards to grow the pane
+    const x = handle!.x + handle!.width / 2;
+    const y = handle!.y + handle!.height / 2;
+    await page.mouse.move(x, y);
+    await page.mouse.down();
+    await page.mouse.move(x, y - 80, { steps: 5 });
+    await page.mouse.up();
+
+    await expect.poll(async () => (await pane.boundingBox())?.height ?? 0).toBeGreaterThan(before!.height);
+  });
+
+  test('should keep main chart and pane plot areas aligned', async ({ page }) => {
+    await addOscillator(page, 'rsi');
+    const pane = page.getByTestId('indicator-pane-rsi');
+    await expect(pane).toBeVisible();
+
+    const mainCanvas = await page.locator('canvas').first().boundingBox();
+    const paneCanvas = await pane.locator('canvas').first().boundingBox();
+    expect(mainCanvas).not.toBeNull();
+    expect(paneCanvas).not.toBeNull();
+    expect(Math.abs(mainCanvas!.x - paneCanvas!.x)).toBeLessThanOrEqual(1);
+  });
+
+});
@@ -0,0 +1,65 @@
+import { test, expect } from '@playwright/test';
+import { openChart, selectSymbol, readLegendAt, readLastBar, dragChart } from './helpers';
+
+/**
+ * Live trades from the dev server's mock trade feed. Crypto trades around
+ * the clock, so BTC/USD streams whenever the tests run.
+ */
+test.describe('Live Trade Stream', () => {
+
+  test.beforeEach(async ({ page }) => {
+    await openChart(page);
+    await selectSymbol(page, 'BTC', 'BTC/USD');
+  });
+
+  test('should mark the quote as live', async ({ page }) => {
+    await expect(page.getByTestId('live-indicator')).toBeVisible({ timeout: 10000 });
+  });
+
+  test('should update the price between refreshes', async ({ page }) => {
+    await expect(page.getByTestId('live-indicator')).toBeVisible({ timeout: 10000 });
+    const price = page.getByTestId('quote-price');
+    const initial = await price.textContent();
+
+    // Refreshes stop while the stream is open; trades arrive every second
+    await expect(price).not.toHaveText(initial ?? '', { timeout: 8000 });
+  });
+
+  test('should update the forming bar on the chart', async ({ page }) => {
+    await expect(page.getByTestId('live-indicator')).toBeVisible({ timeout: 10000 });
+    const before = await readLastBar(page);
+
+    await expect
+      .poll(async () => {
+        const bar = await readLastBar(page);
+        return bar.time !== before.time || bar.close !== before.close;
+      }, { timeout: 8000 })
+      .toBe(true);
+  });
+
+  test.describe('at one-minute bars', () => {
+    // Waits for a new minute
+    test.setTimeout(90000);
+
+    test.beforeEach(async ({ page }) => {
+      await page.getByTestId('interval-select').first().locator('select').first().selectOption('1min');
+      await expect(page.getByTestId('live-indicator')).toBeVisible({ timeout: 10000 });
+    });
+
+    test('should open a new bar each minute', async ({ page }) => {
+      const before = await readLastBar(page);
+
+      await expect.poll(async () => (await readLastBar(page)).time, { timeout: 70000 }).not.toBe(before.time);
+    });
+
+    test('should not move a view scrolled back in time', async ({ page }) => {
+      await dragChart(page, 300);
+      const left = await readLegendAt(page, 0.01);
+
+      // Let a new bar open
+      await page.waitForTimeout(62000);
+
+      expect((await readLegendAt(page, 0.01)).time).toBe(left.time);
+    });
+  });
+});
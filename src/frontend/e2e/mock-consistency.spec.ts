@@ -0,0 +1,45 @@
+import { test, expect } from '@playwright/test';
+import { openChart, readLastBar, blockTradeStream, MARKET_OPEN_TIME } from './helpers';
+
+/**
+ * Parse a dollar amount shown in the quote header
+ */
+function parseDollars(text: string | null): number {
+  return parseFloat((text ?? '').replace(/[^\d.]/g, ''));
+}
+
+test.describe('Mock Data Consistency', () => {
+
+  test('should quote the same previous close on every load', async ({ page }) => {
+    await openChart(page);
+    const previousClose = page.getByText('Prev Close:', { exact: true }).locator('..');
+    await expect(previousClose).toContainText('$');
+    const first = await previousClose.textContent();
+
+    await page.reload();
+    await expect(page.locator('canvas').first()).toBeVisible({ timeout: 10000 });
+    await expect(previousClose).toHaveText(first ?? '');
+  });
+
+  test('should quote the session traded so far in the chart', async ({ page }) => {
+    // Mid-session with the trade feed blocked, so the quote and the bars
+    // are both read from the canonical path at the same moment
+    await page.clock.install({ time: MARKET_OPEN_TIME });
+    await blockTradeStream(page);
+    await openChart(page);
+
+    const quotePrice = page.getByTestId('quote-price');
+    await expect(quotePrice).toContainText('$');
+    const price = parseDollars(await quotePrice.textContent());
+    const open = parseDollars(await page.getByText('Open:', { exact: true }).locator('..').textContent());
+
+    expect((await readLastBar(page)).close).toBe(price);
+
+    await page.getByRole('button', { name: '1M' }).first().click();
+    await expect.poll(async () => (await readLastBar(page)).time).toMatch(/, \d{4}$/);
+    const daily = await readLastBar(page);
+    expect(daily.open).toBe(open);
+    expect(daily.close).toBe(price);
+  });
+
+});
@@ -0,0 +1,34 @@
+import { test, expect } from '@playwright/test';
+import { openChart, selectSymbol, readQuotePrice } from './helpers';
+
+test.describe('Mock Universe', () => {
+
+  test.beforeEach(async ({ page }) => {
+    await openChart(page);
+  });
+
+  test('should chart searchable symbols with their own prices', async ({ page }) => {
+    const previousClose = page.getByText('Prev Close:', { exact: true }).locator('..');
+    await expect(previousClose).toContainText('$');
+    const applePreviousClose = await previousClose.textContent();
+
+    await selectSymbol(page, 'NVDA', 'NVDA');
+    await expect(page.getByText('NVIDIA Corporation')).toBeVisible();
+    await expect(previousClose).not.toHaveText(applePreviousClose ?? '');
+  });
+
+  test('should chart ETFs and indices at their own levels', async ({ page }) => {
+    await selectSymbol(page, 'SPY', 'SPY');
+    await expect(page.getByText('SPDR S&P 500 ETF Trust')).toBeVisible();
+    await expect(page.getByTestId('quote-price')).toContainText('$');
+    const etfPrice = await readQuotePrice(page);
+    expect(etfPrice).toBeLessThan(1000);
+
+    // Index levels run in the thousands
+    await selectSymbol(page, 'S&P', '^GSPC');
+    await expect(page.getByText('S&P 500', { exact: true })).toBeVisible();
+    await expect.poll(() => readQuotePrice(page)).toBeGreaterThan(1000);
+    await expect(page.getByText('Error Loading Chart')).toHaveCount(0);
+  });
+
+});
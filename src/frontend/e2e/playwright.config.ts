@@ -22,5 +22,11 @@ export default defineConfig({
     url: 'http://localhost:5173',
     reuseExistingServer: !process.env.CI,
     cwd: '..',
+    // Alpha Vantage requests go to the local stub (dev/alphaVantageStubServer.ts),
+    // Finnhub requests to recorded responses (dev/finnhubFixtureServer.ts)
+    env: {
+      VITE_ALPHA_VANTAGE_BASE_URL: '/__stub/alphavantage/query',
+      VITE_FINNHUB_BASE_URL: '/__fixtures/finnhub',
+    },
   },
 });
@@ -0,0 +1,35 @@
+import { test, expect } from '@playwright/test';
+import { openChart } from './helpers';
+
+test.describe('Quote Details Panel', () => {
+
+  test.beforeEach(async ({ page }) => {
+    await openChart(page);
+  });
+
+  test('should expand and collapse the details panel', async ({ page }) => {
+    const toggle = page.getByTestId('quote-details-toggle');
+    await expect(toggle).toHaveAttribute('aria-expanded', 'false');
+    await expect(page.getByTestId('quote-details-panel')).toHaveCount(0);
+
+    await toggle.click();
+    await expect(toggle).toHaveAttribute('aria-expanded', 'true');
+    await expect(page.getByTestId('quote-details-panel')).toBeVisible();
+
+    await toggle.click();
+    await expect(page.getByTestId('quote-details-panel')).toHaveCount(0);
+  });
+
+  test('should show fundamentals and the 52-week range', async ({ page }) => {
+    await page.getByTestId('quote-details-toggle').click();
+    const panel = page.getByTestId('quote-details-panel');
+
+    for (const label of ['Previous Close', 'Day Range', 'Market Cap', 'P/E Ratio (TTM)', 'EPS (TTM)', 'Dividend Yield', 'Beta']) {
+      await expect(panel.getByText(label, { exact: true })).toBeVisible();
+    }
+    await expect(panel.getByText(/\$[\d.]+T/)).toBeVisible();
+    await expect(page.getByTestId('week52-range-bar')).toBeVisible();
+    await expect(page.getByTestId('week52-range-marker')).toBeVisible();
+  });
+
+});
@@ -0,0 +1,56 @@
+import { test, expect } from '@playwright/test';
+import {
+  openChart,
+  selectSymbol,
+  readLegendAt,
+  readLastBar,
+  blockTradeStream,
+  zoomChart,
+  MARKET_OPEN_TIME,
+} from './helpers';
+
+/**
+ * Refreshed bars of the shown series update the chart in place; another
+ * series replaces it. Runs at a fixed time during regular trading hours
+ * with the trade feed blocked, so only auto-refresh adds bars.
+ */
+
+test.describe('Series Updates', () => {
+
+  test.beforeEach(async ({ page }) => {
+    await page.clock.install({ time: MARKET_OPEN_TIME });
+    await blockTradeStream(page);
+    await openChart(page, { clearStorage: ['financeviz-auto-refresh', 'financeviz-refresh-interval'] });
+  });
+
+  test('should append the newest bar on refresh', async ({ page }) => {
+    const before = await readLastBar(page);
+
+    await page.clock.fastForward('05:00');
+
+    await expect.poll(async () => (await readLastBar(page)).time).not.toBe(before.time);
+  });
+
+  test('should keep the zoom when bars are refreshed', async ({ page }) => {
+    await zoomChart(page, -5);
+    const left = await readLegendAt(page, 0.01);
+
+    await page.clock.fastForward('05:00');
+    // Let the refreshed bars render
+    await page.waitForTimeout(500);
+
+    expect((await readLegendAt(page, 0.01)).time).toBe(left.time);
+  });
+
+  test('should show the whole series of a new symbol', async ({ page }) => {
+    const first = await readLegendAt(page, 0.01);
+    await zoomChart(page, -5);
+    expect((await readLegendAt(page, 0.01)).time).not.toBe(first.time);
+
+    // MSFT has bars at the same times, but is not an update of AAPL
+    await selectSymbol(page, 'MSFT', 'MSFT');
+
+    await expect.poll(async () => (await readLegendAt(page, 0.01)).time).toBe(first.time);
+  });
+
+});
@@ -0,0 +1,42 @@
+import { test, expect } from '@playwright/test';
+import { openChart, readFirstBar } from './helpers';
+
+test.describe('Market Simulator', () => {
+
+  test.beforeEach(async ({ page }) => {
+    await openChart(page, { clearStorage: ['financeviz-simulation-scenarios'] });
+  });
+
+  test('should pick a scenario for the current symbol', async ({ page }) => {
+    await page.getByTestId('simulator-toggle').click();
+    const panel = page.getByTestId('simulator-panel');
+    await expect(panel).toBeVisible();
+    await expect(page.getByTestId('simulator-scenario-select')).toHaveValue('default');
+
+    await page.getByTestId('simulator-scenario-select').selectOption('flash-crash');
+    await expect(page.getByTestId('simulator-scenario-description')).toContainText('crash');
+    await expect(page.getByTestId('simulator-toggle')).toContainText('Flash crash');
+    await expect(page.locator('canvas').first()).toBeVisible();
+  });
+
+  test('should redraw the series under the chosen scenario', async ({ page }) => {
+    // Paths end at the same latest close, so the crash 60 sessions ago,
+    // only two thirds recovered, leaves the year's start higher
+    await page.getByRole('button', { name: '1Y' }).first().click();
+    const before = await readFirstBar(page);
+
+    await page.getByTestId('simulator-toggle').click();
+    await page.getByTestId('simulator-scenario-select').selectOption('flash-crash');
+    await expect.poll(async () => (await readFirstBar(page)).close).toBeGreaterThan(before.close * 1.02);
+  });
+
+  test('should keep the scenario choice across reloads', async ({ page }) => {
+    await page.getByTestId('simulator-toggle').click();
+    await page.getByTestId('simulator-scenario-select').selectOption('volatility-clustering');
+
+    await page.reload();
+    await page.getByTestId('simulator-toggle').click();
+    await expect(page.getByTestId('simulator-scenario-select')).toHaveValue('volatility-clustering');
+  });
+
+});
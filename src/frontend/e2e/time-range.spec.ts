@@ -0,0 +1,40 @@
+import { test, expect } from '@playwright/test';
+import { openChart, readFirstBar } from './helpers';
+
+const MS_PER_DAY = 24 * 60 * 60 * 1000;
+
+/** Preset ranges and the months they span */
+const RANGES = [
+  ['6M', 6],
+  ['1Y', 12],
+] as const;
+
+/**
+ * Both data sources slice their series to the selected range; Alpha Vantage
+ * requests go to the local stub server the Playwright config points at
+ */
+test.describe('Time Range', () => {
+  // Alpha Vantage calls may wait for the client's per-minute budget
+  test.setTimeout(90000);
+
+  for (const dataSource of ['mock', 'alphavantage']) {
+    test(`should start ${dataSource} series at the start of the range`, async ({ page }) => {
+      await openChart(page, { clearStorage: ['financeviz-data-source'] });
+      await page.locator('#data-source-select').selectOption(dataSource);
+
+      for (const [range, months] of RANGES) {
+        await page.getByRole('button', { name: range }).first().click();
+        const start = new Date();
+        start.setMonth(start.getMonth() - months);
+
+        // Within a week, for weekends and holidays at the start
+        await expect
+          .poll(async () => Math.abs(Date.parse((await readFirstBar(page)).time) - start.getTime()) / MS_PER_DAY, {
+            timeout: 65000,
+          })
+          .toBeLessThan(7);
+      }
+    });
+  }
+
+});
@@ -0,0 +1,50 @@
+import { test, expect } from '@playwright/test';
+import { openChart, readLegendAt, readLastBar, blockTradeStream } from './helpers';
+
+/**
+ * Mock sessions follow the NYSE calendar. Runs at fixed times with the
+ * trade feed blocked, so bars come from the calendar alone.
+ */
+test.describe('Trading Calendar', () => {
+
+  test.beforeEach(async ({ page }) => {
+    await blockTradeStream(page);
+  });
+
+  test('should show the previous session on a holiday', async ({ page }) => {
+    // Thanksgiving, Thu Nov 26 2026, 12:00 ET
+    await page.clock.install({ time: new Date('2026-11-26T17:00:00Z') });
+    await openChart(page);
+
+    expect((await readLastBar(page)).time).toContain('Nov 25');
+  });
+
+  test('should end an early-close session at 13:00', async ({ page }) => {
+    // Day after Thanksgiving, Fri Nov 27 2026, 15:00 ET
+    await page.clock.install({ time: new Date('2026-11-27T20:00:00Z') });
+    await openChart(page);
+
+    const last = await readLastBar(page);
+    expect(last.time).toContain('Nov 27');
+    expect(last.time).toContain('12:55');
+  });
+
+  test('should skip holidays in daily bars', async ({ page }) => {
+    // Christmas falls on a Friday in 2026
+    await page.clock.install({ time: new Date('2026-12-28T17:00:00Z') });
+    await openChart(page);
+    await page.getByRole('button', { name: '1M' }).first().click();
+    await page.getByTestId('interval-select').first().locator('select').first().selectOption('daily');
+
+    // The last week's bars: Monday's follows Thursday's
+    const times = new Set<string>();
+    for (let i = 70; i < 100; i++) {
+      times.add((await readLegendAt(page, i / 100)).time);
+    }
+    const days = [...times].join(' ');
+    expect(days).toContain('Dec 24');
+    expect(days).toContain('Dec 28');
+    expect(days).not.toContain('Dec 25');
+  });
+
+});
@@ -11,6 +11,8 @@
  * TASK-065: Desktop Layout (≥1024px)
  * TASK-067: Mobile Layout (<768px)
  * TASK-068: Error Boundary Implementation
+ *
+ * The market simulator panel only appears in development with mock data.
  */
 
 import { ThemeProvider, DataSourceProvider, ChartProvider, IndicatorProvider } from './context';
@@ -18,6 +20,7 @@ import { Toolbar } from './components/Toolbar';
 import { QuoteHeader } from './components/QuoteHeader';
 import { Chart } from './components/Chart';
 import { ErrorBoundary } from './components/common';
+import { SimulatorPanel } from './components/DevTools';
 
 function AppContent() {
   return (
@@ -40,6 +43,9 @@ function AppContent() {
           <Chart />
         </div>
       </main>
+
+      {/* Development-only market simulator */}
+      <SimulatorPanel />
     </div>
   );
 }
@@ -0,0 +1,72 @@
+/**
+ * Alpha Vantage Fixtures
+ * Raw API responses recorded per request, for offline replay
+ *
+ * Recording is a dev-only switch: with VITE_ALPHA_VANTAGE_RECORD=true every
+ * live response, error payloads included, is sent verbatim to the dev
+ * server (see dev/alphaVantageFixtureServer.ts), which stores it under
+ * dev/fixtures/alphavantage. The replay data source reads them back.
+ *
+ * Fixtures are keyed by the request options, without the API key:
+ *   TIME_SERIES_DAILY/outputsize-compact_symbol-IBM.json
+ */
+
+import type { AlphaVantageRequestOptions } from './types';
+import { ALPHA_VANTAGE_FIXTURE_PREFIX } from './devServerPaths';
+
+/**
+ * Check whether live responses should be recorded
+ */
+export function isRecordingFixtures(): boolean {
+  return import.meta.env.DEV && import.meta.env.VITE_ALPHA_VANTAGE_RECORD === 'true';
+}
+
+/**
+ * Fixture path of a request: the function, then the other options sorted
+ * by name, e.g. `GLOBAL_QUOTE/symbol-IBM`
+ */
+export function getFixtureKey(options: AlphaVantageRequestOptions): string {
+  const { function: fn, ...rest } = options;
+  const params = Object.entries(rest)
+    .filter(([, value]) => value !== undefined && value !== '')
+    .sort(([a], [b]) => a.localeCompare(b))
+    .map(([name, value]) => `${name}-${encodeURIComponent(String(value))}`);
+  return `${fn}/${params.join('_') || 'default'}`;
+}
+
+function getFixtureUrl(options: AlphaVantageRequestOptions): string {
+  return `${ALPHA_VANTAGE_FIXTURE_PREFIX}/${getFixtureKey(options)}.json`;
+}
+
+/**
+ * Save a raw response; failures are logged, never thrown, so recording
+ * cannot break the live request it piggybacks on
+ */
+export async function saveFixture(options: AlphaVantageRequestOptions, data: unknown): Promise<void> {
+  try {
+    const response = await fetch(getFixtureUrl(options), {
+      method: 'PUT',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify(data, null, 2),
+    });
+    if (!response.ok) {
+      console.warn(`Failed to record ${getFixtureKey(options)}: HTTP ${response.status}`);
+    }
+  } catch (error) {
+    console.warn(`Failed to record ${getFixtureKey(options)}:`, error);
+  }
+}
+
+/**
+ * Load a recorded response, or undefined when the request was never recorded
+ */
+export async function loadFixture(options: AlphaVantageRequestOptions): Promise<unknown> {
+  const response = await fetch(getFixtureUrl(options));
+  if (response.status === 404) {
+    return undefined;
+  }
+  if (!response.ok) {
+    throw new Error(`HTTP error: ${response.status} ${response.statusText}`);
+  }
+  return response.json();
+}
@@ -0,0 +1,498 @@
+/**
+ * Alpha Vantage Stub
+ * Alpha Vantage-shaped responses built from the mock data generator
+ *
+ * Served by the local stub server (dev/alphaVantageStubServer.ts), so the
+ * whole alphavantage.ts → transforms.ts → hooks path runs without a key or
+ * network. Every function the client calls is answered the way the live API
+ * does, down to its quirks: unknown symbols get the 'Invalid API call'
+ * message, or an empty object for GLOBAL_QUOTE and OVERVIEW. Rate limits
+ * and latency are emulated by the server, not here.
+ */
+
+import type { CorporateEvent, OHLCV } from '../types';
+import type {
+  AlphaVantageFunction,
+  AVAdjustedDataPoint,
+  AVCompanyOverview,
+  AVDividendsResponse,
+  AVEarningsResponse,
+  AVErrorResponse,
+  AVFXDataPoint,
+  AVGlobalQuoteResponse,
+  AVSplitsResponse,
+  AVSymbolSearchResponse,
+  AVTimeSeriesDataPoint,
+  IntradayInterval,
+} from './types';
+import { generateMockOHLCV, getLatestMockSession, getMockCompany, getMockCorporateEvents, getMockPair } from './mockData';
+import { getMockFundamentals, getMockQuote } from './mockQuotes';
+import { searchSymbols } from './mockSymbols';
+import { getInstrumentCalendar } from '../utils/instruments';
+import { formatZonedDateTime, getZonedDateKey } from '../utils/timezone';
+
+/** Bars returned by outputsize=compact */
+const COMPACT_OUTPUT_BARS = 100;
+
+const INTRADAY_INTERVALS: IntradayInterval[] = ['1min', '5min', '15min', '30min', '60min'];
+
+/** Alpha Vantage's label for the US exchange time zone */
+const US_EASTERN = 'US/Eastern';
+
+type StubParams = Record<string, string | undefined>;
+
+type Period = 'daily' | 'weekly' | 'monthly';
+
+function invalidCall(fn: string): AVErrorResponse {
+  return {
+    'Error Message': `Invalid API call. Please retry or visit the documentation (https://www.alphavantage.co/documentation/) for ${fn}.`,
+  };
+}
+
+/**
+ * Alpha Vantage reports the US exchange zone as 'US/Eastern'
+ */
+function getZoneLabel(timeZone: string): string {
+  return timeZone === 'America/New_York' ? US_EASTERN : timeZone;
+}
+
+function formatPrice(value: number): string {
+  return value.toFixed(4);
+}
+
+function toFXDataPoint(bar: OHLCV): AVFXDataPoint {
+  return {
+    '1. open': formatPrice(bar.open),
+    '2. high': formatPrice(bar.high),
+    '3. low': formatPrice(bar.low),
+    '4. close': formatPrice(bar.close),
+  };
+}
+
+function toDataPoint(bar: OHLCV): AVTimeSeriesDataPoint {
+  return { ...toFXDataPoint(bar), '5. volume': String(Math.round(bar.volume)) };
+}
+
+/**
+ * Metadata with the API's numbered keys, e.g. '1. Information'
+ */
+function numbered(entries: [string, string][]): Record<string, string> {
+  return Object.fromEntries(entries.map(([label, value], i) => [`${i + 1}. ${label}`, value]));
+}
+
+/**
+ * Key series entries by date or date-time, newest first like the API
+ */
+function toSeries<T>(bars: OHLCV[], timeZone: string, intraday: boolean, toPoint: (bar: OHLCV) => T): Record<string, T> {
+  const series: Record<string, T> = {};
+  for (let i = bars.length - 1; i >= 0; i--) {
+    const bar = bars[i];
+    const key = intraday ? formatZonedDateTime(bar.time, timeZone) : getZonedDateKey(bar.time, timeZone, true);
+    series[key] = toPoint(bar);
+  }
+  return series;
+}
+
+/**
+ * Weekly or monthly bars from daily bars, stamped with the last trading
+ * day of each period as the API does
+ */
+function aggregate(daily: OHLCV[], period: Period): OHLCV[][] {
+  if (period === 'daily') {
+    return daily.map((bar) => [bar]);
+  }
+  const groups: OHLCV[][] = [];
+  let currentKey = '';
+  for (const bar of daily) {
+    const date = getZonedDateKey(bar.time, 'UTC', true);
+    let key = date.slice(0, 7);
+    if (period === 'weekly') {
+      // Monday of the bar's week
+      const day = new Date(bar.time * 1000).getUTCDay();
+      key = getZonedDateKey(bar.time - ((day + 6) % 7) * 86400, 'UTC', true);
+    }
+    if (key !== currentKey) {
+      groups.push([]);
+      currentKey = key;
+    }
+    groups[groups.length - 1].push(bar);
+  }
+  return groups;
+}
+
+function mergeBars(bars: OHLCV[]): OHLCV {
+  const last = bars[bars.length - 1];
+  return {
+    time: last.time,
+    open: bars[0].open,
+    high: Math.max(...bars.map((bar) => bar.high)),
+    low: Math.min(...bars.map((bar) => bar.low)),
+    close: last.close,
+    volume: bars.reduce((sum, bar) => sum + bar.volume, 0),
+  };
+}
+
+/**
+ * Resolve the mock symbol of a request; pairs are passed as two currencies
+ */
+function getSymbol(fn: AlphaVantageFunction, params: StubParams): string | undefined {
+  if (fn.startsWith('FX_')) {
+    const pair = `${params.from_symbol ?? ''}/${params.to_symbol ?? ''}`.toUpperCase();
+    return getMockPair(pair) ? pair : undefined;
+  }
+  if (fn === 'CRYPTO_INTRADAY' || fn.startsWith('DIGITAL_CURRENCY_')) {
+    const pair = `${params.symbol ?? ''}/${params.market ?? ''}`.toUpperCase();
+    return getMockPair(pair) ? pair : undefined;
+  }
+  const symbol = (params.symbol ?? '').toUpperCase();
+  return getMockCompany(symbol) ? symbol : undefined;
+}
+
+/**
+ * Intraday bars: the latest 100, the trailing 30 days, or a given month
+ */
+function getIntradayBars(symbol: string, interval: IntradayInterval, params: StubParams): OHLCV[] {
+  const adjusted = params.adjusted !== 'false';
+  if (params.month) {
+    const range = { startDate: `${params.month}-01`, endDate: `${params.month}-31` };
+    return generateMockOHLCV(symbol, 'CUSTOM', interval, range, adjusted);
+  }
+  const bars = generateMockOHLCV(symbol, '1M', interval, null, adjusted);
+  return params.outputsize === 'full' ? bars : bars.slice(-COMPACT_OUTPUT_BARS);
+}
+
+/**
+ * Daily bars; compact output only applies to daily series
+ */
+function getDailyBars(symbol: string, period: Period, params: StubParams, adjusted: boolean): OHLCV[] {
+  const bars = generateMockOHLCV(symbol, 'MAX', 'daily', null, adjusted);
+  return period === 'daily' && params.outputsize !== 'full' ? bars.slice(-COMPACT_OUTPUT_BARS) : bars;
+}
+
+function lastKey(series: Record<string, unknown>): string {
+  return Object.keys(series)[0] ?? '';
+}
+
+function getOutputSizeLabel(params: StubParams): string {
+  return params.outputsize === 'full' ? 'Full size' : 'Compact';
+}
+
+/**
+ * Metadata of a daily, weekly or monthly equity series
+ */
+function getSeriesMetaData(
+  fn: string,
+  symbol: string,
+  series: Record<string, unknown>,
+  period: Period,
+  params: StubParams
+): Record<string, string> {
+  return numbered([
+    ['Information', fn],
+    ['Symbol', symbol],
+    ['Last Refreshed', lastKey(series)],
+    ...(period === 'daily' ? [['Output Size', getOutputSizeLabel(params)] as [string, string]] : []),
+    ['Time Zone', US_EASTERN],
+  ]);
+}
+
+const EQUITY_SERIES_KEYS: Record<Period, string> = {
+  daily: 'Time Series (Daily)',
+  weekly: 'Weekly Time Series',
+  monthly: 'Monthly Time Series',
+};
+
+const ADJUSTED_SERIES_KEYS: Record<Period, string> = {
+  daily: 'Time Series (Daily)',
+  weekly: 'Weekly Adjusted Time Series',
+  monthly: 'Monthly Adjusted Time Series',
+};
+
+/**
+ * TIME_SERIES_DAILY, _WEEKLY and _MONTHLY
+ */
+function getEquitySeries(fn: AlphaVantageFunction, symbol: string, period: Period, params: StubParams) {
+  const bars = aggregate(getDailyBars(symbol, period, params, false), period).map(mergeBars);
+  const series = toSeries(bars, US_EASTERN, false, toDataPoint);
+  return { 'Meta Data': getSeriesMetaData(fn, symbol, series, period, params), [EQUITY_SERIES_KEYS[period]]: series };
+}
+
+/**
+ * TIME_SERIES_*_ADJUSTED: raw prices plus the adjusted close, dividends
+ * and (daily only) split coefficients
+ */
+function getAdjustedSeries(fn: AlphaVantageFunction, symbol: string, period: Period, params: StubParams) {
+  const raw = aggregate(getDailyBars(symbol, period, params, false), period);
+  const adjusted = aggregate(getDailyBars(symbol, period, params, true), period);
+  const actions = new Map<string, CorporateEvent[]>();
+  for (const event of getMockCorporateEvents(symbol)) {
+    const key = getZonedDateKey(event.time, 'UTC', true);
+    actions.set(key, [...(actions.get(key) ?? []), event]);
+  }
+
+  const series: Record<string, AVAdjustedDataPoint> = {};
+  for (let i = raw.length - 1; i >= 0; i--) {
+    const bar = mergeBars(raw[i]);
+    const events = raw[i].flatMap((day) => actions.get(getZonedDateKey(day.time, 'UTC', true)) ?? []);
+    const dividends = events.reduce((sum, event) => sum + (event.type === 'dividend' ? event.amount : 0), 0);
+    const point: AVAdjustedDataPoint = {
+      '1. open': formatPrice(bar.open),
+      '2. high': formatPrice(bar.high),
+      '3. low': formatPrice(bar.low),
+      '4. close': formatPrice(bar.close),
+      '5. adjusted close': formatPrice(adjusted[i][adjusted[i].length - 1].close),
+      '6. volume': String(Math.round(bar.volume)),
+      '7. dividend amount': dividends.toFixed(4),
+    };
+    if (period === 'daily') {
+      const split = events.find((event) => event.type === 'split');
+      point['8. split coefficient'] = (split?.type === 'split' ? split.ratio : 1).toFixed(1);
+    }
+    series[getZonedDateKey(bar.time, 'UTC', true)] = point;
+  }
+
+  return { 'Meta Data': getSeriesMetaData(fn, symbol, series, period, params), [ADJUSTED_SERIES_KEYS[period]]: series };
+}
+
+/**
+ * TIME_SERIES_INTRADAY
+ */
+function getIntradaySeries(fn: AlphaVantageFunction, symbol: string, params: StubParams) {
+  const interval = params.interval as IntradayInterval;
+  const series = toSeries(getIntradayBars(symbol, interval, params), 'America/New_York', true, toDataPoint);
+  return {
+    'Meta Data': numbered([
+      ['Information', fn],
+      ['Symbol', symbol],
+      ['Last Refreshed', lastKey(series)],
+      ['Interval', interval],
+      ['Output Size', getOutputSizeLabel(params)],
+      ['Time Zone', US_EASTERN],
+    ]),
+    [`Time Series (${interval})`]: series,
+  };
+}
+
+/**
+ * FX_* and crypto series; FX points carry no volume
+ */
+function getPairSeries(fn: AlphaVantageFunction, pair: string, params: StubParams) {
+  const [base, quote] = pair.split('/');
+  const isFX = fn.startsWith('FX_');
+  const intraday = fn === 'FX_INTRADAY' || fn === 'CRYPTO_INTRADAY';
+  const { timeZone } = getInstrumentCalendar(pair);
+
+  let bars: OHLCV[];
+  let label: string;
+  if (intraday) {
+    bars = getIntradayBars(pair, params.interval as IntradayInterval, { ...params, adjusted: 'false' });
+    label = params.interval ?? '';
+  } else {
+    const period = fn.slice(fn.lastIndexOf('_') + 1).toLowerCase() as Period;
+    const daily = generateMockOHLCV(pair, 'MAX', 'daily');
+    const sliced = isFX && period === 'daily' && params.outputsize !== 'full' ? daily.slice(-COMPACT_OUTPUT_BARS) : daily;
+    bars = aggregate(sliced, period).map(mergeBars);
+    label = period.charAt(0).toUpperCase() + period.slice(1);
+  }
+
+  const series = isFX ? toSeries(bars, timeZone, intraday, toFXDataPoint) : toSeries(bars, timeZone, intraday, toDataPoint);
+  const seriesKey = isFX
+    ? `Time Series FX (${label})`
+    : intraday
+      ? `Time Series Crypto (${label})`
+      : `Time Series (Digital Currency ${label})`;
+  const metaData = numbered([
+    ['Information', fn],
+    [isFX ? 'From Symbol' : 'Digital Currency Code', base],
+    [isFX ? 'To Symbol' : 'Market Code', quote],
+    ['Last Refreshed', lastKey(series)],
+    ...(intraday ? [['Interval', label] as [string, string]] : []),
+    ['Time Zone', getZoneLabel(timeZone)],
+  ]);
+  return { 'Meta Data': metaData, [seriesKey]: series };
+}
+
+function getGlobalQuote(symbol: string | undefined): AVGlobalQuoteResponse | { 'Global Quote': Record<string, never> } {
+  if (!symbol) {
+    return { 'Global Quote': {} };
+  }
+  const quote = getMockQuote(symbol);
+  const session = getLatestMockSession(symbol);
+  return {
+    'Global Quote': {
+      '01. symbol': symbol,
+      '02. open': formatPrice(quote.open),
+      '03. high': formatPrice(quote.high),
+      '04. low': formatPrice(quote.low),
+      '05. price': formatPrice(quote.price),
+      '06. volume': String(quote.volume),
+      '07. latest trading day': session?.date ?? '',
+      '08. previous close': formatPrice(quote.previousClose),
+      '09. change': formatPrice(quote.change),
+      '10. change percent': `${quote.changePercent.toFixed(4)}%`,
+    },
+  };
+}
+
+/** Alpha Vantage's instrument type per symbol type */
+const SEARCH_TYPES = { Stock: 'Equity', ETF: 'ETF', Index: 'Index', Crypto: 'Digital Currency', Forex: 'Physical Currency' };
+
+function getSearchResults(keywords: string): AVSymbolSearchResponse {
+  const results = searchSymbols(keywords);
+  return {
+    bestMatches: results.map((result, i) => ({
+      '1. symbol': result.symbol,
+      '2. name': result.name,
+      '3. type': SEARCH_TYPES[result.type],
+      '4. region': result.exchange,
+      '5. marketOpen': '09:30',
+      '6. marketClose': '16:00',
+      '7. timezone': 'UTC-04',
+      '8. currency': result.currency,
+      '9. matchScore': (1 - i / Math.max(results.length, 1)).toFixed(4),
+    })),
+  };
+}
+
+function optional(value: number | undefined, digits: number = 2): string {
+  return value === undefined ? 'None' : value.toFixed(digits);
+}
+
+function getOverview(symbol: string | undefined): AVCompanyOverview {
+  const company = symbol ? getMockCompany(symbol) : undefined;
+  if (!company) {
+    return {};
+  }
+  const fundamentals = getMockFundamentals(company.symbol);
+  return {
+    Symbol: company.symbol,
+    Name: company.name,
+    Exchange: company.exchange,
+    Sector: fundamentals.sector ?? 'None',
+    Industry: fundamentals.industry ?? 'None',
+    MarketCapitalization: optional(fundamentals.marketCap, 0),
+    SharesOutstanding: optional(fundamentals.sharesOutstanding, 0),
+    PERatio: optional(fundamentals.peRatio),
+    EPS: optional(fundamentals.eps),
+    DividendYield: optional(fundamentals.dividendYield !== undefined ? fundamentals.dividendYield / 100 : undefined, 4),
+    Beta: optional(fundamentals.beta, 3),
+    '52WeekHigh': optional(fundamentals.week52High),
+    '52WeekLow': optional(fundamentals.week52Low),
+  };
+}
+
+/**
+ * EARNINGS, DIVIDENDS and SPLITS, newest first
+ */
+function getEvents(fn: 'EARNINGS' | 'DIVIDENDS' | 'SPLITS', symbol: string | undefined) {
+  if (!symbol) {
+    return fn === 'EARNINGS' ? {} : { symbol: '', data: [] };
+  }
+  const events = getMockCorporateEvents(symbol).reverse();
+  const date = (time: number) => getZonedDateKey(time, 'UTC', true);
+
+  if (fn === 'EARNINGS') {
+    const response: AVEarningsResponse = {
+      symbol,
+      quarterlyEarnings: events.flatMap((event) =>
+        event.type === 'earnings'
+          ? [
+              {
+                fiscalDateEnding: event.fiscalDateEnding,
+                reportedDate: date(event.time),
+                reportedEPS: optional(event.reportedEPS),
+                estimatedEPS: optional(event.estimatedEPS),
+                surprise: optional(event.surprise),
+                surprisePercentage: optional(event.surprisePercent, 4),
+                reportTime: event.reportTime ?? 'None',
+              },
+            ]
+          : []
+      ),
+    };
+    return response;
+  }
+
+  if (fn === 'DIVIDENDS') {
+    const response: AVDividendsResponse = {
+      symbol,
+      data: events.flatMap((event) =>
+        event.type === 'dividend'
+          ? [
+              {
+                ex_dividend_date: date(event.time),
+                declaration_date: event.declarationDate ?? 'None',
+                record_date: event.recordDate ?? 'None',
+                payment_date: event.paymentDate ?? 'None',
+                amount: event.amount.toFixed(4),
+              },
+            ]
+          : []
+      ),
+    };
+    return response;
+  }
+
+  const response: AVSplitsResponse = {
+    symbol,
+    data: events.flatMap((event) =>
+      event.type === 'split' ? [{ effective_date: date(event.time), split_factor: event.ratio.toFixed(4) }] : []
+    ),
+  };
+  return response;
+}
+
+/** Period of the daily, weekly and monthly series functions */
+const SERIES_PERIODS: Partial<Record<AlphaVantageFunction, Period>> = {
+  TIME_SERIES_DAILY: 'daily',
+  TIME_SERIES_WEEKLY: 'weekly',
+  TIME_SERIES_MONTHLY: 'monthly',
+  TIME_SERIES_DAILY_ADJUSTED: 'daily',
+  TIME_SERIES_WEEKLY_ADJUSTED: 'weekly',
+  TIME_SERIES_MONTHLY_ADJUSTED: 'monthly',
+};
+
+/**
+ * Answer a `query?function=...` request like the live API would
+ * `params` are the query parameters; the API key is not checked.
+ */
+export function getStubResponse(params: StubParams): unknown {
+  const fn = params.function as AlphaVantageFunction | undefined;
+  if (!fn) {
+    return { 'Error Message': 'the parameter function is invalid or missing.' };
+  }
+  const symbol = getSymbol(fn, params);
+
+  switch (fn) {
+    case 'SYMBOL_SEARCH':
+      return params.keywords ? getSearchResults(params.keywords) : invalidCall(fn);
+    case 'GLOBAL_QUOTE':
+      return getGlobalQuote(symbol);
+    case 'OVERVIEW':
+      return getOverview(symbol);
+    case 'EARNINGS':
+    case 'DIVIDENDS':
+    case 'SPLITS':
+      return getEvents(fn, symbol);
+  }
+
+  const needsInterval = fn === 'TIME_SERIES_INTRADAY' || fn === 'FX_INTRADAY' || fn === 'CRYPTO_INTRADAY';
+  if (!symbol || (needsInterval && !INTRADAY_INTERVALS.includes(params.interval as IntradayInterval))) {
+    return invalidCall(fn);
+  }
+
+  if (fn === 'TIME_SERIES_INTRADAY') {
+    return getIntradaySeries(fn, symbol, params);
+  }
+  const period = SERIES_PERIODS[fn];
+  if (period) {
+    return fn.endsWith('_ADJUSTED')
+      ? getAdjustedSeries(fn, symbol, period, params)
+      : getEquitySeries(fn, symbol, period, params);
+  }
+  if (fn.startsWith('FX_') || fn === 'CRYPTO_INTRADAY' || fn.startsWith('DIGITAL_CURRENCY_')) {
+    return getPairSeries(fn, symbol, params);
+  }
+  return { 'Error Message': `This API function (${fn}) does not exist.` };
+}
+
@@ -3,6 +3,9 @@
  * Handles all API calls to Alpha Vantage
  * 
  * TASK-088: Alpha Vantage API Client Setup
+ *
+ * Set VITE_ALPHA_VANTAGE_BASE_URL to point the client at the local stub
+ * server (see dev/alphaVantageStubServer.ts) instead of the live API.
  */
 
 import type {
@@ -11,34 +14,87 @@ import type {
   AVDailyResponse,
   AVWeeklyResponse,
   AVMonthlyResponse,
+  AVDailyAdjustedResponse,
+  AVWeeklyAdjustedResponse,
+  AVMonthlyAdjustedResponse,
   AVSymbolSearchResponse,
   AVGlobalQuoteResponse,
+  AVEarningsResponse,
+  AVDividendsResponse,
+  AVSplitsResponse,
+  AVCompanyOverview,
+  AVFXResponse,
+  AVCryptoResponse,
   AVErrorResponse,
   IntradayInterval,
   APIError,
   APIErrorType,
 } from './types';
+import type { RequestPriority, NativeInterval } from '../types';
+import { isNativeIntradayInterval } from '../utils/intervals';
+import { RequestScheduler } from './scheduler';
+import { ApiKeyRing } from './apiKeys';
+import { isRecordingFixtures, saveFixture, loadFixture, getFixtureKey } from './alphaVantageFixtures';
 
 /**
  * Alpha Vantage API configuration
  */
 const API_CONFIG = {
-  baseUrl: 'https://www.alphavantage.co/query',
+  defaultBaseUrl: 'https://www.alphavantage.co/query',
   rateLimit: 5, // calls per minute for free tier
+  dailyLimit: 25, // calls per day for free tier
 };
 
 /**
- * Get API key from environment variable
+ * Shared request queue enforcing the free-tier call budget
  */
-function getApiKey(): string {
-  const apiKey = import.meta.env.VITE_ALPHA_VANTAGE_API_KEY;
-  if (!apiKey) {
+export const alphaVantageQueue = new RequestScheduler({
+  capacity: API_CONFIG.rateLimit,
+  windowMs: 60 * 1000,
+  dailyLimit: API_CONFIG.dailyLimit,
+});
+
+/**
+ * Base URL, overridable to target the local stub server
+ */
+function getBaseUrl(): string {
+  return import.meta.env.VITE_ALPHA_VANTAGE_BASE_URL || API_CONFIG.defaultBaseUrl;
+}
+
+/**
+ * Whether requests go to the live API, which rejects keyless calls
+ * The stub server accepts any key, or none.
+ */
+function isLiveApi(): boolean {
+  return getBaseUrl() === API_CONFIG.defaultBaseUrl;
+}
+
+/**
+ * API keys: those added in the settings dialog, then VITE_ALPHA_VANTAGE_API_KEY
+ * A test call spends one request of the key's budget, so it is queued like
+ * any other; it goes first, as the user is waiting on it.
+ */
+export const alphaVantageKeys = new ApiKeyRing({
+  id: 'alphavantage',
+  envKey: import.meta.env.VITE_ALPHA_VANTAGE_API_KEY,
+  isRequired: isLiveApi,
+  testKey: async (apiKey) => {
+    const options: AlphaVantageRequestOptions = { function: 'GLOBAL_QUOTE', symbol: 'IBM' };
+    const url = buildUrl(options, apiKey);
+    await alphaVantageQueue.schedule(url, () => sendRequest(url, options), 'high');
+  },
+});
+
+/**
+ * Fail early when the live API would be called without a key
+ */
+function assertApiKey(apiKey: string | undefined): void {
+  if (!apiKey && isLiveApi()) {
     throw createAPIError(
       'INVALID_API_KEY',
-      'Alpha Vantage API key not configured. Please set VITE_ALPHA_VANTAGE_API_KEY in your .env file.'
+      'Alpha Vantage API key not configured. Add one in the API key settings or set VITE_ALPHA_VANTAGE_API_KEY in your .env file.'
     );
   }
-  return apiKey;
 }
 
 /**
@@ -87,13 +143,13 @@ function isErrorResponse(response: unknown): response is AVErrorResponse {
 
 /**
  * Build URL with query parameters
+ * Without `apiKey` the URL identifies the request regardless of the key.
  */
-function buildUrl(options: AlphaVantageRequestOptions): string {
-  const apiKey = getApiKey();
-  const params = new URLSearchParams({
-    function: options.function,
-    apikey: apiKey,
-  });
+function buildUrl(options: AlphaVantageRequestOptions, apiKey?: string): string {
+  const params = new URLSearchParams({ function: options.function });
+  if (apiKey) {
+    params.set('apikey', apiKey);
+  }
 
   if (options.symbol) {
     params.set('symbol', options.symbol);
@@ -107,15 +163,58 @@ function buildUrl(options: AlphaVantageRequestOptions): string {
   if (options.keywords) {
     params.set('keywords', options.keywords);
   }
+  if (options.month) {
+    params.set('month', options.month);
+  }
+  if (options.adjusted !== undefined) {
+    params.set('adjusted', String(options.adjusted));
+  }
+  if (options.from_symbol) {
+    params.set('from_symbol', options.from_symbol);
+  }
+  if (options.to_symbol) {
+    params.set('to_symbol', options.to_symbol);
+  }
+  if (options.market) {
+    params.set('market', options.market);
+  }
 
-  return `${API_CONFIG.baseUrl}?${params.toString()}`;
+  return `${getBaseUrl()}?${params.toString()}`;
 }
 
+/**
+ * Send a request and resolve with its parsed response
+ * Implemented by the live API and by the fixture replay.
+ */
+export type AlphaVantageRequest = <T>(
+  options: AlphaVantageRequestOptions,
+  priority?: RequestPriority
+) => Promise<T>;
+
 /**
  * Make API request to Alpha Vantage
+ * Requests go through the rate-limited queue; identical requests are shared.
+ * The key is picked when the request leaves the queue, rotating past keys
+ * that are rate limited or rejected.
  */
-async function makeRequest<T>(options: AlphaVantageRequestOptions): Promise<T> {
-  const url = buildUrl(options);
+function makeRequest<T>(
+  options: AlphaVantageRequestOptions,
+  priority: RequestPriority = 'normal'
+): Promise<T> {
+  const run = () =>
+    alphaVantageKeys.withRotation(async (apiKey) => {
+      assertApiKey(apiKey);
+      return sendRequest<T>(buildUrl(options, apiKey), options);
+    });
+  return alphaVantageQueue.schedule(buildUrl(options), run, priority);
+}
+
+/**
+ * Send a single request and parse the response
+ * In record mode the raw JSON is saved before it is parsed, so recorded
+ * error payloads replay exactly like the live ones.
+ */
+async function sendRequest<T>(url: string, options: AlphaVantageRequestOptions): Promise<T> {
 
   try {
     const response = await fetch(url);
@@ -128,13 +227,11 @@ async function makeRequest<T>(options: AlphaVantageRequestOptions): Promise<T> {
     }
 
     const data = await response.json();
-
-    // Check for API error responses
-    if (isErrorResponse(data)) {
-      throw parseErrorResponse(data);
+    if (isRecordingFixtures()) {
+      void saveFixture(options, data);
     }
 
-    return data as T;
+    return parseResponse<T>(data);
   } catch (error) {
     if ((error as APIError).type) {
       throw error;
@@ -146,84 +243,340 @@ async function makeRequest<T>(options: AlphaVantageRequestOptions): Promise<T> {
   }
 }
 
+/**
+ * Serve a request from the recorded fixtures
+ * No API key, network or call budget involved; unrecorded requests fail.
+ */
+async function replayRequest<T>(options: AlphaVantageRequestOptions): Promise<T> {
+  let data: unknown;
+  try {
+    data = await loadFixture(options);
+  } catch (error) {
+    throw createAPIError(
+      'NETWORK_ERROR',
+      error instanceof Error ? error.message : 'Failed to load fixture'
+    );
+  }
+
+  if (data === undefined) {
+    throw createAPIError('UNKNOWN_ERROR', `No recorded response for ${getFixtureKey(options)}.`);
+  }
+  return parseResponse<T>(data);
+}
+
+/**
+ * Check a response body for API error payloads
+ */
+function parseResponse<T>(data: unknown): T {
+  if (isErrorResponse(data)) {
+    throw parseErrorResponse(data);
+  }
+  return data as T;
+}
+
 /**
  * Fetch intraday time series data
+ * Without `month` the full output covers the trailing 30 days
  */
-export async function fetchIntradayTimeSeries(
+async function fetchIntradayTimeSeries(
+  request: AlphaVantageRequest,
   symbol: string,
   interval: IntradayInterval,
-  outputsize: 'compact' | 'full' = 'compact'
+  outputsize: 'compact' | 'full' = 'compact',
+  priority?: RequestPriority,
+  month?: string,
+  adjusted: boolean = false
 ): Promise<AVIntradayResponse> {
-  return makeRequest<AVIntradayResponse>({
+  return request<AVIntradayResponse>({
     function: 'TIME_SERIES_INTRADAY',
     symbol,
     interval,
     outputsize,
-  });
+    month,
+    adjusted,
+  }, priority);
 }
 
 /**
  * Fetch daily time series data
  */
-export async function fetchDailyTimeSeries(
+async function fetchDailyTimeSeries(
+  request: AlphaVantageRequest,
   symbol: string,
-  outputsize: 'compact' | 'full' = 'compact'
+  outputsize: 'compact' | 'full' = 'compact',
+  priority?: RequestPriority
 ): Promise<AVDailyResponse> {
-  return makeRequest<AVDailyResponse>({
+  return request<AVDailyResponse>({
     function: 'TIME_SERIES_DAILY',
     symbol,
     outputsize,
-  });
+  }, priority);
 }
 
 /**
  * Fetch weekly time series data
  */
-export async function fetchWeeklyTimeSeries(
-  symbol: string
+async function fetchWeeklyTimeSeries(
+  request: AlphaVantageRequest,
+  symbol: string,
+  priority?: RequestPriority
 ): Promise<AVWeeklyResponse> {
-  return makeRequest<AVWeeklyResponse>({
+  return request<AVWeeklyResponse>({
     function: 'TIME_SERIES_WEEKLY',
     symbol,
-  });
+  }, priority);
 }
 
 /**
  * Fetch monthly time series data
  */
-export async function fetchMonthlyTimeSeries(
-  symbol: string
+async function fetchMonthlyTimeSeries(
+  request: AlphaVantageRequest,
+  symbol: string,
+  priority?: RequestPriority
 ): Promise<AVMonthlyResponse> {
-  return makeRequest<AVMonthlyResponse>({
+  return request<AVMonthlyResponse>({
     function: 'TIME_SERIES_MONTHLY',
     symbol,
-  });
+  }, priority);
+}
+
+/**
+ * Fetch split- and dividend-adjusted daily time series data
+ */
+async function fetchDailyAdjustedTimeSeries(
+  request: AlphaVantageRequest,
+  symbol: string,
+  outputsize: 'compact' | 'full' = 'compact',
+  priority?: RequestPriority
+): Promise<AVDailyAdjustedResponse> {
+  return request<AVDailyAdjustedResponse>({
+    function: 'TIME_SERIES_DAILY_ADJUSTED',
+    symbol,
+    outputsize,
+  }, priority);
+}
+
+/**
+ * Fetch split- and dividend-adjusted weekly time series data
+ */
+async function fetchWeeklyAdjustedTimeSeries(
+  request: AlphaVantageRequest,
+  symbol: string,
+  priority?: RequestPriority
+): Promise<AVWeeklyAdjustedResponse> {
+  return request<AVWeeklyAdjustedResponse>({
+    function: 'TIME_SERIES_WEEKLY_ADJUSTED',
+    symbol,
+  }, priority);
+}
+
+/**
+ * Fetch split- and dividend-adjusted monthly time series data
+ */
+async function fetchMonthlyAdjustedTimeSeries(
+  request: AlphaVantageRequest,
+  symbol: string,
+  priority?: RequestPriority
+): Promise<AVMonthlyAdjustedResponse> {
+  return request<AVMonthlyAdjustedResponse>({
+    function: 'TIME_SERIES_MONTHLY_ADJUSTED',
+    symbol,
+  }, priority);
 }
 
 /**
  * Search for symbols
  */
-export async function searchSymbolsAPI(
-  keywords: string
+async function searchSymbolsAPI(
+  request: AlphaVantageRequest,
+  keywords: string,
+  priority?: RequestPriority
 ): Promise<AVSymbolSearchResponse> {
-  return makeRequest<AVSymbolSearchResponse>({
+  return request<AVSymbolSearchResponse>({
     function: 'SYMBOL_SEARCH',
     keywords,
-  });
+  }, priority);
 }
 
 /**
  * Fetch global quote (real-time price data)
  */
-export async function fetchGlobalQuote(
-  symbol: string
+async function fetchGlobalQuote(
+  request: AlphaVantageRequest,
+  symbol: string,
+  priority?: RequestPriority
 ): Promise<AVGlobalQuoteResponse> {
-  return makeRequest<AVGlobalQuoteResponse>({
+  return request<AVGlobalQuoteResponse>({
     function: 'GLOBAL_QUOTE',
     symbol,
-  });
+  }, priority);
+}
+
+/**
+ * Fetch quarterly earnings history
+ */
+async function fetchEarnings(
+  request: AlphaVantageRequest,
+  symbol: string,
+  priority?: RequestPriority
+): Promise<AVEarningsResponse> {
+  return request<AVEarningsResponse>({
+    function: 'EARNINGS',
+    symbol,
+  }, priority);
+}
+
+/**
+ * Fetch dividend history
+ */
+async function fetchDividends(
+  request: AlphaVantageRequest,
+  symbol: string,
+  priority?: RequestPriority
+): Promise<AVDividendsResponse> {
+  return request<AVDividendsResponse>({
+    function: 'DIVIDENDS',
+    symbol,
+  }, priority);
+}
+
+/**
+ * Fetch split history
+ */
+async function fetchSplits(
+  request: AlphaVantageRequest,
+  symbol: string,
+  priority?: RequestPriority
+): Promise<AVSplitsResponse> {
+  return request<AVSplitsResponse>({
+    function: 'SPLITS',
+    symbol,
+  }, priority);
+}
+
+/**
+ * Fetch company overview (fundamentals)
+ */
+async function fetchCompanyOverview(
+  request: AlphaVantageRequest,
+  symbol: string,
+  priority?: RequestPriority
+): Promise<AVCompanyOverview> {
+  return request<AVCompanyOverview>({
+    function: 'OVERVIEW',
+    symbol,
+  }, priority);
 }
 
+/** FX function per non-intraday interval */
+const FX_FUNCTIONS = {
+  daily: 'FX_DAILY',
+  weekly: 'FX_WEEKLY',
+  monthly: 'FX_MONTHLY',
+} as const;
+
+/** Digital currency function per non-intraday interval */
+const CRYPTO_FUNCTIONS = {
+  daily: 'DIGITAL_CURRENCY_DAILY',
+  weekly: 'DIGITAL_CURRENCY_WEEKLY',
+  monthly: 'DIGITAL_CURRENCY_MONTHLY',
+} as const;
+
+/**
+ * Fetch an FX pair time series
+ * Intraday intervals use FX_INTRADAY; outputsize applies to intraday and daily
+ */
+async function fetchFXTimeSeries(
+  request: AlphaVantageRequest,
+  fromSymbol: string,
+  toSymbol: string,
+  interval: NativeInterval,
+  outputsize: 'compact' | 'full' = 'compact',
+  priority?: RequestPriority
+): Promise<AVFXResponse> {
+  if (isNativeIntradayInterval(interval)) {
+    return request<AVFXResponse>({
+      function: 'FX_INTRADAY',
+      from_symbol: fromSymbol,
+      to_symbol: toSymbol,
+      interval,
+      outputsize,
+    }, priority);
+  }
+  return request<AVFXResponse>({
+    function: FX_FUNCTIONS[interval],
+    from_symbol: fromSymbol,
+    to_symbol: toSymbol,
+    outputsize: interval === 'daily' ? outputsize : undefined,
+  }, priority);
+}
+
+/**
+ * Fetch a digital currency time series in a market (quote currency)
+ * Intraday intervals use CRYPTO_INTRADAY; daily and coarser series are always full
+ */
+async function fetchCryptoTimeSeries(
+  request: AlphaVantageRequest,
+  symbol: string,
+  market: string,
+  interval: NativeInterval,
+  outputsize: 'compact' | 'full' = 'compact',
+  priority?: RequestPriority
+): Promise<AVCryptoResponse> {
+  if (isNativeIntradayInterval(interval)) {
+    return request<AVCryptoResponse>({
+      function: 'CRYPTO_INTRADAY',
+      symbol,
+      market,
+      interval,
+      outputsize,
+    }, priority);
+  }
+  return request<AVCryptoResponse>({
+    function: CRYPTO_FUNCTIONS[interval],
+    symbol,
+    market,
+  }, priority);
+}
+
+/**
+ * Bind the endpoint functions to a request function
+ * The live client sends requests through the rate-limited queue; the replay
+ * client serves recorded fixtures instead.
+ */
+export function createAlphaVantageClient(request: AlphaVantageRequest) {
+  return {
+    fetchIntradayTimeSeries: fetchIntradayTimeSeries.bind(null, request),
+    fetchDailyTimeSeries: fetchDailyTimeSeries.bind(null, request),
+    fetchWeeklyTimeSeries: fetchWeeklyTimeSeries.bind(null, request),
+    fetchMonthlyTimeSeries: fetchMonthlyTimeSeries.bind(null, request),
+    fetchDailyAdjustedTimeSeries: fetchDailyAdjustedTimeSeries.bind(null, request),
+    fetchWeeklyAdjustedTimeSeries: fetchWeeklyAdjustedTimeSeries.bind(null, request),
+    fetchMonthlyAdjustedTimeSeries: fetchMonthlyAdjustedTimeSeries.bind(null, request),
+    searchSymbolsAPI: searchSymbolsAPI.bind(null, request),
+    fetchGlobalQuote: fetchGlobalQuote.bind(null, request),
+    fetchEarnings: fetchEarnings.bind(null, request),
+    fetchDividends: fetchDividends.bind(null, request),
+    fetchSplits: fetchSplits.bind(null, request),
+    fetchCompanyOverview: fetchCompanyOverview.bind(null, request),
+    fetchFXTimeSeries: fetchFXTimeSeries.bind(null, request),
+    fetchCryptoTimeSeries: fetchCryptoTimeSeries.bind(null, request),
+  };
+}
+
+export type AlphaVantageClient = ReturnType<typeof createAlphaVantageClient>;
+
+/**
+ * Client for the live API
+ */
+export const alphaVantageClient = createAlphaVantageClient(makeRequest);
+
+/**
+ * Client replaying recorded responses (see alphaVantageFixtures.ts)
+ */
+export const alphaVantageReplayClient = createAlphaVantageClient(replayRequest);
+
 /**
  * Export API error utilities
  */
@@ -0,0 +1,272 @@
+/**
+ * API Key Ring
+ * User-managed API keys per provider, with automatic rotation
+ *
+ * - Keys pasted in the settings dialog are kept in localStorage; the build
+ *   key (.env) is appended as a fallback and cannot be removed
+ * - Requests use the first key that is neither invalid nor rate limited
+ * - A RATE_LIMIT error benches the key for its retryAfter period and the
+ *   request is retried with the next key; INVALID_API_KEY drops the key
+ *   from rotation until it is tested again
+ */
+
+import type { APIError } from './types';
+import type { ApiKeyEntry, ApiKeyRingState, ApiKeySource } from '../types';
+
+const STORAGE_KEY = 'financeviz-api-keys';
+
+/** Bench applied on a RATE_LIMIT error that carries no retryAfter */
+const DEFAULT_RETRY_AFTER_SECONDS = 60;
+
+interface ApiKeyRingConfig {
+  /** Storage id, the id of the provider using the keys */
+  id: string;
+  /** Key baked in at build time */
+  envKey?: string;
+  /** Whether requests fail without a key */
+  isRequired: () => boolean;
+  /** Send a cheap request with the key; rejects with an APIError */
+  testKey: (key: string) => Promise<void>;
+}
+
+/**
+ * Read the saved user keys of every ring
+ */
+function loadStore(): Record<string, ApiKeyEntry[]> {
+  if (typeof localStorage === 'undefined') return {};
+  try {
+    return JSON.parse(localStorage.getItem(STORAGE_KEY) ?? '{}') as Record<string, ApiKeyEntry[]>;
+  } catch {
+    return {};
+  }
+}
+
+function loadKeys(id: string): ApiKeyEntry[] {
+  const stored = loadStore()[id];
+  if (!Array.isArray(stored)) return [];
+  return stored
+    .filter((entry) => typeof entry?.key === 'string' && entry.key !== '')
+    .map((entry): ApiKeyEntry => ({
+      key: entry.key,
+      source: 'user',
+      status: entry.status ?? 'unverified',
+      rateLimitedUntil: entry.rateLimitedUntil ?? null,
+      message: entry.message,
+    }));
+}
+
+function saveKeys(id: string, entries: ApiKeyEntry[]): void {
+  if (typeof localStorage === 'undefined') return;
+  const store = loadStore();
+  store[id] = entries.filter((entry) => entry.source === 'user');
+  localStorage.setItem(STORAGE_KEY, JSON.stringify(store));
+}
+
+function isUsable(entry: ApiKeyEntry, now: number): boolean {
+  if (entry.status === 'invalid') return false;
+  return entry.rateLimitedUntil === null || entry.rateLimitedUntil <= now;
+}
+
+/**
+ * Mask a key for display, keeping the last four characters
+ */
+export function maskApiKey(key: string): string {
+  return key.length <= 4 ? '••••' : `••••${key.slice(-4)}`;
+}
+
+/**
+ * Rotating set of API keys for one provider
+ */
+export class ApiKeyRing implements ApiKeySource {
+  private config: ApiKeyRingConfig;
+  private entries: ApiKeyEntry[];
+  private timer: ReturnType<typeof setTimeout> | null = null;
+  private listeners = new Set<() => void>();
+  private snapshot: ApiKeyRingState;
+
+  constructor(config: ApiKeyRingConfig) {
+    this.config = config;
+    this.entries = loadKeys(config.id);
+    if (config.envKey && !this.entries.some((entry) => entry.key === config.envKey)) {
+      this.entries.push({ key: config.envKey, source: 'env', status: 'unverified', rateLimitedUntil: null });
+    }
+    this.snapshot = this.buildSnapshot();
+    this.releaseExpired();
+  }
+
+  /**
+   * Key for the next request, or undefined when none is usable
+   */
+  getActiveKey(): string | undefined {
+    const now = Date.now();
+    return this.entries.find((entry) => isUsable(entry, now))?.key;
+  }
+
+  /**
+   * Run a request with the active key, moving on to the next key when the
+   * current one is rate limited or rejected. Without any keys the request
+   * is sent keyless; once every key is benched their error is thrown.
+   */
+  async withRotation<T>(send: (key: string | undefined) => Promise<T>): Promise<T> {
+    const tried = new Set<string>();
+    let lastError: unknown = null;
+
+    for (;;) {
+      const key = this.getActiveKey();
+      if (key === undefined || tried.has(key)) {
+        if (lastError) throw lastError;
+        if (this.entries.length > 0) throw this.createExhaustedError();
+        return send(undefined);
+      }
+
+      tried.add(key);
+      try {
+        const result = await send(key);
+        const entry = this.find(key);
+        if (entry && entry.status !== 'valid') {
+          this.update(key, { status: 'valid', message: undefined });
+        }
+        return result;
+      } catch (error) {
+        if (!this.report(key, error)) {
+          throw error;
+        }
+        lastError = error;
+      }
+    }
+  }
+
+  add = (key: string): void => {
+    const value = key.trim();
+    if (!value || this.find(value)) return;
+    const entry: ApiKeyEntry = { key: value, source: 'user', status: 'unverified', rateLimitedUntil: null };
+    // User keys go ahead of the build key
+    const envIndex = this.entries.findIndex((existing) => existing.source === 'env');
+    const next = [...this.entries];
+    next.splice(envIndex === -1 ? next.length : envIndex, 0, entry);
+    this.commit(next);
+  };
+
+  remove = (key: string): void => {
+    if (this.find(key)?.source !== 'user') return;
+    this.commit(this.entries.filter((entry) => entry.key !== key));
+  };
+
+  validate = async (key: string): Promise<ApiKeyEntry> => {
+    try {
+      await this.config.testKey(key);
+      this.update(key, { status: 'valid', rateLimitedUntil: null, message: undefined });
+    } catch (error) {
+      if (!this.report(key, error)) {
+        // Network trouble and the like say nothing about the key itself
+        this.update(key, { message: (error as APIError).message ?? 'Test request failed.' });
+      }
+    }
+    return this.find(key) ?? { key, source: 'user', status: 'unverified', rateLimitedUntil: null };
+  };
+
+  subscribe = (listener: () => void): (() => void) => {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  };
+
+  getSnapshot = (): ApiKeyRingState => this.snapshot;
+
+  /**
+   * Record a key-related error; returns false for errors unrelated to the key
+   */
+  private report(key: string, error: unknown): boolean {
+    const apiError = error as Partial<APIError>;
+    if (apiError.type === 'RATE_LIMIT') {
+      const seconds = apiError.retryAfter ?? DEFAULT_RETRY_AFTER_SECONDS;
+      this.update(key, {
+        status: 'rate-limited',
+        rateLimitedUntil: Date.now() + seconds * 1000,
+        message: apiError.message,
+      });
+      this.releaseExpired();
+      return true;
+    }
+    if (apiError.type === 'INVALID_API_KEY') {
+      this.update(key, { status: 'invalid', rateLimitedUntil: null, message: apiError.message });
+      return true;
+    }
+    return false;
+  }
+
+  /**
+   * Error thrown when keys exist but none is usable
+   */
+  private createExhaustedError(): APIError {
+    const now = Date.now();
+    const resumeAt = this.entries
+      .filter((entry) => entry.status !== 'invalid' && entry.rateLimitedUntil !== null)
+      .map((entry) => entry.rateLimitedUntil as number);
+    if (resumeAt.length > 0) {
+      return {
+        type: 'RATE_LIMIT',
+        message: 'Every API key is rate limited. Please wait before making more requests.',
+        retryAfter: Math.max(1, Math.ceil((Math.min(...resumeAt) - now) / 1000)),
+      };
+    }
+    return { type: 'INVALID_API_KEY', message: 'Every API key was rejected. Check them in the API key settings.' };
+  }
+
+  /**
+   * Return benched keys whose rate limit ran out to rotation, then wake up
+   * again when the next one runs out
+   */
+  private releaseExpired(): void {
+    if (this.timer) {
+      clearTimeout(this.timer);
+      this.timer = null;
+    }
+
+    const now = Date.now();
+    const expired = this.entries.some(
+      (entry) => entry.rateLimitedUntil !== null && entry.rateLimitedUntil <= now
+    );
+    if (expired) {
+      this.commit(
+        this.entries.map((entry): ApiKeyEntry =>
+          entry.rateLimitedUntil !== null && entry.rateLimitedUntil <= now
+            ? { ...entry, status: 'valid', rateLimitedUntil: null, message: undefined }
+            : entry
+        )
+      );
+    }
+
+    const pending = this.entries
+      .map((entry) => entry.rateLimitedUntil)
+      .filter((until): until is number => until !== null);
+    if (pending.length > 0) {
+      this.timer = setTimeout(() => this.releaseExpired(), Math.min(...pending) - now);
+    }
+  }
+
+  private find(key: string): ApiKeyEntry | undefined {
+    return this.entries.find((entry) => entry.key === key);
+  }
+
+  private update(key: string, changes: Partial<ApiKeyEntry>): void {
+    if (!this.find(key)) return;
+    this.commit(this.entries.map((entry) => (entry.key === key ? { ...entry, ...changes } : entry)));
+  }
+
+  private commit(entries: ApiKeyEntry[]): void {
+    this.entries = entries;
+    saveKeys(this.config.id, entries);
+    this.snapshot = this.buildSnapshot();
+    this.listeners.forEach((listener) => listener());
+  }
+
+  private buildSnapshot(): ApiKeyRingState {
+    return {
+      keys: this.entries,
+      activeKey: this.getActiveKey() ?? null,
+      required: this.config.isRequired(),
+    };
+  }
+}
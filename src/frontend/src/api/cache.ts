@@ -1,10 +1,12 @@
 /**
  * API Cache Module
- * In-memory cache with TTL for API responses
+ * Two-tier cache with TTL for API responses: memory on top of IndexedDB
  * 
  * TASK-094: API Error Handling & Caching
  */
 
+import { persistentCache } from './persistentCache';
+
 interface CacheEntry<T> {
   data: T;
   timestamp: number;
@@ -37,6 +39,10 @@ export const CACHE_TTL = {
   HISTORICAL: 15 * 60 * 1000, // 15 minutes
   /** Symbol search - long cache */
   SYMBOL_SEARCH: 30 * 60 * 1000, // 30 minutes
+  /** Earnings, dividends and splits - change rarely */
+  EVENTS: 24 * 60 * 60 * 1000, // 24 hours
+  /** Company fundamentals - update with quarterly reports */
+  FUNDAMENTALS: 24 * 60 * 60 * 1000, // 24 hours
 };
 
 /**
@@ -61,6 +67,13 @@ class APICache {
    * Get item from cache
    */
   get<T>(key: string): T | null {
+    return this.getEntry<T>(key)?.data ?? null;
+  }
+
+  /**
+   * Get item from cache along with its timestamps
+   */
+  getEntry<T>(key: string): CacheEntry<T> | null {
     const entry = this.cache.get(key) as CacheEntry<T> | undefined;
 
     if (!entry) {
@@ -73,7 +86,7 @@ class APICache {
       return null;
     }
 
-    return entry.data;
+    return entry;
   }
 
   /**
@@ -178,6 +191,60 @@ class APICache {
  */
 export const apiCache = new APICache();
 
+/**
+ * Result of a two-tier cache lookup
+ */
+export interface CachedValue<T> {
+  data: T;
+  /** True when the entry is past its TTL */
+  stale: boolean;
+  /** When the entry was stored (epoch ms) */
+  cachedAt: number;
+}
+
+interface CacheLookupOptions {
+  /** Return expired persisted entries, flagged as stale */
+  allowStale?: boolean;
+}
+
+/**
+ * Look up a key in memory, then in IndexedDB
+ * Fresh persisted entries are promoted to memory for their remaining TTL
+ */
+export async function getCachedValue<T>(
+  key: string,
+  options: CacheLookupOptions = {}
+): Promise<CachedValue<T> | null> {
+  const memory = apiCache.getEntry<T>(key);
+  if (memory !== null) {
+    return { data: memory.data, stale: false, cachedAt: memory.timestamp };
+  }
+
+  const persisted = await persistentCache.get<T>(key);
+  if (!persisted) {
+    return null;
+  }
+
+  const remaining = persisted.expiresAt - Date.now();
+  if (remaining > 0) {
+    apiCache.set(key, persisted.data, remaining);
+    return { data: persisted.data, stale: false, cachedAt: persisted.timestamp };
+  }
+
+  return options.allowStale
+    ? { data: persisted.data, stale: true, cachedAt: persisted.timestamp }
+    : null;
+}
+
+/**
+ * Store a value in both cache tiers
+ */
+export function setCachedValue<T>(key: string, data: T, ttl: number): void {
+  apiCache.set(key, data, ttl);
+  // Persisting is best effort and never blocks the caller
+  void persistentCache.set(key, data, ttl);
+}
+
 /**
  * Wrapper for cached API calls
  */
@@ -187,45 +254,48 @@ export async function withCache<T>(
   fetchFn: () => Promise<T>
 ): Promise<T> {
   // Check cache first
-  const cached = apiCache.get<T>(key);
+  const cached = await getCachedValue<T>(key);
   if (cached !== null) {
-    return cached;
+    return cached.data;
   }
 
   // Fetch fresh data
   const data = await fetchFn();
 
   // Cache the result
-  apiCache.set(key, data, ttl);
+  setCachedValue(key, data, ttl);
 
   return data;
 }
 
 /**
  * Retry logic for failed requests
+ * Waits out APIError.retryAfter when the server provides one
  */
 export async function withRetry<T>(
   fetchFn: () => Promise<T>,
   maxRetries: number = 3,
   delayMs: number = 1000
 ): Promise<T> {
-  let lastError: Error | null = null;
+  let lastError: unknown = null;
 
   for (let attempt = 1; attempt <= maxRetries; attempt++) {
     try {
       return await fetchFn();
     } catch (error) {
-      lastError = error instanceof Error ? error : new Error(String(error));
+      // Keep the original error so its APIError type survives
+      lastError = error;
 
       // Don't retry on certain errors
-      const apiError = error as { type?: string };
+      const apiError = error as { type?: string; retryAfter?: number };
       if (apiError.type === 'INVALID_API_KEY' || apiError.type === 'INVALID_SYMBOL') {
         throw error;
       }
 
-      // Wait before retrying (with exponential backoff)
+      // Wait before retrying (retryAfter, else exponential backoff)
       if (attempt < maxRetries) {
-        await new Promise((resolve) => setTimeout(resolve, delayMs * attempt));
+        const waitMs = apiError.retryAfter ? apiError.retryAfter * 1000 : delayMs * attempt;
+        await new Promise((resolve) => setTimeout(resolve, waitMs));
       }
     }
   }
@@ -243,7 +313,7 @@ export function getUserFriendlyErrorMessage(error: unknown): string {
     case 'RATE_LIMIT':
       return 'API rate limit reached. Please wait a moment before trying again.';
     case 'INVALID_API_KEY':
-      return 'Invalid API key. Please check your configuration.';
+      return 'Invalid API key. Please check your API key settings.';
     case 'INVALID_SYMBOL':
       return 'Invalid stock symbol. Please try a different symbol.';
     case 'NETWORK_ERROR':
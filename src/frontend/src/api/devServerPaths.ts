@@ -0,0 +1,13 @@
+/**
+ * Dev Server Paths
+ * URL paths of the endpoints the Vite dev server plugins (dev/) add, shared
+ * by the plugins and the app code calling them
+ *
+ * Constants only: the plugins are type-checked for Node, without app code.
+ */
+
+/** URL prefix of the dev server's Alpha Vantage fixture store */
+export const ALPHA_VANTAGE_FIXTURE_PREFIX = '/__fixtures/alphavantage';
+
+/** Path of the dev server's mock trade feed */
+export const MOCK_TRADE_FEED_PATH = '/__stream/trades';
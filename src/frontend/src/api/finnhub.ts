@@ -0,0 +1,206 @@
+/**
+ * Finnhub API Client
+ * Handles all API calls to Finnhub (REQUIREMENTS 4.4.1)
+ *
+ * Set VITE_FINNHUB_BASE_URL to point the client at the local fixture
+ * server (see dev/finnhubFixtureServer.ts) instead of the live API.
+ */
+
+import type {
+  FinnhubResolution,
+  FinnhubCandleResponse,
+  FinnhubQuoteResponse,
+  FinnhubSymbolSearchResponse,
+  FinnhubCompanyProfile,
+  FinnhubErrorResponse,
+} from './finnhubTypes';
+import type { APIError } from './types';
+import type { RequestPriority } from '../types';
+import { createAPIError } from './alphavantage';
+import { RequestScheduler } from './scheduler';
+import { ApiKeyRing } from './apiKeys';
+
+/**
+ * Finnhub API configuration
+ */
+const API_CONFIG = {
+  defaultBaseUrl: 'https://finnhub.io/api/v1',
+  rateLimit: 60, // calls per minute for free tier
+};
+
+/**
+ * Shared request queue enforcing the free-tier call budget
+ */
+export const finnhubQueue = new RequestScheduler({
+  capacity: API_CONFIG.rateLimit,
+  windowMs: 60 * 1000,
+});
+
+/**
+ * Base URL, overridable to target the local fixture server
+ */
+function getBaseUrl(): string {
+  return import.meta.env.VITE_FINNHUB_BASE_URL || API_CONFIG.defaultBaseUrl;
+}
+
+/**
+ * Whether requests go to the live API, which rejects keyless calls
+ */
+function isLiveApi(): boolean {
+  return getBaseUrl() === API_CONFIG.defaultBaseUrl;
+}
+
+/**
+ * API keys: those added in the settings dialog, then VITE_FINNHUB_API_KEY
+ * Test calls are queued ahead of other requests.
+ */
+export const finnhubKeys = new ApiKeyRing({
+  id: 'finnhub',
+  envKey: import.meta.env.VITE_FINNHUB_API_KEY,
+  isRequired: isLiveApi,
+  testKey: async (apiKey) => {
+    const url = buildUrl('/quote', { symbol: 'AAPL' }, apiKey);
+    await finnhubQueue.schedule(url, () => sendRequest(url), 'high');
+  },
+});
+
+/**
+ * Fail early when the live API would be called without a key
+ */
+function assertApiKey(apiKey: string | undefined): void {
+  if (!apiKey && isLiveApi()) {
+    throw createAPIError(
+      'INVALID_API_KEY',
+      'Finnhub API key not configured. Add one in the API key settings or set VITE_FINNHUB_API_KEY in your .env file.'
+    );
+  }
+}
+
+/**
+ * Map a non-OK HTTP status to an API error
+ */
+function parseHttpError(status: number, statusText: string, body?: FinnhubErrorResponse): APIError {
+  if (status === 429) {
+    return createAPIError(
+      'RATE_LIMIT',
+      'API rate limit reached. Please wait before making more requests.',
+      60
+    );
+  }
+  if (status === 401 || status === 403) {
+    return createAPIError('INVALID_API_KEY', body?.error || 'Invalid API key.');
+  }
+  return createAPIError('NETWORK_ERROR', body?.error || `HTTP error: ${status} ${statusText}`);
+}
+
+/**
+ * Build URL with query parameters
+ * Without `apiKey` the URL identifies the request regardless of the key.
+ */
+function buildUrl(path: string, params: Record<string, string | number>, apiKey?: string): string {
+  const query = new URLSearchParams();
+  for (const [key, value] of Object.entries(params)) {
+    query.set(key, String(value));
+  }
+  if (apiKey) {
+    query.set('token', apiKey);
+  }
+  return `${getBaseUrl()}${path}?${query.toString()}`;
+}
+
+/**
+ * Make API request to Finnhub
+ * Requests go through the rate-limited queue; identical requests are shared.
+ * The key is picked when the request leaves the queue, rotating past keys
+ * that are rate limited or rejected.
+ */
+function makeRequest<T>(
+  path: string,
+  params: Record<string, string | number>,
+  priority: RequestPriority = 'normal'
+): Promise<T> {
+  const run = () =>
+    finnhubKeys.withRotation(async (apiKey) => {
+      assertApiKey(apiKey);
+      return sendRequest<T>(buildUrl(path, params, apiKey));
+    });
+  return finnhubQueue.schedule(buildUrl(path, params), run, priority);
+}
+
+/**
+ * Send a single request and parse the response
+ */
+async function sendRequest<T>(url: string): Promise<T> {
+
+  try {
+    const response = await fetch(url);
+
+    if (!response.ok) {
+      const body = await response.json().catch(() => undefined);
+      throw parseHttpError(response.status, response.statusText, body);
+    }
+
+    const data = await response.json();
+
+    if (data && typeof data.error === 'string') {
+      throw createAPIError('UNKNOWN_ERROR', data.error);
+    }
+
+    return data as T;
+  } catch (error) {
+    if ((error as APIError).type) {
+      throw error;
+    }
+    throw createAPIError(
+      'NETWORK_ERROR',
+      error instanceof Error ? error.message : 'Network request failed'
+    );
+  }
+}
+
+/**
+ * Fetch OHLCV candles between two Unix timestamps (seconds)
+ */
+export async function fetchFinnhubCandles(
+  symbol: string,
+  resolution: FinnhubResolution,
+  from: number,
+  to: number,
+  priority?: RequestPriority
+): Promise<FinnhubCandleResponse> {
+  return makeRequest<FinnhubCandleResponse>(
+    '/stock/candle',
+    { symbol, resolution, from, to },
+    priority
+  );
+}
+
+/**
+ * Fetch real-time quote
+ */
+export async function fetchFinnhubQuote(
+  symbol: string,
+  priority?: RequestPriority
+): Promise<FinnhubQuoteResponse> {
+  return makeRequest<FinnhubQuoteResponse>('/quote', { symbol }, priority);
+}
+
+/**
+ * Search for symbols
+ */
+export async function searchFinnhubSymbols(
+  query: string,
+  priority?: RequestPriority
+): Promise<FinnhubSymbolSearchResponse> {
+  return makeRequest<FinnhubSymbolSearchResponse>('/search', { q: query }, priority);
+}
+
+/**
+ * Fetch company profile
+ */
+export async function fetchFinnhubProfile(
+  symbol: string,
+  priority?: RequestPriority
+): Promise<FinnhubCompanyProfile> {
+  return makeRequest<FinnhubCompanyProfile>('/stock/profile2', { symbol }, priority);
+}
@@ -0,0 +1,100 @@
+/**
+ * Finnhub Data Transformation Layer
+ * Transforms Finnhub API responses to chart-compatible formats
+ */
+
+import type { OHLCV, Quote, SymbolSearchResult, SymbolType } from '../types';
+import type {
+  FinnhubCandleResponse,
+  FinnhubQuoteResponse,
+  FinnhubSymbolSearchResponse,
+  FinnhubCompanyProfile,
+} from './finnhubTypes';
+import { sortChronologically } from './transforms';
+
+/**
+ * Transform candle response to OHLCV array
+ */
+export function transformFinnhubCandles(response: FinnhubCandleResponse): OHLCV[] {
+  const { s, t, o, h, l, c, v } = response;
+  if (s !== 'ok' || !t || !o || !h || !l || !c || !v) {
+    return [];
+  }
+
+  const data: OHLCV[] = [];
+  for (let i = 0; i < t.length; i++) {
+    data.push({
+      time: t[i],
+      open: o[i],
+      high: h[i],
+      low: l[i],
+      close: c[i],
+      volume: v[i],
+    });
+  }
+
+  return sortChronologically(data);
+}
+
+/**
+ * Transform symbol search response to SymbolSearchResult array
+ */
+export function transformFinnhubSymbolSearch(
+  response: FinnhubSymbolSearchResponse
+): SymbolSearchResult[] {
+  if (!response.result) {
+    return [];
+  }
+
+  return response.result.map((match) => {
+    // Map type to our supported types
+    const type = match.type.toLowerCase();
+    let mappedType: SymbolType = 'Stock';
+    if (type.includes('etf') || type.includes('etp')) {
+      mappedType = 'ETF';
+    } else if (type.includes('index')) {
+      mappedType = 'Index';
+    } else if (type.includes('crypto')) {
+      mappedType = 'Crypto';
+    }
+
+    // Finnhub suffixes non-US listings with the exchange (e.g. "BMW.DE")
+    const suffix = match.symbol.includes('.') ? match.symbol.split('.').pop()! : 'US';
+
+    return {
+      symbol: match.symbol,
+      name: match.description,
+      type: mappedType,
+      exchange: suffix,
+      currency: suffix === 'US' ? 'USD' : '',
+    };
+  });
+}
+
+/**
+ * Transform quote response (plus optional company profile) to Quote
+ */
+export function transformFinnhubQuote(
+  symbol: string,
+  response: FinnhubQuoteResponse,
+  profile?: FinnhubCompanyProfile
+): Quote {
+  return {
+    symbol: symbol.toUpperCase(),
+    companyName: profile?.name || symbol.toUpperCase(),
+    price: response.c,
+    change: response.d ?? response.c - response.pc,
+    changePercent: response.dp ?? (response.pc ? ((response.c - response.pc) / response.pc) * 100 : 0),
+    open: response.o,
+    high: response.h,
+    low: response.l,
+    previousClose: response.pc,
+    // /quote does not report volume
+    volume: 0,
+    // Profile market cap is reported in millions
+    marketCap: profile?.marketCapitalization !== undefined
+      ? profile.marketCapitalization * 1_000_000
+      : undefined,
+    timestamp: response.t,
+  };
+}
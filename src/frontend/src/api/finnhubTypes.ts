@@ -0,0 +1,81 @@
+/**
+ * Finnhub API Types
+ * Type definitions for Finnhub API responses (REQUIREMENTS 4.4.1)
+ */
+
+/**
+ * Candle resolutions supported by /stock/candle
+ */
+export type FinnhubResolution = '1' | '5' | '15' | '30' | '60' | 'D' | 'W' | 'M';
+
+/**
+ * /stock/candle response
+ * Parallel arrays, one entry per bar; `s` is 'no_data' when nothing matched
+ */
+export interface FinnhubCandleResponse {
+  s: 'ok' | 'no_data';
+  t?: number[];
+  o?: number[];
+  h?: number[];
+  l?: number[];
+  c?: number[];
+  v?: number[];
+}
+
+/**
+ * /quote response
+ */
+export interface FinnhubQuoteResponse {
+  c: number; // Current price
+  d: number | null; // Change
+  dp: number | null; // Percent change
+  h: number; // High of the day
+  l: number; // Low of the day
+  o: number; // Open of the day
+  pc: number; // Previous close
+  t: number; // Unix timestamp (seconds)
+}
+
+/**
+ * Single /search match
+ */
+export interface FinnhubSymbolMatch {
+  description: string;
+  displaySymbol: string;
+  symbol: string;
+  type: string;
+}
+
+/**
+ * /search response
+ */
+export interface FinnhubSymbolSearchResponse {
+  count: number;
+  result: FinnhubSymbolMatch[];
+}
+
+/**
+ * /stock/profile2 response
+ * Empty object when the symbol is unknown
+ */
+export interface FinnhubCompanyProfile {
+  country?: string;
+  currency?: string;
+  exchange?: string;
+  finnhubIndustry?: string;
+  ipo?: string;
+  logo?: string;
+  marketCapitalization?: number;
+  name?: string;
+  phone?: string;
+  shareOutstanding?: number;
+  ticker?: string;
+  weburl?: string;
+}
+
+/**
+ * Error body returned by Finnhub
+ */
+export interface FinnhubErrorResponse {
+  error: string;
+}
@@ -7,9 +7,23 @@
 export * from './mockData';
 export * from './mockQuotes';
 export * from './mockSymbols';
+export * from './simulation';
+export * from './streaming';
 
 // Alpha Vantage API
 export * from './alphavantage';
+export * from './alphaVantageFixtures';
 export * from './transforms';
+export * from './timeRange';
 export * from './cache';
+export * from './scheduler';
+export * from './apiKeys';
 export type * from './types';
+
+// Finnhub API
+export * from './finnhub';
+export * from './finnhubTransforms';
+export type * from './finnhubTypes';
+
+// Market data providers
+export * from './providers';
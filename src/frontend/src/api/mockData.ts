@@ -1,14 +1,63 @@
 /**
  * Mock OHLCV Data Generator
  * Generates realistic candlestick patterns for testing
+ *
+ * Price moves come from the market simulator, using the scenario chosen
+ * for each symbol.
  */
 
-import type { OHLCV, CompanyInfo, SupportedSymbol } from '../types/stock';
-import type { TimeRange, Interval } from '../types/chart';
+import type {
+  OHLCV,
+  CompanyInfo,
+  PairInfo,
+  SupportedSymbol,
+  SymbolSearchResult,
+  SymbolType,
+  CorporateAction,
+  CorporateEvent,
+  MarketSession,
+} from '../types/stock';
+import type { TimeRange, NativeInterval, CustomDateRange } from '../types/chart';
 import { DEFAULT_INTERVALS } from '../types/chart';
+import type { SimulationScenario } from '../types/simulation';
+import {
+  MAX_CUSTOM_RANGE_YEARS,
+  getCustomRangeDays,
+  getCustomRangeWindow,
+  getDefaultIntervalForSpan,
+} from '../utils/dateRange';
+import { getSourceInterval, isNativeInterval, parseInterval } from '../utils/intervals';
+import {
+  getTradingCalendar,
+  getSessionHours,
+  getTradingDaysBetween,
+  isTradingDay,
+  type TradingCalendar,
+} from '../utils/tradingCalendar';
+import { resampleOHLCV } from '../utils/resample';
+import { EXCHANGE_TIMEZONE, getZonedDateKey, parseZonedDateTime } from '../utils/timezone';
+import { parseInstrument, getInstrumentCalendar, getPriceDecimals } from '../utils/instruments';
+import { simulateMoves, simulateBridge, simulateSessionPath, getScenario, getSymbolScenario } from './simulation';
+import { SYMBOL_DATABASE } from './symbolDatabase';
+
+/** Volume of a pre-market/after-hours minute, relative to an average regular minute */
+const EXTENDED_HOURS_VOLUME_FACTOR = 0.1;
+
+/** Simulated daily share volume of a stock */
+const STOCK_AVG_VOLUME = 50000000; // 50M shares
+
+/** Minute noise between a session's open, high, low and close, relative to its volatility */
+const MINUTE_NOISE = 0.6;
+
+/** Canonical paths kept in memory */
+const MAX_CACHED_PATHS = 20;
+
+const MINUTES_PER_DAY = 24 * 60;
+const SECONDS_PER_DAY = 24 * 60 * 60;
 
 /**
- * Company information with base prices and volatility
+ * Companies with curated base prices, volatility and corporate calendars
+ * Other symbols in the database get generated parameters.
  */
 export const COMPANIES: Record<SupportedSymbol, CompanyInfo> = {
   AAPL: {
@@ -18,6 +67,8 @@ export const COMPANIES: Record<SupportedSymbol, CompanyInfo> = {
     sector: 'Technology',
     basePrice: 185.50,
     volatility: 0.02,
+    sharesOutstanding: 15500000000, // 15.5B
+    beta: 1.24,
   },
   MSFT: {
     symbol: 'MSFT',
@@ -26,6 +77,8 @@ export const COMPANIES: Record<SupportedSymbol, CompanyInfo> = {
     sector: 'Technology',
     basePrice: 378.25,
     volatility: 0.018,
+    sharesOutstanding: 7430000000, // 7.43B
+    beta: 0.9,
   },
   GOOGL: {
     symbol: 'GOOGL',
@@ -34,6 +87,8 @@ export const COMPANIES: Record<SupportedSymbol, CompanyInfo> = {
     sector: 'Technology',
     basePrice: 141.80,
     volatility: 0.022,
+    sharesOutstanding: 5890000000, // 5.89B
+    beta: 1.05,
   },
   AMZN: {
     symbol: 'AMZN',
@@ -42,6 +97,8 @@ export const COMPANIES: Record<SupportedSymbol, CompanyInfo> = {
     sector: 'Consumer Discretionary',
     basePrice: 178.50,
     volatility: 0.025,
+    sharesOutstanding: 10350000000, // 10.35B
+    beta: 1.15,
   },
   TSLA: {
     symbol: 'TSLA',
@@ -50,9 +107,303 @@ export const COMPANIES: Record<SupportedSymbol, CompanyInfo> = {
     sector: 'Consumer Discretionary',
     basePrice: 248.75,
     volatility: 0.035,
+    sharesOutstanding: 3180000000, // 3.18B
+    beta: 2.3,
+  },
+};
+
+/**
+ * Crypto and FX pairs with mock data
+ * They trade on round-the-clock calendars and have no corporate events.
+ */
+export const MOCK_PAIRS: Record<string, PairInfo> = {
+  'BTC/USD': { symbol: 'BTC/USD', name: 'Bitcoin / US Dollar', basePrice: 65000, volatility: 0.035, avgVolume: 30000 },
+  'ETH/USD': { symbol: 'ETH/USD', name: 'Ethereum / US Dollar', basePrice: 3200, volatility: 0.045, avgVolume: 400000 },
+  'SOL/USD': { symbol: 'SOL/USD', name: 'Solana / US Dollar', basePrice: 150, volatility: 0.06, avgVolume: 3000000 },
+  'EUR/USD': { symbol: 'EUR/USD', name: 'Euro / US Dollar', basePrice: 1.08, volatility: 0.005, avgVolume: 0 },
+  'GBP/USD': { symbol: 'GBP/USD', name: 'British Pound / US Dollar', basePrice: 1.27, volatility: 0.006, avgVolume: 0 },
+  'USD/JPY': { symbol: 'USD/JPY', name: 'US Dollar / Japanese Yen', basePrice: 150, volatility: 0.006, avgVolume: 0 },
+};
+
+/**
+ * Simulated corporate calendar per symbol
+ * Split dates follow the real ones. Dividends go ex on the first trading
+ * day from the 10th of Feb/May/Aug/Nov; earnings are reported after the
+ * close on the 4th Thursday of Jan/Apr/Jul/Oct.
+ */
+interface MockCorporateCalendar {
+  splits: { date: string; ratio: number }[];
+  /** Current quarterly dividend per share; 0 for non-payers */
+  quarterlyDividend: number;
+  /** Current quarterly EPS */
+  quarterlyEPS: number;
+}
+
+const MOCK_CORPORATE_CALENDARS: Record<string, MockCorporateCalendar> = {
+  AAPL: { splits: [{ date: '2020-08-31', ratio: 4 }], quarterlyDividend: 0.25, quarterlyEPS: 1.52 },
+  MSFT: { splits: [], quarterlyDividend: 0.83, quarterlyEPS: 3.1 },
+  GOOGL: { splits: [{ date: '2022-07-18', ratio: 20 }], quarterlyDividend: 0.2, quarterlyEPS: 2.0 },
+  AMZN: { splits: [{ date: '2022-06-06', ratio: 20 }], quarterlyDividend: 0, quarterlyEPS: 1.3 },
+  TSLA: {
+    splits: [
+      { date: '2020-08-31', ratio: 5 },
+      { date: '2022-08-25', ratio: 3 },
+    ],
+    quarterlyDividend: 0,
+    quarterlyEPS: 0.55,
   },
 };
 
+/** Sectors of database stocks without curated parameters */
+const MOCK_SECTORS: Record<string, string> = {
+  META: 'Communication Services',
+  NVDA: 'Technology',
+  AMD: 'Technology',
+  NFLX: 'Communication Services',
+  JPM: 'Financials',
+  V: 'Financials',
+  JNJ: 'Health Care',
+  WMT: 'Consumer Staples',
+  PG: 'Consumer Staples',
+  DIS: 'Communication Services',
+};
+
+/** Ranges generated base prices and daily volatilities are drawn from */
+const GENERATED_RANGES: Record<SymbolType, { price: [number, number]; volatility: [number, number] }> = {
+  Stock: { price: [20, 600], volatility: [0.012, 0.035] },
+  ETF: { price: [50, 500], volatility: [0.008, 0.015] },
+  Index: { price: [1000, 40000], volatility: [0.008, 0.012] },
+  Crypto: { price: [0.5, 500], volatility: [0.04, 0.08] },
+  Forex: { price: [0.5, 2], volatility: [0.004, 0.008] },
+};
+
+/**
+ * Generated mock parameters of a database symbol
+ */
+type GeneratedSymbol =
+  | { kind: 'company'; company: CompanyInfo; corporateCalendar: MockCorporateCalendar }
+  | { kind: 'pair'; pair: PairInfo };
+
+const generatedSymbols = new Map<string, GeneratedSymbol | null>();
+
+/**
+ * Draw uniformly from a range
+ */
+function drawUniform(random: () => number, [min, max]: [number, number]): number {
+  return min + random() * (max - min);
+}
+
+/**
+ * Draw from a range on a log scale, for prices and sizes
+ */
+function drawLogUniform(random: () => number, [min, max]: [number, number]): number {
+  return Math.exp(drawUniform(random, [Math.log(min), Math.log(max)]));
+}
+
+function roundTo(value: number, decimals: number): number {
+  return parseFloat(value.toFixed(decimals));
+}
+
+/**
+ * Parameters of a database symbol, drawn deterministically from its name
+ * Stocks trade at 12-45x earnings with market caps of $20B-$2T, half of
+ * them pay dividends; ETFs pay dividends; indices have no events.
+ */
+function generateSymbol(entry: SymbolSearchResult): GeneratedSymbol {
+  const random = seededRandom(hashString(`${entry.symbol}-universe`));
+  const ranges = GENERATED_RANGES[entry.type];
+  const basePrice = roundTo(drawLogUniform(random, ranges.price), entry.type === 'Forex' ? 4 : 2);
+  const volatility = roundTo(drawUniform(random, ranges.volatility), 4);
+
+  if (entry.type === 'Crypto' || entry.type === 'Forex') {
+    const avgVolume = entry.type === 'Crypto' ? Math.round(drawLogUniform(random, [1e5, 1e7])) : 0;
+    return { kind: 'pair', pair: { symbol: entry.symbol, name: entry.name, basePrice, volatility, avgVolume } };
+  }
+
+  const isStock = entry.type === 'Stock';
+  const company: CompanyInfo = {
+    symbol: entry.symbol,
+    name: entry.name,
+    exchange: entry.exchange,
+    sector: isStock ? (MOCK_SECTORS[entry.symbol] ?? 'Other') : entry.type === 'ETF' ? 'Exchange Traded Fund' : 'Index',
+    basePrice,
+    volatility,
+    sharesOutstanding: isStock ? Math.round(drawLogUniform(random, [2e10, 2e12]) / basePrice / 1e6) * 1e6 : undefined,
+    beta: entry.type === 'Index' ? undefined : roundTo(drawUniform(random, isStock ? [0.6, 1.8] : [0.9, 1.2]), 2),
+  };
+  const paysDividend = entry.type === 'ETF' || (isStock && random() < 0.5);
+  const dividendYield = drawUniform(random, isStock ? [0.005, 0.03] : [0.006, 0.02]);
+  const corporateCalendar: MockCorporateCalendar = {
+    splits: [],
+    quarterlyDividend: paysDividend ? roundTo((basePrice * dividendYield) / 4, 2) : 0,
+    quarterlyEPS: isStock ? roundTo(basePrice / drawUniform(random, [12, 45]) / 4, 2) : 0,
+  };
+  return { kind: 'company', company, corporateCalendar };
+}
+
+/**
+ * Generated parameters of a database symbol without curated ones
+ */
+function getGeneratedSymbol(symbol: string): GeneratedSymbol | null {
+  let generated = generatedSymbols.get(symbol);
+  if (generated === undefined) {
+    const entry = SYMBOL_DATABASE.find((item) => item.symbol === symbol);
+    generated = entry ? generateSymbol(entry) : null;
+    generatedSymbols.set(symbol, generated);
+  }
+  return generated;
+}
+
+/**
+ * Mock company (stock, ETF or index) of an upper-case symbol
+ */
+export function getMockCompany(symbol: string): CompanyInfo | undefined {
+  if (COMPANIES[symbol]) return COMPANIES[symbol];
+  const generated = getGeneratedSymbol(symbol);
+  return generated?.kind === 'company' ? generated.company : undefined;
+}
+
+/**
+ * Mock crypto or FX pair of an upper-case symbol
+ */
+export function getMockPair(symbol: string): PairInfo | undefined {
+  if (MOCK_PAIRS[symbol]) return MOCK_PAIRS[symbol];
+  const generated = getGeneratedSymbol(symbol);
+  return generated?.kind === 'pair' ? generated.pair : undefined;
+}
+
+/**
+ * Corporate calendar of a mock company
+ */
+function getMockCorporateCalendar(symbol: string): MockCorporateCalendar {
+  if (MOCK_CORPORATE_CALENDARS[symbol]) return MOCK_CORPORATE_CALENDARS[symbol];
+  const generated = getGeneratedSymbol(symbol);
+  return generated?.kind === 'company'
+    ? generated.corporateCalendar
+    : { splits: [], quarterlyDividend: 0, quarterlyEPS: 0 };
+}
+
+/** Months (1-12) with a dividend ex-date */
+const DIVIDEND_MONTHS = [2, 5, 8, 11];
+
+/** Day of month dividend ex-dates start looking for a trading day */
+const DIVIDEND_DAY = 10;
+
+/** Months (1-12) with an earnings release, for the quarter ended the month before */
+const EARNINGS_MONTHS = [1, 4, 7, 10];
+
+/** Years of simulated history, as far back as a custom range may start */
+const MOCK_EVENT_YEARS = MAX_CUSTOM_RANGE_YEARS;
+
+/**
+ * Date-only stamp (UTC midnight) of a session date
+ */
+function toDateOnlyTime(date: string): number {
+  return Date.parse(`${date}T00:00:00Z`) / 1000;
+}
+
+/**
+ * Format a UTC calendar date as YYYY-MM-DD
+ */
+function formatDate(year: number, month: number, day: number): string {
+  return new Date(Date.UTC(year, month - 1, day)).toISOString().slice(0, 10);
+}
+
+/**
+ * Simulated earnings, dividends and splits up to today, oldest first
+ * Per-share amounts before a split are scaled up by its ratio.
+ */
+export function getMockCorporateEvents(symbol: string): CorporateEvent[] {
+  const upperSymbol = symbol.toUpperCase();
+  if (getMockPair(upperSymbol)) {
+    return [];
+  }
+
+  // Unknown symbols get AAPL's calendar, like their price data
+  const company = getMockCompany(upperSymbol) ?? COMPANIES.AAPL;
+  const config = getMockCorporateCalendar(company.symbol);
+  const calendar = getTradingCalendar(company.exchange);
+  const random = seededRandom(hashString(`${company.symbol}-events`));
+  const today = getSessionDate(Date.now());
+  const thisYear = Number(today.slice(0, 4));
+
+  // Shares outstanding grow with every later split
+  const splitFactor = (date: string) =>
+    config.splits.filter((split) => split.date > date).reduce((factor, split) => factor * split.ratio, 1);
+
+  const events: CorporateEvent[] = config.splits.map((split) => ({
+    type: 'split',
+    time: toDateOnlyTime(split.date),
+    ratio: split.ratio,
+  }));
+
+  for (let year = thisYear - MOCK_EVENT_YEARS + 1; year <= thisYear; year++) {
+    // Funds and indices report no earnings
+    for (const month of config.quarterlyEPS > 0 ? EARNINGS_MONTHS : []) {
+      const firstWeekday = new Date(Date.UTC(year, month - 1, 1)).getUTCDay();
+      const date = formatDate(year, month, 1 + ((4 - firstWeekday + 7) % 7) + 21);
+      // EPS grows ~10% a year towards today's level
+      const growth = Math.pow(1.1, (Date.parse(date) - Date.parse(today)) / (365 * 24 * 60 * 60 * 1000));
+      const estimatedEPS = parseFloat(((config.quarterlyEPS * growth) / splitFactor(date)).toFixed(2));
+      const reportedEPS = parseFloat((estimatedEPS * (0.9 + random() * 0.25)).toFixed(2));
+      const surprise = parseFloat((reportedEPS - estimatedEPS).toFixed(2));
+      events.push({
+        type: 'earnings',
+        time: toDateOnlyTime(date),
+        fiscalDateEnding: formatDate(year, month, 0),
+        reportedEPS,
+        estimatedEPS,
+        surprise,
+        surprisePercent: estimatedEPS !== 0 ? parseFloat(((surprise / estimatedEPS) * 100).toFixed(2)) : undefined,
+        reportTime: 'post-market',
+      });
+    }
+
+    if (config.quarterlyDividend > 0) {
+      for (const month of DIVIDEND_MONTHS) {
+        let date = formatDate(year, month, DIVIDEND_DAY);
+        while (!isTradingDay(date, calendar)) {
+          date = formatDate(year, month, Number(date.slice(8)) + 1);
+        }
+        events.push({
+          type: 'dividend',
+          time: toDateOnlyTime(date),
+          amount: parseFloat((config.quarterlyDividend * splitFactor(date)).toFixed(2)),
+          declarationDate: formatDate(year, month - 1, DIVIDEND_DAY + 15),
+          recordDate: formatDate(year, month, Number(date.slice(8)) + 1),
+          paymentDate: formatDate(year, month, 25),
+        });
+      }
+    }
+  }
+
+  return events
+    .filter((event) => event.time <= toDateOnlyTime(today))
+    .sort((a, b) => a.time - b.time);
+}
+
+/**
+ * Splits and dividends going ex in (fromDate, toDate], as price actions
+ */
+function getCorporateActionsBetween(
+  events: CorporateEvent[],
+  fromDate: string,
+  toDate: string
+): Omit<CorporateAction, 'time'>[] {
+  const from = toDateOnlyTime(fromDate);
+  const to = toDateOnlyTime(toDate);
+  const actions: Omit<CorporateAction, 'time'>[] = [];
+  for (const event of events) {
+    if (event.time <= from || event.time > to) continue;
+    if (event.type === 'split') {
+      actions.push({ type: 'split', value: event.ratio });
+    } else if (event.type === 'dividend') {
+      actions.push({ type: 'dividend', value: event.amount });
+    }
+  }
+  return actions;
+}
+
 /**
  * Seeded random number generator for consistent data
  */
@@ -79,11 +430,18 @@ function hashString(str: string): number {
 /**
  * Calculate the number of data points needed for a time range and interval
  */
-function getDataPointCount(timeRange: TimeRange, interval: Interval): number {
+function getDataPointCount(
+  timeRange: TimeRange,
+  interval: NativeInterval,
+  customRange: CustomDateRange | null | undefined,
+  calendar: TradingCalendar
+): number {
   const now = new Date();
   
-  // Approximate trading hours per day
-  const tradingMinutesPerDay = 390; // 6.5 hours
+  // Trading minutes per day, including pre-market and after-hours
+  // (4:00 AM - 8:00 PM ET for stocks, all day for crypto and FX)
+  const tradingMinutesPerDay = calendar.hours.postClose - calendar.hours.preOpen;
+  const sessionsPerWeek = 7 - calendar.weekendDays.length;
   
   let days: number;
   switch (timeRange) {
@@ -112,9 +470,17 @@ function getDataPointCount(timeRange: TimeRange, interval: Interval): number {
     case 'MAX':
       days = 2520; // ~10 years
       break;
+    case 'CUSTOM':
+      // Trading days within the selected calendar span
+      days = customRange ? Math.ceil((getCustomRangeDays(customRange) * 5) / 7) : 252;
+      break;
     default:
       days = 252;
   }
+  // Counts above are stock trading days; crypto also trades on weekends
+  if (timeRange !== '1D' && timeRange !== '5D') {
+    days = Math.ceil((days * sessionsPerWeek) / 5);
+  }
   
   let intervalMinutes: number;
   switch (interval) {
@@ -136,148 +502,507 @@ function getDataPointCount(timeRange: TimeRange, interval: Interval): number {
     case 'daily':
       return days;
     case 'weekly':
-      return Math.ceil(days / 5);
+      return Math.ceil(days / sessionsPerWeek);
     case 'monthly':
-      return Math.ceil(days / 22);
+      return Math.ceil((days * 5) / (sessionsPerWeek * 22));
     default:
       return days;
   }
   
   // For intraday intervals
   const pointsPerDay = Math.floor(tradingMinutesPerDay / intervalMinutes);
-  return Math.min(days * pointsPerDay, 5000); // Cap at 5000 points
+  return days * pointsPerDay;
 }
 
 /**
- * Get interval duration in milliseconds
+ * Default native interval for a time range, derived from the span for custom ranges
  */
-function getIntervalMs(interval: Interval): number {
-  switch (interval) {
-    case '1min':
-      return 60 * 1000;
-    case '5min':
-      return 5 * 60 * 1000;
-    case '15min':
-      return 15 * 60 * 1000;
-    case '30min':
-      return 30 * 60 * 1000;
-    case '60min':
-      return 60 * 60 * 1000;
-    case 'daily':
-      return 24 * 60 * 60 * 1000;
-    case 'weekly':
-      return 7 * 24 * 60 * 60 * 1000;
-    case 'monthly':
-      return 30 * 24 * 60 * 60 * 1000;
-    default:
-      return 24 * 60 * 60 * 1000;
+function getDefaultInterval(timeRange: TimeRange, customRange?: CustomDateRange | null): NativeInterval {
+  const interval = timeRange === 'CUSTOM'
+    ? getDefaultIntervalForSpan(customRange ? getCustomRangeDays(customRange) : 365)
+    : DEFAULT_INTERVALS[timeRange];
+  return isNativeInterval(interval) ? interval : getSourceInterval(interval);
+}
+
+/**
+ * Exchange session date of a timestamp (YYYY-MM-DD)
+ */
+function getSessionDate(timestamp: number, timeZone: string = EXCHANGE_TIMEZONE): string {
+  return getZonedDateKey(Math.floor(timestamp / 1000), timeZone, false);
+}
+
+/**
+ * What the generator needs to know about a stock or pair
+ */
+interface MockSeriesSpec {
+  basePrice: number;
+  volatility: number;
+  avgVolume: number;
+  calendar: TradingCalendar;
+  splits: { date: string; ratio: number }[];
+  decimals: number;
+}
+
+/**
+ * Generator settings for a mock stock or pair
+ */
+function getMockSeriesSpec(symbol: string): MockSeriesSpec | undefined {
+  const pair = getMockPair(symbol);
+  if (pair) {
+    return {
+      basePrice: pair.basePrice,
+      volatility: pair.volatility,
+      avgVolume: pair.avgVolume,
+      calendar: getInstrumentCalendar(symbol),
+      splits: [],
+      decimals: getPriceDecimals(parseInstrument(symbol), pair.basePrice),
+    };
   }
+
+  const company = getMockCompany(symbol);
+  if (!company) return undefined;
+  return {
+    basePrice: company.basePrice,
+    volatility: company.volatility,
+    avgVolume: STOCK_AVG_VOLUME,
+    calendar: getTradingCalendar(company.exchange),
+    splits: getMockCorporateCalendar(company.symbol).splits,
+    decimals: 2,
+  };
 }
 
 /**
- * Check if a timestamp falls within trading hours (9:30 AM - 4:00 PM ET)
+ * One session of a mock price path, in raw prices
+ * Open, high, low, close and volume cover the regular session.
  */
-function isWithinTradingHours(timestamp: number): boolean {
-  const date = new Date(timestamp);
-  const hours = date.getUTCHours() - 5; // Approximate ET offset
-  const minutes = date.getMinutes();
-  const timeInMinutes = hours * 60 + minutes;
-  
-  // Trading hours: 9:30 AM (570 min) to 4:00 PM (960 min)
-  return timeInMinutes >= 570 && timeInMinutes <= 960;
+interface MockSession {
+  date: string;
+  open: number;
+  high: number;
+  low: number;
+  close: number;
+  volume: number;
+  /** Previous session's close, after splits and dividends going ex on this one */
+  previousClose: number;
+  /** Standard deviation of the session's log return */
+  sigma: number;
+  /** Back-adjustment for the splits and dividends going ex after this session */
+  priceFactor: number;
+  volumeFactor: number;
+}
+
+/**
+ * Canonical price path of a symbol, one session per trading day
+ * Minute bars are filled in per session on demand; every interval, range
+ * and quote is aggregated from them.
+ */
+interface MockPath {
+  symbol: string;
+  spec: MockSeriesSpec;
+  sessions: MockSession[];
+  /** Minute bars of the latest session, built on first use */
+  latestMinutes?: OHLCV[];
+}
+
+/** Paths kept in memory, by symbol, scenario and day */
+const pathCache = new Map<string, MockPath>();
+
+/**
+ * Canonical path of a symbol under a simulation scenario (by default the
+ * one chosen for the symbol)
+ * The path ends at the base price on the latest session, so it is rebuilt
+ * when the day or the scenario changes.
+ */
+function getMockPath(
+  symbol: string,
+  spec: MockSeriesSpec,
+  scenario: SimulationScenario = getSymbolScenario(symbol)
+): MockPath {
+  const { calendar } = spec;
+  const today = getSessionDate(Date.now(), calendar.timeZone);
+  const key = `${symbol}|${scenario.id}|${today}`;
+  const cached = pathCache.get(key);
+  if (cached) {
+    return cached;
+  }
+
+  const sessionsPerWeek = 7 - calendar.weekendDays.length;
+  // Every session since the same day MOCK_EVENT_YEARS years ago
+  const [year, month, day] = today.split('-').map(Number);
+  const dates = getTradingDaysBetween(
+    formatDate(year - MOCK_EVENT_YEARS, month, day - 1),
+    formatDate(year, month, day + 1),
+    calendar
+  );
+
+  // Sessions gap open after a break in trading: overnight for stocks, the
+  // weekend for FX; crypto never stops
+  const isRoundTheClock = calendar.hours.preOpen === 0 && calendar.hours.postClose === MINUTES_PER_DAY;
+  const opensAfterBreak = dates.map(
+    (date, i) => i > 0 && (!isRoundTheClock || toDateOnlyTime(date) - toDateOnlyTime(dates[i - 1]) > SECONDS_PER_DAY)
+  );
+
+  const random = seededRandom(hashString(`${symbol}-path`));
+  const moves = simulateMoves(
+    scenario,
+    { volatility: spec.volatility, barDays: 1, tradingDaysPerYear: sessionsPerWeek * 52, random },
+    opensAfterBreak
+  );
+
+  // Walk back from the base price at the latest close; splits and
+  // dividends going ex on a session lift the prices before it
+  const events = getMockCorporateEvents(symbol);
+  const sessions: MockSession[] = new Array(dates.length);
+  let close = spec.basePrice;
+  let priceFactor = 1;
+  let volumeFactor = 1;
+
+  for (let i = dates.length - 1; i >= 0; i--) {
+    const move = moves[i];
+    const open = close / Math.exp(move.change);
+    // Higher volume on larger price moves
+    const volume = Math.floor(spec.avgVolume * (0.5 + random() * 1.5) * (1 + Math.abs(move.change) * 10));
+    const previousClose = open / Math.exp(move.gap);
+    sessions[i] = {
+      date: dates[i],
+      open,
+      high: Math.max(open, close) * Math.exp(move.upperWick),
+      low: Math.min(open, close) / Math.exp(move.lowerWick),
+      close,
+      volume,
+      previousClose,
+      sigma: move.sigma,
+      priceFactor,
+      volumeFactor,
+    };
+
+    close = previousClose;
+    if (i > 0) {
+      for (const action of getCorporateActionsBetween(events, dates[i - 1], dates[i])) {
+        if (action.type === 'split') {
+          close *= action.value;
+          priceFactor /= action.value;
+          volumeFactor *= action.value;
+        } else {
+          close += action.value;
+          priceFactor *= 1 - action.value / close;
+        }
+      }
+    }
+  }
+
+  const path = { symbol, spec, sessions };
+  if (pathCache.size >= MAX_CACHED_PATHS) {
+    pathCache.delete(pathCache.keys().next().value as string);
+  }
+  pathCache.set(key, path);
+  return path;
+}
+
+/**
+ * Wall-clock time of a session date in the calendar's time zone, as Unix seconds
+ */
+function getSessionTime(date: string, minutes: number, calendar: TradingCalendar): number {
+  const clock = `${String(Math.floor(minutes / 60)).padStart(2, '0')}:${String(minutes % 60).padStart(2, '0')}`;
+  return parseZonedDateTime(`${date} ${clock}`, calendar.timeZone);
+}
+
+/**
+ * Minute bars of a session, unrounded and tagged with their market session
+ * Pre-market drifts from the previous close to the open, the regular
+ * session reaches the session's bar exactly and after-hours wanders
+ * around the close.
+ */
+function getSessionMinutes(path: MockPath, index: number): OHLCV[] {
+  // Every quote and daily series needs the latest session's minutes
+  const isLatest = index === path.sessions.length - 1;
+  if (isLatest && path.latestMinutes) {
+    return path.latestMinutes;
+  }
+
+  const { spec, sessions, symbol } = path;
+  const { calendar } = spec;
+  const session = sessions[index];
+  const hours = getSessionHours(session.date, calendar) ?? calendar.hours;
+  const random = seededRandom(hashString(`${symbol}-${session.date}`));
+  const regularMinutes = hours.close - hours.open;
+  const sigma = (session.sigma / Math.sqrt(regularMinutes)) * MINUTE_NOISE;
+
+  const segments: { session: MarketSession; points: number[]; high: number; low: number }[] = [
+    {
+      session: 'pre',
+      points: simulateBridge(Math.log(session.previousClose), Math.log(session.open), hours.open - hours.preOpen, sigma * 0.5, random),
+      high: Infinity,
+      low: -Infinity,
+    },
+    {
+      session: 'regular',
+      points: simulateSessionPath(
+        {
+          open: Math.log(session.open),
+          high: Math.log(session.high),
+          low: Math.log(session.low),
+          close: Math.log(session.close),
+        },
+        regularMinutes,
+        sigma,
+        random
+      ),
+      high: Math.log(session.high),
+      low: Math.log(session.low),
+    },
+    {
+      session: 'post',
+      points: simulateBridge(Math.log(session.close), Math.log(session.close), hours.postClose - hours.close, sigma * 0.5, random),
+      high: Infinity,
+      low: -Infinity,
+    },
+  ];
+
+  // Regular volume is U-shaped over the day and adds up to the session's
+  const weights = Array.from({ length: regularMinutes }, (_, i) => {
+    const position = (i + 0.5) / regularMinutes - 0.5;
+    return (1 + 8 * position * position) * (0.5 + random());
+  });
+  const totalWeight = weights.reduce((sum, weight) => sum + weight, 0);
+  const regularVolumes = weights.map((weight) => Math.floor((session.volume * weight) / totalWeight));
+  if (regularVolumes.length > 0) {
+    regularVolumes[regularVolumes.length - 1] += session.volume - regularVolumes.reduce((sum, volume) => sum + volume, 0);
+  }
+  const extendedVolume = (session.volume / regularMinutes) * EXTENDED_HOURS_VOLUME_FACTOR;
+
+  const minutes: OHLCV[] = [];
+  let time = getSessionTime(session.date, hours.preOpen, calendar);
+  for (const segment of segments) {
+    const { points } = segment;
+    for (let i = 0; i < points.length - 1; i++) {
+      const open = points[i];
+      const close = points[i + 1];
+      minutes.push({
+        time,
+        open: Math.exp(open),
+        high: Math.exp(Math.min(Math.max(open, close) + random() * sigma * 0.5, segment.high)),
+        low: Math.exp(Math.max(Math.min(open, close) - random() * sigma * 0.5, segment.low)),
+        close: Math.exp(close),
+        volume: segment.session === 'regular'
+          ? regularVolumes[i]
+          : Math.floor(extendedVolume * (0.5 + random())),
+        session: segment.session,
+      });
+      time += 60;
+    }
+  }
+  if (isLatest) {
+    path.latestMinutes = minutes;
+  }
+  return minutes;
+}
+
+/**
+ * A session's bars at a minute interval, up to a time
+ * Buckets start at the regular open and never span two market sessions,
+ * like `resampleOHLCV`.
+ */
+function getSessionBars(path: MockPath, index: number, intervalMinutes: number, until: number): OHLCV[] {
+  const minutes = getSessionMinutes(path, index).filter((bar) => bar.time <= until);
+  if (intervalMinutes === 1 || minutes.length === 0) {
+    return minutes;
+  }
+
+  const hours = getSessionHours(path.sessions[index].date, path.spec.calendar) ?? path.spec.calendar.hours;
+  const start = minutes[0].time;
+  const bars: OHLCV[] = [];
+  let currentKey: string | null = null;
+  for (const minute of minutes) {
+    const minuteOfDay = hours.preOpen + (minute.time - start) / 60;
+    const key = `${minute.session}:${Math.floor((minuteOfDay - hours.open) / intervalMinutes)}`;
+    const last = bars[bars.length - 1];
+    if (key === currentKey && last) {
+      last.high = Math.max(last.high, minute.high);
+      last.low = Math.min(last.low, minute.low);
+      last.close = minute.close;
+      last.volume += minute.volume;
+    } else {
+      bars.push({ ...minute });
+      currentKey = key;
+    }
+  }
+  return bars;
+}
+
+/**
+ * Regular-session bar of a session as traded up to a time, or null before its open
+ * Only the latest session can still be in progress.
+ */
+function getDailyBar(path: MockPath, index: number, until: number): OHLCV | null {
+  const session = path.sessions[index];
+  const time = toDateOnlyTime(session.date);
+  const bar = { time, open: session.open, high: session.high, low: session.low, close: session.close, volume: session.volume };
+  if (index < path.sessions.length - 1) {
+    return bar;
+  }
+
+  const regular = getSessionMinutes(path, index).filter((minute) => minute.session === 'regular');
+  const traded = regular.filter((minute) => minute.time <= until);
+  if (traded.length === 0) {
+    return null;
+  }
+  if (traded.length === regular.length) {
+    return bar;
+  }
+  return {
+    time,
+    open: traded[0].open,
+    high: Math.max(...traded.map((minute) => minute.high)),
+    low: Math.min(...traded.map((minute) => minute.low)),
+    close: traded[traded.length - 1].close,
+    volume: traded.reduce((sum, minute) => sum + minute.volume, 0),
+  };
 }
 
 /**
- * Check if a date is a weekday
+ * Daily bars of the sessions in [first, last] traded by a time, with their sessions
  */
-function isWeekday(timestamp: number): boolean {
-  const day = new Date(timestamp).getDay();
-  return day !== 0 && day !== 6;
+function getDailyBars(path: MockPath, first: number, last: number, until: number): { bar: OHLCV; session: MockSession }[] {
+  const bars: { bar: OHLCV; session: MockSession }[] = [];
+  for (let i = first; i <= last; i++) {
+    const bar = getDailyBar(path, i, until);
+    if (bar) bars.push({ bar, session: path.sessions[i] });
+  }
+  return bars;
+}
+
+/**
+ * Round a raw bar, back-adjusting it for later splits and dividends if asked
+ */
+function finishBar(bar: OHLCV, session: MockSession, decimals: number, adjusted: boolean): OHLCV {
+  const priceFactor = adjusted ? session.priceFactor : 1;
+  const volumeFactor = adjusted ? session.volumeFactor : 1;
+  const round = (value: number) => parseFloat((value * priceFactor).toFixed(decimals));
+  return {
+    ...bar,
+    open: round(bar.open),
+    high: round(bar.high),
+    low: round(bar.low),
+    close: round(bar.close),
+    volume: Math.round(bar.volume * volumeFactor),
+  };
 }
 
 /**
- * Generate realistic OHLCV data for a symbol
+ * Generate realistic OHLCV data for a stock or pair
+ * All intervals and ranges are cut from the symbol's canonical path, so a
+ * date's bar is the same whatever range it is requested in.
+ * Prices are raw: splits and dividends gap the price down on their ex-date.
+ * Pass `adjusted` to back-adjust the series for them. Pairs trade on their
+ * own calendar (24/7 crypto, 24/5 FX) and have no corporate actions.
  */
 export function generateMockOHLCV(
-  symbol: SupportedSymbol,
+  symbol: string,
   timeRange: TimeRange,
-  interval: Interval = DEFAULT_INTERVALS[timeRange]
+  interval?: NativeInterval,
+  customRange?: CustomDateRange | null,
+  adjusted: boolean = false
 ): OHLCV[] {
-  const company = COMPANIES[symbol];
-  if (!company) {
+  interval ??= getDefaultInterval(timeRange, customRange);
+
+  const spec = getMockSeriesSpec(symbol);
+  if (!spec) {
     throw new Error(`Unknown symbol: ${symbol}`);
   }
 
-  const dataPoints = getDataPointCount(timeRange, interval);
-  const intervalMs = getIntervalMs(interval);
-  const isIntraday = ['1min', '5min', '15min', '30min', '60min'].includes(interval);
-  
-  // Create a seeded random generator for consistent data
-  const seed = hashString(`${symbol}-${timeRange}-${interval}`);
-  const random = seededRandom(seed);
-  
-  const data: OHLCV[] = [];
-  let currentPrice = company.basePrice;
-  const volatility = company.volatility;
-  
-  // Calculate start time
-  const now = Date.now();
-  let currentTime = now - dataPoints * intervalMs;
-  
-  // Add some trend bias based on symbol
-  const trendBias = (random() - 0.48) * 0.001;
-  
-  for (let i = 0; i < dataPoints; i++) {
-    // Skip non-trading times for intraday data
-    if (isIntraday) {
-      while (!isWeekday(currentTime) || !isWithinTradingHours(currentTime)) {
-        currentTime += intervalMs;
-      }
-    } else {
-      // Skip weekends for daily+ data
-      while (!isWeekday(currentTime)) {
-        currentTime += 24 * 60 * 60 * 1000;
+  const { calendar, decimals } = spec;
+  const path = getMockPath(symbol, spec);
+  const { sessions } = path;
+  const dataPoints = getDataPointCount(timeRange, interval, customRange, calendar);
+  const now = Math.floor(Date.now() / 1000);
+  const finish = (bar: OHLCV, session: MockSession) => finishBar(bar, session, decimals, adjusted);
+
+  // Custom ranges start and stop at their own dates
+  const custom = timeRange === 'CUSTOM' && customRange && getCustomRangeWindow(customRange) ? customRange : null;
+  let first = 0;
+  let last = sessions.length - 1;
+  if (custom) {
+    first = sessions.findIndex((session) => session.date >= custom.startDate);
+    while (last >= 0 && sessions[last].date > custom.endDate) {
+      last--;
+    }
+    if (first < 0 || last < first) {
+      return [];
+    }
+  }
+
+  const intervalSpec = parseInterval(interval);
+  if (intervalSpec?.unit === 'minute') {
+    // Custom ranges fill up from their start, others back from now
+    const bars: OHLCV[] = [];
+    if (custom) {
+      for (let i = first; i <= last && bars.length < dataPoints; i++) {
+        bars.push(...getSessionBars(path, i, intervalSpec.count, now).map((bar) => finish(bar, sessions[i])));
       }
+      return bars.slice(0, dataPoints);
     }
-    
-    // Generate realistic price movement
-    const volatilityMultiplier = isIntraday ? volatility * 0.3 : volatility;
-    const priceChange = (random() - 0.5 + trendBias) * volatilityMultiplier * currentPrice;
-    
-    // Generate OHLC values
-    const open = currentPrice;
-    const close = currentPrice + priceChange;
-    
-    // High is above both open and close
-    const highExtra = random() * volatilityMultiplier * 0.5 * currentPrice;
-    const high = Math.max(open, close) + highExtra;
-    
-    // Low is below both open and close
-    const lowExtra = random() * volatilityMultiplier * 0.5 * currentPrice;
-    const low = Math.min(open, close) - lowExtra;
-    
-    // Generate volume with some variability
-    const avgVolume = 50000000; // 50M shares
-    const volumeMultiplier = 0.5 + random() * 1.5;
-    // Higher volume on larger price moves
-    const moveSize = Math.abs(close - open) / open;
-    const volumeBoost = 1 + moveSize * 10;
-    const volume = Math.floor(avgVolume * volumeMultiplier * volumeBoost / dataPoints * 100);
-    
-    data.push({
-      time: Math.floor(currentTime / 1000), // Convert to seconds
-      open: parseFloat(open.toFixed(2)),
-      high: parseFloat(high.toFixed(2)),
-      low: parseFloat(low.toFixed(2)),
-      close: parseFloat(close.toFixed(2)),
-      volume,
-    });
-    
-    currentPrice = close;
-    currentTime += intervalMs;
+    for (let i = last; i >= 0 && bars.length < dataPoints; i--) {
+      bars.unshift(...getSessionBars(path, i, intervalSpec.count, now).map((bar) => finish(bar, sessions[i])));
+    }
+    return bars.slice(-dataPoints);
   }
-  
-  return data;
+
+  const daily = getDailyBars(path, first, last, now).map(({ bar, session }) => finish(bar, session));
+  const bars = interval === 'daily' ? daily : resampleOHLCV(daily, interval, calendar);
+  return custom ? bars : bars.slice(-dataPoints);
+}
+
+/**
+ * Latest session of a symbol as traded so far, in raw prices
+ */
+export interface MockSessionSummary {
+  date: string;
+  open: number;
+  high: number;
+  low: number;
+  /** Latest regular-session price */
+  close: number;
+  volume: number;
+  previousClose: number;
+}
+
+/**
+ * Summarize the latest session that has opened, from the canonical path
+ * Used for mock quotes, so they agree with the charted bars.
+ */
+export function getLatestMockSession(symbol: string): MockSessionSummary | undefined {
+  const spec = getMockSeriesSpec(symbol.toUpperCase());
+  if (!spec) return undefined;
+
+  const path = getMockPath(symbol.toUpperCase(), spec);
+  const now = Math.floor(Date.now() / 1000);
+  for (let i = path.sessions.length - 1; i >= 0; i--) {
+    const bar = getDailyBar(path, i, now);
+    if (!bar) continue;
+    const session = path.sessions[i];
+    const { open, high, low, close, volume } = finishBar(bar, session, spec.decimals, false);
+    const previousClose = parseFloat(session.previousClose.toFixed(spec.decimals));
+    return { date: session.date, open, high, low, close, volume, previousClose };
+  }
+  return undefined;
+}
+
+/**
+ * Minute bars of the latest session, pre-market to after-hours, rounded
+ * and tagged with their market session
+ * The mock trade feed trades within them, so streamed and fetched bars agree;
+ * it runs outside the page, so it names the page's scenario for the symbol.
+ */
+export function getLatestMockMinutes(symbol: string, scenarioId?: string): OHLCV[] {
+  const spec = getMockSeriesSpec(symbol.toUpperCase());
+  if (!spec) return [];
+
+  const scenario = scenarioId === undefined ? undefined : getScenario(scenarioId);
+  const path = getMockPath(symbol.toUpperCase(), spec, scenario);
+  const index = path.sessions.length - 1;
+  const session = path.sessions[index];
+  return getSessionMinutes(path, index).map((bar) => finishBar(bar, session, spec.decimals, false));
 }
 
 /**
@@ -286,28 +1011,30 @@ export function generateMockOHLCV(
 export function getMockStockData(
   symbol: string,
   timeRange: TimeRange,
-  interval?: Interval
+  interval?: NativeInterval,
+  customRange?: CustomDateRange | null,
+  adjusted: boolean = false
 ): OHLCV[] {
-  const supportedSymbol = symbol.toUpperCase() as SupportedSymbol;
+  const upperSymbol = symbol.toUpperCase();
   
-  if (!COMPANIES[supportedSymbol]) {
-    // Return AAPL data if symbol not found
-    return generateMockOHLCV('AAPL', timeRange, interval);
+  if (!getMockCompany(upperSymbol) && !getMockPair(upperSymbol)) {
+    // Return AAPL data for symbols outside the mock universe
+    return generateMockOHLCV('AAPL', timeRange, interval, customRange, adjusted);
   }
   
-  return generateMockOHLCV(supportedSymbol, timeRange, interval);
+  return generateMockOHLCV(upperSymbol, timeRange, interval, customRange, adjusted);
 }
 
 /**
  * Get company info for a symbol
  */
 export function getCompanyInfo(symbol: string): CompanyInfo | undefined {
-  return COMPANIES[symbol.toUpperCase() as SupportedSymbol];
+  return getMockCompany(symbol.toUpperCase());
 }
 
 /**
- * Get all supported symbols
+ * Get all symbols with mock data
  */
 export function getSupportedSymbols(): SupportedSymbol[] {
-  return Object.keys(COMPANIES) as SupportedSymbol[];
+  return SYMBOL_DATABASE.map((item) => item.symbol);
 }
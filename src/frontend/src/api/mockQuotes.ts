@@ -1,37 +1,42 @@
 /**
  * Mock Quote Data
  * Generates realistic stock quote information
+ *
+ * Quotes are read off the same canonical price path as the mock bars.
  */
 
-import type { Quote, SupportedSymbol } from '../types/stock';
-import { COMPANIES, getMockStockData } from './mockData';
+import type { Quote, CompanyFundamentals, PairInfo } from '../types/stock';
+import {
+  COMPANIES,
+  getMockCompany,
+  getMockPair,
+  getMockStockData,
+  getMockCorporateEvents,
+  getLatestMockSession,
+} from './mockData';
+import { parseInstrument, getPriceDecimals } from '../utils/instruments';
 
 /**
  * Generate a mock quote for a symbol based on recent price data
  */
 export function getMockQuote(symbol: string): Quote {
-  const supportedSymbol = symbol.toUpperCase() as SupportedSymbol;
-  const company = COMPANIES[supportedSymbol];
+  const pair = getMockPair(symbol.toUpperCase());
+  if (pair) {
+    return getPairQuote(pair);
+  }
+
+  const supportedSymbol = symbol.toUpperCase();
+  const company = getMockCompany(supportedSymbol);
+  const session = getLatestMockSession(supportedSymbol);
   
-  if (!company) {
+  if (!company || !session) {
     // Return a default quote for unknown symbols
     return getDefaultQuote(symbol);
   }
   
-  // Get recent data to calculate current price
-  const recentData = getMockStockData(supportedSymbol, '1D', '5min');
-  const latestBar = recentData[recentData.length - 1];
-  
-  // Get daily data for open/high/low
-  const dailyData = getMockStockData(supportedSymbol, '1D', '5min');
-  const dayOpen = dailyData[0]?.open || latestBar.open;
-  const dayHigh = Math.max(...dailyData.map(d => d.high));
-  const dayLow = Math.min(...dailyData.map(d => d.low));
-  const totalVolume = dailyData.reduce((sum, d) => sum + d.volume, 0);
-  
-  // Calculate change from previous close
-  const previousClose = company.basePrice * (0.98 + Math.random() * 0.04);
-  const currentPrice = latestBar.close;
+  // Latest session so far, and the change from the previous close
+  const { previousClose } = session;
+  const currentPrice = session.close;
   const change = currentPrice - previousClose;
   const changePercent = (change / previousClose) * 100;
   
@@ -39,11 +44,14 @@ export function getMockQuote(symbol: string): Quote {
   const yearData = getMockStockData(supportedSymbol, '1Y', 'daily');
   const week52High = Math.max(...yearData.map(d => d.high));
   const week52Low = Math.min(...yearData.map(d => d.low));
-  const avgVolume = Math.floor(yearData.reduce((sum, d) => sum + d.volume, 0) / yearData.length);
+  // Average daily volume over the last three months (~63 sessions)
+  const recentSessions = yearData.slice(-63);
+  const avgVolume = Math.floor(recentSessions.reduce((sum, d) => sum + d.volume, 0) / recentSessions.length);
   
-  // Generate market cap based on price
-  const sharesOutstanding = getSharesOutstanding(supportedSymbol);
-  const marketCap = currentPrice * sharesOutstanding;
+  // Market cap based on price; funds and indices have none
+  const { sharesOutstanding } = company;
+  const marketCap = sharesOutstanding !== undefined ? currentPrice * sharesOutstanding : undefined;
+  const { eps, dividendYield } = getTrailingFigures(supportedSymbol, currentPrice);
   
   return {
     symbol: supportedSymbol,
@@ -51,17 +59,93 @@ export function getMockQuote(symbol: string): Quote {
     price: parseFloat(currentPrice.toFixed(2)),
     change: parseFloat(change.toFixed(2)),
     changePercent: parseFloat(changePercent.toFixed(2)),
-    open: parseFloat(dayOpen.toFixed(2)),
-    high: parseFloat(dayHigh.toFixed(2)),
-    low: parseFloat(dayLow.toFixed(2)),
-    previousClose: parseFloat(previousClose.toFixed(2)),
-    volume: totalVolume,
+    open: session.open,
+    high: session.high,
+    low: session.low,
+    previousClose,
+    volume: session.volume,
     marketCap,
-    peRatio: getPERatio(supportedSymbol),
+    peRatio: eps !== undefined && eps > 0 ? parseFloat((currentPrice / eps).toFixed(2)) : undefined,
     week52High: parseFloat(week52High.toFixed(2)),
     week52Low: parseFloat(week52Low.toFixed(2)),
     avgVolume,
+    eps,
+    dividendYield,
+    beta: company.beta,
+    timestamp: Date.now(),
+  };
+}
+
+/**
+ * Generate a mock quote for a crypto or FX pair
+ * Pairs trade around the clock, so the day's change is measured from the
+ * close of the previous 24-hour (UTC) session.
+ */
+function getPairQuote(pair: PairInfo): Quote {
+  const instrument = parseInstrument(pair.symbol);
+  const session = getLatestMockSession(pair.symbol);
+  if (!session) {
+    return getDefaultQuote(pair.symbol);
+  }
+  const decimals = getPriceDecimals(instrument, session.close);
+  const round = (value: number) => parseFloat(value.toFixed(decimals));
+
+  const { previousClose } = session;
+  const change = session.close - previousClose;
+
+  const yearData = getMockStockData(pair.symbol, '1Y', 'daily');
+  const recentSessions = yearData.slice(-90);
+
+  return {
+    symbol: pair.symbol,
+    companyName: pair.name,
+    price: session.close,
+    change: round(change),
+    changePercent: parseFloat(((change / previousClose) * 100).toFixed(2)),
+    open: session.open,
+    high: session.high,
+    low: session.low,
+    previousClose,
+    volume: session.volume,
+    week52High: Math.max(...yearData.map(d => d.high)),
+    week52Low: Math.min(...yearData.map(d => d.low)),
+    avgVolume: pair.avgVolume > 0
+      ? Math.floor(recentSessions.reduce((sum, d) => sum + d.volume, 0) / recentSessions.length)
+      : undefined,
     timestamp: Date.now(),
+    currency: instrument.quoteCurrency,
+  };
+}
+
+/**
+ * Generate mock fundamentals consistent with the mock price and event data
+ * EPS is the sum of the last four reported quarters, the dividend yield
+ * the last four dividends over the latest close.
+ */
+export function getMockFundamentals(symbol: string): CompanyFundamentals {
+  const supportedSymbol = symbol.toUpperCase();
+  const company = getMockCompany(supportedSymbol);
+
+  if (!company) {
+    return { symbol: supportedSymbol };
+  }
+
+  const yearData = getMockStockData(supportedSymbol, '1Y', 'daily');
+  const price = yearData[yearData.length - 1].close;
+  const { sharesOutstanding } = company;
+  const { eps, dividendYield } = getTrailingFigures(supportedSymbol, price);
+
+  return {
+    symbol: supportedSymbol,
+    marketCap: sharesOutstanding !== undefined ? Math.round(price * sharesOutstanding) : undefined,
+    sharesOutstanding,
+    peRatio: eps !== undefined && eps > 0 ? parseFloat((price / eps).toFixed(2)) : undefined,
+    eps,
+    dividendYield,
+    beta: company.beta,
+    week52High: parseFloat(Math.max(...yearData.map(d => d.high)).toFixed(2)),
+    week52Low: parseFloat(Math.min(...yearData.map(d => d.low)).toFixed(2)),
+    sector: company.sector,
   };
 }
 
@@ -85,31 +169,23 @@ function getDefaultQuote(symbol: string): Quote {
 }
 
 /**
- * Approximate shares outstanding for market cap calculation
- */
-function getSharesOutstanding(symbol: SupportedSymbol): number {
-  const shares: Record<SupportedSymbol, number> = {
-    AAPL: 15500000000, // 15.5B
-    MSFT: 7430000000,  // 7.43B
-    GOOGL: 5890000000, // 5.89B
-    AMZN: 10350000000, // 10.35B
-    TSLA: 3180000000,  // 3.18B
-  };
-  return shares[symbol] || 1000000000;
-}
-
-/**
- * Approximate P/E ratio for symbols
+ * Trailing twelve months EPS and dividend yield (percent) from the
+ * mock earnings and dividend history; no EPS for funds and indices
  */
-function getPERatio(symbol: SupportedSymbol): number {
-  const peRatios: Record<SupportedSymbol, number> = {
-    AAPL: 29.5,
-    MSFT: 35.2,
-    GOOGL: 25.8,
-    AMZN: 42.3,
-    TSLA: 65.4,
+function getTrailingFigures(symbol: string, price: number): { eps: number | undefined; dividendYield: number } {
+  const events = getMockCorporateEvents(symbol);
+  const earnings = events
+    .flatMap((event) => (event.type === 'earnings' && event.reportedEPS !== undefined ? [event.reportedEPS] : []))
+    .slice(-4);
+  const eps = earnings.length > 0 ? earnings.reduce((sum, value) => sum + value, 0) : undefined;
+  const dividends = events
+    .flatMap((event) => (event.type === 'dividend' ? [event.amount] : []))
+    .slice(-4)
+    .reduce((sum, value) => sum + value, 0);
+  return {
+    eps: eps !== undefined ? parseFloat(eps.toFixed(2)) : undefined,
+    dividendYield: parseFloat(((dividends / price) * 100).toFixed(2)),
   };
-  return peRatios[symbol] || 20;
 }
 
 /**
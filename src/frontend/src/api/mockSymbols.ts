@@ -4,172 +4,8 @@
  */
 
 import type { SymbolSearchResult } from '../types/stock';
-import { COMPANIES } from './mockData';
-
-/**
- * Extended symbol database for search
- * Includes main symbols plus additional popular symbols
- */
-const SYMBOL_DATABASE: SymbolSearchResult[] = [
-  // Main supported symbols with full data
-  {
-    symbol: 'AAPL',
-    name: 'Apple Inc.',
-    type: 'Stock',
-    exchange: 'NASDAQ',
-    currency: 'USD',
-  },
-  {
-    symbol: 'MSFT',
-    name: 'Microsoft Corporation',
-    type: 'Stock',
-    exchange: 'NASDAQ',
-    currency: 'USD',
-  },
-  {
-    symbol: 'GOOGL',
-    name: 'Alphabet Inc.',
-    type: 'Stock',
-    exchange: 'NASDAQ',
-    currency: 'USD',
-  },
-  {
-    symbol: 'AMZN',
-    name: 'Amazon.com, Inc.',
-    type: 'Stock',
-    exchange: 'NASDAQ',
-    currency: 'USD',
-  },
-  {
-    symbol: 'TSLA',
-    name: 'Tesla, Inc.',
-    type: 'Stock',
-    exchange: 'NASDAQ',
-    currency: 'USD',
-  },
-  // Additional symbols for search variety
-  {
-    symbol: 'META',
-    name: 'Meta Platforms, Inc.',
-    type: 'Stock',
-    exchange: 'NASDAQ',
-    currency: 'USD',
-  },
-  {
-    symbol: 'NVDA',
-    name: 'NVIDIA Corporation',
-    type: 'Stock',
-    exchange: 'NASDAQ',
-    currency: 'USD',
-  },
-  {
-    symbol: 'AMD',
-    name: 'Advanced Micro Devices, Inc.',
-    type: 'Stock',
-    exchange: 'NASDAQ',
-    currency: 'USD',
-  },
-  {
-    symbol: 'NFLX',
-    name: 'Netflix, Inc.',
-    type: 'Stock',
-    exchange: 'NASDAQ',
-    currency: 'USD',
-  },
-  {
-    symbol: 'JPM',
-    name: 'JPMorgan Chase & Co.',
-    type: 'Stock',
-    exchange: 'NYSE',
-    currency: 'USD',
-  },
-  {
-    symbol: 'V',
-    name: 'Visa Inc.',
-    type: 'Stock',
-    exchange: 'NYSE',
-    currency: 'USD',
-  },
-  {
-    symbol: 'JNJ',
-    name: 'Johnson & Johnson',
-    type: 'Stock',
-    exchange: 'NYSE',
-    currency: 'USD',
-  },
-  {
-    symbol: 'WMT',
-    name: 'Walmart Inc.',
-    type: 'Stock',
-    exchange: 'NYSE',
-    currency: 'USD',
-  },
-  {
-    symbol: 'PG',
-    name: 'The Procter & Gamble Company',
-    type: 'Stock',
-    exchange: 'NYSE',
-    currency: 'USD',
-  },
-  {
-    symbol: 'DIS',
-    name: 'The Walt Disney Company',
-    type: 'Stock',
-    exchange: 'NYSE',
-    currency: 'USD',
-  },
-  // ETFs
-  {
-    symbol: 'SPY',
-    name: 'SPDR S&P 500 ETF Trust',
-    type: 'ETF',
-    exchange: 'NYSE',
-    currency: 'USD',
-  },
-  {
-    symbol: 'QQQ',
-    name: 'Invesco QQQ Trust',
-    type: 'ETF',
-    exchange: 'NASDAQ',
-    currency: 'USD',
-  },
-  {
-    symbol: 'IWM',
-    name: 'iShares Russell 2000 ETF',
-    type: 'ETF',
-    exchange: 'NYSE',
-    currency: 'USD',
-  },
-  {
-    symbol: 'VTI',
-    name: 'Vanguard Total Stock Market ETF',
-    type: 'ETF',
-    exchange: 'NYSE',
-    currency: 'USD',
-  },
-  // Indices
-  {
-    symbol: '^GSPC',
-    name: 'S&P 500',
-    type: 'Index',
-    exchange: 'INDEX',
-    currency: 'USD',
-  },
-  {
-    symbol: '^DJI',
-    name: 'Dow Jones Industrial Average',
-    type: 'Index',
-    exchange: 'INDEX',
-    currency: 'USD',
-  },
-  {
-    symbol: '^IXIC',
-    name: 'NASDAQ Composite',
-    type: 'Index',
-    exchange: 'INDEX',
-    currency: 'USD',
-  },
-];
+import { SYMBOL_DATABASE } from './symbolDatabase';
+import { getMockCompany, getMockPair } from './mockData';
 
 /**
  * Search for symbols matching a query
@@ -221,7 +57,7 @@ export function searchSymbols(query: string, limit: number = 10): SymbolSearchRe
       }
     }
     
-    // Boost supported symbols (those with full mock data)
+    // Boost symbols with mock data
     if (isSupportedSymbol(item.symbol)) {
       score += 10;
     }
@@ -236,10 +72,11 @@ export function searchSymbols(query: string, limit: number = 10): SymbolSearchRe
 }
 
 /**
- * Check if a symbol has full mock data support
+ * Check if a symbol has mock data (every symbol in the database does)
  */
 export function isSupportedSymbol(symbol: string): boolean {
-  return symbol.toUpperCase() in COMPANIES;
+  const upper = symbol.toUpperCase();
+  return getMockCompany(upper) !== undefined || getMockPair(upper) !== undefined;
 }
 
 /**
@@ -250,7 +87,7 @@ export function getAllSymbols(): SymbolSearchResult[] {
 }
 
 /**
- * Get symbols with full mock data support
+ * Get symbols with mock data
  */
 export function getSupportedSymbolsList(): SymbolSearchResult[] {
   return SYMBOL_DATABASE.filter(item => isSupportedSymbol(item.symbol));
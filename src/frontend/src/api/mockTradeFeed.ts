@@ -0,0 +1,73 @@
+/**
+ * Mock Trade Feed
+ * Trades read off the simulator's canonical price path, for the dev
+ * server's WebSocket feed (dev/tradeFeedServer.ts)
+ *
+ * A trade falls within the path's minute bar at its time: prices drift
+ * from the bar's open to its close and stay between its high and low, so
+ * bars built from the stream agree with bars fetched later. There are no
+ * trades outside trading hours.
+ */
+
+import type { OHLCV } from '../types';
+import { getLatestMockMinutes } from './mockData';
+import { parseInstrument, getPriceDecimals } from '../utils/instruments';
+
+/**
+ * A trade as sent on the wire (Finnhub streaming format)
+ */
+export interface MockTradeMessage {
+  /** Symbol */
+  s: string;
+  /** Price */
+  p: number;
+  /** Volume */
+  v: number;
+  /** Time, epoch ms */
+  t: number;
+}
+
+/** Trades per minute the volume of a minute bar is spread over */
+const TRADES_PER_MINUTE = 60;
+
+/** Minute bars per symbol and scenario, and when they were built (Unix seconds) */
+const minuteCache = new Map<string, { bars: OHLCV[]; builtAt: number }>();
+
+/**
+ * Minute bar of the latest session at a time; the session is rebuilt at
+ * most once a minute when the time falls outside it (e.g. a new day)
+ */
+function getMinuteBar(symbol: string, scenarioId: string, time: number): OHLCV | undefined {
+  const minute = time - (time % 60);
+  const key = `${symbol}|${scenarioId}`;
+  let cached = minuteCache.get(key);
+  let bar = cached?.bars.find((candidate) => candidate.time === minute);
+  if (!bar && (!cached || time - cached.builtAt >= 60)) {
+    cached = { bars: getLatestMockMinutes(symbol, scenarioId), builtAt: time };
+    minuteCache.set(key, cached);
+    bar = cached.bars.find((candidate) => candidate.time === minute);
+  }
+  return bar;
+}
+
+/**
+ * Simulated trade of a symbol at a time (epoch ms) under a scenario, or
+ * null when the symbol is unknown or not trading
+ */
+export function getMockTrade(symbol: string, scenarioId: string, timestamp: number): MockTradeMessage | null {
+  const upperSymbol = symbol.toUpperCase();
+  const time = Math.floor(timestamp / 1000);
+  const bar = getMinuteBar(upperSymbol, scenarioId, time);
+  if (!bar) return null;
+
+  const progress = (timestamp / 1000 - (time - (time % 60))) / 60;
+  const drift = bar.open + (bar.close - bar.open) * progress;
+  const wiggle = (Math.random() - 0.5) * (bar.high - bar.low) * Math.sin(Math.PI * progress);
+  const price = Math.min(bar.high, Math.max(bar.low, drift + wiggle));
+  const decimals = getPriceDecimals(parseInstrument(upperSymbol), bar.close);
+  const volume = bar.volume > 0
+    ? Math.max(1, Math.round((bar.volume / TRADES_PER_MINUTE) * (0.5 + Math.random())))
+    : 0;
+
+  return { s: upperSymbol, p: parseFloat(price.toFixed(decimals)), v: volume, t: timestamp };
+}
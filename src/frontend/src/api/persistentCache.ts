@@ -0,0 +1,225 @@
+/**
+ * Persistent Cache Module
+ * IndexedDB storage backing the in-memory API cache
+ *
+ * Entries outlive their TTL so they can still be served (flagged stale)
+ * while offline; the store is trimmed by total size, oldest first. The
+ * total is counted once per page and then tracked on every write, so
+ * trimming only reads the entries it deletes.
+ * Every operation degrades to a no-op when IndexedDB is unavailable.
+ */
+
+const DB_NAME = 'financeviz-cache';
+const DB_VERSION = 1;
+const STORE_NAME = 'entries';
+const TIMESTAMP_INDEX = 'timestamp';
+
+/** Maximum total size of persisted entries (approximate, in bytes) */
+const MAX_STORE_BYTES = 20 * 1024 * 1024; // 20 MB
+
+/**
+ * Persisted cache record
+ */
+export interface PersistedEntry<T = unknown> {
+  key: string;
+  data: T;
+  timestamp: number;
+  expiresAt: number;
+  /** Approximate serialized size in bytes */
+  size: number;
+}
+
+/**
+ * Wrap an IDBRequest in a promise
+ */
+function promisify<T>(request: IDBRequest<T>): Promise<T> {
+  return new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+}
+
+/**
+ * Walk a cursor until it ends or `visit` returns false
+ */
+function walkCursor(
+  request: IDBRequest<IDBCursorWithValue | null>,
+  visit: (cursor: IDBCursorWithValue) => boolean
+): Promise<void> {
+  return new Promise((resolve, reject) => {
+    request.onsuccess = () => {
+      const cursor = request.result;
+      if (cursor && visit(cursor)) {
+        cursor.continue();
+      } else {
+        resolve();
+      }
+    };
+    request.onerror = () => reject(request.error);
+  });
+}
+
+/**
+ * Total size of the entries in a store
+ */
+async function countBytes(store: IDBObjectStore): Promise<number> {
+  let total = 0;
+  await walkCursor(store.openCursor(), (cursor) => {
+    total += (cursor.value as PersistedEntry).size;
+    return true;
+  });
+  return total;
+}
+
+/**
+ * Approximate size of a value once serialized
+ */
+function estimateSize(data: unknown): number {
+  try {
+    // UTF-16 code units, close enough for budgeting
+    return JSON.stringify(data).length * 2;
+  } catch {
+    return 0;
+  }
+}
+
+/**
+ * IndexedDB-backed key/value cache
+ */
+class PersistentCache {
+  private dbPromise: Promise<IDBDatabase | null> | null = null;
+  private maxBytes: number;
+  /** Total size of persisted entries, once counted */
+  private totalBytes: number | null = null;
+
+  constructor(maxBytes: number = MAX_STORE_BYTES) {
+    this.maxBytes = maxBytes;
+  }
+
+  /**
+   * Open (and upgrade) the database once; resolves to null if unsupported
+   */
+  private open(): Promise<IDBDatabase | null> {
+    if (!this.dbPromise) {
+      this.dbPromise = new Promise((resolve) => {
+        if (typeof indexedDB === 'undefined') {
+          resolve(null);
+          return;
+        }
+        const request = indexedDB.open(DB_NAME, DB_VERSION);
+        request.onupgradeneeded = () => {
+          const db = request.result;
+          if (!db.objectStoreNames.contains(STORE_NAME)) {
+            const store = db.createObjectStore(STORE_NAME, { keyPath: 'key' });
+            store.createIndex(TIMESTAMP_INDEX, 'timestamp');
+          }
+        };
+        request.onsuccess = () => resolve(request.result);
+        // Private browsing modes may refuse IndexedDB; fall back to memory only
+        request.onerror = () => resolve(null);
+        request.onblocked = () => resolve(null);
+      });
+    }
+    return this.dbPromise;
+  }
+
+  /**
+   * Get an entry, including expired ones (callers decide on staleness)
+   */
+  async get<T>(key: string): Promise<PersistedEntry<T> | null> {
+    try {
+      const db = await this.open();
+      if (!db) return null;
+      const store = db.transaction(STORE_NAME, 'readonly').objectStore(STORE_NAME);
+      const entry = await promisify(store.get(key) as IDBRequest<PersistedEntry<T> | undefined>);
+      return entry ?? null;
+    } catch {
+      return null;
+    }
+  }
+
+  /**
+   * Store an entry, then trim the store to its size budget
+   */
+  async set<T>(key: string, data: T, ttl: number): Promise<void> {
+    try {
+      const db = await this.open();
+      if (!db) return;
+      const now = Date.now();
+      const entry: PersistedEntry<T> = {
+        key,
+        data,
+        timestamp: now,
+        expiresAt: now + ttl,
+        size: estimateSize(data),
+      };
+      const store = db.transaction(STORE_NAME, 'readwrite').objectStore(STORE_NAME);
+      const previous = await promisify(store.get(key) as IDBRequest<PersistedEntry | undefined>);
+      await promisify(store.put(entry));
+      if (this.totalBytes !== null) {
+        this.totalBytes += entry.size - (previous?.size ?? 0);
+      }
+      await this.evictToFit(db);
+    } catch {
+      // Quota or serialization errors only cost us persistence
+    }
+  }
+
+  /**
+   * Delete an entry
+   */
+  async delete(key: string): Promise<void> {
+    try {
+      const db = await this.open();
+      if (!db) return;
+      const store = db.transaction(STORE_NAME, 'readwrite').objectStore(STORE_NAME);
+      const previous = await promisify(store.get(key) as IDBRequest<PersistedEntry | undefined>);
+      await promisify(store.delete(key));
+      if (this.totalBytes !== null && previous) {
+        this.totalBytes -= previous.size;
+      }
+    } catch {
+      // Ignore
+    }
+  }
+
+  /**
+   * Remove all entries
+   */
+  async clear(): Promise<void> {
+    try {
+      const db = await this.open();
+      if (!db) return;
+      const store = db.transaction(STORE_NAME, 'readwrite').objectStore(STORE_NAME);
+      await promisify(store.clear());
+      this.totalBytes = 0;
+    } catch {
+      // Ignore
+    }
+  }
+
+  /**
+   * Delete the oldest entries until the store fits in maxBytes
+   */
+  private async evictToFit(db: IDBDatabase): Promise<void> {
+    const store = db.transaction(STORE_NAME, 'readwrite').objectStore(STORE_NAME);
+    let total = this.totalBytes ?? (await countBytes(store));
+
+    // Index order is oldest first; stop once enough is freed
+    if (total > this.maxBytes) {
+      await walkCursor(store.index(TIMESTAMP_INDEX).openCursor(), (cursor) => {
+        cursor.delete();
+        total -= (cursor.value as PersistedEntry).size;
+        return total > this.maxBytes;
+      });
+    }
+    this.totalBytes = total;
+  }
+}
+
+/**
+ * Singleton persistent cache instance
+ */
+export const persistentCache = new PersistentCache();
+
+export default persistentCache;
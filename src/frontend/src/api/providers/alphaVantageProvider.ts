@@ -0,0 +1,320 @@
+/**
+ * Alpha Vantage Data Provider
+ * Serves data from the Alpha Vantage REST API
+ *
+ * TASK-090: API/Mock Data Switcher Logic
+ * TASK-093: Historical Data Integration
+ */
+
+import type { MarketDataProvider, OHLCV, NativeInterval, Instrument } from '../../types';
+import type { IntradayInterval } from '../types';
+import { INTERVALS } from '../../types';
+import {
+  createAPIError,
+  alphaVantageClient,
+  alphaVantageQueue,
+  alphaVantageKeys,
+  type AlphaVantageClient,
+} from '../alphavantage';
+import {
+  transformIntradayResponse,
+  transformDailyResponse,
+  transformWeeklyResponse,
+  transformMonthlyResponse,
+  transformDailyAdjustedResponse,
+  transformWeeklyAdjustedResponse,
+  transformMonthlyAdjustedResponse,
+  transformGlobalQuoteResponse,
+  transformSymbolSearchResponse,
+  transformEarningsResponse,
+  transformDividendsResponse,
+  transformSplitsResponse,
+  transformOverviewResponse,
+  transformFXResponse,
+  transformCryptoResponse,
+  transformPairQuote,
+  mergeOHLCV,
+} from '../transforms';
+import {
+  resolveTimeRange,
+  sliceToTimeRange,
+  getMonthsInWindow,
+  type TimeRangeWindow,
+} from '../timeRange';
+import { withRetry } from '../cache';
+import { getSymbolDetails } from '../mockSymbols';
+import { isNativeIntradayInterval, NATIVE_INTERVALS } from '../../utils/intervals';
+import { parseInstrument, getInstrumentCalendar } from '../../utils/instruments';
+import type { TradingCalendar } from '../../utils/tradingCalendar';
+
+export const ALPHA_VANTAGE_PROVIDER_ID = 'alphavantage';
+
+/** Bars returned by outputsize=compact */
+const COMPACT_OUTPUT_BARS = 100;
+
+/** Days covered by intraday outputsize=full without a month parameter */
+const INTRADAY_FULL_OUTPUT_DAYS = 30;
+
+const MS_PER_DAY = 24 * 60 * 60 * 1000;
+
+/**
+ * Fetch split- and dividend-adjusted daily, weekly or monthly bars
+ */
+async function fetchAdjustedFromAPI(
+  client: AlphaVantageClient,
+  symbol: string,
+  interval: NativeInterval,
+  outputSize: 'compact' | 'full'
+): Promise<OHLCV[]> {
+  if (interval === 'weekly') {
+    const response = await client.fetchWeeklyAdjustedTimeSeries(symbol, 'high');
+    return transformWeeklyAdjustedResponse(response);
+  }
+
+  if (interval === 'monthly') {
+    const response = await client.fetchMonthlyAdjustedTimeSeries(symbol, 'high');
+    return transformMonthlyAdjustedResponse(response);
+  }
+
+  const response = await client.fetchDailyAdjustedTimeSeries(symbol, outputSize, 'high');
+  return transformDailyAdjustedResponse(response);
+}
+
+/**
+ * Fetch crypto or FX pair bars
+ * Pairs have no adjusted series; the FX_* and DIGITAL_CURRENCY_* functions
+ * take the two currencies separately.
+ */
+async function fetchPairFromAPI(
+  client: AlphaVantageClient,
+  instrument: Instrument,
+  interval: NativeInterval,
+  outputSize: 'compact' | 'full'
+): Promise<OHLCV[]> {
+  if (instrument.assetClass === 'forex') {
+    const response = await client.fetchFXTimeSeries(instrument.base, instrument.quoteCurrency, interval, outputSize, 'high');
+    return transformFXResponse(response);
+  }
+  const response = await client.fetchCryptoTimeSeries(instrument.base, instrument.quoteCurrency, interval, outputSize, 'high');
+  return transformCryptoResponse(response);
+}
+
+/**
+ * Fetch stock data from Alpha Vantage API
+ * Chart series requests use high priority in the request queue.
+ * Adjusted series use the *_ADJUSTED endpoints, or the intraday
+ * `adjusted` flag.
+ */
+async function fetchFromAPI(
+  client: AlphaVantageClient,
+  symbol: string,
+  interval: NativeInterval,
+  outputSize: 'compact' | 'full',
+  adjusted: boolean = false
+): Promise<OHLCV[]> {
+  const instrument = parseInstrument(symbol);
+  if (instrument.assetClass !== 'equity') {
+    return fetchPairFromAPI(client, instrument, interval, outputSize);
+  }
+
+  if (isNativeIntradayInterval(interval)) {
+    const response = await client.fetchIntradayTimeSeries(symbol, interval, outputSize, 'high', undefined, adjusted);
+    return transformIntradayResponse(response, interval);
+  }
+
+  if (adjusted) {
+    return fetchAdjustedFromAPI(client, symbol, interval, outputSize);
+  }
+
+  if (interval === 'daily') {
+    const response = await client.fetchDailyTimeSeries(symbol, outputSize, 'high');
+    return transformDailyResponse(response);
+  }
+
+  if (interval === 'weekly') {
+    const response = await client.fetchWeeklyTimeSeries(symbol, 'high');
+    return transformWeeklyResponse(response);
+  }
+
+  if (interval === 'monthly') {
+    const response = await client.fetchMonthlyTimeSeries(symbol, 'high');
+    return transformMonthlyResponse(response);
+  }
+
+  // Fallback to daily
+  const response = await client.fetchDailyTimeSeries(symbol, outputSize, 'high');
+  return transformDailyResponse(response);
+}
+
+/**
+ * Estimate the number of bars a window spans at an interval
+ */
+function estimateBarCount(window: TimeRangeWindow, interval: NativeInterval, calendar: TradingCalendar): number {
+  if (!window.start) {
+    return Infinity;
+  }
+  const calendarDays = (window.end.getTime() - window.start.getTime()) / MS_PER_DAY;
+  const tradingDays = window.sessions ?? Math.ceil((calendarDays * (7 - calendar.weekendDays.length)) / 7);
+  const config = INTERVALS.find((item) => item.interval === interval);
+  if (config?.isIntraday) {
+    return tradingDays * Math.floor((calendar.hours.close - calendar.hours.open) / config.minutes);
+  }
+  return tradingDays;
+}
+
+/**
+ * Choose the smallest output size that covers the window
+ */
+function getOutputSize(window: TimeRangeWindow, interval: NativeInterval, calendar: TradingCalendar): 'compact' | 'full' {
+  return estimateBarCount(window, interval, calendar) <= COMPACT_OUTPUT_BARS ? 'compact' : 'full';
+}
+
+/**
+ * Fetch intraday history month by month, for windows older than the
+ * trailing 30 days served by outputsize=full
+ */
+async function fetchIntradayByMonth(
+  client: AlphaVantageClient,
+  symbol: string,
+  interval: IntradayInterval,
+  window: TimeRangeWindow,
+  adjusted: boolean = false
+): Promise<OHLCV[]> {
+  let data: OHLCV[] = [];
+  for (const month of getMonthsInWindow(window.start ?? window.end, window.end)) {
+    const response = await withRetry(
+      () => client.fetchIntradayTimeSeries(symbol, interval, 'full', 'high', month, adjusted),
+      2,
+      1000
+    );
+    data = mergeOHLCV(data, transformIntradayResponse(response, interval));
+  }
+  return data;
+}
+
+/**
+ * Check whether an intraday window reaches beyond outputsize=full
+ */
+function needsMonthlyIntraday(window: TimeRangeWindow): boolean {
+  if (!window.start) return false;
+  const oldest = window.end.getTime() - INTRADAY_FULL_OUTPUT_DAYS * MS_PER_DAY;
+  return window.start.getTime() < oldest;
+}
+
+/**
+ * Identity and transport of an Alpha Vantage-backed data source
+ */
+export interface AlphaVantageProviderOptions
+  extends Pick<MarketDataProvider, 'id' | 'label' | 'description' | 'requestQueue' | 'apiKeys'> {
+  client: AlphaVantageClient;
+  requiresApiKey: boolean;
+}
+
+/**
+ * Create a data source on top of an Alpha Vantage client
+ * The live API and the fixture replay share everything past the request.
+ */
+export function createAlphaVantageProvider(options: AlphaVantageProviderOptions): MarketDataProvider {
+  const { id, label, description, requestQueue, apiKeys, client, requiresApiKey } = options;
+  return {
+    id,
+    label,
+    description,
+    capabilities: {
+      intraday: true,
+      intervals: NATIVE_INTERVALS,
+      adjusted: true,
+      search: true,
+      requiresApiKey,
+      remote: true,
+    },
+    requestQueue,
+    apiKeys,
+
+    // Pair intraday functions have no month parameter; their full output is the limit
+    async getHistory({ symbol, timeRange, interval, customRange, adjusted = false }) {
+      const calendar = getInstrumentCalendar(symbol);
+      const window = resolveTimeRange(timeRange, new Date(), customRange, calendar);
+      const isEquity = parseInstrument(symbol).assetClass === 'equity';
+      const data =
+        isEquity && isNativeIntradayInterval(interval) && needsMonthlyIntraday(window)
+          ? await fetchIntradayByMonth(client, symbol, interval, window, adjusted)
+          : await withRetry(
+              () => fetchFromAPI(client, symbol, interval, getOutputSize(window, interval, calendar), adjusted),
+              2,
+              1000
+            );
+      return sliceToTimeRange(data, timeRange, customRange, calendar);
+    },
+
+    // Compact output holds the latest 100 bars; weekly/monthly are always full
+    getLatestHistory({ symbol, interval, adjusted = false }) {
+      return withRetry(() => fetchFromAPI(client, symbol, interval, 'compact', adjusted), 2, 1000);
+    },
+
+    async getQuote(symbol) {
+      const instrument = parseInstrument(symbol);
+      const name = getSymbolDetails(symbol)?.name ?? instrument.symbol;
+      if (instrument.assetClass !== 'equity') {
+        const bars = await withRetry(() => fetchPairFromAPI(client, instrument, 'daily', 'compact'), 2, 1000);
+        if (bars.length === 0) {
+          throw createAPIError('INVALID_SYMBOL', `No quote available for ${instrument.symbol}.`);
+        }
+        return transformPairQuote(instrument.symbol, name, instrument.quoteCurrency, bars);
+      }
+
+      const response = await withRetry(() => client.fetchGlobalQuote(symbol, 'high'), 2, 1000);
+      // Unknown symbols come back with an empty quote
+      if (!response['Global Quote']?.['01. symbol']) {
+        throw createAPIError('INVALID_SYMBOL', `No quote available for ${instrument.symbol}.`);
+      }
+      // GLOBAL_QUOTE has no company name; use the symbol database when known
+      return transformGlobalQuoteResponse(response, name);
+    },
+
+    async searchSymbols(query) {
+      const response = await client.searchSymbolsAPI(query);
+      return transformSymbolSearchResponse(response);
+    },
+
+    // One call per event type; low priority so chart data goes first
+    async getEvents(symbol, type) {
+      if (parseInstrument(symbol).assetClass !== 'equity') {
+        return [];
+      }
+      switch (type) {
+        case 'earnings':
+          return transformEarningsResponse(await withRetry(() => client.fetchEarnings(symbol, 'low'), 2, 1000));
+        case 'dividend':
+          return transformDividendsResponse(await withRetry(() => client.fetchDividends(symbol, 'low'), 2, 1000));
+        case 'split':
+          return transformSplitsResponse(await withRetry(() => client.fetchSplits(symbol, 'low'), 2, 1000));
+      }
+    },
+
+    // Pairs have no company fundamentals
+    async getFundamentals(symbol) {
+      if (parseInstrument(symbol).assetClass !== 'equity') {
+        return { symbol: symbol.toUpperCase() };
+      }
+      const overview = await withRetry(() => client.fetchCompanyOverview(symbol, 'low'), 2, 1000);
+      // Unknown symbols come back as an empty object
+      if (!overview.Symbol) {
+        throw createAPIError('INVALID_SYMBOL', `No fundamentals available for ${symbol.toUpperCase()}.`);
+      }
+      return transformOverviewResponse(symbol, overview);
+    },
+  };
+}
+
+export const alphaVantageProvider = createAlphaVantageProvider({
+  id: ALPHA_VANTAGE_PROVIDER_ID,
+  label: 'Alpha Vantage API',
+  description: 'Use live data from Alpha Vantage',
+  client: alphaVantageClient,
+  requestQueue: alphaVantageQueue,
+  apiKeys: alphaVantageKeys,
+  requiresApiKey: true,
+});
+
+export default alphaVantageProvider;
@@ -0,0 +1,24 @@
+/**
+ * Alpha Vantage Replay Provider
+ * Serves recorded Alpha Vantage responses through the regular transforms
+ *
+ * Responses are replayed verbatim, errors included: a recorded 'Note'
+ * payload fails as a rate limit, just like it did live. Ranges are still
+ * cut relative to today, so older recordings show up under MAX or a
+ * custom range covering the recorded dates.
+ */
+
+import { alphaVantageReplayClient } from '../alphavantage';
+import { createAlphaVantageProvider } from './alphaVantageProvider';
+
+export const ALPHA_VANTAGE_REPLAY_PROVIDER_ID = 'alphavantage-replay';
+
+export const alphaVantageReplayProvider = createAlphaVantageProvider({
+  id: ALPHA_VANTAGE_REPLAY_PROVIDER_ID,
+  label: 'Alpha Vantage (recorded)',
+  description: 'Replay recorded Alpha Vantage responses from dev/fixtures/alphavantage',
+  client: alphaVantageReplayClient,
+  requiresApiKey: false,
+});
+
+export default alphaVantageReplayProvider;
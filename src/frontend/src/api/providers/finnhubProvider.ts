@@ -0,0 +1,128 @@
+/**
+ * Finnhub Data Provider
+ * Serves data from the Finnhub REST API (or the local fixture server)
+ */
+
+import type { MarketDataProvider, NativeInterval, TimeRange, CustomDateRange } from '../../types';
+import type { FinnhubResolution } from '../finnhubTypes';
+import {
+  fetchFinnhubCandles,
+  fetchFinnhubQuote,
+  fetchFinnhubProfile,
+  searchFinnhubSymbols,
+  finnhubQueue,
+  finnhubKeys,
+} from '../finnhub';
+import {
+  transformFinnhubCandles,
+  transformFinnhubQuote,
+  transformFinnhubSymbolSearch,
+} from '../finnhubTransforms';
+import { withRetry } from '../cache';
+import { resolveTimeRange, sliceToTimeRange } from '../timeRange';
+import { createAPIError } from '../alphavantage';
+import { NATIVE_INTERVALS } from '../../utils/intervals';
+import { parseInstrument } from '../../utils/instruments';
+
+export const FINNHUB_PROVIDER_ID = 'finnhub';
+
+/** Lookback used for MAX, Finnhub has no "all data" flag */
+const MAX_LOOKBACK_YEARS = 20;
+
+/**
+ * Map an app interval to a Finnhub candle resolution
+ */
+const RESOLUTIONS: Record<NativeInterval, FinnhubResolution> = {
+  '1min': '1',
+  '5min': '5',
+  '15min': '15',
+  '30min': '30',
+  '60min': '60',
+  daily: 'D',
+  weekly: 'W',
+  monthly: 'M',
+};
+
+/**
+ * Get the [from, to] window in Unix seconds for a time range
+ */
+function getCandleWindow(
+  timeRange: TimeRange,
+  customRange?: CustomDateRange | null
+): [number, number] {
+  const window = resolveTimeRange(timeRange, new Date(), customRange);
+  let start = window.start;
+  if (!start) {
+    start = new Date(window.end);
+    start.setFullYear(start.getFullYear() - MAX_LOOKBACK_YEARS);
+  }
+  return [Math.floor(start.getTime() / 1000), Math.floor(window.end.getTime() / 1000)];
+}
+
+/**
+ * Reject crypto and FX pairs; this provider only serves equity endpoints
+ */
+function assertEquity(symbol: string): void {
+  const instrument = parseInstrument(symbol);
+  if (instrument.assetClass !== 'equity') {
+    throw createAPIError('INVALID_SYMBOL', `${instrument.symbol} is not available from Finnhub; only stocks are supported.`);
+  }
+}
+
+export const finnhubProvider: MarketDataProvider = {
+  id: FINNHUB_PROVIDER_ID,
+  label: 'Finnhub API',
+  description: 'Use live data from Finnhub',
+  capabilities: {
+    intraday: true,
+    intervals: NATIVE_INTERVALS,
+    adjusted: false,
+    search: true,
+    requiresApiKey: true,
+    remote: true,
+  },
+  requestQueue: finnhubQueue,
+  apiKeys: finnhubKeys,
+
+  async getHistory({ symbol, timeRange, interval, customRange }) {
+    assertEquity(symbol);
+    const [from, to] = getCandleWindow(timeRange, customRange);
+    const response = await withRetry(
+      () => fetchFinnhubCandles(symbol.toUpperCase(), RESOLUTIONS[interval], from, to, 'high'),
+      2,
+      1000
+    );
+    return sliceToTimeRange(transformFinnhubCandles(response), timeRange, customRange);
+  },
+
+  async getLatestHistory({ symbol, interval }, since) {
+    assertEquity(symbol);
+    const to = Math.floor(Date.now() / 1000);
+    const response = await withRetry(
+      () => fetchFinnhubCandles(symbol.toUpperCase(), RESOLUTIONS[interval], since, to, 'high'),
+      2,
+      1000
+    );
+    return transformFinnhubCandles(response);
+  },
+
+  async getQuote(symbol) {
+    assertEquity(symbol);
+    const upper = symbol.toUpperCase();
+    const [quote, profile] = await Promise.all([
+      withRetry(() => fetchFinnhubQuote(upper, 'high'), 2, 1000),
+      // Profile only adds the company name and market cap; a failure is not fatal
+      fetchFinnhubProfile(upper).catch(() => undefined),
+    ]);
+    // Unknown symbols come back as an all-zero quote
+    if (!quote.t) {
+      throw createAPIError('INVALID_SYMBOL', `No quote available for ${upper}.`);
+    }
+    return transformFinnhubQuote(upper, quote, profile);
+  },
+
+  async searchSymbols(query) {
+    const response = await withRetry(() => searchFinnhubSymbols(query), 2, 1000);
+    return transformFinnhubSymbolSearch(response);
+  },
+};
@@ -0,0 +1,32 @@
+/**
+ * Data Providers Index
+ * Registers the built-in providers and re-exports the registry
+ *
+ * Additional vendors can be added by implementing MarketDataProvider
+ * and calling registerProvider() here (or at app startup).
+ * The fixture replay source needs the dev server, so it is dev-only.
+ */
+
+import { registerProvider } from './registry';
+import { mockProvider } from './mockProvider';
+import { alphaVantageProvider } from './alphaVantageProvider';
+import { finnhubProvider } from './finnhubProvider';
+import { alphaVantageReplayProvider } from './alphaVantageReplayProvider';
+
+registerProvider(mockProvider);
+registerProvider(alphaVantageProvider);
+registerProvider(finnhubProvider);
+if (import.meta.env.DEV) {
+  registerProvider(alphaVantageReplayProvider);
+}
+
+export * from './registry';
+export { mockProvider } from './mockProvider';
+export {
+  alphaVantageProvider,
+  createAlphaVantageProvider,
+  ALPHA_VANTAGE_PROVIDER_ID,
+  type AlphaVantageProviderOptions,
+} from './alphaVantageProvider';
+export { alphaVantageReplayProvider, ALPHA_VANTAGE_REPLAY_PROVIDER_ID } from './alphaVantageReplayProvider';
+export { finnhubProvider, FINNHUB_PROVIDER_ID } from './finnhubProvider';
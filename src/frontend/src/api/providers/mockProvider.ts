@@ -0,0 +1,65 @@
+/**
+ * Mock Data Provider
+ * Serves simulated data generated locally
+ *
+ * Under `vite dev` trades stream from the dev server's mock feed.
+ */
+
+import type { MarketDataProvider } from '../../types';
+import { getMockStockData, getMockCorporateEvents } from '../mockData';
+import { getMockQuote, getMockFundamentals } from '../mockQuotes';
+import { searchSymbols } from '../mockSymbols';
+import { mockTradeStream } from '../streaming';
+import { sliceToTimeRange } from '../timeRange';
+import { MOCK_PROVIDER_ID } from './registry';
+import { NATIVE_INTERVALS } from '../../utils/intervals';
+import { getInstrumentCalendar } from '../../utils/instruments';
+
+/**
+ * Simulate network latency so loading states remain visible
+ */
+function simulateDelay(ms: number): Promise<void> {
+  return new Promise((resolve) => setTimeout(resolve, ms));
+}
+
+export const mockProvider: MarketDataProvider = {
+  id: MOCK_PROVIDER_ID,
+  label: 'Mock Data',
+  description: 'Use simulated stock data for development',
+  capabilities: {
+    intraday: true,
+    intervals: NATIVE_INTERVALS,
+    adjusted: true,
+    search: true,
+    requiresApiKey: false,
+    remote: false,
+  },
+  tradeStream: import.meta.env.DEV ? mockTradeStream : undefined,
+
+  async getHistory({ symbol, timeRange, interval, customRange, adjusted }) {
+    await simulateDelay(200);
+    const data = getMockStockData(symbol.toUpperCase(), timeRange, interval, customRange, adjusted);
+    return sliceToTimeRange(data, timeRange, customRange, getInstrumentCalendar(symbol));
+  },
+
+  async getQuote(symbol) {
+    await simulateDelay(100);
+    return getMockQuote(symbol);
+  },
+
+  async searchSymbols(query) {
+    return searchSymbols(query);
+  },
+
+  async getEvents(symbol, type) {
+    await simulateDelay(100);
+    return getMockCorporateEvents(symbol).filter((event) => event.type === type);
+  },
+
+  async getFundamentals(symbol) {
+    await simulateDelay(100);
+    return getMockFundamentals(symbol);
+  },
+};
+
+export default mockProvider;
@@ -0,0 +1,46 @@
+/**
+ * Market Data Provider Registry
+ * Single place where data providers are registered and looked up
+ */
+
+import type { MarketDataProvider } from '../../types';
+
+/** Id of the built-in mock provider, used as default and fallback */
+export const MOCK_PROVIDER_ID = 'mock';
+
+const providers = new Map<string, MarketDataProvider>();
+
+/**
+ * Register a provider. Registering an existing id replaces it.
+ */
+export function registerProvider(provider: MarketDataProvider): void {
+  providers.set(provider.id, provider);
+}
+
+/**
+ * Remove a provider from the registry
+ */
+export function unregisterProvider(id: string): boolean {
+  return providers.delete(id);
+}
+
+/**
+ * Get a provider by id
+ */
+export function getProvider(id: string): MarketDataProvider | undefined {
+  return providers.get(id);
+}
+
+/**
+ * Check whether a provider id is registered
+ */
+export function hasProvider(id: string): boolean {
+  return providers.has(id);
+}
+
+/**
+ * Get all registered providers, in registration order
+ */
+export function getProviders(): MarketDataProvider[] {
+  return Array.from(providers.values());
+}
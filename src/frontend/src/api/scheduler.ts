@@ -0,0 +1,237 @@
+/**
+ * Request Scheduler
+ * Token-bucket queue that keeps API calls within a provider's rate limit
+ *
+ * - Requests wait for a token; tokens refill evenly over the window
+ * - Higher priority requests (quote, visible chart series) leave first
+ * - Duplicate requests (same key) share one in-flight promise
+ * - A RATE_LIMIT error holds the queue for its retryAfter period
+ * - Calls are counted per UTC day against an optional daily cap, so
+ *   background work can leave the rest of the budget to the user
+ */
+
+import type { RequestBudget, RequestPriority, RequestQueueSource, RequestQueueState } from '../types';
+
+interface SchedulerConfig {
+  /** Calls allowed per window (bucket size) */
+  capacity: number;
+  /** Window length in milliseconds */
+  windowMs: number;
+  /** Calls allowed per UTC day, if the provider caps them */
+  dailyLimit?: number;
+}
+
+interface QueuedRequest {
+  key: string;
+  priority: RequestPriority;
+  order: number;
+  run: () => Promise<unknown>;
+  resolve: (value: unknown) => void;
+  reject: (reason: unknown) => void;
+}
+
+const PRIORITY_RANK: Record<RequestPriority, number> = {
+  high: 0,
+  normal: 1,
+  low: 2,
+};
+
+/** Hold applied on a RATE_LIMIT error that carries no retryAfter */
+const DEFAULT_RETRY_AFTER_SECONDS = 60;
+
+/**
+ * UTC date of an epoch ms time, e.g. '2024-01-15'
+ */
+function toDayKey(time: number): string {
+  return new Date(time).toISOString().slice(0, 10);
+}
+
+/**
+ * Rate-limited request queue
+ */
+export class RequestScheduler implements RequestQueueSource {
+  private config: SchedulerConfig;
+  private tokens: number;
+  private lastRefill = Date.now();
+  private pausedUntil = 0;
+  private queue: QueuedRequest[] = [];
+  private pending = new Map<string, Promise<unknown>>();
+  private inFlight = 0;
+  private order = 0;
+  private day = '';
+  private callsToday = 0;
+  private timer: ReturnType<typeof setTimeout> | null = null;
+  private listeners = new Set<() => void>();
+  private snapshot: RequestQueueState = { queued: 0, inFlight: 0, pausedUntil: null };
+
+  constructor(config: SchedulerConfig) {
+    this.config = config;
+    this.tokens = config.capacity;
+  }
+
+  /**
+   * Queue a request. Requests sharing a key are coalesced while pending.
+   */
+  schedule<T>(key: string, run: () => Promise<T>, priority: RequestPriority = 'normal'): Promise<T> {
+    const existing = this.pending.get(key);
+    if (existing) {
+      // Let a higher priority caller move the queued request forward
+      const queued = this.queue.find((request) => request.key === key);
+      if (queued && PRIORITY_RANK[priority] < PRIORITY_RANK[queued.priority]) {
+        queued.priority = priority;
+      }
+      return existing as Promise<T>;
+    }
+
+    const promise = new Promise<T>((resolve, reject) => {
+      this.queue.push({
+        key,
+        priority,
+        order: this.order++,
+        run,
+        resolve: resolve as (value: unknown) => void,
+        reject,
+      });
+    });
+    this.pending.set(key, promise);
+    this.drain();
+    return promise;
+  }
+
+  /**
+   * Hold all requests for the given number of seconds
+   */
+  pause(seconds: number): void {
+    const now = Date.now();
+    this.pausedUntil = Math.max(this.pausedUntil, now + seconds * 1000);
+    // The server-side budget is spent; start refilling from empty
+    this.tokens = 0;
+    this.lastRefill = now;
+    this.drain();
+  }
+
+  subscribe = (listener: () => void): (() => void) => {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  };
+
+  getSnapshot = (): RequestQueueState => this.snapshot;
+
+  getBudget = (): RequestBudget => {
+    const now = Date.now();
+    this.refill(now);
+    const { capacity, dailyLimit } = this.config;
+    const callsToday = this.day === toDayKey(now) ? this.callsToday : 0;
+    return {
+      available: now < this.pausedUntil ? 0 : this.tokens,
+      capacity,
+      remainingToday: dailyLimit === undefined ? null : Math.max(0, dailyLimit - callsToday),
+      dailyLimit: dailyLimit ?? null,
+    };
+  };
+
+  /**
+   * Dispatch as many queued requests as tokens allow
+   */
+  private drain(): void {
+    if (this.timer) {
+      clearTimeout(this.timer);
+      this.timer = null;
+    }
+
+    const now = Date.now();
+    if (now < this.pausedUntil) {
+      this.timer = setTimeout(() => this.drain(), this.pausedUntil - now);
+      this.emit();
+      return;
+    }
+
+    while (this.queue.length > 0) {
+      this.refill(now);
+      if (this.tokens < 1) {
+        const refillMs = this.config.windowMs / this.config.capacity;
+        this.timer = setTimeout(() => this.drain(), refillMs - (now - this.lastRefill));
+        break;
+      }
+      this.tokens -= 1;
+      this.countCall(now);
+      this.dispatch(this.dequeue());
+    }
+
+    this.emit();
+  }
+
+  private refill(now: number): void {
+    const refillMs = this.config.windowMs / this.config.capacity;
+    const earned = Math.floor((now - this.lastRefill) / refillMs);
+    if (earned > 0) {
+      this.tokens = Math.min(this.config.capacity, this.tokens + earned);
+      this.lastRefill += earned * refillMs;
+    }
+    if (this.tokens === this.config.capacity) {
+      this.lastRefill = now;
+    }
+  }
+
+  private countCall(now: number): void {
+    const day = toDayKey(now);
+    if (day !== this.day) {
+      this.day = day;
+      this.callsToday = 0;
+    }
+    this.callsToday += 1;
+  }
+
+  /**
+   * Remove the highest priority request (FIFO within a priority)
+   */
+  private dequeue(): QueuedRequest {
+    let best = 0;
+    for (let i = 1; i < this.queue.length; i++) {
+      const candidate = this.queue[i];
+      const current = this.queue[best];
+      if (
+        PRIORITY_RANK[candidate.priority] < PRIORITY_RANK[current.priority] ||
+        (candidate.priority === current.priority && candidate.order < current.order)
+      ) {
+        best = i;
+      }
+    }
+    return this.queue.splice(best, 1)[0];
+  }
+
+  private async dispatch(request: QueuedRequest): Promise<void> {
+    this.inFlight += 1;
+    try {
+      request.resolve(await request.run());
+    } catch (error) {
+      const apiError = error as { type?: string; retryAfter?: number };
+      if (apiError.type === 'RATE_LIMIT') {
+        this.pause(apiError.retryAfter ?? DEFAULT_RETRY_AFTER_SECONDS);
+      }
+      request.reject(error);
+    } finally {
+      this.inFlight -= 1;
+      this.pending.delete(request.key);
+      this.emit();
+    }
+  }
+
+  private emit(): void {
+    const pausedUntil = this.pausedUntil > Date.now() ? this.pausedUntil : null;
+    const { queued, inFlight } = this.snapshot;
+    if (
+      queued === this.queue.length &&
+      inFlight === this.inFlight &&
+      this.snapshot.pausedUntil === pausedUntil
+    ) {
+      return;
+    }
+    this.snapshot = { queued: this.queue.length, inFlight: this.inFlight, pausedUntil };
+    this.listeners.forEach((listener) => listener());
+  }
+}
+
+export default RequestScheduler;
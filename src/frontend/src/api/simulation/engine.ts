@@ -0,0 +1,221 @@
+/**
+ * Market Simulation Engine
+ * Seeded price moves for the mock data generator
+ *
+ * Each bar draws a log return from the scenario's model (GBM,
+ * jump-diffusion or GARCH volatility clustering), opens with an optional
+ * overnight gap on a new session, and applies the scenario's scripted
+ * events. Moves are relative, so the caller can anchor the path at either
+ * end. The same random sequence always yields the same moves.
+ *
+ * Sessions are then filled in minute by minute with Brownian bridges that
+ * reach the session's open, high, low and close exactly.
+ */
+
+import type { ScenarioEvent, SimulationParams, SimulationScenario } from '../../types';
+
+/**
+ * One bar's moves, as log returns
+ */
+export interface SimulatedMove {
+  /** Open relative to the previous close */
+  gap: number;
+  /** Close relative to the open */
+  change: number;
+  /** High above the body's top */
+  upperWick: number;
+  /** Low below the body's bottom (positive) */
+  lowerWick: number;
+  /** Standard deviation the bar's return was drawn with */
+  sigma: number;
+}
+
+/**
+ * Prices of a bar, as log prices
+ */
+export interface LogBar {
+  open: number;
+  high: number;
+  low: number;
+  close: number;
+}
+
+export interface SimulationOptions {
+  /** Daily volatility of the instrument, as a log-return standard deviation */
+  volatility: number;
+  /** Length of a bar in trading days, e.g. 5/390 for 5-minute stock bars */
+  barDays: number;
+  /** Trading days per year, for the annualized drift */
+  tradingDaysPerYear: number;
+  random: () => number;
+}
+
+/** Default GARCH(1,1) weights */
+const DEFAULT_GARCH_ALPHA = 0.1;
+const DEFAULT_GARCH_BETA = 0.85;
+
+/** Cap on the GARCH variance, as a multiple of the long-run variance */
+const MAX_VARIANCE_MULTIPLE = 25;
+
+/**
+ * Standard normal draw (Box-Muller)
+ */
+function normal(random: () => number): number {
+  const u = Math.max(random(), Number.EPSILON);
+  return Math.sqrt(-2 * Math.log(u)) * Math.cos(2 * Math.PI * random());
+}
+
+/**
+ * Resolve an event's bar index; negative indexes count from the end
+ */
+function resolveBar(bar: number, totalBars: number): number {
+  return bar < 0 ? totalBars + bar : bar;
+}
+
+/**
+ * Drift and volatility scale at a bar, with regime events applied
+ */
+function getRegime(params: SimulationParams, events: ScenarioEvent[], index: number, totalBars: number) {
+  let { drift, volatilityScale } = params;
+  for (const event of events) {
+    if (event.type !== 'regime') continue;
+    const start = resolveBar(event.bar, totalBars);
+    if (index >= start && index < start + event.bars) {
+      drift = event.drift;
+      volatilityScale = event.volatilityScale;
+    }
+  }
+  return { drift, volatilityScale };
+}
+
+/**
+ * Scripted log-return shocks per bar index, for closes and opens
+ */
+function getScriptedShocks(events: ScenarioEvent[], totalBars: number) {
+  const closes = new Map<number, number>();
+  const opens = new Map<number, number>();
+  const add = (target: Map<number, number>, index: number, value: number) => {
+    if (index >= 0 && index < totalBars) target.set(index, (target.get(index) ?? 0) + value);
+  };
+
+  for (const event of events) {
+    const start = resolveBar(event.bar, totalBars);
+    if (event.type === 'crash') {
+      const drop = Math.log(1 - event.magnitude);
+      add(closes, start, drop);
+      const bars = Math.max(event.recoveryBars, 1);
+      for (let i = 1; i <= bars; i++) {
+        add(closes, start + i, (-drop * event.recovery) / bars);
+      }
+    } else if (event.type === 'gap') {
+      add(opens, start, Math.log(1 + event.magnitude));
+    }
+  }
+  return { closes, opens };
+}
+
+/**
+ * Simulate the moves of a series of bars under a scenario
+ * `sessionStarts[i]` marks bars opening a session after a break in
+ * trading, where overnight gaps can occur.
+ */
+export function simulateMoves(
+  scenario: SimulationScenario,
+  options: SimulationOptions,
+  sessionStarts: boolean[]
+): SimulatedMove[] {
+  const { volatility, barDays, tradingDaysPerYear, random } = options;
+  const { model, params, gaps, events } = scenario;
+  const totalBars = sessionStarts.length;
+
+  const alpha = params.garchAlpha ?? DEFAULT_GARCH_ALPHA;
+  const beta = params.garchBeta ?? DEFAULT_GARCH_BETA;
+  const jumpChance = (params.jumpsPerDay ?? 0) * barDays;
+  const scripted = getScriptedShocks(events, totalBars);
+
+  // GARCH state: variance and last shock relative to the long-run level
+  let varianceRatio = 1;
+  let previousShock = 0;
+
+  const moves: SimulatedMove[] = [];
+  for (let index = 0; index < totalBars; index++) {
+    const regime = getRegime(params, events, index, totalBars);
+    if (model === 'garch') {
+      varianceRatio = Math.min(
+        1 - alpha - beta + alpha * previousShock ** 2 + beta * varianceRatio,
+        MAX_VARIANCE_MULTIPLE
+      );
+    }
+    const sigma = volatility * regime.volatilityScale * Math.sqrt(barDays * varianceRatio);
+
+    let gap = scripted.opens.get(index) ?? 0;
+    if (sessionStarts[index] && random() < gaps.probability) {
+      gap += normal(random) * gaps.stdDev * volatility * regime.volatilityScale;
+    }
+
+    const shock = normal(random);
+    let change =
+      (regime.drift / tradingDaysPerYear) * barDays - (sigma * sigma) / 2 + sigma * shock + (scripted.closes.get(index) ?? 0);
+    if (model === 'jump-diffusion' && random() < jumpChance) {
+      change += (params.jumpMean ?? 0) + normal(random) * (params.jumpStdDev ?? 0);
+    }
+
+    // Wicks reach up to half a bar's volatility beyond the body
+    moves.push({ gap, change, upperWick: random() * sigma * 0.5, lowerWick: random() * sigma * 0.5, sigma });
+    previousShock = shock * Math.sqrt(varianceRatio);
+  }
+  return moves;
+}
+
+/**
+ * Brownian bridge between two log prices, `steps` steps apart
+ * Returns `steps + 1` points, starting at `from` and ending at `to`.
+ */
+export function simulateBridge(from: number, to: number, steps: number, sigma: number, random: () => number): number[] {
+  const walk = [0];
+  for (let i = 1; i <= steps; i++) {
+    walk.push(walk[i - 1] + sigma * normal(random));
+  }
+  const end = walk[steps];
+  return walk.map((value, i) => {
+    const t = steps > 0 ? i / steps : 1;
+    return from + (to - from) * t + value - end * t;
+  });
+}
+
+/**
+ * Minute-by-minute log prices of a session reaching its bar exactly
+ * Returns `minutes + 1` points: the open, then the close of every minute.
+ * The high and low are hit at random minutes away from the session's
+ * edges, so wicks build up rather than jump; the path never leaves them.
+ */
+export function simulateSessionPath(bar: LogBar, minutes: number, sigma: number, random: () => number): number[] {
+  if (minutes < 3) {
+    return simulateBridge(bar.open, bar.close, minutes, 0, random);
+  }
+
+  // Distinct minutes for the high and the low, within the middle 80%
+  const margin = Math.floor(minutes / 10);
+  const choices = minutes - 2 * margin - 1;
+  const highAt = margin + 1 + Math.floor(random() * choices);
+  let lowAt = margin + 1 + Math.floor(random() * (choices - 1));
+  if (lowAt >= highAt) lowAt++;
+
+  const anchors = [
+    { at: 0, value: bar.open },
+    { at: highAt, value: bar.high },
+    { at: lowAt, value: bar.low },
+    { at: minutes, value: bar.close },
+  ].sort((a, b) => a.at - b.at);
+
+  const path = [bar.open];
+  for (let i = 1; i < anchors.length; i++) {
+    const from = anchors[i - 1];
+    const to = anchors[i];
+    const segment = simulateBridge(from.value, to.value, to.at - from.at, sigma, random);
+    for (let j = 1; j < segment.length; j++) {
+      path.push(Math.min(Math.max(segment[j], bar.low), bar.high));
+    }
+  }
+  return path;
+}
@@ -0,0 +1,7 @@
+/**
+ * Market Simulation
+ * Price engine and scenarios behind the mock data
+ */
+
+export * from './engine';
+export * from './scenarios';
@@ -0,0 +1,188 @@
+/**
+ * Simulation Scenarios
+ * Built-in scenarios and the scenario chosen per symbol
+ *
+ * Choices are kept in localStorage and shared through a small subscribable
+ * store, so the developer panel and the data hooks stay in sync.
+ */
+
+import type { SimulationScenario } from '../../types';
+
+const STORAGE_KEY = 'financeviz-simulation-scenarios';
+
+/** Scenario used for symbols without a choice */
+export const DEFAULT_SCENARIO_ID = 'default';
+
+/** Shared parameters of an unremarkable market */
+const BASE_PARAMS = { drift: 0.08, volatilityScale: 1 };
+
+/** Small overnight gaps on a third of sessions */
+const MILD_GAPS = { probability: 0.3, stdDev: 0.3 };
+
+const NO_GAPS = { probability: 0, stdDev: 0 };
+
+export const SIMULATION_SCENARIOS: SimulationScenario[] = [
+  {
+    id: DEFAULT_SCENARIO_ID,
+    label: 'Default',
+    description: 'Geometric Brownian motion with small overnight gaps',
+    model: 'gbm',
+    params: BASE_PARAMS,
+    gaps: MILD_GAPS,
+    events: [],
+  },
+  {
+    id: 'gbm',
+    label: 'Pure random walk',
+    description: 'Geometric Brownian motion, every session opens at the previous close',
+    model: 'gbm',
+    params: BASE_PARAMS,
+    gaps: NO_GAPS,
+    events: [],
+  },
+  {
+    id: 'jump-diffusion',
+    label: 'Jump diffusion',
+    description: 'Random jumps of about ±6% roughly every other month',
+    model: 'jump-diffusion',
+    params: { ...BASE_PARAMS, jumpsPerDay: 0.025, jumpMean: -0.01, jumpStdDev: 0.06 },
+    gaps: MILD_GAPS,
+    events: [],
+  },
+  {
+    id: 'volatility-clustering',
+    label: 'Volatility clustering',
+    description: 'GARCH(1,1): calm stretches alternate with turbulent ones',
+    model: 'garch',
+    params: { ...BASE_PARAMS, garchAlpha: 0.12, garchBeta: 0.85 },
+    gaps: MILD_GAPS,
+    events: [],
+  },
+  {
+    id: 'overnight-gaps',
+    label: 'Overnight gaps',
+    description: 'Most sessions open well away from the previous close',
+    model: 'gbm',
+    params: BASE_PARAMS,
+    gaps: { probability: 0.8, stdDev: 1.5 },
+    events: [],
+  },
+  {
+    id: 'bull-trend',
+    label: 'Bull trend',
+    description: 'Steady uptrend (+60% a year, lower volatility) over the latest 250 sessions',
+    model: 'gbm',
+    params: BASE_PARAMS,
+    gaps: MILD_GAPS,
+    events: [{ type: 'regime', bar: -250, bars: 250, drift: 0.6, volatilityScale: 0.7 }],
+  },
+  {
+    id: 'bear-trend',
+    label: 'Bear trend',
+    description: 'Downtrend (-40% a year, higher volatility) over the latest 250 sessions',
+    model: 'gbm',
+    params: BASE_PARAMS,
+    gaps: MILD_GAPS,
+    events: [{ type: 'regime', bar: -250, bars: 250, drift: -0.4, volatilityScale: 1.3 }],
+  },
+  {
+    id: 'flash-crash',
+    label: 'Flash crash',
+    description: '-12% crash over one session 60 sessions ago, two thirds recovered within 20 sessions',
+    model: 'gbm',
+    params: BASE_PARAMS,
+    gaps: MILD_GAPS,
+    events: [{ type: 'crash', bar: -60, magnitude: 0.12, recoveryBars: 20, recovery: 0.66 }],
+  },
+  {
+    id: 'earnings-gap',
+    label: 'Earnings gap',
+    description: '+9% gap 40 sessions ago, then a volatile sideways stretch',
+    model: 'gbm',
+    params: BASE_PARAMS,
+    gaps: MILD_GAPS,
+    events: [
+      { type: 'gap', bar: -40, magnitude: 0.09 },
+      { type: 'regime', bar: -40, bars: 15, drift: 0, volatilityScale: 2 },
+    ],
+  },
+  {
+    id: 'regime-switch',
+    label: 'Regime switch',
+    description: 'Rally, sharp selloff, then recovery over the latest 150 sessions',
+    model: 'garch',
+    params: { ...BASE_PARAMS, garchAlpha: 0.08, garchBeta: 0.9 },
+    gaps: MILD_GAPS,
+    events: [
+      { type: 'regime', bar: -150, bars: 60, drift: 1.5, volatilityScale: 0.8 },
+      { type: 'regime', bar: -90, bars: 30, drift: -3, volatilityScale: 2.2 },
+      { type: 'regime', bar: -60, bars: 60, drift: 0.8, volatilityScale: 1.1 },
+    ],
+  },
+];
+
+/**
+ * Get a built-in scenario by id
+ */
+export function getScenario(id: string): SimulationScenario | undefined {
+  return SIMULATION_SCENARIOS.find((scenario) => scenario.id === id);
+}
+
+/**
+ * Read saved choices, dropping scenarios that no longer exist
+ */
+function loadAssignments(): Record<string, string> {
+  if (typeof localStorage === 'undefined') return {};
+  try {
+    const stored = JSON.parse(localStorage.getItem(STORAGE_KEY) ?? '{}') as Record<string, string>;
+    return Object.fromEntries(Object.entries(stored).filter(([, id]) => getScenario(id)));
+  } catch {
+    return {};
+  }
+}
+
+let assignments: Readonly<Record<string, string>> = loadAssignments();
+const listeners = new Set<() => void>();
+
+/**
+ * Scenario ids chosen per symbol (upper case); replaced on every change
+ */
+export function getScenarioAssignments(): Readonly<Record<string, string>> {
+  return assignments;
+}
+
+/**
+ * Scenario simulated for a symbol
+ */
+export function getSymbolScenario(symbol: string): SimulationScenario {
+  return getScenario(assignments[symbol.toUpperCase()] ?? DEFAULT_SCENARIO_ID) ?? SIMULATION_SCENARIOS[0];
+}
+
+/**
+ * Choose the scenario for a symbol; the default scenario clears the choice
+ */
+export function setSymbolScenario(symbol: string, scenarioId: string): void {
+  const key = symbol.toUpperCase();
+  const next = { ...assignments };
+  if (scenarioId === DEFAULT_SCENARIO_ID || !getScenario(scenarioId)) {
+    delete next[key];
+  } else {
+    next[key] = scenarioId;
+  }
+  assignments = next;
+
+  if (typeof localStorage !== 'undefined') {
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(assignments));
+  }
+  listeners.forEach((listener) => listener());
+}
+
+/**
+ * Listen for scenario choices; returns the unsubscribe function
+ */
+export function subscribeScenarios(listener: () => void): () => void {
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+  };
+}
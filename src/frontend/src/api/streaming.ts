@@ -0,0 +1,200 @@
+/**
+ * Trade Streams
+ * WebSocket trade channels speaking the Finnhub streaming protocol:
+ *   -> {"type":"subscribe","symbol":"AAPL"}
+ *   -> {"type":"unsubscribe","symbol":"AAPL"}
+ *   <- {"type":"trade","data":[{"s":"AAPL","p":227.31,"v":100,"t":1718000000000}]}
+ *   <- {"type":"ping"}
+ *
+ * - The socket opens with the first subscriber and closes with the last
+ * - Dropped connections are retried with exponential backoff, and every
+ *   symbol is subscribed again
+ *
+ * The mock trade feed (dev/tradeFeedServer.ts) streams trades off the
+ * simulator's price path during `vite dev`.
+ */
+
+import type { StreamTrade, TradeStreamSource, TradeStreamState, TradeStreamStatus } from '../types';
+import { getSymbolScenario, subscribeScenarios } from './simulation';
+import { MOCK_TRADE_FEED_PATH } from './devServerPaths';
+
+const MIN_RECONNECT_DELAY_MS = 1000;
+const MAX_RECONNECT_DELAY_MS = 30 * 1000;
+
+interface TradeStreamConfig {
+  /** WebSocket URL, resolved on every connect */
+  url: () => string;
+  /** Subscribe message for a symbol; defaults to the Finnhub one */
+  subscribeMessage?: (symbol: string) => Record<string, unknown>;
+}
+
+interface TradeMessage {
+  type?: string;
+  data?: { s?: string; p?: number; v?: number; t?: number }[];
+}
+
+type TradeListener = (trade: StreamTrade) => void;
+
+/**
+ * Reference-counted WebSocket trade subscriptions
+ */
+export class TradeStream implements TradeStreamSource {
+  private config: TradeStreamConfig;
+  private socket: WebSocket | null = null;
+  private symbols = new Map<string, Set<TradeListener>>();
+  private reconnectTimer: ReturnType<typeof setTimeout> | null = null;
+  private reconnectDelay = MIN_RECONNECT_DELAY_MS;
+  private listeners = new Set<() => void>();
+  private snapshot: TradeStreamState = { status: 'idle' };
+
+  constructor(config: TradeStreamConfig) {
+    this.config = config;
+  }
+
+  subscribeTrades = (symbol: string, listener: TradeListener): (() => void) => {
+    const key = symbol.toUpperCase();
+    let symbolListeners = this.symbols.get(key);
+    if (!symbolListeners) {
+      symbolListeners = new Set();
+      this.symbols.set(key, symbolListeners);
+      this.send(this.getSubscribeMessage(key));
+    }
+    symbolListeners.add(listener);
+    this.connect();
+
+    const listeners = symbolListeners;
+    return () => {
+      listeners.delete(listener);
+      if (listeners.size === 0 && this.symbols.get(key) === listeners) {
+        this.symbols.delete(key);
+        this.send({ type: 'unsubscribe', symbol: key });
+      }
+      if (this.symbols.size === 0) {
+        this.disconnect();
+      }
+    };
+  };
+
+  /**
+   * Send every subscription again, for subscribe messages that changed
+   */
+  resubscribe(): void {
+    for (const symbol of this.symbols.keys()) {
+      this.send(this.getSubscribeMessage(symbol));
+    }
+  }
+
+  subscribe = (listener: () => void): (() => void) => {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  };
+
+  getSnapshot = (): TradeStreamState => this.snapshot;
+
+  private getSubscribeMessage(symbol: string): Record<string, unknown> {
+    return this.config.subscribeMessage?.(symbol) ?? { type: 'subscribe', symbol };
+  }
+
+  private connect(): void {
+    if (this.socket || this.reconnectTimer || typeof WebSocket === 'undefined') {
+      return;
+    }
+
+    let socket: WebSocket;
+    try {
+      socket = new WebSocket(this.config.url());
+    } catch {
+      this.scheduleReconnect();
+      return;
+    }
+    this.socket = socket;
+    this.setStatus('connecting');
+
+    socket.onopen = () => {
+      this.reconnectDelay = MIN_RECONNECT_DELAY_MS;
+      this.setStatus('open');
+      this.resubscribe();
+    };
+    socket.onmessage = (event: MessageEvent) => this.handleMessage(event.data);
+    // Errors are always followed by a close
+    socket.onclose = () => {
+      if (this.socket !== socket) return;
+      this.socket = null;
+      if (this.symbols.size > 0) {
+        this.scheduleReconnect();
+      } else {
+        this.setStatus('idle');
+      }
+    };
+  }
+
+  private disconnect(): void {
+    if (this.reconnectTimer) {
+      clearTimeout(this.reconnectTimer);
+      this.reconnectTimer = null;
+    }
+    const socket = this.socket;
+    this.socket = null;
+    socket?.close();
+    this.setStatus('idle');
+  }
+
+  private scheduleReconnect(): void {
+    this.setStatus('closed');
+    this.reconnectTimer = setTimeout(() => {
+      this.reconnectTimer = null;
+      this.connect();
+    }, this.reconnectDelay);
+    this.reconnectDelay = Math.min(this.reconnectDelay * 2, MAX_RECONNECT_DELAY_MS);
+  }
+
+  private send(message: Record<string, unknown>): void {
+    if (this.socket?.readyState === WebSocket.OPEN) {
+      this.socket.send(JSON.stringify(message));
+    }
+  }
+
+  private handleMessage(raw: unknown): void {
+    if (typeof raw !== 'string') return;
+    let message: TradeMessage;
+    try {
+      message = JSON.parse(raw) as TradeMessage;
+    } catch {
+      return;
+    }
+    if (message.type !== 'trade' || !Array.isArray(message.data)) return;
+
+    for (const item of message.data) {
+      if (typeof item.s !== 'string' || typeof item.p !== 'number' || typeof item.t !== 'number') continue;
+      const listeners = this.symbols.get(item.s.toUpperCase());
+      if (!listeners) continue;
+      const trade: StreamTrade = { symbol: item.s, price: item.p, volume: item.v ?? 0, timestamp: item.t };
+      listeners.forEach((listener) => listener(trade));
+    }
+  }
+
+  private setStatus(status: TradeStreamStatus): void {
+    if (this.snapshot.status === status) return;
+    this.snapshot = { status };
+    this.listeners.forEach((listener) => listener());
+  }
+}
+
+function getMockTradeFeedUrl(): string {
+  const { protocol, host } = window.location;
+  return `${protocol === 'https:' ? 'wss:' : 'ws:'}//${host}${MOCK_TRADE_FEED_PATH}`;
+}
+
+/**
+ * Mock trade feed of the dev server
+ * Subscriptions name the symbol's simulation scenario, so the feed walks
+ * the same price path as the charted mock bars.
+ */
+export const mockTradeStream = new TradeStream({
+  url: getMockTradeFeedUrl,
+  subscribeMessage: (symbol) => ({ type: 'subscribe', symbol, scenario: getSymbolScenario(symbol).id }),
+});
+
+subscribeScenarios(() => mockTradeStream.resubscribe());
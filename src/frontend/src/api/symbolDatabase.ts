@@ -0,0 +1,216 @@
+/**
+ * Symbol Database
+ * Searchable symbols of the mock universe
+ */
+
+import type { SymbolSearchResult } from '../types/stock';
+
+/**
+ * Extended symbol database for search
+ * Includes main symbols plus additional popular symbols. Every entry has
+ * mock data: symbols without curated parameters get generated ones.
+ */
+export const SYMBOL_DATABASE: SymbolSearchResult[] = [
+  // Symbols with curated mock parameters and corporate calendars
+  {
+    symbol: 'AAPL',
+    name: 'Apple Inc.',
+    type: 'Stock',
+    exchange: 'NASDAQ',
+    currency: 'USD',
+  },
+  {
+    symbol: 'MSFT',
+    name: 'Microsoft Corporation',
+    type: 'Stock',
+    exchange: 'NASDAQ',
+    currency: 'USD',
+  },
+  {
+    symbol: 'GOOGL',
+    name: 'Alphabet Inc.',
+    type: 'Stock',
+    exchange: 'NASDAQ',
+    currency: 'USD',
+  },
+  {
+    symbol: 'AMZN',
+    name: 'Amazon.com, Inc.',
+    type: 'Stock',
+    exchange: 'NASDAQ',
+    currency: 'USD',
+  },
+  {
+    symbol: 'TSLA',
+    name: 'Tesla, Inc.',
+    type: 'Stock',
+    exchange: 'NASDAQ',
+    currency: 'USD',
+  },
+  // Additional symbols with generated mock parameters
+  {
+    symbol: 'META',
+    name: 'Meta Platforms, Inc.',
+    type: 'Stock',
+    exchange: 'NASDAQ',
+    currency: 'USD',
+  },
+  {
+    symbol: 'NVDA',
+    name: 'NVIDIA Corporation',
+    type: 'Stock',
+    exchange: 'NASDAQ',
+    currency: 'USD',
+  },
+  {
+    symbol: 'AMD',
+    name: 'Advanced Micro Devices, Inc.',
+    type: 'Stock',
+    exchange: 'NASDAQ',
+    currency: 'USD',
+  },
+  {
+    symbol: 'NFLX',
+    name: 'Netflix, Inc.',
+    type: 'Stock',
+    exchange: 'NASDAQ',
+    currency: 'USD',
+  },
+  {
+    symbol: 'JPM',
+    name: 'JPMorgan Chase & Co.',
+    type: 'Stock',
+    exchange: 'NYSE',
+    currency: 'USD',
+  },
+  {
+    symbol: 'V',
+    name: 'Visa Inc.',
+    type: 'Stock',
+    exchange: 'NYSE',
+    currency: 'USD',
+  },
+  {
+    symbol: 'JNJ',
+    name: 'Johnson & Johnson',
+    type: 'Stock',
+    exchange: 'NYSE',
+    currency: 'USD',
+  },
+  {
+    symbol: 'WMT',
+    name: 'Walmart Inc.',
+    type: 'Stock',
+    exchange: 'NYSE',
+    currency: 'USD',
+  },
+  {
+    symbol: 'PG',
+    name: 'The Procter & Gamble Company',
+    type: 'Stock',
+    exchange: 'NYSE',
+    currency: 'USD',
+  },
+  {
+    symbol: 'DIS',
+    name: 'The Walt Disney Company',
+    type: 'Stock',
+    exchange: 'NYSE',
+    currency: 'USD',
+  },
+  // ETFs
+  {
+    symbol: 'SPY',
+    name: 'SPDR S&P 500 ETF Trust',
+    type: 'ETF',
+    exchange: 'NYSE',
+    currency: 'USD',
+  },
+  {
+    symbol: 'QQQ',
+    name: 'Invesco QQQ Trust',
+    type: 'ETF',
+    exchange: 'NASDAQ',
+    currency: 'USD',
+  },
+  {
+    symbol: 'IWM',
+    name: 'iShares Russell 2000 ETF',
+    type: 'ETF',
+    exchange: 'NYSE',
+    currency: 'USD',
+  },
+  {
+    symbol: 'VTI',
+    name: 'Vanguard Total Stock Market ETF',
+    type: 'ETF',
+    exchange: 'NYSE',
+    currency: 'USD',
+  },
+  // Indices
+  {
+    symbol: '^GSPC',
+    name: 'S&P 500',
+    type: 'Index',
+    exchange: 'INDEX',
+    currency: 'USD',
+  },
+  {
+    symbol: '^DJI',
+    name: 'Dow Jones Industrial Average',
+    type: 'Index',
+    exchange: 'INDEX',
+    currency: 'USD',
+  },
+  {
+    symbol: '^IXIC',
+    name: 'NASDAQ Composite',
+    type: 'Index',
+    exchange: 'INDEX',
+    currency: 'USD',
+  },
+  // Crypto
+  {
+    symbol: 'BTC/USD',
+    name: 'Bitcoin / US Dollar',
+    type: 'Crypto',
+    exchange: 'CRYPTO',
+    currency: 'USD',
+  },
+  {
+    symbol: 'ETH/USD',
+    name: 'Ethereum / US Dollar',
+    type: 'Crypto',
+    exchange: 'CRYPTO',
+    currency: 'USD',
+  },
+  {
+    symbol: 'SOL/USD',
+    name: 'Solana / US Dollar',
+    type: 'Crypto',
+    exchange: 'CRYPTO',
+    currency: 'USD',
+  },
+  // Forex
+  {
+    symbol: 'EUR/USD',
+    name: 'Euro / US Dollar',
+    type: 'Forex',
+    exchange: 'FOREX',
+    currency: 'USD',
+  },
+  {
+    symbol: 'GBP/USD',
+    name: 'British Pound / US Dollar',
+    type: 'Forex',
+    exchange: 'FOREX',
+    currency: 'USD',
+  },
+  {
+    symbol: 'USD/JPY',
+    name: 'US Dollar / Japanese Yen',
+    type: 'Forex',
+    exchange: 'FOREX',
+    currency: 'JPY',
+  },
+];
@@ -0,0 +1,132 @@
+/**
+ * Time Range Resolution
+ * Turns a TimeRange into a concrete window and trims series to it,
+ * so every data source shows the same span for the same selection
+ */
+
+import type { OHLCV, TimeRange, CustomDateRange } from '../types';
+import { filterByDateRange } from './transforms';
+import { getCustomRangeWindow } from '../utils/dateRange';
+import { getZonedDateKey, parseZonedDateTime } from '../utils/timezone';
+import { US_EQUITY_CALENDAR, getRecentTradingDays, type TradingCalendar } from '../utils/tradingCalendar';
+
+/** Extra trading days fetched before session ranges, for delayed feeds */
+const SESSION_LOOKBACK_PADDING = 1;
+
+/**
+ * Concrete window for a time range
+ */
+export interface TimeRangeWindow {
+  /** Inclusive start, null for MAX (all available data) */
+  start: Date | null;
+  /** Inclusive end */
+  end: Date;
+  /** 1D/5D are measured in trading sessions rather than calendar days */
+  sessions?: number;
+}
+
+/**
+ * Resolve a time range to a window ending at `end`
+ * Session ranges start at midnight (calendar time) of the Nth trading day
+ * back (plus padding), skipping weekends and exchange holidays.
+ * 'CUSTOM' resolves to the dates of `customRange` regardless of `end`.
+ */
+export function resolveTimeRange(
+  timeRange: TimeRange,
+  end: Date = new Date(),
+  customRange?: CustomDateRange | null,
+  calendar: TradingCalendar = US_EQUITY_CALENDAR
+): TimeRangeWindow {
+  const start = new Date(end);
+
+  switch (timeRange) {
+    case 'CUSTOM': {
+      const window = customRange ? getCustomRangeWindow(customRange) : null;
+      return window ?? { start: null, end };
+    }
+    case '1D':
+    case '5D': {
+      const sessions = timeRange === '1D' ? 1 : 5;
+      const [firstDay] = getRecentTradingDays(
+        getZonedDateKey(Math.floor(end.getTime() / 1000), calendar.timeZone, false),
+        sessions + SESSION_LOOKBACK_PADDING,
+        calendar
+      );
+      return { start: new Date(parseZonedDateTime(`${firstDay} 00:00`, calendar.timeZone) * 1000), end, sessions };
+    }
+    case '1M':
+      start.setMonth(start.getMonth() - 1);
+      return { start, end };
+    case '6M':
+      start.setMonth(start.getMonth() - 6);
+      return { start, end };
+    case 'YTD':
+      return { start: new Date(end.getFullYear(), 0, 1), end };
+    case '1Y':
+      start.setFullYear(start.getFullYear() - 1);
+      return { start, end };
+    case '5Y':
+      start.setFullYear(start.getFullYear() - 5);
+      return { start, end };
+    case 'MAX':
+    default:
+      return { start: null, end };
+  }
+}
+
+/**
+ * Keep only the bars of the last N trading sessions
+ */
+function sliceToSessions(data: OHLCV[], sessions: number, calendar: TradingCalendar): OHLCV[] {
+  const keys = new Set<string>();
+  let startIndex = data.length;
+  for (let i = data.length - 1; i >= 0; i--) {
+    // Session date in the calendar's timezone; date-only bars land on
+    // distinct dates there too, which is all counting needs
+    keys.add(getZonedDateKey(data[i].time, calendar.timeZone, false));
+    if (keys.size > sessions) break;
+    startIndex = i;
+  }
+  return data.slice(startIndex);
+}
+
+/**
+ * Trim a chronologically sorted series to a time range
+ * Preset windows are anchored on the newest bar, so delayed data (weekends,
+ * holidays, end-of-day feeds) still fills the whole range.
+ */
+export function sliceToTimeRange(
+  data: OHLCV[],
+  timeRange: TimeRange,
+  customRange?: CustomDateRange | null,
+  calendar: TradingCalendar = US_EQUITY_CALENDAR
+): OHLCV[] {
+  if (data.length === 0) {
+    return data;
+  }
+
+  const lastBar = new Date(data[data.length - 1].time * 1000);
+  const window = resolveTimeRange(timeRange, lastBar, customRange, calendar);
+
+  if (window.sessions) {
+    return sliceToSessions(data, window.sessions, calendar);
+  }
+  if (window.start) {
+    return filterByDateRange(data, window.start, window.end);
+  }
+  return data;
+}
+
+/**
+ * Months (YYYY-MM) overlapping a window, oldest first
+ */
+export function getMonthsInWindow(start: Date, end: Date): string[] {
+  const months: string[] = [];
+  const cursor = new Date(start.getFullYear(), start.getMonth(), 1);
+  while (cursor <= end) {
+    const month = String(cursor.getMonth() + 1).padStart(2, '0');
+    months.push(`${cursor.getFullYear()}-${month}`);
+    cursor.setMonth(cursor.getMonth() + 1);
+  }
+  return months;
+}
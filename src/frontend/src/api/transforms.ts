@@ -3,34 +3,70 @@
  * Transforms Alpha Vantage API responses to chart-compatible formats
  * 
  * TASK-089: Data Transformation Layer
+ *
+ * Bars are passed on as received; invalid ones are dropped and reported
+ * by the data quality check (utils/dataQuality).
  */
 
-import type { OHLCV, Quote, SymbolSearchResult } from '../types';
+import type {
+  OHLCV,
+  Quote,
+  SymbolSearchResult,
+  EarningsEvent,
+  DividendEvent,
+  SplitEvent,
+  CompanyFundamentals,
+  SymbolType,
+} from '../types';
 import type {
   AVIntradayResponse,
   AVDailyResponse,
   AVWeeklyResponse,
   AVMonthlyResponse,
+  AVDailyAdjustedResponse,
+  AVWeeklyAdjustedResponse,
+  AVMonthlyAdjustedResponse,
+  AVAdjustedDataPoint,
   AVTimeSeriesDataPoint,
+  AVFXDataPoint,
   AVSymbolSearchResponse,
   AVGlobalQuoteResponse,
+  AVEarningsResponse,
+  AVDividendsResponse,
+  AVSplitsResponse,
+  AVCompanyOverview,
+  AVFXResponse,
+  AVCryptoResponse,
+  AVPairMetaData,
   IntradayInterval,
+  TimeSeriesMetaData,
 } from './types';
+import { EXCHANGE_TIMEZONE, parseZonedDateTime } from '../utils/timezone';
+
+/**
+ * Time zone of a time series, from its metadata
+ * The key's number differs per function (e.g. intraday '6.', daily '5.',
+ * weekly/monthly '4.'), so any key ending in 'Time Zone' is taken.
+ */
+function getTimeZone(metaData: TimeSeriesMetaData | AVPairMetaData | undefined): string {
+  const entry = Object.entries(metaData ?? {}).find(([key]) => key.endsWith('Time Zone'));
+  return entry?.[1] || EXCHANGE_TIMEZONE;
+}
 
 /**
  * Parse date string to Unix timestamp (seconds)
+ * Date-times are read in the series' time zone; dates map to UTC midnight
  */
-function parseTimestamp(dateString: string): number {
-  const date = new Date(dateString);
-  return Math.floor(date.getTime() / 1000);
+function parseTimestamp(dateString: string, timeZone: string = EXCHANGE_TIMEZONE): number {
+  return parseZonedDateTime(dateString, timeZone);
 }
 
 /**
  * Transform a single time series data point to OHLCV
  */
-function transformDataPoint(dateString: string, data: AVTimeSeriesDataPoint): OHLCV {
+function transformDataPoint(dateString: string, data: AVTimeSeriesDataPoint, timeZone: string): OHLCV {
   return {
-    time: parseTimestamp(dateString),
+    time: parseTimestamp(dateString, timeZone),
     open: parseFloat(data['1. open']),
     high: parseFloat(data['2. high']),
     low: parseFloat(data['3. low']),
@@ -42,30 +78,10 @@ function transformDataPoint(dateString: string, data: AVTimeSeriesDataPoint): OH
 /**
  * Sort OHLCV data chronologically (oldest first)
  */
-function sortChronologically(data: OHLCV[]): OHLCV[] {
+export function sortChronologically(data: OHLCV[]): OHLCV[] {
   return [...data].sort((a, b) => a.time - b.time);
 }
 
-/**
- * Validate OHLCV data integrity
- */
-function validateOHLCV(data: OHLCV): boolean {
-  return (
-    !isNaN(data.time) &&
-    !isNaN(data.open) &&
-    !isNaN(data.high) &&
-    !isNaN(data.low) &&
-    !isNaN(data.close) &&
-    !isNaN(data.volume) &&
-    data.high >= data.low &&
-    data.high >= data.open &&
-    data.high >= data.close &&
-    data.low <= data.open &&
-    data.low <= data.close &&
-    data.volume >= 0
-  );
-}
-
 /**
  * Get time series key for intraday response
  */
@@ -89,12 +105,10 @@ export function transformIntradayResponse(
     return [];
   }
 
+  const timeZone = getTimeZone(response['Meta Data']);
   const data: OHLCV[] = [];
   for (const [dateString, dataPoint] of Object.entries(timeSeries)) {
-    const ohlcv = transformDataPoint(dateString, dataPoint);
-    if (validateOHLCV(ohlcv)) {
-      data.push(ohlcv);
-    }
+    data.push(transformDataPoint(dateString, dataPoint, timeZone));
   }
 
   return sortChronologically(data);
@@ -110,12 +124,10 @@ export function transformDailyResponse(response: AVDailyResponse): OHLCV[] {
     return [];
   }
 
+  const timeZone = getTimeZone(response['Meta Data']);
   const data: OHLCV[] = [];
   for (const [dateString, dataPoint] of Object.entries(timeSeries)) {
-    const ohlcv = transformDataPoint(dateString, dataPoint);
-    if (validateOHLCV(ohlcv)) {
-      data.push(ohlcv);
-    }
+    data.push(transformDataPoint(dateString, dataPoint, timeZone));
   }
 
   return sortChronologically(data);
@@ -131,12 +143,10 @@ export function transformWeeklyResponse(response: AVWeeklyResponse): OHLCV[] {
     return [];
   }
 
+  const timeZone = getTimeZone(response['Meta Data']);
   const data: OHLCV[] = [];
   for (const [dateString, dataPoint] of Object.entries(timeSeries)) {
-    const ohlcv = transformDataPoint(dateString, dataPoint);
-    if (validateOHLCV(ohlcv)) {
-      data.push(ohlcv);
-    }
+    data.push(transformDataPoint(dateString, dataPoint, timeZone));
   }
 
   return sortChronologically(data);
@@ -152,17 +162,150 @@ export function transformMonthlyResponse(response: AVMonthlyResponse): OHLCV[] {
     return [];
   }
 
+  const timeZone = getTimeZone(response['Meta Data']);
   const data: OHLCV[] = [];
   for (const [dateString, dataPoint] of Object.entries(timeSeries)) {
-    const ohlcv = transformDataPoint(dateString, dataPoint);
-    if (validateOHLCV(ohlcv)) {
-      data.push(ohlcv);
+    data.push(transformDataPoint(dateString, dataPoint, timeZone));
+  }
+
+  return sortChronologically(data);
+}
+
+/**
+ * Transform an adjusted time series to adjusted OHLCV bars
+ * Prices are scaled by adjusted close / close. Volume is scaled by the
+ * split coefficients newer than each bar, when the series has them (daily).
+ */
+function transformAdjustedSeries(
+  timeSeries: Record<string, AVAdjustedDataPoint> | undefined,
+  metaData: TimeSeriesMetaData | undefined
+): OHLCV[] {
+  if (!timeSeries) {
+    return [];
+  }
+
+  const timeZone = getTimeZone(metaData);
+  const newestFirst = Object.entries(timeSeries).sort(([a], [b]) => (a < b ? 1 : -1));
+  const data: OHLCV[] = [];
+  let volumeFactor = 1;
+
+  for (const [dateString, dataPoint] of newestFirst) {
+    const close = parseFloat(dataPoint['4. close']);
+    const priceFactor = parseFloat(dataPoint['5. adjusted close']) / close;
+    const ohlcv: OHLCV = {
+      time: parseTimestamp(dateString, timeZone),
+      open: parseFloat(dataPoint['1. open']) * priceFactor,
+      high: parseFloat(dataPoint['2. high']) * priceFactor,
+      low: parseFloat(dataPoint['3. low']) * priceFactor,
+      close: close * priceFactor,
+      volume: Math.round(parseInt(dataPoint['6. volume'], 10) * volumeFactor),
+    };
+    data.push(ohlcv);
+
+    // A split on this bar applies to every older bar
+    const splitCoefficient = parseFloat(dataPoint['8. split coefficient'] ?? '1');
+    if (splitCoefficient > 0) {
+      volumeFactor *= splitCoefficient;
     }
   }
 
   return sortChronologically(data);
 }
 
+/**
+ * Transform daily adjusted response to OHLCV array
+ */
+export function transformDailyAdjustedResponse(response: AVDailyAdjustedResponse): OHLCV[] {
+  return transformAdjustedSeries(response['Time Series (Daily)'], response['Meta Data']);
+}
+
+/**
+ * Transform weekly adjusted response to OHLCV array
+ */
+export function transformWeeklyAdjustedResponse(response: AVWeeklyAdjustedResponse): OHLCV[] {
+  return transformAdjustedSeries(response['Weekly Adjusted Time Series'], response['Meta Data']);
+}
+
+/**
+ * Transform monthly adjusted response to OHLCV array
+ */
+export function transformMonthlyAdjustedResponse(response: AVMonthlyAdjustedResponse): OHLCV[] {
+  return transformAdjustedSeries(response['Monthly Adjusted Time Series'], response['Meta Data']);
+}
+
+/**
+ * Series of an FX or crypto response
+ * Each function names its series differently ('Time Series FX (Daily)',
+ * 'Time Series Crypto (5min)', 'Time Series (Digital Currency Daily)').
+ */
+function getPairSeries<T>(response: object): Record<string, T> | undefined {
+  const entry = Object.entries(response).find(([key]) => key.startsWith('Time Series'));
+  return entry?.[1] as Record<string, T> | undefined;
+}
+
+/**
+ * Transform an FX_* response to OHLCV array
+ * FX rates carry no volume, so every bar reports zero.
+ */
+export function transformFXResponse(response: AVFXResponse): OHLCV[] {
+  const timeSeries = getPairSeries<AVFXDataPoint>(response);
+  if (!timeSeries) {
+    return [];
+  }
+
+  const timeZone = getTimeZone(response['Meta Data']);
+  const data: OHLCV[] = [];
+  for (const [dateString, dataPoint] of Object.entries(timeSeries)) {
+    data.push(transformDataPoint(dateString, { ...dataPoint, '5. volume': '0' }, timeZone));
+  }
+
+  return sortChronologically(data);
+}
+
+/**
+ * Transform a CRYPTO_INTRADAY or DIGITAL_CURRENCY_* response to OHLCV array
+ */
+export function transformCryptoResponse(response: AVCryptoResponse): OHLCV[] {
+  const timeSeries = getPairSeries<AVTimeSeriesDataPoint>(response);
+  if (!timeSeries) {
+    return [];
+  }
+
+  const timeZone = getTimeZone(response['Meta Data']);
+  const data: OHLCV[] = [];
+  for (const [dateString, dataPoint] of Object.entries(timeSeries)) {
+    data.push(transformDataPoint(dateString, dataPoint, timeZone));
+  }
+
+  return sortChronologically(data);
+}
+
+/**
+ * Build a quote from daily bars (oldest first)
+ * Alpha Vantage has no quote endpoint for pairs; the latest daily bar
+ * stands in for it.
+ */
+export function transformPairQuote(symbol: string, name: string, currency: string, bars: OHLCV[]): Quote {
+  const latest = bars[bars.length - 1];
+  const previousClose = bars.length > 1 ? bars[bars.length - 2].close : latest.open;
+  const change = latest.close - previousClose;
+
+  return {
+    symbol,
+    companyName: name,
+    price: latest.close,
+    change,
+    changePercent: previousClose ? (change / previousClose) * 100 : 0,
+    open: latest.open,
+    high: latest.high,
+    low: latest.low,
+    previousClose,
+    volume: latest.volume,
+    timestamp: latest.time,
+    currency,
+  };
+}
+
 /**
  * Transform symbol search response to SymbolSearchResult array
  */
@@ -176,13 +319,15 @@ export function transformSymbolSearchResponse(
   return response.bestMatches.map((match) => {
     // Map type to our supported types
     const type = match['3. type'];
-    let mappedType: 'Stock' | 'ETF' | 'Index' | 'Crypto' = 'Stock';
+    let mappedType: SymbolType = 'Stock';
     if (type.toLowerCase().includes('etf')) {
       mappedType = 'ETF';
     } else if (type.toLowerCase().includes('index')) {
       mappedType = 'Index';
     } else if (type.toLowerCase().includes('crypto') || type.toLowerCase().includes('digital')) {
       mappedType = 'Crypto';
+    } else if (type.toLowerCase().includes('currency')) {
+      mappedType = 'Forex';
     }
 
     return {
@@ -222,6 +367,118 @@ export function transformGlobalQuoteResponse(
   };
 }
 
+/**
+ * Parse an optional number; Alpha Vantage sends "None" for missing values
+ */
+function parseOptionalNumber(value: string | undefined): number | undefined {
+  const number = parseFloat(value ?? '');
+  return isNaN(number) ? undefined : number;
+}
+
+/**
+ * Parse an optional text field such as a date (YYYY-MM-DD)
+ */
+function parseOptionalString(value: string | undefined): string | undefined {
+  return value && value !== 'None' ? value : undefined;
+}
+
+/**
+ * Transform earnings response to earnings events, oldest first
+ */
+export function transformEarningsResponse(response: AVEarningsResponse): EarningsEvent[] {
+  const events: EarningsEvent[] = [];
+  for (const item of response.quarterlyEarnings ?? []) {
+    const time = parseTimestamp(item.reportedDate);
+    if (isNaN(time)) continue;
+    events.push({
+      type: 'earnings',
+      time,
+      fiscalDateEnding: item.fiscalDateEnding,
+      reportedEPS: parseOptionalNumber(item.reportedEPS),
+      estimatedEPS: parseOptionalNumber(item.estimatedEPS),
+      surprise: parseOptionalNumber(item.surprise),
+      surprisePercent: parseOptionalNumber(item.surprisePercentage),
+      reportTime:
+        item.reportTime === 'pre-market' || item.reportTime === 'post-market' ? item.reportTime : undefined,
+    });
+  }
+  return events.sort((a, b) => a.time - b.time);
+}
+
+/**
+ * Transform dividends response to dividend events, oldest first
+ */
+export function transformDividendsResponse(response: AVDividendsResponse): DividendEvent[] {
+  const events: DividendEvent[] = [];
+  for (const item of response.data ?? []) {
+    const time = parseTimestamp(item.ex_dividend_date);
+    const amount = parseFloat(item.amount);
+    if (isNaN(time) || isNaN(amount)) continue;
+    events.push({
+      type: 'dividend',
+      time,
+      amount,
+      declarationDate: parseOptionalString(item.declaration_date),
+      recordDate: parseOptionalString(item.record_date),
+      paymentDate: parseOptionalString(item.payment_date),
+    });
+  }
+  return events.sort((a, b) => a.time - b.time);
+}
+
+/**
+ * Transform splits response to split events, oldest first
+ */
+export function transformSplitsResponse(response: AVSplitsResponse): SplitEvent[] {
+  const events: SplitEvent[] = [];
+  for (const item of response.data ?? []) {
+    const time = parseTimestamp(item.effective_date);
+    const ratio = parseFloat(item.split_factor);
+    if (isNaN(time) || !(ratio > 0)) continue;
+    events.push({ type: 'split', time, ratio });
+  }
+  return events.sort((a, b) => a.time - b.time);
+}
+
+/**
+ * Transform company overview response to fundamentals
+ * Alpha Vantage reports the dividend yield as a fraction; it is
+ * converted to percent.
+ */
+export function transformOverviewResponse(symbol: string, response: AVCompanyOverview): CompanyFundamentals {
+  const dividendYield = parseOptionalNumber(response.DividendYield);
+  return {
+    symbol: (response.Symbol || symbol).toUpperCase(),
+    marketCap: parseOptionalNumber(response.MarketCapitalization),
+    sharesOutstanding: parseOptionalNumber(response.SharesOutstanding),
+    peRatio: parseOptionalNumber(response.PERatio),
+    eps: parseOptionalNumber(response.EPS),
+    dividendYield: dividendYield !== undefined ? dividendYield * 100 : undefined,
+    beta: parseOptionalNumber(response.Beta),
+    week52High: parseOptionalNumber(response['52WeekHigh']),
+    week52Low: parseOptionalNumber(response['52WeekLow']),
+    sector: parseOptionalString(response.Sector),
+    industry: parseOptionalString(response.Industry),
+  };
+}
+
+/**
+ * Merge newer bars into an existing series
+ * Bars are deduplicated by time; incoming bars win, so a still-forming
+ * last bar is replaced by its updated version
+ */
+export function mergeOHLCV(existing: OHLCV[], incoming: OHLCV[]): OHLCV[] {
+  if (incoming.length === 0) {
+    return existing;
+  }
+
+  const byTime = new Map<number, OHLCV>();
+  existing.forEach((bar) => byTime.set(bar.time, bar));
+  incoming.forEach((bar) => byTime.set(bar.time, bar));
+
+  return sortChronologically(Array.from(byTime.values()));
+}
+
 /**
  * Filter OHLCV data by date range
  */
@@ -13,8 +13,23 @@ export type AlphaVantageFunction =
   | 'TIME_SERIES_DAILY'
   | 'TIME_SERIES_WEEKLY'
   | 'TIME_SERIES_MONTHLY'
+  | 'TIME_SERIES_DAILY_ADJUSTED'
+  | 'TIME_SERIES_WEEKLY_ADJUSTED'
+  | 'TIME_SERIES_MONTHLY_ADJUSTED'
   | 'SYMBOL_SEARCH'
-  | 'GLOBAL_QUOTE';
+  | 'GLOBAL_QUOTE'
+  | 'EARNINGS'
+  | 'DIVIDENDS'
+  | 'SPLITS'
+  | 'OVERVIEW'
+  | 'FX_INTRADAY'
+  | 'FX_DAILY'
+  | 'FX_WEEKLY'
+  | 'FX_MONTHLY'
+  | 'CRYPTO_INTRADAY'
+  | 'DIGITAL_CURRENCY_DAILY'
+  | 'DIGITAL_CURRENCY_WEEKLY'
+  | 'DIGITAL_CURRENCY_MONTHLY';
 
 /**
  * Intraday interval options
@@ -47,6 +62,22 @@ export interface AVTimeSeriesDataPoint {
   '5. volume': string;
 }
 
+/**
+ * Adjusted time series data point
+ * Prices are raw; '5. adjusted close' folds in splits and dividends.
+ * Only daily points carry a split coefficient.
+ */
+export interface AVAdjustedDataPoint {
+  '1. open': string;
+  '2. high': string;
+  '3. low': string;
+  '4. close': string;
+  '5. adjusted close': string;
+  '6. volume': string;
+  '7. dividend amount': string;
+  '8. split coefficient'?: string;
+}
+
 /**
  * Intraday time series response
  */
@@ -83,6 +114,30 @@ export interface AVMonthlyResponse {
   'Monthly Time Series': Record<string, AVTimeSeriesDataPoint>;
 }
 
+/**
+ * Daily adjusted time series response
+ */
+export interface AVDailyAdjustedResponse {
+  'Meta Data': TimeSeriesMetaData;
+  'Time Series (Daily)': Record<string, AVAdjustedDataPoint>;
+}
+
+/**
+ * Weekly adjusted time series response
+ */
+export interface AVWeeklyAdjustedResponse {
+  'Meta Data': TimeSeriesMetaData;
+  'Weekly Adjusted Time Series': Record<string, AVAdjustedDataPoint>;
+}
+
+/**
+ * Monthly adjusted time series response
+ */
+export interface AVMonthlyAdjustedResponse {
+  'Meta Data': TimeSeriesMetaData;
+  'Monthly Adjusted Time Series': Record<string, AVAdjustedDataPoint>;
+}
+
 /**
  * Union type for all time series responses
  */
@@ -90,7 +145,10 @@ export type AVTimeSeriesResponse =
   | AVIntradayResponse
   | AVDailyResponse
   | AVWeeklyResponse
-  | AVMonthlyResponse;
+  | AVMonthlyResponse
+  | AVDailyAdjustedResponse
+  | AVWeeklyAdjustedResponse
+  | AVMonthlyAdjustedResponse;
 
 /**
  * Symbol search match result
@@ -137,6 +195,131 @@ export interface AVGlobalQuoteResponse {
   'Global Quote': AVGlobalQuoteData;
 }
 
+/**
+ * Quarterly earnings entry
+ * Missing numbers are the string "None"
+ */
+export interface AVQuarterlyEarnings {
+  fiscalDateEnding: string;
+  reportedDate: string;
+  reportedEPS: string;
+  estimatedEPS: string;
+  surprise: string;
+  surprisePercentage: string;
+  reportTime?: string;
+}
+
+/**
+ * Earnings response
+ */
+export interface AVEarningsResponse {
+  symbol: string;
+  quarterlyEarnings: AVQuarterlyEarnings[];
+}
+
+/**
+ * Dividend history entry; missing dates are "None"
+ */
+export interface AVDividend {
+  ex_dividend_date: string;
+  declaration_date: string;
+  record_date: string;
+  payment_date: string;
+  amount: string;
+}
+
+/**
+ * Dividends response
+ */
+export interface AVDividendsResponse {
+  symbol: string;
+  data: AVDividend[];
+}
+
+/**
+ * Split history entry
+ */
+export interface AVSplit {
+  effective_date: string;
+  /** New shares per old share, e.g. "4.0000" */
+  split_factor: string;
+}
+
+/**
+ * Splits response
+ */
+export interface AVSplitsResponse {
+  symbol: string;
+  data: AVSplit[];
+}
+
+/**
+ * Metadata of FX and crypto series
+ * Keys are numbered differently per function (e.g. '7. Time Zone' for
+ * FX_INTRADAY, '9. Time Zone' for CRYPTO_INTRADAY)
+ */
+export type AVPairMetaData = Record<string, string>;
+
+/**
+ * FX data point; FX series carry no volume
+ */
+export interface AVFXDataPoint {
+  '1. open': string;
+  '2. high': string;
+  '3. low': string;
+  '4. close': string;
+}
+
+/**
+ * Series key of an FX response, e.g. 'Time Series FX (5min)'
+ */
+export type AVFXSeriesKey = `Time Series FX (${IntradayInterval | 'Daily' | 'Weekly' | 'Monthly'})`;
+
+/**
+ * FX_INTRADAY, FX_DAILY, FX_WEEKLY and FX_MONTHLY response
+ */
+export type AVFXResponse = { 'Meta Data'?: AVPairMetaData } & Partial<
+  Record<AVFXSeriesKey, Record<string, AVFXDataPoint>>
+>;
+
+/**
+ * Series key of a crypto response, e.g. 'Time Series Crypto (5min)' or
+ * 'Time Series (Digital Currency Daily)'
+ */
+export type AVCryptoSeriesKey =
+  | `Time Series Crypto (${IntradayInterval})`
+  | `Time Series (Digital Currency ${'Daily' | 'Weekly' | 'Monthly'})`;
+
+/**
+ * CRYPTO_INTRADAY and DIGITAL_CURRENCY_* response
+ * Volume is in units of the digital currency.
+ */
+export type AVCryptoResponse = { 'Meta Data'?: AVPairMetaData } & Partial<
+  Record<AVCryptoSeriesKey, Record<string, AVTimeSeriesDataPoint>>
+>;
+
+/**
+ * Company overview response
+ * Numbers are strings; missing values are "None" or "-".
+ * An unknown symbol returns an empty object.
+ */
+export interface AVCompanyOverview {
+  Symbol?: string;
+  Name?: string;
+  Exchange?: string;
+  Sector?: string;
+  Industry?: string;
+  MarketCapitalization?: string;
+  SharesOutstanding?: string;
+  PERatio?: string;
+  EPS?: string;
+  /** Fraction, e.g. "0.0044" for 0.44% */
+  DividendYield?: string;
+  Beta?: string;
+  '52WeekHigh'?: string;
+  '52WeekLow'?: string;
+}
+
 /**
  * Error response from Alpha Vantage
  */
@@ -155,6 +338,16 @@ export interface AlphaVantageRequestOptions {
   interval?: IntradayInterval;
   outputsize?: 'compact' | 'full';
   keywords?: string;
+  /** Intraday history for a given month (YYYY-MM) */
+  month?: string;
+  /** Intraday split/dividend adjustment (the API defaults to adjusted) */
+  adjusted?: boolean;
+  /** FX base currency */
+  from_symbol?: string;
+  /** FX quote currency */
+  to_symbol?: string;
+  /** Crypto quote currency (exchange market) */
+  market?: string;
 }
 
 /**
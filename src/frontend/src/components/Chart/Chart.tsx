@@ -5,14 +5,23 @@
  * TASK-016: Chart Container Component
  * TASK-017: Candlestick Chart
  * TASK-028: Loading & Error States
+ * TASK-062: Oscillator Indicator Pane
+ *
+ * A badge flags data quality issues in the loaded series; it opens a
+ * panel listing them.
  */
 
-import { useRef } from 'react';
-import { useChart } from '../../context';
-import { useStockData, useChartResize } from '../../hooks';
-import { ChartCanvas } from './ChartCanvas';
+import { useRef, useState, useMemo } from 'react';
+import { useChart, useIndicators } from '../../context';
+import { useStockData, useChartResize, usePaneLayout } from '../../hooks';
+import { ChartCanvas, type ChartHandle } from './ChartCanvas';
+import { IndicatorPanes } from './IndicatorPanes';
+import { EventMarkers } from './EventMarkers';
+import { DataQualityPanel } from './DataQualityPanel';
 import { ChartSkeleton } from './ChartSkeleton';
 import { EmptyState } from './EmptyState';
+import type { DataQualityReport } from '../../types';
+import { isIntradayInterval } from '../../utils/intervals';
 
 /**
  * Error state component with retry button
@@ -67,23 +76,84 @@ function LoadingOverlay() {
   );
 }
 
+/**
+ * Badge shown while the chart displays expired cached data
+ */
+function StaleDataBadge({ message }: { message: string | null }) {
+  return (
+    <div
+      className="absolute top-2 left-1/2 -translate-x-1/2 z-10 px-2 py-0.5 rounded-full text-xs font-medium bg-amber-100 text-amber-800 dark:bg-amber-900/50 dark:text-amber-200"
+      title={message ?? undefined}
+      role="status"
+      data-testid="stale-data-badge"
+    >
+      Showing cached data
+    </div>
+  );
+}
+
+/**
+ * Badge counting data quality issues; red when bars were dropped
+ */
+function DataQualityBadge({ report, onClick }: { report: DataQualityReport; onClick: () => void }) {
+  const count = report.issues.length;
+  const colorClass = report.counts.dropped > 0
+    ? 'bg-red-100 text-red-800 hover:bg-red-200 dark:bg-red-900/50 dark:text-red-200 dark:hover:bg-red-900/70'
+    : 'bg-amber-100 text-amber-800 hover:bg-amber-200 dark:bg-amber-900/50 dark:text-amber-200 dark:hover:bg-amber-900/70';
+
+  return (
+    <button
+      type="button"
+      onClick={onClick}
+      className={`absolute top-2 right-20 z-20 px-2 py-0.5 rounded-full text-xs font-medium transition-colors focus:outline-none focus:ring-2 focus:ring-blue-500 ${colorClass}`}
+      title="Show data quality issues"
+      data-testid="data-quality-badge"
+    >
+      {count} data {count === 1 ? 'issue' : 'issues'}
+    </button>
+  );
+}
+
 /**
  * Main Chart Container Component
- * Manages data fetching, resizing, and renders appropriate states
+ * Manages data fetching, resizing, and renders appropriate states.
+ * Oscillator indicators are stacked in resizable panes below the price chart.
  */
 export function Chart() {
   const containerRef = useRef<HTMLDivElement>(null);
   const { state } = useChart();
-  const { symbol, timeRange, interval, chartType } = state;
+  const { symbol, timeRange, customRange, interval, chartType, showExtendedHours, adjustedPrices } = state;
+  const refreshInterval = state.autoRefresh ? state.refreshInterval * 1000 : null;
+  const { state: indicatorState } = useIndicators();
+  const [mainChart, setMainChart] = useState<ChartHandle | null>(null);
+  const [isQualityPanelOpen, setIsQualityPanelOpen] = useState(false);
   
-  const { data, isLoading, error, refetch } = useStockData(symbol, timeRange, interval);
+  const { data, seriesKey, isLoading, error, isStale, quality, refetch } = useStockData(
+    symbol,
+    timeRange,
+    interval,
+    customRange,
+    showExtendedHours,
+    adjustedPrices,
+    refreshInterval
+  );
   const dimensions = useChartResize(containerRef);
+  const intraday = isIntradayInterval(interval);
+
+  // Lay out main chart and one pane per visible oscillator
+  const visibleOscillators = useMemo(
+    () => indicatorState.oscillators.filter((o) => o.visible),
+    [indicatorState.oscillators]
+  );
+  const paneIds = useMemo(() => visibleOscillators.map((o) => o.id), [visibleOscillators]);
+  const { mainHeight, paneHeights, resizePane } = usePaneLayout(paneIds, dimensions.height);
 
   // Determine what to render
   const hasData = data.length > 0;
   const showSkeleton = isLoading && !hasData;
   const showError = error && !hasData;
   const showEmpty = !isLoading && !error && !hasData;
+  const hasQualityIssues = quality !== null && quality.issues.length > 0;
 
   return (
     <div 
@@ -93,6 +163,9 @@ export function Chart() {
       {/* Loading overlay (when updating existing data) */}
       {isLoading && hasData && <LoadingOverlay />}
       
+      {/* Stale cache indicator (offline or API failure) */}
+      {isStale && hasData && <StaleDataBadge message={error} />}
+      
       {/* Skeleton loading state (initial load) */}
       {showSkeleton && <ChartSkeleton />}
       
@@ -106,15 +179,45 @@ export function Chart() {
       {hasData && !showSkeleton && (
         <div className="w-full h-full flex flex-col">
           {/* Chart Canvas */}
-          <div className="flex-1">
+          <div className="relative flex-1 min-h-0">
             <ChartCanvas
               data={data}
+              seriesKey={seriesKey}
               chartType={chartType}
               width={dimensions.width}
-              height={dimensions.height}
+              height={mainHeight}
               symbol={symbol}
+              intraday={intraday}
+              onReady={setMainChart}
             />
+            <EventMarkers chart={mainChart} data={data} intraday={intraday} symbol={symbol} />
+
+            {/* Data quality badge and issue list */}
+            {hasQualityIssues && (
+              <DataQualityBadge report={quality} onClick={() => setIsQualityPanelOpen(!isQualityPanelOpen)} />
+            )}
+            {hasQualityIssues && isQualityPanelOpen && (
+              <DataQualityPanel
+                report={quality}
+                chart={mainChart}
+                data={data}
+                intraday={intraday}
+                onClose={() => setIsQualityPanelOpen(false)}
+              />
+            )}
           </div>
+
+          {/* Oscillator panes */}
+          {visibleOscillators.length > 0 && (
+            <IndicatorPanes
+              data={data}
+              oscillators={visibleOscillators}
+              width={dimensions.width}
+              paneHeights={paneHeights}
+              mainChart={mainChart}
+              onResizePane={resizePane}
+            />
+          )}
         </div>
       )}
     </div>
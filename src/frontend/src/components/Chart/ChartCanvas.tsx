@@ -10,6 +10,7 @@
  * TASK-022: Heikin-Ashi Chart
  * TASK-023: Baseline Chart
  * TASK-061: Overlay Indicator Rendering
+ * TASK-062: Oscillator Indicator Pane (time-scale/crosshair sync handle)
  */
 
 import { useEffect, useRef, useMemo, useState, useCallback } from 'react';
@@ -32,13 +33,24 @@ import {
   type Time,
   type SeriesType,
   type MouseEventParams,
+  type ChartOptions,
+  type DeepPartial,
   ColorType,
   CrosshairMode,
+  TickMarkType,
 } from 'lightweight-charts';
 import type { OHLCV } from '../../types';
 import type { ChartType } from '../../types';
-import { useTheme, useIndicators } from '../../context';
+import { useTheme, useIndicators, useChart } from '../../context';
 import { toHeikinAshi } from '../../utils/heikinAshi';
+import {
+  resolveTimeZone,
+  formatBarTime,
+  formatTickMark,
+  type TickMarkLevel,
+} from '../../utils/timezone';
+import { calculateSessionRange, type SessionRange } from '../../utils/sessions';
+import { parseInstrument, getPriceDecimals } from '../../utils/instruments';
 import { Legend } from './Legend';
 import {
   getIndicatorCalculation,
@@ -48,14 +60,34 @@ import {
 } from '../Indicators/calculations';
 import type { OverlayIndicator } from '../../context/IndicatorContext';
 
+/**
+ * Handle to the main chart instance, used by oscillator panes to
+ * synchronize their time scale and crosshair with the price chart
+ */
+export interface ChartHandle {
+  chart: IChartApi;
+  series: ISeriesApi<SeriesType>;
+}
+
 interface ChartCanvasProps {
   data: OHLCV[];
+  /** Identity of the request `data` was loaded for; only bars of the same series are updated in place */
+  seriesKey: string;
   chartType: ChartType;
   width: number;
   height: number;
   symbol?: string;
+  /** Whether bars are intraday; otherwise they are date-only (daily and above) */
+  intraday: boolean;
+  onReady?: (handle: ChartHandle | null) => void;
 }
 
+/**
+ * Fixed minimum width of the right price scale.
+ * Shared with indicator panes so their plot areas line up horizontally.
+ */
+export const PRICE_SCALE_MIN_WIDTH = 72;
+
 // Colors for bullish/bearish candles
 const BULLISH_COLOR = '#22c55e'; // Green
 const BEARISH_COLOR = '#ef4444'; // Red
@@ -63,6 +95,9 @@ const LINE_COLOR = '#3b82f6'; // Blue
 const AREA_TOP_COLOR = 'rgba(59, 130, 246, 0.4)';
 const AREA_BOTTOM_COLOR = 'rgba(59, 130, 246, 0.0)';
 
+/** Bars the newest bar may sit past the right edge while still pinned to it */
+const PINNED_TOLERANCE_BARS = 0.5;
+
 /**
  * Convert OHLCV data to Lightweight Charts format
  */
@@ -161,6 +196,59 @@ function getBaselineValue(data: OHLCV[]): number {
   return data[0].close;
 }
 
+/**
+ * Convert data to the format of the main series for a chart type
+ */
+function toSeriesData(
+  chartType: ChartType,
+  data: OHLCV[]
+): (CandlestickData | BarData | LineData | AreaData | BaselineData)[] {
+  switch (chartType) {
+    case 'hollowCandle':
+      return toHollowCandlestickData(data);
+    case 'heikinAshi':
+      return toCandlestickData(toHeikinAshi(data));
+    case 'line':
+      return toLineData(data);
+    case 'bar':
+      return toBarData(data);
+    case 'area':
+      return toAreaData(data);
+    case 'baseline':
+      return toBaselineData(data);
+    default:
+      return toCandlestickData(data);
+  }
+}
+
+/**
+ * Price scale format for an instrument (e.g. 5 decimals for EUR/USD)
+ */
+function getPriceFormatOptions(symbol: string, data: OHLCV[]) {
+  const precision = getPriceDecimals(parseInstrument(symbol), data[data.length - 1]?.close);
+  return { priceFormat: { type: 'price' as const, precision, minMove: Math.pow(10, -precision) } };
+}
+
+/**
+ * Check whether `next` only changes the last bar of `prev` and/or appends
+ * bars after it, so the series can be updated in place
+ */
+function isIncrementalUpdate(prev: OHLCV[], next: OHLCV[]): boolean {
+  if (prev.length === 0 || next.length < prev.length) return false;
+  const last = prev.length - 1;
+  return next[0].time === prev[0].time && next[last].time === prev[last].time;
+}
+
+/**
+ * Check whether `next` is `prev` with bars dropped from the front, as a
+ * rolling time range moves on, and bars updated or appended at the end
+ */
+function isRollingUpdate(prev: OHLCV[], next: OHLCV[]): boolean {
+  if (prev.length === 0 || next.length === 0) return false;
+  const lastTime = prev[prev.length - 1].time;
+  return next[0].time > prev[0].time && next.some((bar) => bar.time === lastTime);
+}
+
 /**
  * Convert data to volume histogram format
  * Color matches price direction (green/red)
@@ -177,6 +265,25 @@ function toVolumeData(data: OHLCV[]): HistogramData[] {
 const BULLISH_COLOR_ALPHA = 'rgba(34, 197, 94, 0.5)';
 const BEARISH_COLOR_ALPHA = 'rgba(239, 68, 68, 0.5)';
 
+/** Price scale of the full-height off-hours shading histogram */
+const SESSION_SCALE_ID = 'sessions';
+const TRANSPARENT = 'rgba(0, 0, 0, 0)';
+
+/**
+ * Convert data to off-hours shading: a full-height bar behind every
+ * pre-market/after-hours bar. Empty when the series has no extended bars.
+ */
+function toSessionShadeData(data: OHLCV[], shadeColor: string): HistogramData[] {
+  if (!data.some((bar) => bar.session && bar.session !== 'regular')) {
+    return [];
+  }
+  return data.map((bar) => ({
+    time: toChartTime(bar.time),
+    value: 1,
+    color: bar.session && bar.session !== 'regular' ? shadeColor : TRANSPARENT,
+  }));
+}
+
 // Ichimoku cloud colors
 const ICHIMOKU_CLOUD_BULLISH = 'rgba(76, 175, 80, 0.2)';
 const ICHIMOKU_CLOUD_BEARISH = 'rgba(244, 67, 54, 0.2)';
@@ -191,17 +298,60 @@ function toIndicatorLineData(indicatorData: IndicatorOutput): LineData[] {
   }));
 }
 
+const TICK_MARK_LEVELS: Record<TickMarkType, TickMarkLevel> = {
+  [TickMarkType.Year]: 'year',
+  [TickMarkType.Month]: 'month',
+  [TickMarkType.DayOfMonth]: 'day',
+  [TickMarkType.Time]: 'time',
+  [TickMarkType.TimeWithSeconds]: 'time',
+};
+
+/**
+ * Time-axis and crosshair label formatting for a display timezone
+ */
+function getTimeFormatOptions(timeZone: string, dateOnly: boolean): DeepPartial<ChartOptions> {
+  return {
+    localization: {
+      timeFormatter: (time: Time) => formatBarTime(time as number, timeZone, dateOnly),
+    },
+    timeScale: {
+      tickMarkFormatter: (time: Time, tickMarkType: TickMarkType) =>
+        formatTickMark(time as number, TICK_MARK_LEVELS[tickMarkType], timeZone, dateOnly),
+    },
+  };
+}
+
 /**
  * ChartCanvas component renders the actual chart
  */
-export function ChartCanvas({ data, chartType, width, height, symbol = '' }: ChartCanvasProps) {
+export function ChartCanvas({
+  data,
+  seriesKey,
+  chartType,
+  width,
+  height,
+  symbol = '',
+  intraday,
+  onReady,
+}: ChartCanvasProps) {
   const chartContainerRef = useRef<HTMLDivElement>(null);
   const chartRef = useRef<IChartApi | null>(null);
   const seriesRef = useRef<ISeriesApi<SeriesType> | null>(null);
   const volumeSeriesRef = useRef<ISeriesApi<'Histogram'> | null>(null);
+  const sessionSeriesRef = useRef<ISeriesApi<'Histogram'> | null>(null);
   const overlaySeriesRef = useRef<Map<string, ISeriesApi<SeriesType>[]>>(new Map());
+  // Series, data and chart type currently drawn, to detect in-place updates
+  const renderedRef = useRef<{ seriesKey: string; chartType: ChartType; data: OHLCV[] } | null>(null);
   const { theme } = useTheme();
   const { state: indicatorState } = useIndicators();
+  const { state: chartState } = useChart();
+  const timeZone = resolveTimeZone(chartState.displayTimeZone);
+
+  // Keep latest onReady callback without re-running chart effects
+  const onReadyRef = useRef(onReady);
+  useEffect(() => {
+    onReadyRef.current = onReady;
+  }, [onReady]);
   
   // State for legend data (OHLCV values on crosshair hover)
   const [legendData, setLegendData] = useState<OHLCV | null>(null);
@@ -215,6 +365,15 @@ export function ChartCanvas({ data, chartType, width, height, symbol = '' }: Cha
     return map;
   }, [data]);
   
+  // Day high/low as of each intraday bar, for the legend
+  const sessionRangeMap = useMemo(() => {
+    const map = new Map<number, SessionRange>();
+    if (intraday) {
+      calculateSessionRange(data, timeZone).forEach((range) => map.set(range.time, range));
+    }
+    return map;
+  }, [data, timeZone, intraday]);
+  
   // Crosshair move handler
   const handleCrosshairMove = useCallback((param: MouseEventParams) => {
     if (!param.time) {
@@ -236,6 +395,7 @@ export function ChartCanvas({ data, chartType, width, height, symbol = '' }: Cha
       textColor: isDark ? '#9ca3af' : '#374151',
       gridColor: isDark ? '#374151' : '#e5e7eb',
       borderColor: isDark ? '#4b5563' : '#d1d5db',
+      sessionShade: isDark ? 'rgba(156, 163, 175, 0.08)' : 'rgba(107, 114, 128, 0.08)',
     };
   }, [theme]);
 
@@ -274,6 +434,7 @@ export function ChartCanvas({ data, chartType, width, height, symbol = '' }: Cha
       },
       rightPriceScale: {
         borderColor: chartColors.borderColor,
+        minimumWidth: PRICE_SCALE_MIN_WIDTH,
         scaleMargins: {
           top: 0.1,
           bottom: 0.2,
@@ -283,6 +444,8 @@ export function ChartCanvas({ data, chartType, width, height, symbol = '' }: Cha
         borderColor: chartColors.borderColor,
         timeVisible: true,
         secondsVisible: false,
+        // New bars scroll the view only when it is pinned to the right edge
+        shiftVisibleRangeOnNewBar: false,
       },
       handleScale: {
         mouseWheel: true,
@@ -297,6 +460,15 @@ export function ChartCanvas({ data, chartType, width, height, symbol = '' }: Cha
     });
 
     chartRef.current = chart;
+
+    // Off-hours shading, added first so it is drawn behind every other series
+    const sessionSeries = chart.addSeries(HistogramSeries, {
+      priceScaleId: SESSION_SCALE_ID,
+      priceLineVisible: false,
+      lastValueVisible: false,
+    });
+    sessionSeries.priceScale().applyOptions({ scaleMargins: { top: 0, bottom: 0 } });
+    sessionSeriesRef.current = sessionSeries;
     
     // Subscribe to crosshair move for legend updates
     chart.subscribeCrosshairMove(handleCrosshairMove);
@@ -311,12 +483,15 @@ export function ChartCanvas({ data, chartType, width, height, symbol = '' }: Cha
 
     // Cleanup on unmount
     return () => {
+      onReadyRef.current?.(null);
       container.removeEventListener('dblclick', handleDoubleClick);
       chart.unsubscribeCrosshairMove(handleCrosshairMove);
       chart.remove();
       chartRef.current = null;
       seriesRef.current = null;
       volumeSeriesRef.current = null;
+      sessionSeriesRef.current = null;
+      renderedRef.current = null;
     };
   }, [chartColors, handleCrosshairMove]);
 
@@ -342,12 +517,86 @@ export function ChartCanvas({ data, chartType, width, height, symbol = '' }: Cha
     });
   }, [chartColors]);
 
+  // Format time labels in the display timezone
+  useEffect(() => {
+    chartRef.current?.applyOptions(getTimeFormatOptions(timeZone, !intraday));
+  }, [timeZone, intraday, chartColors]);
+
+  // Shade pre-market and after-hours bars
+  useEffect(() => {
+    sessionSeriesRef.current?.setData(toSessionShadeData(data, chartColors.sessionShade));
+  }, [data, chartColors]);
+
   // Update series when chartType or data changes
   useEffect(() => {
     if (!chartRef.current || data.length === 0) return;
 
     const chart = chartRef.current;
 
+    // Refreshed data of the same series that only touches the newest bars:
+    // update in place, keeping the user's zoom/scroll position
+    const rendered = renderedRef.current;
+    if (
+      seriesRef.current &&
+      volumeSeriesRef.current &&
+      rendered?.chartType === chartType &&
+      rendered.seriesKey === seriesKey &&
+      isIncrementalUpdate(rendered.data, data)
+    ) {
+      // IN-08: a view showing the newest bar follows new bars
+      const isPinned = chart.timeScale().scrollPosition() >= -PINNED_TOLERANCE_BARS;
+      const seriesData = toSeriesData(chartType, data);
+      const volumeData = toVolumeData(data);
+      for (let i = rendered.data.length - 1; i < data.length; i++) {
+        seriesRef.current.update(seriesData[i]);
+        volumeSeriesRef.current.update(volumeData[i]);
+      }
+      if (isPinned && data.length > rendered.data.length) {
+        chart.timeScale().scrollToRealTime();
+      }
+      renderedRef.current = { seriesKey, chartType, data };
+      return;
+    }
+
+    // A refreshed rolling range that moved on: replace the bars, but keep
+    // showing the same times (or the newest bar, when pinned to it)
+    if (
+      seriesRef.current &&
+      volumeSeriesRef.current &&
+      rendered?.chartType === chartType &&
+      rendered.seriesKey === seriesKey &&
+      isRollingUpdate(rendered.data, data)
+    ) {
+      const isPinned = chart.timeScale().scrollPosition() >= -PINNED_TOLERANCE_BARS;
+      const visibleRange = chart.timeScale().getVisibleRange();
+      seriesRef.current.setData(toSeriesData(chartType, data));
+      volumeSeriesRef.current.setData(toVolumeData(data));
+      if (isPinned) {
+        chart.timeScale().scrollToRealTime();
+      } else if (visibleRange) {
+        chart.timeScale().setVisibleRange(visibleRange);
+      }
+      renderedRef.current = { seriesKey, chartType, data };
+      return;
+    }
+
+    // Same chart type: reload the existing series, so listeners keep their
+    // handle (e.g. event markers attached to it)
+    if (seriesRef.current && volumeSeriesRef.current && rendered?.chartType === chartType) {
+      const series = seriesRef.current;
+      series.setData(toSeriesData(chartType, data));
+      if (chartType === 'baseline') {
+        (series as ISeriesApi<'Baseline'>).applyOptions({
+          baseValue: { type: 'price', price: getBaselineValue(data) },
+        });
+      }
+      series.applyOptions(getPriceFormatOptions(symbol, data));
+      volumeSeriesRef.current.setData(toVolumeData(data));
+      renderedRef.current = { seriesKey, chartType, data };
+      chart.timeScale().fitContent();
+      return;
+    }
+
     // Remove existing series
     if (seriesRef.current) {
       chart.removeSeries(seriesRef.current);
@@ -462,6 +711,9 @@ export function ChartCanvas({ data, chartType, width, height, symbol = '' }: Cha
         series.setData(toCandlestickData(data));
     }
 
+    // Price scale precision follows the instrument
+    series.applyOptions(getPriceFormatOptions(symbol, data));
+
     seriesRef.current = series;
 
     // Add volume series (takes 20% of chart area at the bottom)
@@ -479,10 +731,14 @@ export function ChartCanvas({ data, chartType, width, height, symbol = '' }: Cha
     });
     volumeSeries.setData(toVolumeData(data));
     volumeSeriesRef.current = volumeSeries;
+    renderedRef.current = { seriesKey, chartType, data };
 
     // Fit content to view
     chart.timeScale().fitContent();
-  }, [chartType, data]);
+
+    // Notify listeners (indicator panes) about the new main series
+    onReadyRef.current?.({ chart, series });
+  }, [chartType, data, seriesKey, symbol]);
 
   // Render overlay indicators (TASK-061)
   useEffect(() => {
@@ -513,16 +769,16 @@ export function ChartCanvas({ data, chartType, width, height, symbol = '' }: Cha
       // If series already exists, update it
       if (existingSeries && existingSeries.length > 0) {
         // Just update the data, don't recreate the series
-        updateOverlaySeries(chart, indicator, data, existingSeries);
+        updateOverlaySeries(chart, indicator, data, existingSeries, timeZone);
       } else {
         // Create new series for this indicator
-        const newSeries = createOverlaySeries(chart, indicator, data);
+        const newSeries = createOverlaySeries(chart, indicator, data, timeZone);
         if (newSeries.length > 0) {
           overlaySeriesRef.current.set(indicator.id, newSeries);
         }
       }
     });
-  }, [indicatorState.overlays, data]);
+  }, [indicatorState.overlays, data, timeZone]);
 
   // Resize chart when dimensions change
   useEffect(() => {
@@ -534,7 +790,14 @@ export function ChartCanvas({ data, chartType, width, height, symbol = '' }: Cha
     <div className="relative w-full h-full">
       {/* Legend overlay at top-left */}
       <div className="absolute top-2 left-2 z-20 bg-white/90 dark:bg-gray-800/90 px-2 py-1 rounded shadow-sm">
-        <Legend data={legendData} symbol={symbol} overlays={indicatorState.overlays} />
+        <Legend
+          data={legendData}
+          symbol={symbol}
+          overlays={indicatorState.overlays}
+          timeZone={timeZone}
+          intraday={intraday}
+          sessionRange={legendData ? sessionRangeMap.get(legendData.time) : undefined}
+        />
       </div>
       
       {/* Chart container */}
@@ -556,13 +819,21 @@ const toValidLineWidth = (width: number): ValidLineWidth => {
   return 4;
 };
 
+/**
+ * Calculation params for an overlay; VWAP sessions follow the display timezone
+ */
+function getCalculationParams(indicator: OverlayIndicator, timeZone: string) {
+  return indicator.type === 'vwap' ? { ...indicator.params, timeZone } : indicator.params;
+}
+
 /**
  * Create overlay indicator series
  */
 function createOverlaySeries(
   chart: IChartApi,
   indicator: OverlayIndicator,
-  data: OHLCV[]
+  data: OHLCV[],
+  timeZone: string
 ): ISeriesApi<SeriesType>[] {
   const seriesList: ISeriesApi<SeriesType>[] = [];
   const calculate = getIndicatorCalculation(indicator.type);
@@ -576,7 +847,7 @@ function createOverlaySeries(
       case 'dema':
       case 'tema':
       case 'vwap': {
-        const indicatorData = calculate(data, indicator.params) as IndicatorOutput;
+        const indicatorData = calculate(data, getCalculationParams(indicator, timeZone)) as IndicatorOutput;
         if (indicatorData.length > 0) {
           const lineSeries = chart.addSeries(LineSeries, {
             color: indicator.color,
@@ -780,7 +1051,8 @@ function updateOverlaySeries(
   _chart: IChartApi,
   indicator: OverlayIndicator,
   data: OHLCV[],
-  existingSeries: ISeriesApi<SeriesType>[]
+  existingSeries: ISeriesApi<SeriesType>[],
+  timeZone: string
 ): void {
   const calculate = getIndicatorCalculation(indicator.type);
 
@@ -792,7 +1064,7 @@ function updateOverlaySeries(
       case 'dema':
       case 'tema':
       case 'vwap': {
-        const indicatorData = calculate(data, indicator.params) as IndicatorOutput;
+        const indicatorData = calculate(data, getCalculationParams(indicator, timeZone)) as IndicatorOutput;
         if (existingSeries[0] && indicatorData.length > 0) {
           existingSeries[0].setData(toIndicatorLineData(indicatorData));
         }
@@ -0,0 +1,194 @@
+/**
+ * Data Quality Panel Component
+ * Lists issues found in the chart's source bars, with jump-to-bar
+ *
+ * Issues refer to source bars; jumping scrolls the chart to the displayed
+ * bar containing the issue and puts the crosshair on it.
+ */
+
+import type { Time } from 'lightweight-charts';
+import type { OHLCV, DataQualityIssue, DataQualityIssueType, DataQualityReport, InvalidBarReason } from '../../types';
+import { useChart } from '../../context';
+import { formatBarTime, resolveTimeZone } from '../../utils/timezone';
+import type { ChartHandle } from './ChartCanvas';
+
+interface DataQualityPanelProps {
+  report: DataQualityReport;
+  chart: ChartHandle | null;
+  /** Displayed bars, to find the bar an issue falls in */
+  data: OHLCV[];
+  /** Whether bars are intraday; otherwise they are date-only */
+  intraday: boolean;
+  onClose: () => void;
+}
+
+/** Issues listed at most; the summary still counts all of them */
+const MAX_LISTED_ISSUES = 200;
+
+/** Bars shown around a jump target when the chart has no visible range yet */
+const DEFAULT_JUMP_SPAN = 60;
+
+const ISSUE_LABELS: Record<DataQualityIssueType, string> = {
+  dropped: 'Dropped bar',
+  gap: 'Gap',
+  duplicate: 'Duplicate',
+  'zero-volume': 'Zero volume',
+  spike: 'Price spike',
+};
+
+const ISSUE_COLORS: Record<DataQualityIssueType, string> = {
+  dropped: 'bg-red-100 text-red-800 dark:bg-red-900/50 dark:text-red-200',
+  gap: 'bg-amber-100 text-amber-800 dark:bg-amber-900/50 dark:text-amber-200',
+  duplicate: 'bg-amber-100 text-amber-800 dark:bg-amber-900/50 dark:text-amber-200',
+  'zero-volume': 'bg-gray-100 text-gray-700 dark:bg-gray-700 dark:text-gray-200',
+  spike: 'bg-purple-100 text-purple-800 dark:bg-purple-900/50 dark:text-purple-200',
+};
+
+const REASON_LABELS: Record<InvalidBarReason, string> = {
+  'invalid-time': 'unreadable timestamp',
+  'invalid-number': 'missing or non-numeric value',
+  'high-below-low': 'high below low',
+  'high-below-body': 'high below open/close',
+  'low-above-body': 'low above open/close',
+  'negative-volume': 'negative volume',
+};
+
+/**
+ * One-line description of an issue
+ */
+function describeIssue(issue: DataQualityIssue, timeZone: string, dateOnly: boolean): string {
+  switch (issue.type) {
+    case 'dropped':
+      return issue.reasons.map((reason) => REASON_LABELS[reason]).join(', ');
+    case 'gap':
+      return `~${issue.missingBars.toLocaleString()} bar${issue.missingBars === 1 ? '' : 's'} missing until ${formatBarTime(issue.endTime, timeZone, dateOnly)}`;
+    case 'duplicate':
+      return `${issue.count} bars share this time; the last one is shown`;
+    case 'zero-volume':
+      return 'No shares traded';
+    case 'spike':
+      return `${issue.change >= 0 ? '+' : ''}${(issue.change * 100).toFixed(2)}% from the previous close`;
+  }
+}
+
+/**
+ * Index of the displayed bar containing a time, or -1
+ */
+function findBarIndex(data: OHLCV[], time: number): number {
+  let low = 0;
+  let high = data.length - 1;
+  let found = -1;
+  while (low <= high) {
+    const middle = (low + high) >> 1;
+    if (data[middle].time <= time) {
+      found = middle;
+      low = middle + 1;
+    } else {
+      high = middle - 1;
+    }
+  }
+  return found;
+}
+
+/**
+ * Popover listing data quality issues
+ */
+export function DataQualityPanel({ report, chart, data, intraday, onClose }: DataQualityPanelProps) {
+  const { state } = useChart();
+  const timeZone = resolveTimeZone(state.displayTimeZone);
+  const listed = report.issues.slice(0, MAX_LISTED_ISSUES);
+
+  const jumpToIssue = (issue: DataQualityIssue) => {
+    if (!chart || !Number.isFinite(issue.time)) return;
+    const index = findBarIndex(data, issue.time);
+    if (index < 0) return;
+
+    // Center the bar, keeping the current zoom
+    const timeScale = chart.chart.timeScale();
+    const range = timeScale.getVisibleLogicalRange();
+    const span = range ? range.to - range.from : DEFAULT_JUMP_SPAN;
+    timeScale.setVisibleLogicalRange({ from: index - span / 2, to: index + span / 2 });
+
+    const bar = data[index];
+    chart.chart.setCrosshairPosition(bar.close, bar.time as Time, chart.series);
+  };
+
+  return (
+    <div
+      className="absolute top-10 right-20 z-30 w-80 max-h-[70%] flex flex-col bg-white dark:bg-gray-800 border border-gray-200 dark:border-gray-700 rounded-lg shadow-lg text-xs"
+      role="dialog"
+      aria-label="Data quality issues"
+      data-testid="data-quality-panel"
+    >
+      <div className="flex items-center justify-between px-3 py-2 border-b border-gray-200 dark:border-gray-700">
+        <h3 className="text-sm font-semibold text-gray-900 dark:text-gray-100">Data Quality</h3>
+        <button
+          type="button"
+          onClick={onClose}
+          className="p-1 text-gray-400 hover:text-gray-600 dark:hover:text-gray-200 rounded focus:outline-none focus:ring-2 focus:ring-blue-500"
+          aria-label="Close data quality panel"
+        >
+          <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+            <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M6 18L18 6M6 6l12 12" />
+          </svg>
+        </button>
+      </div>
+
+      {/* Summary per issue type */}
+      <div className="flex flex-wrap gap-1 px-3 py-2 border-b border-gray-200 dark:border-gray-700">
+        <span className="text-gray-500 dark:text-gray-400 mr-1">
+          {report.totalBars.toLocaleString()} bars checked
+        </span>
+        {(Object.keys(ISSUE_LABELS) as DataQualityIssueType[])
+          .filter((type) => report.counts[type] > 0)
+          .map((type) => (
+            <span
+              key={type}
+              className={`px-1.5 py-0.5 rounded-full font-medium ${ISSUE_COLORS[type]}`}
+              data-testid={`data-quality-count-${type}`}
+            >
+              {ISSUE_LABELS[type]}: {report.counts[type]}
+            </span>
+          ))}
+      </div>
+
+      <ul className="flex-1 overflow-y-auto divide-y divide-gray-100 dark:divide-gray-700" data-testid="data-quality-issues">
+        {listed.map((issue, index) => {
+          const canJump = chart !== null && Number.isFinite(issue.time);
+          return (
+            <li key={`${issue.type}-${issue.time}-${index}`} className="flex items-start gap-2 px-3 py-2">
+              <div className="flex-1 min-w-0">
+                <div className="flex items-center gap-1.5">
+                  <span className={`px-1.5 py-0.5 rounded font-medium ${ISSUE_COLORS[issue.type]}`}>
+                    {ISSUE_LABELS[issue.type]}
+                  </span>
+                  <span className="text-gray-500 dark:text-gray-400 truncate">
+                    {Number.isFinite(issue.time) ? formatBarTime(issue.time, timeZone, !intraday) : 'Unknown time'}
+                  </span>
+                </div>
+                <p className="mt-0.5 text-gray-700 dark:text-gray-300">{describeIssue(issue, timeZone, !intraday)}</p>
+              </div>
+              <button
+                type="button"
+                onClick={() => jumpToIssue(issue)}
+                disabled={!canJump}
+                className="shrink-0 px-2 py-0.5 text-blue-600 dark:text-blue-400 rounded hover:bg-blue-50 dark:hover:bg-gray-700 focus:outline-none focus:ring-2 focus:ring-blue-500 disabled:opacity-40 disabled:cursor-not-allowed"
+                data-testid="data-quality-jump"
+              >
+                Jump
+              </button>
+            </li>
+          );
+        })}
+      </ul>
+
+      {report.issues.length > listed.length && (
+        <div className="px-3 py-2 border-t border-gray-200 dark:border-gray-700 text-gray-500 dark:text-gray-400">
+          {(report.issues.length - listed.length).toLocaleString()} more not listed
+        </div>
+      )}
+    </div>
+  );
+}
+
+export default DataQualityPanel;
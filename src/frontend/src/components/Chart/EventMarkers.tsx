@@ -0,0 +1,295 @@
+/**
+ * Event Markers Component
+ * Earnings, dividend and split markers on the price chart
+ *
+ * Spec 3.7: Events Overlay (EV-01 Earnings "E", EV-02 Dividends "D",
+ * EV-03 Stock Splits "S")
+ *
+ * Markers are attached to the main series through the lightweight-charts
+ * markers plugin. Hovering a marker shows a tooltip, clicking it opens a
+ * popup with the full event details.
+ */
+
+import { useEffect, useMemo, useRef, useState } from 'react';
+import {
+  createSeriesMarkers,
+  type ISeriesMarkersPluginApi,
+  type MouseEventParams,
+  type SeriesMarker,
+  type Time,
+} from 'lightweight-charts';
+import type { OHLCV, CorporateEvent, CorporateEventType } from '../../types';
+import { EVENT_TYPES } from '../../types';
+import { useChart } from '../../context';
+import { useCorporateEvents } from '../../hooks';
+import { EXCHANGE_TIMEZONE, formatBarTime, getZonedDateKey } from '../../utils/timezone';
+import { Modal } from '../common/Modal';
+import type { ChartHandle } from './ChartCanvas';
+
+interface EventMarkersProps {
+  chart: ChartHandle | null;
+  data: OHLCV[];
+  /** Whether bars are intraday; otherwise they are date-only */
+  intraday: boolean;
+  symbol: string;
+}
+
+/**
+ * Marker styling per event type
+ */
+const EVENT_STYLES: Record<CorporateEventType, { color: string; position: 'aboveBar' | 'belowBar' }> = {
+  earnings: { color: '#3b82f6', position: 'aboveBar' },
+  dividend: { color: '#22c55e', position: 'belowBar' },
+  split: { color: '#a855f7', position: 'belowBar' },
+};
+
+const EVENT_TITLES: Record<CorporateEventType, string> = {
+  earnings: 'Earnings',
+  dividend: 'Dividend',
+  split: 'Stock Split',
+};
+
+const REPORT_TIME_LABELS = { 'pre-market': 'Before open', 'post-market': 'After close' } as const;
+
+/**
+ * An event placed on the bar it falls in
+ */
+interface PlacedEvent {
+  id: string;
+  barTime: number;
+  event: CorporateEvent;
+}
+
+interface HoveredEvent {
+  event: CorporateEvent;
+  x: number;
+  y: number;
+}
+
+/**
+ * Format a split ratio, e.g. "4-for-1" or "1-for-10" for reverse splits
+ */
+function formatSplitRatio(ratio: number): string {
+  return ratio >= 1 ? `${ratio}-for-1` : `1-for-${Math.round(1 / ratio)}`;
+}
+
+/**
+ * Format a per-share amount
+ */
+function formatAmount(value: number | undefined): string {
+  return value === undefined ? '—' : value.toFixed(2);
+}
+
+/**
+ * One-line summary for the hover tooltip
+ */
+function getEventSummary(event: CorporateEvent): string {
+  switch (event.type) {
+    case 'earnings':
+      return event.reportedEPS !== undefined
+        ? `EPS ${formatAmount(event.reportedEPS)} vs ${formatAmount(event.estimatedEPS)} est.`
+        : `EPS estimate ${formatAmount(event.estimatedEPS)}`;
+    case 'dividend':
+      return `$${event.amount.toFixed(2)} per share`;
+    case 'split':
+      return `${formatSplitRatio(event.ratio)} split`;
+  }
+}
+
+/**
+ * Label/value rows for the detail popup
+ */
+function getEventDetails(event: CorporateEvent): { label: string; value: string }[] {
+  const date = formatBarTime(event.time, 'UTC', true);
+  switch (event.type) {
+    case 'earnings':
+      return [
+        { label: 'Report date', value: date },
+        { label: 'Fiscal quarter end', value: event.fiscalDateEnding },
+        { label: 'Reported EPS', value: formatAmount(event.reportedEPS) },
+        { label: 'Estimated EPS', value: formatAmount(event.estimatedEPS) },
+        {
+          label: 'Surprise',
+          value:
+            event.surprise === undefined
+              ? '—'
+              : `${formatAmount(event.surprise)}${
+                  event.surprisePercent !== undefined ? ` (${event.surprisePercent.toFixed(2)}%)` : ''
+                }`,
+        },
+        { label: 'Report time', value: event.reportTime ? REPORT_TIME_LABELS[event.reportTime] : '—' },
+      ];
+    case 'dividend':
+      return [
+        { label: 'Ex-dividend date', value: date },
+        { label: 'Amount', value: `$${event.amount.toFixed(2)}` },
+        { label: 'Declared', value: event.declarationDate ?? '—' },
+        { label: 'Record date', value: event.recordDate ?? '—' },
+        { label: 'Payment date', value: event.paymentDate ?? '—' },
+      ];
+    case 'split':
+      return [
+        { label: 'Effective date', value: date },
+        { label: 'Ratio', value: formatSplitRatio(event.ratio) },
+      ];
+  }
+}
+
+/**
+ * Place events on the bars they fall in
+ * Daily and coarser bars take events dated within their period; intraday
+ * series show an event on the first bar of its session date.
+ */
+function placeEvents(events: CorporateEvent[], data: OHLCV[], intraday: boolean): PlacedEvent[] {
+  if (data.length === 0) return [];
+
+  const placed: PlacedEvent[] = [];
+
+  if (intraday) {
+    const firstBarByDate = new Map<string, number>();
+    for (const bar of data) {
+      const key = getZonedDateKey(bar.time, EXCHANGE_TIMEZONE, false);
+      if (!firstBarByDate.has(key)) firstBarByDate.set(key, bar.time);
+    }
+    events.forEach((event, index) => {
+      const barTime = firstBarByDate.get(getZonedDateKey(event.time, 'UTC', true));
+      if (barTime !== undefined) {
+        placed.push({ id: `${event.type}-${index}`, barTime, event });
+      }
+    });
+    return placed;
+  }
+
+  // Last bar's period is assumed as long as the one before it
+  const lastBar = data[data.length - 1];
+  const lastPeriod = data.length > 1 ? lastBar.time - data[data.length - 2].time : 24 * 60 * 60;
+  let barIndex = 0;
+  events.forEach((event, index) => {
+    if (event.time < data[0].time || event.time >= lastBar.time + lastPeriod) return;
+    while (barIndex < data.length - 1 && data[barIndex + 1].time <= event.time) {
+      barIndex++;
+    }
+    placed.push({ id: `${event.type}-${index}`, barTime: data[barIndex].time, event });
+  });
+  return placed;
+}
+
+/**
+ * Event markers, hover tooltip and detail popup for the price chart
+ */
+export function EventMarkers({ chart, data, intraday, symbol }: EventMarkersProps) {
+  const { state } = useChart();
+  const { events } = useCorporateEvents(symbol, state.eventVisibility);
+  const markersRef = useRef<ISeriesMarkersPluginApi<Time> | null>(null);
+  const [hovered, setHovered] = useState<HoveredEvent | null>(null);
+  const [selected, setSelected] = useState<CorporateEvent | null>(null);
+
+  // Visible events placed on bars, by marker id
+  const placedEvents = useMemo(() => {
+    const visible = events.filter((event) => state.eventVisibility[event.type]);
+    return new Map(placeEvents(visible, data, intraday).map((placed) => [placed.id, placed]));
+  }, [events, data, intraday, state.eventVisibility]);
+
+  // Attach the markers plugin to the current main series
+  useEffect(() => {
+    if (!chart) return;
+    const markers = createSeriesMarkers(chart.series, []);
+    markersRef.current = markers;
+    return () => {
+      try {
+        markers.detach();
+      } catch {
+        // Series already removed
+      }
+      markersRef.current = null;
+    };
+  }, [chart]);
+
+  // Draw markers
+  useEffect(() => {
+    const markers: SeriesMarker<Time>[] = [];
+    placedEvents.forEach(({ id, barTime, event }) => {
+      const style = EVENT_STYLES[event.type];
+      markers.push({
+        id,
+        time: barTime as Time,
+        position: style.position,
+        shape: 'circle',
+        color: style.color,
+        text: EVENT_TYPES.find((config) => config.type === event.type)?.marker,
+      });
+    });
+    markers.sort((a, b) => (a.time as number) - (b.time as number));
+    markersRef.current?.setMarkers(markers);
+  }, [placedEvents, chart]);
+
+  // Tooltip on hover, popup on click
+  useEffect(() => {
+    if (!chart) return;
+
+    const findEvent = (param: MouseEventParams) =>
+      typeof param.hoveredObjectId === 'string' ? placedEvents.get(param.hoveredObjectId)?.event : undefined;
+
+    const handleMove = (param: MouseEventParams) => {
+      const event = findEvent(param);
+      setHovered(event && param.point ? { event, x: param.point.x, y: param.point.y } : null);
+    };
+    const handleClick = (param: MouseEventParams) => {
+      const event = findEvent(param);
+      if (event) setSelected(event);
+    };
+
+    chart.chart.subscribeCrosshairMove(handleMove);
+    chart.chart.subscribeClick(handleClick);
+    return () => {
+      chart.chart.unsubscribeCrosshairMove(handleMove);
+      chart.chart.unsubscribeClick(handleClick);
+    };
+  }, [chart, placedEvents]);
+
+  return (
+    <>
+      {/* Canvas markers are invisible to screen readers; list them as well */}
+      <ul className="sr-only" aria-label="Chart events" data-testid="event-marker-list">
+        {Array.from(placedEvents.values(), ({ id, event }) => (
+          <li key={id} data-testid={`event-marker-${event.type}`}>
+            {EVENT_TITLES[event.type]} · {formatBarTime(event.time, 'UTC', true)}: {getEventSummary(event)}
+          </li>
+        ))}
+      </ul>
+
+      {hovered && (
+        <div
+          className="absolute z-30 pointer-events-none px-2 py-1 text-xs bg-gray-900/90 text-white rounded shadow"
+          style={{ left: hovered.x + 12, top: hovered.y + 12 }}
+          data-testid="event-tooltip"
+        >
+          <div className="font-semibold">
+            {EVENT_TITLES[hovered.event.type]} · {formatBarTime(hovered.event.time, 'UTC', true)}
+          </div>
+          <div>{getEventSummary(hovered.event)}</div>
+        </div>
+      )}
+
+      <Modal
+        isOpen={selected !== null}
+        onClose={() => setSelected(null)}
+        title={selected ? `${symbol} ${EVENT_TITLES[selected.type]}` : undefined}
+        size="sm"
+      >
+        {selected && (
+          <dl className="grid grid-cols-2 gap-x-4 gap-y-2 text-sm" data-testid="event-details">
+            {getEventDetails(selected).map(({ label, value }) => (
+              <div key={label} className="contents">
+                <dt className="text-gray-500 dark:text-gray-400">{label}</dt>
+                <dd className="text-gray-900 dark:text-gray-100 font-medium tabular-nums">{value}</dd>
+              </div>
+            ))}
+          </dl>
+        )}
+      </Modal>
+    </>
+  );
+}
+
+export default EventMarkers;
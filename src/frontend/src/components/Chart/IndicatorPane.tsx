@@ -8,7 +8,7 @@
  * - Separate panel below main chart
  * - Own price scale (0-100 for RSI, etc.)
  * - Reference lines (overbought/oversold)
- * - Synchronized time scale
+ * - Synchronized time scale and crosshair with the main chart
  */
 
 import { useEffect, useRef, useMemo, useCallback, useState } from 'react';
@@ -23,11 +23,13 @@ import {
   type Time,
   type SeriesType,
   type MouseEventParams,
+  type LogicalRange,
   ColorType,
   CrosshairMode,
 } from 'lightweight-charts';
 import type { OHLCV } from '../../types';
 import { useTheme } from '../../context';
+import { PRICE_SCALE_MIN_WIDTH, type ChartHandle } from './ChartCanvas';
 import type { OscillatorIndicator } from '../../context/IndicatorContext';
 import {
   getIndicatorCalculation,
@@ -41,6 +43,8 @@ interface IndicatorPaneProps {
   indicator: OscillatorIndicator;
   width: number;
   height: number;
+  /** Main chart to follow for visible range and crosshair position */
+  syncWith?: ChartHandle | null;
   onCrosshairMove?: (time: Time | null) => void;
 }
 
@@ -176,11 +180,16 @@ export function IndicatorPane({
   indicator,
   width,
   height,
+  syncWith = null,
   onCrosshairMove,
 }: IndicatorPaneProps) {
   const chartContainerRef = useRef<HTMLDivElement>(null);
   const chartRef = useRef<IChartApi | null>(null);
   const seriesRefs = useRef<ISeriesApi<SeriesType>[]>([]);
+  // Map of time -> main series value, used to place the synced crosshair
+  const valueMapRef = useRef<Map<number, number>>(new Map());
+  // Initial dimensions; later size changes are applied via resize()
+  const initialSizeRef = useRef({ width, height });
   const { theme } = useTheme();
   const [currentValue, setCurrentValue] = useState<number | null>(null);
 
@@ -198,7 +207,8 @@ export function IndicatorPane({
   // Handle crosshair move
   const handleCrosshairMove = useCallback(
     (param: MouseEventParams) => {
-      if (onCrosshairMove) {
+      // Only forward user-driven moves; programmatic ones come from the sync itself
+      if (onCrosshairMove && param.sourceEvent) {
         onCrosshairMove(param.time ?? null);
       }
       
@@ -216,15 +226,15 @@ export function IndicatorPane({
     [onCrosshairMove]
   );
 
-  // Initialize chart
+  // Initialize chart (size changes are handled separately to keep drag-resizing smooth)
   useEffect(() => {
-    if (!chartContainerRef.current || width === 0 || height === 0) return;
+    if (!chartContainerRef.current) return;
 
     const scale = getIndicatorScale(indicator.type);
 
     const chart = createChart(chartContainerRef.current, {
-      width,
-      height,
+      width: initialSizeRef.current.width,
+      height: initialSizeRef.current.height,
       layout: {
         background: { type: ColorType.Solid, color: chartColors.background },
         textColor: chartColors.textColor,
@@ -250,6 +260,7 @@ export function IndicatorPane({
       },
       rightPriceScale: {
         borderColor: chartColors.borderColor,
+        minimumWidth: PRICE_SCALE_MIN_WIDTH,
         autoScale: scale.min === undefined,
         ...(scale.min !== undefined && { scaleMargins: { top: 0.1, bottom: 0.1 } }),
       },
@@ -284,7 +295,7 @@ export function IndicatorPane({
       chartRef.current = null;
       seriesRefs.current = [];
     };
-  }, [width, height, chartColors, indicator.type, handleCrosshairMove]);
+  }, [chartColors, indicator.type, handleCrosshairMove]);
 
   // Update chart colors when theme changes
   useEffect(() => {
@@ -321,6 +332,7 @@ export function IndicatorPane({
       }
     });
     seriesRefs.current = [];
+    valueMapRef.current = new Map();
 
     const calculate = getIndicatorCalculation(indicator.type);
 
@@ -570,12 +582,75 @@ export function IndicatorPane({
           console.warn(`Unknown oscillator type: ${indicator.type}`);
       }
 
-      // Fit content
-      chart.timeScale().fitContent();
+      // Whitespace series spanning every bar keeps logical indexes aligned with
+      // the main chart, even though oscillators start after a warm-up period
+      const timelineSeries = chart.addSeries(LineSeries, {
+        priceLineVisible: false,
+        lastValueVisible: false,
+        crosshairMarkerVisible: false,
+      });
+      timelineSeries.setData(data.map((bar) => ({ time: bar.time as Time })));
+      seriesRefs.current.push(timelineSeries);
+
+      // Remember main series values for crosshair placement
+      const mainSeries = seriesRefs.current[0];
+      if (mainSeries && mainSeries !== timelineSeries) {
+        mainSeries.data().forEach((point) => {
+          if ('value' in point) {
+            valueMapRef.current.set(point.time as number, point.value);
+          }
+        });
+      }
+
+      // Follow the main chart's visible range, or fit when standalone
+      const mainRange = syncWith?.chart.timeScale().getVisibleLogicalRange();
+      if (mainRange) {
+        chart.timeScale().setVisibleLogicalRange(mainRange);
+      } else {
+        chart.timeScale().fitContent();
+      }
     } catch (error) {
       console.error(`Error calculating indicator ${indicator.type}:`, error);
     }
-  }, [data, indicator]);
+  }, [data, indicator, syncWith]);
+
+  // Synchronize visible range and crosshair with the main chart
+  useEffect(() => {
+    const chart = chartRef.current;
+    if (!chart || !syncWith) return;
+
+    const mainTimeScale = syncWith.chart.timeScale();
+
+    const handleRangeChange = (range: LogicalRange | null) => {
+      if (range) {
+        chart.timeScale().setVisibleLogicalRange(range);
+      }
+    };
+
+    const handleMainCrosshairMove = (param: MouseEventParams) => {
+      const mainSeries = seriesRefs.current[0];
+      const value = param.time !== undefined
+        ? valueMapRef.current.get(param.time as number)
+        : undefined;
+      if (mainSeries && param.time !== undefined && value !== undefined) {
+        chart.setCrosshairPosition(value, param.time, mainSeries);
+      } else {
+        chart.clearCrosshairPosition();
+      }
+    };
+
+    mainTimeScale.subscribeVisibleLogicalRangeChange(handleRangeChange);
+    syncWith.chart.subscribeCrosshairMove(handleMainCrosshairMove);
+
+    return () => {
+      try {
+        mainTimeScale.unsubscribeVisibleLogicalRangeChange(handleRangeChange);
+        syncWith.chart.unsubscribeCrosshairMove(handleMainCrosshairMove);
+      } catch {
+        // Main chart already removed
+      }
+    };
+  }, [syncWith, chartColors, indicator.type, handleCrosshairMove]);
 
   // Resize chart when dimensions change
   useEffect(() => {
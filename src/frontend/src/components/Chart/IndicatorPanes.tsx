@@ -0,0 +1,157 @@
+/**
+ * Indicator Panes Component
+ * Stacks one oscillator pane per active oscillator below the main chart
+ *
+ * TASK-062: Oscillator Indicator Pane
+ *
+ * Features:
+ * - One pane per visible oscillator indicator
+ * - Drag handle above each pane to resize it (mouse, touch and keyboard)
+ * - Crosshair on any pane is mirrored on the main chart (and vice versa)
+ */
+
+import { useCallback, useEffect, useMemo, useRef } from 'react';
+import type { Time } from 'lightweight-charts';
+import type { OHLCV } from '../../types';
+import type { OscillatorIndicator } from '../../context/IndicatorContext';
+import { PANE_HANDLE_HEIGHT } from '../../hooks/usePaneLayout';
+import { IndicatorPane } from './IndicatorPane';
+import type { ChartHandle } from './ChartCanvas';
+
+/** Pixels moved per arrow key press on a focused resize handle */
+const KEYBOARD_RESIZE_STEP = 10;
+
+interface IndicatorPanesProps {
+  data: OHLCV[];
+  oscillators: OscillatorIndicator[];
+  width: number;
+  paneHeights: Record<string, number>;
+  mainChart: ChartHandle | null;
+  onResizePane: (id: string, delta: number) => void;
+}
+
+/**
+ * Horizontal drag handle between the chart above and the pane below
+ */
+interface PaneResizeHandleProps {
+  label: string;
+  onResize: (delta: number) => void;
+}
+
+function PaneResizeHandle({ label, onResize }: PaneResizeHandleProps) {
+  const lastYRef = useRef<number | null>(null);
+
+  const handlePointerDown = (e: React.PointerEvent<HTMLDivElement>) => {
+    e.preventDefault();
+    e.currentTarget.setPointerCapture(e.pointerId);
+    lastYRef.current = e.clientY;
+  };
+
+  const handlePointerMove = (e: React.PointerEvent<HTMLDivElement>) => {
+    if (lastYRef.current === null) return;
+    const delta = e.clientY - lastYRef.current;
+    if (delta !== 0) {
+      // Dragging up grows the pane below the handle
+      onResize(-delta);
+      lastYRef.current = e.clientY;
+    }
+  };
+
+  const handlePointerUp = (e: React.PointerEvent<HTMLDivElement>) => {
+    if (e.currentTarget.hasPointerCapture(e.pointerId)) {
+      e.currentTarget.releasePointerCapture(e.pointerId);
+    }
+    lastYRef.current = null;
+  };
+
+  const handleKeyDown = (e: React.KeyboardEvent<HTMLDivElement>) => {
+    if (e.key === 'ArrowUp') {
+      e.preventDefault();
+      onResize(KEYBOARD_RESIZE_STEP);
+    } else if (e.key === 'ArrowDown') {
+      e.preventDefault();
+      onResize(-KEYBOARD_RESIZE_STEP);
+    }
+  };
+
+  return (
+    <div
+      role="separator"
+      aria-orientation="horizontal"
+      aria-label={`Resize ${label} pane`}
+      tabIndex={0}
+      onPointerDown={handlePointerDown}
+      onPointerMove={handlePointerMove}
+      onPointerUp={handlePointerUp}
+      onPointerCancel={handlePointerUp}
+      onKeyDown={handleKeyDown}
+      className="group flex items-center justify-center cursor-row-resize touch-none select-none bg-gray-100 dark:bg-gray-900 hover:bg-blue-100 dark:hover:bg-blue-900/40 focus:outline-none focus:bg-blue-100 dark:focus:bg-blue-900/40 transition-colors"
+      style={{ height: PANE_HANDLE_HEIGHT }}
+      data-testid="pane-resize-handle"
+    >
+      <span className="w-8 h-0.5 rounded-full bg-gray-300 dark:bg-gray-600 group-hover:bg-blue-400" />
+    </div>
+  );
+}
+
+/**
+ * Stack of oscillator panes synchronized with the main chart
+ */
+export function IndicatorPanes({
+  data,
+  oscillators,
+  width,
+  paneHeights,
+  mainChart,
+  onResizePane,
+}: IndicatorPanesProps) {
+  // Map of time -> close, used to place the main chart crosshair
+  const closeByTime = useMemo(() => {
+    const map = new Map<number, number>();
+    data.forEach((bar) => map.set(bar.time, bar.close));
+    return map;
+  }, [data]);
+
+  // Latest values read from a stable callback, so panes are not
+  // re-created whenever the main chart or data changes
+  const syncRef = useRef({ mainChart, closeByTime });
+  useEffect(() => {
+    syncRef.current = { mainChart, closeByTime };
+  }, [mainChart, closeByTime]);
+
+  // Mirror a pane's crosshair on the main chart; the main chart then
+  // propagates it to every other pane
+  const handlePaneCrosshairMove = useCallback((time: Time | null) => {
+    const { mainChart: main, closeByTime: closes } = syncRef.current;
+    if (!main) return;
+    const close = time !== null ? closes.get(time as number) : undefined;
+    if (time !== null && close !== undefined) {
+      main.chart.setCrosshairPosition(close, time, main.series);
+    } else {
+      main.chart.clearCrosshairPosition();
+    }
+  }, []);
+
+  return (
+    <div data-testid="indicator-panes">
+      {oscillators.map((indicator) => (
+        <div key={indicator.id}>
+          <PaneResizeHandle
+            label={indicator.type}
+            onResize={(delta) => onResizePane(indicator.id, delta)}
+          />
+          <IndicatorPane
+            data={data}
+            indicator={indicator}
+            width={width}
+            height={paneHeights[indicator.id] ?? 0}
+            syncWith={mainChart}
+            onCrosshairMove={handlePaneCrosshairMove}
+          />
+        </div>
+      ))}
+    </div>
+  );
+}
+
+export default IndicatorPanes;
@@ -9,21 +9,32 @@
  * Positioned at top-left of chart.
  */
 
-import { memo } from 'react';
+import { memo, useMemo } from 'react';
 import type { OHLCV } from '../../types';
 import type { OverlayIndicator } from '../../context/IndicatorContext';
+import { formatBarTime } from '../../utils/timezone';
+import type { SessionRange } from '../../utils/sessions';
+import { parseInstrument, getPriceDecimals } from '../../utils/instruments';
 
 interface LegendProps {
   data: OHLCV | null;
   symbol: string;
   overlays?: OverlayIndicator[];
+  /** IANA timezone the hovered bar's time is shown in */
+  timeZone: string;
+  /** Whether bars are intraday; otherwise their time is a date */
+  intraday: boolean;
+  /** Day high/low as of the hovered bar (intraday only) */
+  sessionRange?: SessionRange;
 }
 
+const SESSION_LABELS = { pre: 'Pre', post: 'Post' } as const;
+
 /**
- * Format price with 2 decimal places
+ * Format price with the instrument's decimal places
  */
-function formatPrice(value: number): string {
-  return value.toFixed(2);
+function formatPrice(value: number, decimals: number): string {
+  return value.toFixed(decimals);
 }
 
 /**
@@ -81,14 +92,29 @@ function getIndicatorParamDisplay(indicator: OverlayIndicator): string {
 /**
  * Legend component that displays OHLCV values and active indicators
  */
-export const Legend = memo(function Legend({ data, symbol, overlays = [] }: LegendProps) {
+export const Legend = memo(function Legend({
+  data,
+  symbol,
+  overlays = [],
+  timeZone,
+  intraday,
+  sessionRange,
+}: LegendProps) {
   const visibleOverlays = overlays.filter((o) => o.visible);
+  const instrument = useMemo(() => parseInstrument(symbol), [symbol]);
+  // Pairs show their quote currency; FX rates have no volume
+  const currencyLabel = instrument.assetClass !== 'equity' && (
+    <span className="text-gray-500 dark:text-gray-400" data-testid="legend-currency">
+      {instrument.quoteCurrency}
+    </span>
+  );
   
   if (!data) {
     return (
       <div className="space-y-1">
         <div className="flex flex-wrap gap-x-3 gap-y-1 text-xs font-mono text-gray-500 dark:text-gray-400">
           <span className="font-semibold text-gray-700 dark:text-gray-300">{symbol}</span>
+          {currencyLabel}
           <span>Hover to see values</span>
         </div>
         {visibleOverlays.length > 0 && (
@@ -114,26 +140,46 @@ export const Legend = memo(function Legend({ data, symbol, overlays = [] }: Lege
 
   const isBullish = data.close >= data.open;
   const changeColor = isBullish ? 'text-green-600 dark:text-green-400' : 'text-red-600 dark:text-red-400';
+  const decimals = getPriceDecimals(instrument, data.close);
 
   return (
     <div className="space-y-1">
       <div className="flex flex-wrap gap-x-3 gap-y-1 text-xs font-mono">
         <span className="font-semibold text-gray-700 dark:text-gray-300">{symbol}</span>
-        <span className="text-gray-600 dark:text-gray-400">
-          O: <span className={changeColor}>{formatPrice(data.open)}</span>
+        {currencyLabel}
+        <span className="text-gray-500 dark:text-gray-400" data-testid="legend-time">
+          {formatBarTime(data.time, timeZone, !intraday)}
         </span>
+        {(data.session === 'pre' || data.session === 'post') && (
+          <span className="text-amber-600 dark:text-amber-400" data-testid="legend-session">
+            {SESSION_LABELS[data.session]}
+          </span>
+        )}
         <span className="text-gray-600 dark:text-gray-400">
-          H: <span className={changeColor}>{formatPrice(data.high)}</span>
+          O: <span className={changeColor}>{formatPrice(data.open, decimals)}</span>
         </span>
         <span className="text-gray-600 dark:text-gray-400">
-          L: <span className={changeColor}>{formatPrice(data.low)}</span>
+          H: <span className={changeColor}>{formatPrice(data.high, decimals)}</span>
         </span>
         <span className="text-gray-600 dark:text-gray-400">
-          C: <span className={changeColor}>{formatPrice(data.close)}</span>
+          L: <span className={changeColor}>{formatPrice(data.low, decimals)}</span>
         </span>
         <span className="text-gray-600 dark:text-gray-400">
-          Vol: <span className="text-gray-700 dark:text-gray-300">{formatVolume(data.volume)}</span>
+          C: <span className={changeColor}>{formatPrice(data.close, decimals)}</span>
         </span>
+        {instrument.assetClass !== 'forex' && (
+          <span className="text-gray-600 dark:text-gray-400">
+            Vol: <span className="text-gray-700 dark:text-gray-300">{formatVolume(data.volume)}</span>
+          </span>
+        )}
+        {sessionRange && (
+          <span className="text-gray-600 dark:text-gray-400" data-testid="legend-day-range">
+            Day H/L:{' '}
+            <span className="text-gray-700 dark:text-gray-300">
+              {formatPrice(sessionRange.high, decimals)} / {formatPrice(sessionRange.low, decimals)}
+            </span>
+          </span>
+        )}
       </div>
       {visibleOverlays.length > 0 && (
         <div className="flex flex-wrap gap-x-2 gap-y-1 text-xs font-mono">
@@ -9,3 +9,6 @@ export { Legend } from './Legend';
 export { ChartSkeleton } from './ChartSkeleton';
 export { EmptyState } from './EmptyState';
 export { IndicatorPane } from './IndicatorPane';
+export { IndicatorPanes } from './IndicatorPanes';
+export { EventMarkers } from './EventMarkers';
+export { DataQualityPanel } from './DataQualityPanel';
@@ -0,0 +1,103 @@
+/**
+ * Simulator Panel Component
+ * Developer panel choosing the mock data simulation scenario per symbol
+ *
+ * Only rendered in development builds while mock data is selected.
+ */
+
+import { useState } from 'react';
+import { useChart, useDataSource } from '../../context';
+import { useSimulationScenarios } from '../../hooks/useSimulationScenarios';
+import { SIMULATION_SCENARIOS, DEFAULT_SCENARIO_ID, getScenario } from '../../api';
+
+/**
+ * Floating toggle and panel for the market simulator
+ */
+export function SimulatorPanel() {
+  const { isMock } = useDataSource();
+  const { state } = useChart();
+  const { assignments, setScenario } = useSimulationScenarios();
+  const [isOpen, setIsOpen] = useState(false);
+
+  if (!import.meta.env.DEV || !isMock) {
+    return null;
+  }
+
+  const symbol = state.symbol.toUpperCase();
+  const scenarioId = assignments[symbol] ?? DEFAULT_SCENARIO_ID;
+  const scenario = getScenario(scenarioId);
+  const overrides = Object.entries(assignments).filter(([other]) => other !== symbol);
+
+  return (
+    <div className="fixed bottom-4 left-4 z-40 flex flex-col items-start gap-2 text-xs">
+      {isOpen && (
+        <div
+          className="w-72 flex flex-col bg-white dark:bg-gray-800 border border-gray-200 dark:border-gray-700 rounded-lg shadow-lg"
+          role="dialog"
+          aria-label="Market simulator"
+          data-testid="simulator-panel"
+        >
+          <div className="px-3 py-2 border-b border-gray-200 dark:border-gray-700">
+            <h3 className="text-sm font-semibold text-gray-900 dark:text-gray-100">Market Simulator</h3>
+            <p className="text-gray-500 dark:text-gray-400">Mock price scenario per symbol</p>
+          </div>
+
+          <div className="px-3 py-2 space-y-1">
+            <label htmlFor="simulator-scenario" className="block font-medium text-gray-700 dark:text-gray-300">
+              Scenario for {symbol}
+            </label>
+            <select
+              id="simulator-scenario"
+              value={scenarioId}
+              onChange={(e) => setScenario(symbol, e.target.value)}
+              className="w-full px-2 py-1 bg-white dark:bg-gray-700 border border-gray-300 dark:border-gray-600 rounded text-gray-900 dark:text-gray-100 focus:outline-none focus:ring-2 focus:ring-blue-500"
+              data-testid="simulator-scenario-select"
+            >
+              {SIMULATION_SCENARIOS.map((option) => (
+                <option key={option.id} value={option.id}>
+                  {option.label}
+                </option>
+              ))}
+            </select>
+            {scenario && (
+              <p className="text-gray-600 dark:text-gray-400" data-testid="simulator-scenario-description">
+                {scenario.description}
+              </p>
+            )}
+          </div>
+
+          {overrides.length > 0 && (
+            <ul className="border-t border-gray-200 dark:border-gray-700 divide-y divide-gray-100 dark:divide-gray-700" data-testid="simulator-overrides">
+              {overrides.map(([other, id]) => (
+                <li key={other} className="flex items-center gap-2 px-3 py-1.5">
+                  <span className="font-medium text-gray-900 dark:text-gray-100">{other}</span>
+                  <span className="flex-1 truncate text-gray-500 dark:text-gray-400">{getScenario(id)?.label ?? id}</span>
+                  <button
+                    type="button"
+                    onClick={() => setScenario(other, DEFAULT_SCENARIO_ID)}
+                    className="px-2 py-0.5 text-blue-600 dark:text-blue-400 rounded hover:bg-blue-50 dark:hover:bg-gray-700 focus:outline-none focus:ring-2 focus:ring-blue-500"
+                    aria-label={`Reset ${other} to the default scenario`}
+                  >
+                    Reset
+                  </button>
+                </li>
+              ))}
+            </ul>
+          )}
+        </div>
+      )}
+
+      <button
+        type="button"
+        onClick={() => setIsOpen((open) => !open)}
+        className="px-3 py-1.5 font-medium bg-gray-800 text-white dark:bg-gray-200 dark:text-gray-900 rounded-full shadow hover:opacity-90 focus:outline-none focus:ring-2 focus:ring-blue-500"
+        aria-expanded={isOpen}
+        data-testid="simulator-toggle"
+      >
+        Simulator{scenarioId !== DEFAULT_SCENARIO_ID ? `: ${scenario?.label}` : ''}
+      </button>
+    </div>
+  );
+}
+
+export default SimulatorPanel;
@@ -0,0 +1,6 @@
+/**
+ * DevTools Components Index
+ * Re-exports development-only components
+ */
+
+export { SimulatorPanel } from './SimulatorPanel';
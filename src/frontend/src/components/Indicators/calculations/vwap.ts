@@ -11,20 +11,29 @@
  */
 
 import type { IndicatorInput, IndicatorOutput } from './types';
+import { EXCHANGE_TIMEZONE } from '../../../utils/timezone';
+import { isNewTradingSession } from '../../../utils/sessions';
 
 /**
  * Default VWAP parameters
  */
 export interface VWAPParams {
   /**
-   * If true, VWAP resets at each new day (session)
+   * If true, VWAP resets at each new trading session (new day, or
+   * pre-market following after-hours)
    * If false, VWAP is calculated continuously
    */
   resetOnSession?: boolean;
+  /**
+   * IANA timezone whose calendar days delimit sessions
+   * Defaults to the exchange timezone
+   */
+  timeZone?: string;
 }
 
 export const DEFAULT_VWAP_PARAMS: VWAPParams = {
   resetOnSession: true,
+  timeZone: EXCHANGE_TIMEZONE,
 };
 
 /**
@@ -35,20 +44,6 @@ const getTypicalPrice = (high: number, low: number, close: number): number => {
   return (high + low + close) / 3;
 };
 
-/**
- * Check if two timestamps are on different days
- * Used for session reset detection
- */
-const isDifferentDay = (timestamp1: number, timestamp2: number): boolean => {
-  const date1 = new Date(timestamp1 * 1000);
-  const date2 = new Date(timestamp2 * 1000);
-  return (
-    date1.getUTCFullYear() !== date2.getUTCFullYear() ||
-    date1.getUTCMonth() !== date2.getUTCMonth() ||
-    date1.getUTCDate() !== date2.getUTCDate()
-  );
-};
-
 /**
  * Calculate Volume Weighted Average Price
  * 
@@ -65,7 +60,7 @@ export const calculateVWAP = (
   data: IndicatorInput,
   params: Partial<VWAPParams> = {}
 ): IndicatorOutput => {
-  const { resetOnSession } = { ...DEFAULT_VWAP_PARAMS, ...params };
+  const { resetOnSession, timeZone = EXCHANGE_TIMEZONE } = { ...DEFAULT_VWAP_PARAMS, ...params };
 
   // Handle edge cases
   if (!data || data.length === 0) {
@@ -75,13 +70,12 @@ export const calculateVWAP = (
   const result: IndicatorOutput = [];
   let cumulativeTPV = 0; // Cumulative Typical Price * Volume
   let cumulativeVolume = 0;
-  let prevTime = data[0].time;
 
   for (let i = 0; i < data.length; i++) {
     const candle = data[i];
     
-    // Check for session reset (new day)
-    if (resetOnSession && i > 0 && isDifferentDay(prevTime, candle.time)) {
+    // Check for session reset
+    if (resetOnSession && i > 0 && isNewTradingSession(data[i - 1], candle, timeZone)) {
       cumulativeTPV = 0;
       cumulativeVolume = 0;
     }
@@ -99,8 +93,6 @@ export const calculateVWAP = (
       time: candle.time,
       value: vwap,
     });
-    
-    prevTime = candle.time;
   }
 
   return result;
@@ -127,7 +119,7 @@ export const calculateVWAPWithBands = (
   data: IndicatorInput,
   params: VWAPWithBandsParams = {}
 ): VWAPWithBandsOutput => {
-  const { resetOnSession = true, bandMultiplier = 2 } = params;
+  const { resetOnSession = true, bandMultiplier = 2, timeZone = EXCHANGE_TIMEZONE } = params;
 
   // Handle edge cases
   if (!data || data.length === 0) {
@@ -141,13 +133,12 @@ export const calculateVWAPWithBands = (
   let cumulativeTPV = 0;
   let cumulativeVolume = 0;
   let cumulativeTPVSquared = 0;
-  let prevTime = data[0].time;
 
   for (let i = 0; i < data.length; i++) {
     const candle = data[i];
     
-    // Check for session reset (new day)
-    if (resetOnSession && i > 0 && isDifferentDay(prevTime, candle.time)) {
+    // Check for session reset
+    if (resetOnSession && i > 0 && isNewTradingSession(data[i - 1], candle, timeZone)) {
       cumulativeTPV = 0;
       cumulativeVolume = 0;
       cumulativeTPVSquared = 0;
@@ -184,8 +175,6 @@ export const calculateVWAPWithBands = (
       time: candle.time,
       value: vwapValue - bandMultiplier * stdDev,
     });
-    
-    prevTime = candle.time;
   }
 
   return { vwap, upperBand, lowerBand };
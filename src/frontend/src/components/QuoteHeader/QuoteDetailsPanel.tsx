@@ -0,0 +1,144 @@
+/**
+ * Quote Details Panel Component
+ * Expandable key statistics shown under the quote header
+ *
+ * Spec 3.6.3: Quote Details (Previous Close, Day Range, 52-Week Range,
+ * Volume, Avg Volume, Market Cap, P/E, EPS, Dividend Yield, Beta)
+ *
+ * Fundamentals from the provider take precedence over the figures a quote
+ * may carry; anything neither reports is shown as "—". Prices and market
+ * cap are in the instrument's quote currency.
+ */
+
+import type { Quote, CompanyFundamentals, Instrument } from '../../types';
+import { formatCurrency, getPriceDecimals } from '../../utils/instruments';
+
+interface QuoteDetailsPanelProps {
+  quote: Quote;
+  /** Instrument the quote is for, with its quote currency */
+  instrument: Instrument;
+  fundamentals: CompanyFundamentals | null;
+  isLoading?: boolean;
+}
+
+const EMPTY_VALUE = '—';
+
+/**
+ * Format a price in the instrument's currency and precision
+ */
+function formatPrice(value: number | undefined, instrument: Instrument): string {
+  return value === undefined
+    ? EMPTY_VALUE
+    : formatCurrency(value, instrument.quoteCurrency, getPriceDecimals(instrument, value));
+}
+
+/**
+ * Format a share count
+ */
+function formatVolume(value: number | undefined): string {
+  return value === undefined ? EMPTY_VALUE : value.toLocaleString();
+}
+
+/**
+ * Format market capitalization as $2.91T, $845.20B or $512.00M
+ */
+function formatMarketCap(value: number | undefined, currency: string): string {
+  if (value === undefined) return EMPTY_VALUE;
+  if (value >= 1e12) return `${formatCurrency(value / 1e12, currency)}T`;
+  if (value >= 1e9) return `${formatCurrency(value / 1e9, currency)}B`;
+  if (value >= 1e6) return `${formatCurrency(value / 1e6, currency)}M`;
+  return formatCurrency(value, currency, 0);
+}
+
+/**
+ * Format a ratio with 2 decimal places
+ */
+function formatRatio(value: number | undefined): string {
+  return value === undefined ? EMPTY_VALUE : value.toFixed(2);
+}
+
+/**
+ * Format a percentage with 2 decimal places
+ */
+function formatPercentValue(value: number | undefined): string {
+  return value === undefined ? EMPTY_VALUE : `${value.toFixed(2)}%`;
+}
+
+/**
+ * 52-week low/high with a bar marking the current price
+ */
+function RangeBar({ low, high, price, instrument }: { low: number; high: number; price: number; instrument: Instrument }) {
+  const position = high > low ? Math.min(Math.max((price - low) / (high - low), 0), 1) : 0.5;
+
+  return (
+    <div className="flex items-center gap-2" data-testid="week52-range-bar">
+      <span className="tabular-nums">{formatPrice(low, instrument)}</span>
+      <div
+        className="relative flex-1 h-1.5 min-w-16 rounded-full bg-linear-to-r from-red-400 via-gray-300 to-green-400 dark:from-red-500 dark:via-gray-600 dark:to-green-500"
+        role="meter"
+        aria-label="Price within 52-week range"
+        aria-valuemin={low}
+        aria-valuemax={high}
+        aria-valuenow={price}
+      >
+        <div
+          className="absolute top-1/2 w-2.5 h-2.5 -translate-x-1/2 -translate-y-1/2 rounded-full bg-gray-900 dark:bg-white border-2 border-white dark:border-gray-800"
+          style={{ left: `${position * 100}%` }}
+          data-testid="week52-range-marker"
+        />
+      </div>
+      <span className="tabular-nums">{formatPrice(high, instrument)}</span>
+    </div>
+  );
+}
+
+/**
+ * Grid of quote statistics and fundamentals
+ */
+export function QuoteDetailsPanel({ quote, instrument, fundamentals, isLoading = false }: QuoteDetailsPanelProps) {
+  const week52High = fundamentals?.week52High ?? quote.week52High;
+  const week52Low = fundamentals?.week52Low ?? quote.week52Low;
+
+  const rows: { label: string; value: string }[] = [
+    { label: 'Previous Close', value: formatPrice(quote.previousClose, instrument) },
+    { label: 'Day Range', value: `${formatPrice(quote.low, instrument)} – ${formatPrice(quote.high, instrument)}` },
+    { label: 'Volume', value: quote.volume > 0 ? formatVolume(quote.volume) : EMPTY_VALUE },
+    { label: 'Avg Volume (3M)', value: formatVolume(quote.avgVolume) },
+    { label: 'Market Cap', value: formatMarketCap(fundamentals?.marketCap ?? quote.marketCap, instrument.quoteCurrency) },
+    { label: 'P/E Ratio (TTM)', value: formatRatio(fundamentals?.peRatio ?? quote.peRatio) },
+    { label: 'EPS (TTM)', value: formatPrice(fundamentals?.eps ?? quote.eps, instrument) },
+    { label: 'Dividend Yield', value: formatPercentValue(fundamentals?.dividendYield ?? quote.dividendYield) },
+    { label: 'Beta', value: formatRatio(fundamentals?.beta ?? quote.beta) },
+  ];
+
+  return (
+    <div
+      className={`mt-3 pt-3 border-t border-gray-200 dark:border-gray-700 text-xs transition-opacity duration-200 ${
+        isLoading ? 'opacity-60' : ''
+      }`}
+      id="quote-details-panel"
+      data-testid="quote-details-panel"
+    >
+      <dl className="grid grid-cols-2 sm:grid-cols-3 lg:grid-cols-5 gap-x-6 gap-y-2">
+        {rows.map(({ label, value }) => (
+          <div key={label} className="flex justify-between gap-2 sm:block">
+            <dt className="text-gray-500 dark:text-gray-400">{label}</dt>
+            <dd className="font-medium text-gray-900 dark:text-gray-100 tabular-nums">{value}</dd>
+          </div>
+        ))}
+        <div className="col-span-2 sm:col-span-3 lg:col-span-5">
+          <dt className="mb-1 text-gray-500 dark:text-gray-400">52-Week Range</dt>
+          <dd className="font-medium text-gray-900 dark:text-gray-100">
+            {week52Low !== undefined && week52High !== undefined ? (
+              <RangeBar low={week52Low} high={week52High} price={quote.price} instrument={instrument} />
+            ) : (
+              EMPTY_VALUE
+            )}
+          </dd>
+        </div>
+      </dl>
+    </div>
+  );
+}
+
+export default QuoteDetailsPanel;
@@ -4,10 +4,18 @@
  * 
  * TASK-014: Quote Header Component
  * TASK-069: Loading States - Skeleton loading and smooth transitions
+ * Spec 3.6.3: Quote Details - expandable statistics and fundamentals
+ *
+ * Prices are shown in the quote currency with the instrument's precision
+ * (e.g. 5 decimals for EUR/USD, ¥ for USD/JPY).
  */
 
+import { useState } from 'react';
+import type { Instrument } from '../../types';
 import { useChart } from '../../context';
-import { useQuote } from '../../hooks';
+import { useQuote, useFundamentals } from '../../hooks';
+import { parseInstrument, formatCurrency, getPriceDecimals } from '../../utils/instruments';
+import { QuoteDetailsPanel } from './QuoteDetailsPanel';
 
 /**
  * Skeleton loader for quote header
@@ -45,19 +53,12 @@ function QuoteHeaderSkeleton() {
   );
 }
 
-/**
- * Format price with 2 decimal places
- */
-function formatPrice(price: number): string {
-  return price.toFixed(2);
-}
-
 /**
  * Format change with + or - prefix
  */
-function formatChange(change: number): string {
+function formatChange(change: number, decimals: number): string {
   const prefix = change >= 0 ? '+' : '';
-  return `${prefix}${change.toFixed(2)}`;
+  return `${prefix}${change.toFixed(decimals)}`;
 }
 
 /**
@@ -75,7 +76,12 @@ function formatPercent(percent: number): string {
  */
 export function QuoteHeader() {
   const { state } = useChart();
-  const { quote, isLoading, error } = useQuote(state.symbol);
+  const { quote, isLoading, error, isLive } = useQuote(
+    state.symbol,
+    state.autoRefresh ? state.refreshInterval * 1000 : null
+  );
+  const [isDetailsOpen, setIsDetailsOpen] = useState(false);
+  const { fundamentals, isLoading: isFundamentalsLoading } = useFundamentals(state.symbol, isDetailsOpen);
 
   // Loading state - show skeleton
   if (isLoading && !quote) {
@@ -103,6 +109,13 @@ export function QuoteHeader() {
     ? 'text-green-600 dark:text-green-400'
     : 'text-red-600 dark:text-red-400';
 
+  const instrument: Instrument = {
+    ...parseInstrument(quote.symbol),
+    ...(quote.currency && { quoteCurrency: quote.currency }),
+  };
+  const decimals = getPriceDecimals(instrument, quote.price);
+  const formatPrice = (price: number) => formatCurrency(price, instrument.quoteCurrency, decimals);
+
   return (
     <div className="bg-white dark:bg-gray-800 border-b border-gray-200 dark:border-gray-700 px-4 py-3 transition-all duration-300 ease-in-out">
       <div className="flex flex-wrap items-baseline gap-x-4 gap-y-1">
@@ -122,40 +135,87 @@ export function QuoteHeader() {
         {/* Price Section */}
         <div className="flex items-baseline gap-3">
           {/* Current Price */}
-          <span className="text-2xl font-semibold text-gray-900 dark:text-gray-100 transition-colors duration-200">
-            ${formatPrice(quote.price)}
+          <span
+            className="text-2xl font-semibold text-gray-900 dark:text-gray-100 transition-colors duration-200"
+            data-testid="quote-price"
+          >
+            {formatPrice(quote.price)}
           </span>
 
           {/* Change (absolute) */}
           <span className={`text-base font-medium transition-colors duration-200 ${changeColorClass}`}>
-            {formatChange(quote.change)}
+            {formatChange(quote.change, decimals)}
           </span>
 
           {/* Change (percentage) */}
           <span className={`text-base font-medium transition-colors duration-200 ${changeColorClass}`}>
             ({formatPercent(quote.changePercent)})
           </span>
+
+          {/* Streaming indicator */}
+          {isLive && (
+            <span
+              className="inline-flex items-center gap-1 self-center text-xs font-medium text-green-600 dark:text-green-400"
+              title="Updating with live trades"
+              data-testid="live-indicator"
+            >
+              <span className="w-2 h-2 rounded-full bg-green-500 animate-pulse" aria-hidden="true" />
+              Live
+            </span>
+          )}
         </div>
+
+        {/* Details Toggle */}
+        <button
+          type="button"
+          onClick={() => setIsDetailsOpen(!isDetailsOpen)}
+          className="flex items-center gap-1 self-center px-2 py-1 text-xs font-medium text-gray-600 dark:text-gray-300 rounded-md hover:bg-gray-100 dark:hover:bg-gray-700 focus:outline-none focus:ring-2 focus:ring-blue-500 transition-colors"
+          aria-expanded={isDetailsOpen}
+          aria-controls="quote-details-panel"
+          data-testid="quote-details-toggle"
+        >
+          Details
+          <svg
+            className={`w-4 h-4 transition-transform ${isDetailsOpen ? 'rotate-180' : ''}`}
+            fill="none"
+            stroke="currentColor"
+            viewBox="0 0 24 24"
+          >
+            <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M19 9l-7 7-7-7" />
+          </svg>
+        </button>
       </div>
 
       {/* Additional Quote Details (optional, shown on larger screens) */}
       <div className="hidden md:flex mt-2 text-xs text-gray-500 dark:text-gray-400 gap-4 transition-colors duration-200">
         <span>
-          <span className="font-medium">Open:</span> ${formatPrice(quote.open)}
-        </span>
-        <span>
-          <span className="font-medium">High:</span> ${formatPrice(quote.high)}
+          <span className="font-medium">Open:</span> {formatPrice(quote.open)}
         </span>
         <span>
-          <span className="font-medium">Low:</span> ${formatPrice(quote.low)}
+          <span className="font-medium">High:</span> {formatPrice(quote.high)}
         </span>
         <span>
-          <span className="font-medium">Prev Close:</span> ${formatPrice(quote.previousClose)}
+          <span className="font-medium">Low:</span> {formatPrice(quote.low)}
         </span>
         <span>
-          <span className="font-medium">Volume:</span> {quote.volume.toLocaleString()}
+          <span className="font-medium">Prev Close:</span> {formatPrice(quote.previousClose)}
         </span>
+        {instrument.assetClass !== 'forex' && (
+          <span>
+            <span className="font-medium">Volume:</span> {quote.volume.toLocaleString()}
+          </span>
+        )}
       </div>
+
+      {/* Expandable statistics and fundamentals */}
+      {isDetailsOpen && (
+        <QuoteDetailsPanel
+          quote={quote}
+          instrument={instrument}
+          fundamentals={fundamentals}
+          isLoading={isFundamentalsLoading}
+        />
+      )}
     </div>
   );
 }
@@ -4,3 +4,4 @@
  */
 
 export { QuoteHeader } from './QuoteHeader';
+export { QuoteDetailsPanel } from './QuoteDetailsPanel';
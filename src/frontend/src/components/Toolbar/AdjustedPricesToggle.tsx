@@ -0,0 +1,34 @@
+/**
+ * Adjusted Prices Toggle Component
+ * Switches the chart between raw and split/dividend-adjusted prices
+ */
+
+import { useChart, useDataSource } from '../../context';
+import { ToolbarToggle } from './ToolbarToggle';
+
+/**
+ * "ADJ" toggle button; only applies to providers serving adjusted history
+ */
+export function AdjustedPricesToggle() {
+  const { state, setAdjustedPrices } = useChart();
+  const { provider } = useDataSource();
+  const isSupported = provider.capabilities.adjusted;
+
+  return (
+    <ToolbarToggle
+      label="ADJ"
+      pressed={state.adjustedPrices}
+      disabled={!isSupported}
+      onToggle={() => setAdjustedPrices(!state.adjustedPrices)}
+      ariaLabel="Adjust prices for splits and dividends"
+      title={
+        isSupported
+          ? 'Adjust prices for splits and dividends'
+          : `${provider.label} does not provide adjusted prices`
+      }
+      testId="adjusted-prices-toggle"
+    />
+  );
+}
+
+export default AdjustedPricesToggle;
@@ -0,0 +1,63 @@
+/**
+ * Auto-refresh Selector Component
+ * Dropdown turning auto-refresh of quote and chart data off, or picking
+ * its interval
+ *
+ * Settings 3.8.3: Auto-refresh, Refresh Interval
+ */
+
+import { useChart, useDataSource } from '../../context';
+import { MIN_REMOTE_REFRESH_INTERVAL } from '../../hooks';
+import { REFRESH_INTERVALS, type RefreshInterval } from '../../types';
+
+const OFF_VALUE = 'off';
+
+/**
+ * Auto-refresh interval selector dropdown
+ * Turning refresh off keeps the chosen interval for when it is turned back on.
+ * Remote sources refresh at most once a minute; shorter intervals are
+ * disabled for them and shown as the minute they run at.
+ */
+export function AutoRefreshSelect() {
+  const { state, setAutoRefresh, setRefreshInterval } = useChart();
+  const { provider } = useDataSource();
+  const minInterval = provider.capabilities.remote ? MIN_REMOTE_REFRESH_INTERVAL / 1000 : 0;
+
+  const handleChange = (e: React.ChangeEvent<HTMLSelectElement>) => {
+    if (e.target.value === OFF_VALUE) {
+      setAutoRefresh(false);
+      return;
+    }
+    setRefreshInterval(Number(e.target.value) as RefreshInterval);
+    setAutoRefresh(true);
+  };
+
+  return (
+    <div className="relative" data-testid="auto-refresh-select">
+      <select
+        value={state.autoRefresh ? String(Math.max(state.refreshInterval, minInterval)) : OFF_VALUE}
+        onChange={handleChange}
+        className="appearance-none bg-white dark:bg-gray-800 border border-gray-300 dark:border-gray-600 rounded-md px-3 py-1.5 pr-8 text-sm font-medium text-gray-700 dark:text-gray-200 hover:bg-gray-50 dark:hover:bg-gray-700 focus:outline-none focus:ring-2 focus:ring-blue-500 cursor-pointer"
+        aria-label="Select auto-refresh interval"
+        title="Refresh quote and chart data automatically"
+      >
+        <option value={OFF_VALUE}>Refresh off</option>
+        {REFRESH_INTERVALS.map((config) => (
+          <option key={config.value} value={config.value} disabled={config.value < minInterval}>
+            Every {config.label}
+          </option>
+        ))}
+      </select>
+      <svg
+        className="absolute right-2 top-1/2 -translate-y-1/2 w-4 h-4 text-gray-400 pointer-events-none"
+        fill="none"
+        stroke="currentColor"
+        viewBox="0 0 24 24"
+      >
+        <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M19 9l-7 7-7-7" />
+      </svg>
+    </div>
+  );
+}
+
+export default AutoRefreshSelect;
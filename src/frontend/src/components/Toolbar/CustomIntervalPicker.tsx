@@ -0,0 +1,177 @@
+/**
+ * Custom Interval Picker Component
+ * Popover for adding and removing user-defined bar intervals
+ *
+ * Custom intervals are resampled client-side from a finer native series.
+ */
+
+import { useState, useRef, useEffect } from 'react';
+import { useChart } from '../../context';
+import { INTERVALS, type IntervalUnit } from '../../types';
+import {
+  MAX_INTERVAL_COUNT,
+  toCustomInterval,
+  isSameInterval,
+  getIntervalLabel,
+} from '../../utils/intervals';
+
+const UNIT_OPTIONS: { unit: IntervalUnit; label: string }[] = [
+  { unit: 'min', label: 'Minutes' },
+  { unit: 'h', label: 'Hours' },
+  { unit: 'D', label: 'Days' },
+  { unit: 'W', label: 'Weeks' },
+  { unit: 'M', label: 'Months' },
+];
+
+/**
+ * "+" button next to the interval select with an add/remove popover
+ */
+export function CustomIntervalPicker() {
+  const { state, setInterval, addCustomInterval, removeCustomInterval } = useChart();
+  const [isOpen, setIsOpen] = useState(false);
+  const [count, setCount] = useState('3');
+  const [unit, setUnit] = useState<IntervalUnit>('h');
+  const [error, setError] = useState<string | null>(null);
+  const containerRef = useRef<HTMLDivElement>(null);
+
+  // Close popover on outside click or Escape
+  useEffect(() => {
+    if (!isOpen) return;
+
+    const handleClickOutside = (event: MouseEvent) => {
+      if (containerRef.current && !containerRef.current.contains(event.target as Node)) {
+        setIsOpen(false);
+      }
+    };
+    const handleKeyDown = (event: KeyboardEvent) => {
+      if (event.key === 'Escape') {
+        setIsOpen(false);
+      }
+    };
+
+    document.addEventListener('mousedown', handleClickOutside);
+    document.addEventListener('keydown', handleKeyDown);
+    return () => {
+      document.removeEventListener('mousedown', handleClickOutside);
+      document.removeEventListener('keydown', handleKeyDown);
+    };
+  }, [isOpen]);
+
+  const handleToggle = () => {
+    setError(null);
+    setIsOpen(!isOpen);
+  };
+
+  const handleAdd = (e: React.FormEvent) => {
+    e.preventDefault();
+    const interval = toCustomInterval(Number(count), unit);
+    if (!interval) {
+      setError(`Enter a whole number between 1 and ${MAX_INTERVAL_COUNT[unit]}.`);
+      return;
+    }
+
+    const existing = [...INTERVALS.map((config) => config.interval), ...state.customIntervals];
+    const duplicate = existing.find((item) => isSameInterval(item, interval));
+    if (duplicate) {
+      setError(`${getIntervalLabel(duplicate)} is already available.`);
+      return;
+    }
+
+    addCustomInterval(interval);
+    setInterval(interval);
+    setError(null);
+    setIsOpen(false);
+  };
+
+  return (
+    <div className="relative" ref={containerRef}>
+      <button
+        type="button"
+        onClick={handleToggle}
+        className="px-2 py-1.5 text-sm font-medium bg-white dark:bg-gray-800 border border-gray-300 dark:border-gray-600 rounded-md text-gray-700 dark:text-gray-200 hover:bg-gray-50 dark:hover:bg-gray-700 focus:outline-none focus:ring-2 focus:ring-blue-500"
+        aria-label="Custom intervals"
+        aria-expanded={isOpen}
+        aria-haspopup="dialog"
+        data-testid="custom-interval-button"
+      >
+        +
+      </button>
+
+      {isOpen && (
+        <div
+          role="dialog"
+          aria-label="Custom intervals"
+          className="absolute right-0 mt-2 z-50 w-60 p-3 bg-white dark:bg-gray-800 border border-gray-200 dark:border-gray-700 rounded-lg shadow-lg"
+          data-testid="custom-interval-popover"
+        >
+          <form onSubmit={handleAdd} className="flex flex-col gap-3">
+            <div className="flex gap-2">
+              <input
+                type="number"
+                min={1}
+                max={MAX_INTERVAL_COUNT[unit]}
+                step={1}
+                value={count}
+                onChange={(e) => setCount(e.target.value)}
+                className="w-16 px-2 py-1.5 text-sm bg-white dark:bg-gray-900 border border-gray-300 dark:border-gray-600 rounded-md text-gray-900 dark:text-gray-100 focus:outline-none focus:ring-2 focus:ring-blue-500"
+                aria-label="Interval length"
+                data-testid="custom-interval-count"
+              />
+              <select
+                value={unit}
+                onChange={(e) => setUnit(e.target.value as IntervalUnit)}
+                className="flex-1 px-2 py-1.5 text-sm bg-white dark:bg-gray-900 border border-gray-300 dark:border-gray-600 rounded-md text-gray-900 dark:text-gray-100 focus:outline-none focus:ring-2 focus:ring-blue-500"
+                aria-label="Interval unit"
+                data-testid="custom-interval-unit"
+              >
+                {UNIT_OPTIONS.map((option) => (
+                  <option key={option.unit} value={option.unit}>
+                    {option.label}
+                  </option>
+                ))}
+              </select>
+            </div>
+
+            {error && (
+              <p className="text-xs text-red-600 dark:text-red-400" role="alert" data-testid="custom-interval-error">
+                {error}
+              </p>
+            )}
+
+            <button
+              type="submit"
+              className="px-3 py-1.5 bg-blue-600 hover:bg-blue-700 text-white rounded-md text-sm font-medium transition-colors focus:outline-none focus:ring-2 focus:ring-blue-500"
+              data-testid="custom-interval-add"
+            >
+              Add interval
+            </button>
+          </form>
+
+          {state.customIntervals.length > 0 && (
+            <ul className="mt-3 pt-3 border-t border-gray-200 dark:border-gray-700 flex flex-col gap-1">
+              {state.customIntervals.map((interval) => (
+                <li
+                  key={interval}
+                  className="flex items-center justify-between text-sm text-gray-700 dark:text-gray-200"
+                >
+                  {getIntervalLabel(interval)}
+                  <button
+                    type="button"
+                    onClick={() => removeCustomInterval(interval)}
+                    className="px-1.5 text-gray-400 hover:text-red-600 dark:hover:text-red-400 focus:outline-none focus:ring-2 focus:ring-blue-500 rounded"
+                    aria-label={`Remove ${getIntervalLabel(interval)}`}
+                    data-testid={`custom-interval-remove-${interval}`}
+                  >
+                    ×
+                  </button>
+                </li>
+              ))}
+            </ul>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
+
+export default CustomIntervalPicker;
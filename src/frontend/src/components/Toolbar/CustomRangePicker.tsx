@@ -0,0 +1,172 @@
+/**
+ * Custom Range Picker Component
+ * Popover with start/end date pickers for a custom time range
+ *
+ * DR-01: Date Picker
+ * DR-02: Validation (end after start, start at most 20 years back)
+ * DR-03: Quick Apply
+ */
+
+import { useState, useRef, useEffect } from 'react';
+import { useChart } from '../../context';
+import type { CustomDateRange } from '../../types';
+import { formatDateInput, getEarliestCustomRangeStart, validateCustomRange } from '../../utils/dateRange';
+
+/** Span prefilled the first time the picker opens */
+const DEFAULT_SPAN_MONTHS = 3;
+
+/**
+ * Initial picker values: the active custom range, or the last few months
+ */
+function getInitialRange(current: CustomDateRange | null): CustomDateRange {
+  if (current) return current;
+  const end = new Date();
+  const start = new Date(end);
+  start.setMonth(start.getMonth() - DEFAULT_SPAN_MONTHS);
+  return { startDate: formatDateInput(start), endDate: formatDateInput(end) };
+}
+
+/**
+ * Format a YYYY-MM-DD value for the button label
+ */
+function formatLabelDate(value: string): string {
+  const [year, month, day] = value.split('-').map(Number);
+  return new Date(year, month - 1, day).toLocaleDateString(undefined, {
+    month: 'short',
+    day: 'numeric',
+    year: '2-digit',
+  });
+}
+
+/**
+ * "Custom" time range button with a date range popover
+ */
+export function CustomRangePicker() {
+  const { state, setCustomRange } = useChart();
+  const [isOpen, setIsOpen] = useState(false);
+  const [draft, setDraft] = useState<CustomDateRange>(() => getInitialRange(state.customRange));
+  const [error, setError] = useState<string | null>(null);
+  const containerRef = useRef<HTMLDivElement>(null);
+
+  const isSelected = state.timeRange === 'CUSTOM' && state.customRange !== null;
+  const today = formatDateInput(new Date());
+  const earliest = formatDateInput(getEarliestCustomRangeStart());
+
+  // Close popover on outside click or Escape
+  useEffect(() => {
+    if (!isOpen) return;
+
+    const handleClickOutside = (event: MouseEvent) => {
+      if (containerRef.current && !containerRef.current.contains(event.target as Node)) {
+        setIsOpen(false);
+      }
+    };
+    const handleKeyDown = (event: KeyboardEvent) => {
+      if (event.key === 'Escape') {
+        setIsOpen(false);
+      }
+    };
+
+    document.addEventListener('mousedown', handleClickOutside);
+    document.addEventListener('keydown', handleKeyDown);
+    return () => {
+      document.removeEventListener('mousedown', handleClickOutside);
+      document.removeEventListener('keydown', handleKeyDown);
+    };
+  }, [isOpen]);
+
+  const handleToggle = () => {
+    if (!isOpen) {
+      setDraft(getInitialRange(state.customRange));
+      setError(null);
+    }
+    setIsOpen(!isOpen);
+  };
+
+  const handleApply = (e: React.FormEvent) => {
+    e.preventDefault();
+    const validationError = validateCustomRange(draft);
+    if (validationError) {
+      setError(validationError);
+      return;
+    }
+    setCustomRange(draft);
+    setIsOpen(false);
+  };
+
+  return (
+    <div className="relative" ref={containerRef}>
+      <button
+        type="button"
+        onClick={handleToggle}
+        className={`ml-2 px-2 py-1 text-xs font-medium border rounded-md transition-colors focus:outline-none focus:ring-2 focus:ring-blue-500 ${
+          isSelected
+            ? 'bg-blue-600 text-white border-blue-600 dark:bg-blue-500 dark:border-blue-500'
+            : 'bg-white dark:bg-gray-800 text-gray-700 dark:text-gray-200 border-gray-300 dark:border-gray-600 hover:bg-gray-50 dark:hover:bg-gray-700'
+        }`}
+        aria-pressed={isSelected}
+        aria-expanded={isOpen}
+        aria-haspopup="dialog"
+        data-testid="custom-range-button"
+      >
+        {isSelected && state.customRange
+          ? `${formatLabelDate(state.customRange.startDate)} – ${formatLabelDate(state.customRange.endDate)}`
+          : 'Custom'}
+      </button>
+
+      {isOpen && (
+        <form
+          role="dialog"
+          aria-label="Custom date range"
+          onSubmit={handleApply}
+          noValidate
+          className="absolute right-0 mt-2 z-50 w-64 p-3 bg-white dark:bg-gray-800 border border-gray-200 dark:border-gray-700 rounded-lg shadow-lg"
+          data-testid="custom-range-popover"
+        >
+          <div className="flex flex-col gap-3">
+            <label className="flex flex-col gap-1 text-xs font-medium text-gray-600 dark:text-gray-300">
+              Start date
+              <input
+                type="date"
+                value={draft.startDate}
+                min={earliest}
+                max={draft.endDate || today}
+                onChange={(e) => setDraft({ ...draft, startDate: e.target.value })}
+                className="px-2 py-1.5 text-sm bg-white dark:bg-gray-900 border border-gray-300 dark:border-gray-600 rounded-md text-gray-900 dark:text-gray-100 focus:outline-none focus:ring-2 focus:ring-blue-500"
+                data-testid="custom-range-start"
+              />
+            </label>
+            <label className="flex flex-col gap-1 text-xs font-medium text-gray-600 dark:text-gray-300">
+              End date
+              <input
+                type="date"
+                value={draft.endDate}
+                min={draft.startDate}
+                max={today}
+                onChange={(e) => setDraft({ ...draft, endDate: e.target.value })}
+                className="px-2 py-1.5 text-sm bg-white dark:bg-gray-900 border border-gray-300 dark:border-gray-600 rounded-md text-gray-900 dark:text-gray-100 focus:outline-none focus:ring-2 focus:ring-blue-500"
+                data-testid="custom-range-end"
+              />
+            </label>
+
+            {error && (
+              <p className="text-xs text-red-600 dark:text-red-400" role="alert" data-testid="custom-range-error">
+                {error}
+              </p>
+            )}
+
+            <button
+              type="submit"
+              className="px-3 py-1.5 bg-blue-600 hover:bg-blue-700 text-white rounded-md text-sm font-medium transition-colors focus:outline-none focus:ring-2 focus:ring-blue-500"
+              data-testid="custom-range-apply"
+            >
+              Apply
+            </button>
+          </div>
+        </form>
+      )}
+    </div>
+  );
+}
+
+export default CustomRangePicker;
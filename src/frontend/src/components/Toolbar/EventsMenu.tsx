@@ -0,0 +1,88 @@
+/**
+ * Events Menu Component
+ * Turns earnings, dividend and split markers on or off
+ *
+ * Spec 3.7: Events toggleable via settings
+ */
+
+import { useState, useRef, useEffect } from 'react';
+import { useChart } from '../../context';
+import { EVENT_TYPES } from '../../types';
+
+/**
+ * "Events" button with a popover of per-type checkboxes
+ */
+export function EventsMenu() {
+  const { state, setEventVisibility } = useChart();
+  const [isOpen, setIsOpen] = useState(false);
+  const containerRef = useRef<HTMLDivElement>(null);
+
+  // Close popover on outside click or Escape
+  useEffect(() => {
+    if (!isOpen) return;
+
+    const handleClickOutside = (event: MouseEvent) => {
+      if (containerRef.current && !containerRef.current.contains(event.target as Node)) {
+        setIsOpen(false);
+      }
+    };
+    const handleKeyDown = (event: KeyboardEvent) => {
+      if (event.key === 'Escape') {
+        setIsOpen(false);
+      }
+    };
+
+    document.addEventListener('mousedown', handleClickOutside);
+    document.addEventListener('keydown', handleKeyDown);
+    return () => {
+      document.removeEventListener('mousedown', handleClickOutside);
+      document.removeEventListener('keydown', handleKeyDown);
+    };
+  }, [isOpen]);
+
+  return (
+    <div className="relative" ref={containerRef}>
+      <button
+        type="button"
+        onClick={() => setIsOpen(!isOpen)}
+        className="px-2 py-1.5 text-xs font-medium bg-white dark:bg-gray-800 border border-gray-300 dark:border-gray-600 rounded-md text-gray-700 dark:text-gray-200 hover:bg-gray-50 dark:hover:bg-gray-700 focus:outline-none focus:ring-2 focus:ring-blue-500"
+        aria-label="Event markers"
+        aria-expanded={isOpen}
+        aria-haspopup="dialog"
+        data-testid="events-menu-button"
+      >
+        Events
+      </button>
+
+      {isOpen && (
+        <div
+          role="dialog"
+          aria-label="Event markers"
+          className="absolute right-0 mt-2 z-50 w-44 p-3 bg-white dark:bg-gray-800 border border-gray-200 dark:border-gray-700 rounded-lg shadow-lg"
+          data-testid="events-menu"
+        >
+          <div className="flex flex-col gap-2">
+            {EVENT_TYPES.map((config) => (
+              <label
+                key={config.type}
+                className="flex items-center gap-2 text-sm text-gray-700 dark:text-gray-200 cursor-pointer"
+              >
+                <input
+                  type="checkbox"
+                  checked={state.eventVisibility[config.type]}
+                  onChange={(e) => setEventVisibility(config.type, e.target.checked)}
+                  className="rounded border-gray-300 dark:border-gray-600 text-blue-600 focus:ring-blue-500"
+                  data-testid={`event-toggle-${config.type}`}
+                />
+                <span className="w-4 font-semibold">{config.marker}</span>
+                {config.label}
+              </label>
+            ))}
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
+
+export default EventsMenu;
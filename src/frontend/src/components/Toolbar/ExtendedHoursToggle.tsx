@@ -0,0 +1,32 @@
+/**
+ * Extended Hours Toggle Component
+ * Shows or hides pre-market and after-hours bars on intraday charts
+ *
+ * Settings 3.8.3: Show Extended Hours
+ */
+
+import { useChart } from '../../context';
+import { isIntradayInterval } from '../../utils/intervals';
+import { ToolbarToggle } from './ToolbarToggle';
+
+/**
+ * "ETH" toggle button; only applies to intraday intervals
+ */
+export function ExtendedHoursToggle() {
+  const { state, setShowExtendedHours } = useChart();
+  const isIntraday = isIntradayInterval(state.interval);
+
+  return (
+    <ToolbarToggle
+      label="ETH"
+      pressed={state.showExtendedHours}
+      disabled={!isIntraday}
+      onToggle={() => setShowExtendedHours(!state.showExtendedHours)}
+      ariaLabel="Show extended hours"
+      title={isIntraday ? 'Show pre-market and after-hours bars' : 'Extended hours apply to intraday intervals'}
+      testId="extended-hours-toggle"
+    />
+  );
+}
+
+export default ExtendedHoursToggle;
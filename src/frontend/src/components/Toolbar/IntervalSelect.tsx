@@ -1,56 +1,73 @@
 /**
  * Interval Selector Component
  * Dropdown for selecting data interval
- * 
+ *
  * TASK-012: Interval Selector (placeholder implementation)
  */
 
-import { useChart } from '../../context';
-import { INTERVALS, TIME_RANGE_INTERVALS, type Interval } from '../../types';
+import { useChart, useDataSource } from '../../context';
+import { INTERVALS, type Interval } from '../../types';
+import { getValidIntervals } from '../../utils/dateRange';
+import { getSourceInterval, getIntervalLabel } from '../../utils/intervals';
+import { CustomIntervalPicker } from './CustomIntervalPicker';
 
 /**
  * Interval selector dropdown
  */
 export function IntervalSelect() {
   const { state, setInterval } = useChart();
+  const { provider } = useDataSource();
 
-  // Get valid intervals for current time range
-  const validIntervals = TIME_RANGE_INTERVALS[state.timeRange];
+  // Get valid intervals for current time range (or custom span) whose
+  // source series the provider can serve
+  const validIntervals = getValidIntervals(state.timeRange, state.customRange, state.customIntervals).filter(
+    (interval) => provider.capabilities.intervals.includes(getSourceInterval(interval))
+  );
 
   const handleChange = (e: React.ChangeEvent<HTMLSelectElement>) => {
     setInterval(e.target.value as Interval);
   };
 
-  return (
-    <div className="relative" data-testid="interval-select">
-      <select
-        value={state.interval}
-        onChange={handleChange}
-        className="appearance-none bg-white dark:bg-gray-800 border border-gray-300 dark:border-gray-600 rounded-md px-3 py-1.5 pr-8 text-sm font-medium text-gray-700 dark:text-gray-200 hover:bg-gray-50 dark:hover:bg-gray-700 focus:outline-none focus:ring-2 focus:ring-blue-500 cursor-pointer"
-        aria-label="Select interval"
-      >
-        {INTERVALS.map((interval) => {
-          const isValid = validIntervals.includes(interval.interval);
-          return (
-            <option
-              key={interval.interval}
-              value={interval.interval}
-              disabled={!isValid}
-              className={!isValid ? 'text-gray-400' : ''}
-            >
-              {interval.label}
-            </option>
-          );
-        })}
-      </select>
-      <svg
-        className="absolute right-2 top-1/2 -translate-y-1/2 w-4 h-4 text-gray-400 pointer-events-none"
-        fill="none"
-        stroke="currentColor"
-        viewBox="0 0 24 24"
+  const renderOption = (interval: Interval, label: string) => {
+    const isValid = validIntervals.includes(interval);
+    return (
+      <option
+        key={interval}
+        value={interval}
+        disabled={!isValid}
+        className={!isValid ? 'text-gray-400' : ''}
       >
-        <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M19 9l-7 7-7-7" />
-      </svg>
+        {label}
+      </option>
+    );
+  };
+
+  return (
+    <div className="flex items-center gap-1" data-testid="interval-select">
+      <div className="relative">
+        <select
+          value={state.interval}
+          onChange={handleChange}
+          className="appearance-none bg-white dark:bg-gray-800 border border-gray-300 dark:border-gray-600 rounded-md px-3 py-1.5 pr-8 text-sm font-medium text-gray-700 dark:text-gray-200 hover:bg-gray-50 dark:hover:bg-gray-700 focus:outline-none focus:ring-2 focus:ring-blue-500 cursor-pointer"
+          aria-label="Select interval"
+        >
+          {INTERVALS.map((config) => renderOption(config.interval, config.label))}
+          {state.customIntervals.length > 0 && (
+            <optgroup label="Custom">
+              {state.customIntervals.map((interval) => renderOption(interval, getIntervalLabel(interval)))}
+            </optgroup>
+          )}
+        </select>
+        <svg
+          className="absolute right-2 top-1/2 -translate-y-1/2 w-4 h-4 text-gray-400 pointer-events-none"
+          fill="none"
+          stroke="currentColor"
+          viewBox="0 0 24 24"
+        >
+          <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M19 9l-7 7-7-7" />
+        </svg>
+      </div>
+      <CustomIntervalPicker />
     </div>
   );
 }
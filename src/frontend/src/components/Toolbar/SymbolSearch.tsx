@@ -11,8 +11,6 @@ import { useChart, useDataSource } from '../../context';
 import { useDebounce } from '../../hooks';
 import {
   searchSymbols,
-  searchSymbolsAPI,
-  transformSymbolSearchResponse,
   apiCache,
   CACHE_TTL,
   isOnline,
@@ -24,7 +22,7 @@ import type { SymbolSearchResult } from '../../types';
  */
 export function SymbolSearch() {
   const { state, setSymbol } = useChart();
-  const { dataSource } = useDataSource();
+  const { provider } = useDataSource();
   const [query, setQuery] = useState('');
   const [isOpen, setIsOpen] = useState(false);
   const [results, setResults] = useState<SymbolSearchResult[]>([]);
@@ -37,11 +35,11 @@ export function SymbolSearch() {
   const debouncedQuery = useDebounce(query, 300);
 
   /**
-   * Search for symbols using API with fallback to mock data
+   * Search for symbols using the remote provider with fallback to mock data
    */
   const searchWithAPI = useCallback(async (searchQuery: string): Promise<SymbolSearchResult[]> => {
     // Check cache first
-    const cacheKey = apiCache.generateKey('symbolSearch', searchQuery.toLowerCase());
+    const cacheKey = apiCache.generateKey('symbolSearch', provider.id, searchQuery.toLowerCase());
     const cachedResults = apiCache.get<SymbolSearchResult[]>(cacheKey);
     if (cachedResults) {
       return cachedResults;
@@ -53,8 +51,7 @@ export function SymbolSearch() {
     }
 
     try {
-      const response = await searchSymbolsAPI(searchQuery);
-      const results = transformSymbolSearchResponse(response);
+      const results = await provider.searchSymbols(searchQuery);
       
       // Cache the results
       apiCache.set(cacheKey, results, CACHE_TTL.SYMBOL_SEARCH);
@@ -64,7 +61,7 @@ export function SymbolSearch() {
       // On API failure, fall back to mock data
       return searchSymbols(searchQuery);
     }
-  }, []);
+  }, [provider]);
 
   // Search for symbols when debounced query changes
   useEffect(() => {
@@ -79,9 +76,11 @@ export function SymbolSearch() {
       try {
         let searchResults: SymbolSearchResult[];
         
-        if (dataSource === 'alphavantage') {
-          // Use API search
+        if (provider.capabilities.search && provider.capabilities.remote) {
+          // Use the provider's API search
           searchResults = await searchWithAPI(debouncedQuery);
+        } else if (provider.capabilities.search) {
+          searchResults = await provider.searchSymbols(debouncedQuery);
         } else {
           // Use mock data search
           searchResults = searchSymbols(debouncedQuery);
@@ -98,7 +97,7 @@ export function SymbolSearch() {
     };
 
     performSearch();
-  }, [debouncedQuery, dataSource, searchWithAPI]);
+  }, [debouncedQuery, provider, searchWithAPI]);
 
   // Close dropdown on outside click
   useEffect(() => {
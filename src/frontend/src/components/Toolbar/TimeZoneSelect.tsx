@@ -0,0 +1,45 @@
+/**
+ * Time Zone Selector Component
+ * Dropdown for the timezone used by time labels, the legend and sessions
+ */
+
+import { useChart } from '../../context';
+import { DISPLAY_TIMEZONES, type DisplayTimeZone } from '../../types';
+
+/**
+ * Display timezone selector dropdown
+ */
+export function TimeZoneSelect() {
+  const { state, setDisplayTimeZone } = useChart();
+
+  const handleChange = (e: React.ChangeEvent<HTMLSelectElement>) => {
+    setDisplayTimeZone(e.target.value as DisplayTimeZone);
+  };
+
+  return (
+    <div className="relative" data-testid="timezone-select">
+      <select
+        value={state.displayTimeZone}
+        onChange={handleChange}
+        className="appearance-none bg-white dark:bg-gray-800 border border-gray-300 dark:border-gray-600 rounded-md px-3 py-1.5 pr-8 text-sm font-medium text-gray-700 dark:text-gray-200 hover:bg-gray-50 dark:hover:bg-gray-700 focus:outline-none focus:ring-2 focus:ring-blue-500 cursor-pointer"
+        aria-label="Select display timezone"
+      >
+        {DISPLAY_TIMEZONES.map((config) => (
+          <option key={config.value} value={config.value}>
+            {config.label}
+          </option>
+        ))}
+      </select>
+      <svg
+        className="absolute right-2 top-1/2 -translate-y-1/2 w-4 h-4 text-gray-400 pointer-events-none"
+        fill="none"
+        stroke="currentColor"
+        viewBox="0 0 24 24"
+      >
+        <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M19 9l-7 7-7-7" />
+      </svg>
+    </div>
+  );
+}
+
+export default TimeZoneSelect;
@@ -15,6 +15,11 @@ import { SymbolSearch } from './SymbolSearch';
 import { ChartTypeSelect } from './ChartTypeSelect';
 import { TimeRangeButtons } from './TimeRangeButtons';
 import { IntervalSelect } from './IntervalSelect';
+import { TimeZoneSelect } from './TimeZoneSelect';
+import { ExtendedHoursToggle } from './ExtendedHoursToggle';
+import { AdjustedPricesToggle } from './AdjustedPricesToggle';
+import { AutoRefreshSelect } from './AutoRefreshSelect';
+import { EventsMenu } from './EventsMenu';
 import { FullscreenButton } from './FullscreenButton';
 import { IndicatorsButton } from './IndicatorsButton';
 
@@ -115,6 +120,12 @@ export function Toolbar() {
 
           {/* Right side controls - Desktop & Tablet */}
           <div className="hidden sm:flex items-center gap-2">
+            <EventsMenu />
+            <ExtendedHoursToggle />
+            <AdjustedPricesToggle />
+            <TimeZoneSelect />
+            <AutoRefreshSelect />
+            <ToolbarDivider />
             <DataSourceToggle />
             <ToolbarDivider />
             <FullscreenButton />
@@ -160,6 +171,27 @@ export function Toolbar() {
               </span>
               <IntervalSelect />
             </div>
+
+            {/* Time Zone */}
+            <div className="flex flex-col gap-1">
+              <span className="text-xs font-medium text-gray-500 dark:text-gray-400 uppercase tracking-wide">
+                Time Zone
+              </span>
+              <div className="flex items-center gap-2">
+                <TimeZoneSelect />
+                <ExtendedHoursToggle />
+                <AdjustedPricesToggle />
+                <EventsMenu />
+              </div>
+            </div>
+          </div>
+
+          {/* Auto-refresh */}
+          <div className="mb-4">
+            <span className="text-xs font-medium text-gray-500 dark:text-gray-400 uppercase tracking-wide block mb-2">
+              Auto-refresh
+            </span>
+            <AutoRefreshSelect />
           </div>
 
           {/* Time Range - Full width */}
@@ -0,0 +1,53 @@
+/**
+ * Toolbar Toggle Component
+ * Small on/off button for a chart setting (e.g. "ETH", "ADJ")
+ */
+
+interface ToolbarToggleProps {
+  /** Button text */
+  label: string;
+  /** Current setting */
+  pressed: boolean;
+  /** Whether the setting applies right now; it is kept, but shown off, while it doesn't */
+  disabled?: boolean;
+  onToggle: () => void;
+  ariaLabel: string;
+  title: string;
+  testId: string;
+}
+
+/**
+ * Toggle button highlighted while its setting is on and applies
+ */
+export function ToolbarToggle({
+  label,
+  pressed,
+  disabled = false,
+  onToggle,
+  ariaLabel,
+  title,
+  testId,
+}: ToolbarToggleProps) {
+  const isActive = pressed && !disabled;
+
+  return (
+    <button
+      type="button"
+      onClick={onToggle}
+      disabled={disabled}
+      className={`px-2 py-1.5 text-xs font-medium border rounded-md transition-colors focus:outline-none focus:ring-2 focus:ring-blue-500 disabled:opacity-50 disabled:cursor-not-allowed ${
+        isActive
+          ? 'bg-blue-600 text-white border-blue-600 dark:bg-blue-500 dark:border-blue-500'
+          : 'bg-white dark:bg-gray-800 text-gray-700 dark:text-gray-200 border-gray-300 dark:border-gray-600 hover:bg-gray-50 dark:hover:bg-gray-700'
+      }`}
+      aria-pressed={pressed}
+      aria-label={ariaLabel}
+      title={title}
+      data-testid={testId}
+    >
+      {label}
+    </button>
+  );
+}
+
+export default ToolbarToggle;
@@ -8,5 +8,10 @@ export { SymbolSearch } from './SymbolSearch';
 export { ChartTypeSelect } from './ChartTypeSelect';
 export { TimeRangeButtons } from './TimeRangeButtons';
 export { IntervalSelect } from './IntervalSelect';
+export { TimeZoneSelect } from './TimeZoneSelect';
+export { AutoRefreshSelect } from './AutoRefreshSelect';
+export { ExtendedHoursToggle } from './ExtendedHoursToggle';
+export { AdjustedPricesToggle } from './AdjustedPricesToggle';
+export { EventsMenu } from './EventsMenu';
 export { FullscreenButton } from './FullscreenButton';
 export { IndicatorsButton } from './IndicatorsButton';
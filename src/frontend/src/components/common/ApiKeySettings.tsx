@@ -0,0 +1,190 @@
+/**
+ * API Key Settings Component
+ * Dialog to add, test and remove the API keys of each data source
+ */
+
+import { useState, type FormEvent } from 'react';
+import { Modal } from './Modal';
+import { Button } from './Button';
+import { useDataSource } from '../../context/DataSourceContext';
+import { useApiKeys } from '../../hooks/useApiKeys';
+import { maskApiKey } from '../../api/apiKeys';
+import type { ApiKeyEntry, ApiKeySource, ApiKeyStatus, MarketDataProvider } from '../../types';
+
+interface ApiKeySettingsProps {
+  isOpen: boolean;
+  onClose: () => void;
+}
+
+const STATUS_LABELS: Record<ApiKeyStatus, string> = {
+  unverified: 'Not tested',
+  valid: 'Valid',
+  invalid: 'Invalid',
+  'rate-limited': 'Rate limited',
+};
+
+const STATUS_STYLES: Record<ApiKeyStatus, string> = {
+  unverified: 'bg-gray-100 text-gray-700 dark:bg-gray-700 dark:text-gray-300',
+  valid: 'bg-green-100 text-green-700 dark:bg-green-900/40 dark:text-green-300',
+  invalid: 'bg-red-100 text-red-700 dark:bg-red-900/40 dark:text-red-300',
+  'rate-limited': 'bg-amber-100 text-amber-700 dark:bg-amber-900/40 dark:text-amber-300',
+};
+
+interface ApiKeyRowProps {
+  entry: ApiKeyEntry;
+  isActive: boolean;
+  isTesting: boolean;
+  onTest: () => void;
+  onRemove: () => void;
+}
+
+/**
+ * One key with its status and actions
+ */
+function ApiKeyRow({ entry, isActive, isTesting, onTest, onRemove }: ApiKeyRowProps) {
+  const detail =
+    entry.status === 'rate-limited' && entry.rateLimitedUntil !== null
+      ? `Back in rotation at ${new Date(entry.rateLimitedUntil).toLocaleTimeString()}.`
+      : entry.message;
+
+  return (
+    <li className="py-2" data-testid="api-key-row">
+      <div className="flex items-center gap-2">
+        <span className="font-mono text-sm text-gray-800 dark:text-gray-200">{maskApiKey(entry.key)}</span>
+        {entry.source === 'env' && (
+          <span className="text-xs text-gray-500 dark:text-gray-400" title="Set in the .env file">
+            from .env
+          </span>
+        )}
+        <span
+          className={`rounded-full px-2 py-0.5 text-xs font-medium ${STATUS_STYLES[entry.status]}`}
+          data-testid="api-key-row-status"
+        >
+          {STATUS_LABELS[entry.status]}
+        </span>
+        {isActive && (
+          <span className="text-xs font-medium text-blue-600 dark:text-blue-400">In use</span>
+        )}
+        <div className="ml-auto flex items-center gap-1">
+          <Button variant="ghost" size="sm" onClick={onTest} isLoading={isTesting}>
+            Test
+          </Button>
+          {entry.source === 'user' && (
+            <Button variant="ghost" size="sm" onClick={onRemove} aria-label={`Remove key ${maskApiKey(entry.key)}`}>
+              Remove
+            </Button>
+          )}
+        </div>
+      </div>
+      {detail && <p className="mt-1 text-xs text-gray-500 dark:text-gray-400">{detail}</p>}
+    </li>
+  );
+}
+
+interface ProviderKeysProps {
+  provider: MarketDataProvider;
+  source: ApiKeySource;
+}
+
+/**
+ * Keys of one provider, plus a form to add another
+ */
+function ProviderKeys({ provider, source }: ProviderKeysProps) {
+  const { keys, activeKey, required } = useApiKeys(source);
+  const [draft, setDraft] = useState('');
+  const [testing, setTesting] = useState<ReadonlySet<string>>(new Set());
+  const inputId = `api-key-input-${provider.id}`;
+
+  const testKey = async (key: string) => {
+    setTesting((current) => new Set(current).add(key));
+    try {
+      await source.validate(key);
+    } finally {
+      setTesting((current) => {
+        const next = new Set(current);
+        next.delete(key);
+        return next;
+      });
+    }
+  };
+
+  const handleSubmit = (event: FormEvent) => {
+    event.preventDefault();
+    const key = draft.trim();
+    if (!key) return;
+    source.add(key);
+    setDraft('');
+    void testKey(key);
+  };
+
+  return (
+    <section data-testid={`api-keys-${provider.id}`}>
+      <h3 className="text-sm font-medium text-gray-700 dark:text-gray-300">{provider.label}</h3>
+      {!required && (
+        <p className="text-xs text-gray-500 dark:text-gray-400">
+          The configured server does not need a key.
+        </p>
+      )}
+      {keys.length === 0 ? (
+        <p className="py-2 text-sm text-gray-500 dark:text-gray-400">No keys yet.</p>
+      ) : (
+        <ul className="divide-y divide-gray-200 dark:divide-gray-700">
+          {keys.map((entry) => (
+            <ApiKeyRow
+              key={entry.key}
+              entry={entry}
+              isActive={entry.key === activeKey}
+              isTesting={testing.has(entry.key)}
+              onTest={() => void testKey(entry.key)}
+              onRemove={() => source.remove(entry.key)}
+            />
+          ))}
+        </ul>
+      )}
+      <form onSubmit={handleSubmit} className="mt-2 flex items-center gap-2">
+        <label htmlFor={inputId} className="sr-only">
+          New {provider.label} key
+        </label>
+        <input
+          id={inputId}
+          type="password"
+          autoComplete="off"
+          spellCheck={false}
+          value={draft}
+          onChange={(event) => setDraft(event.target.value)}
+          placeholder="Paste an API key"
+          className="flex-1 px-3 py-1.5 text-sm bg-white dark:bg-gray-900 border border-gray-300 dark:border-gray-600 rounded-md text-gray-900 dark:text-gray-100 focus:outline-none focus:ring-2 focus:ring-blue-500"
+        />
+        <Button type="submit" size="sm" disabled={!draft.trim()}>
+          Add &amp; test
+        </Button>
+      </form>
+    </section>
+  );
+}
+
+/**
+ * API key settings dialog
+ * Lists every provider that takes API keys
+ */
+export function ApiKeySettings({ isOpen, onClose }: ApiKeySettingsProps) {
+  const { providers } = useDataSource();
+
+  return (
+    <Modal isOpen={isOpen} onClose={onClose} title="API Keys" size="lg">
+      <div className="space-y-6" data-testid="api-key-settings">
+        <p className="text-sm text-gray-500 dark:text-gray-400">
+          Keys are stored in this browser only. When a key hits its rate limit, requests move on to
+          the next one.
+        </p>
+        {providers.map((provider) =>
+          provider.apiKeys ? (
+            <ProviderKeys key={provider.id} provider={provider} source={provider.apiKeys} />
+          ) : null
+        )}
+      </div>
+    </Modal>
+  );
+}
+
+export default ApiKeySettings;
@@ -0,0 +1,107 @@
+/**
+ * API Key Status Component
+ * Shows the health of the selected data source's API key and opens the
+ * API key settings
+ */
+
+import { useState } from 'react';
+import { useDataSource } from '../../context/DataSourceContext';
+import { useApiKeys } from '../../hooks/useApiKeys';
+import { maskApiKey } from '../../api/apiKeys';
+import type { ApiKeyRingState } from '../../types';
+import { ApiKeySettings } from './ApiKeySettings';
+
+type StatusTone = 'success' | 'warning' | 'error' | 'neutral';
+
+interface StatusSummary {
+  tone: StatusTone;
+  label: string;
+  title: string;
+}
+
+const TONE_STYLES: Record<StatusTone, string> = {
+  success: 'bg-green-100 text-green-700 dark:bg-green-900/40 dark:text-green-300',
+  warning: 'bg-amber-100 text-amber-700 dark:bg-amber-900/40 dark:text-amber-300',
+  error: 'bg-red-100 text-red-700 dark:bg-red-900/40 dark:text-red-300',
+  neutral: 'bg-gray-100 text-gray-700 dark:bg-gray-700 dark:text-gray-300',
+};
+
+/**
+ * Describe a provider's keys; null when there is nothing to report
+ */
+function summarize({ keys, activeKey, required }: ApiKeyRingState, providerLabel: string): StatusSummary | null {
+  if (keys.length === 0) {
+    return required
+      ? { tone: 'error', label: 'No API key', title: `Add an API key to use ${providerLabel}` }
+      : null;
+  }
+
+  const available = keys.filter((entry) => entry.status !== 'invalid' && entry.status !== 'rate-limited').length;
+  const count = keys.length > 1 ? ` (${available}/${keys.length})` : '';
+
+  const active = keys.find((entry) => entry.key === activeKey);
+  if (!active) {
+    const limited = keys.filter((entry) => entry.rateLimitedUntil !== null);
+    if (limited.length > 0) {
+      const resumeAt = Math.min(...limited.map((entry) => entry.rateLimitedUntil as number));
+      return {
+        tone: 'warning',
+        label: `Rate limited${count}`,
+        title: `Every key is rate limited. Requests resume at ${new Date(resumeAt).toLocaleTimeString()}.`,
+      };
+    }
+    return { tone: 'error', label: `Invalid key${count}`, title: 'Every key was rejected' };
+  }
+
+  const title = `Using key ${maskApiKey(active.key)}`;
+  return active.status === 'valid'
+    ? { tone: 'success', label: `Key OK${count}`, title }
+    : { tone: 'neutral', label: `Key not tested${count}`, title };
+}
+
+/**
+ * Key status badge; a plain key button for sources without keys
+ * Renders nothing when no registered provider takes API keys
+ */
+export function ApiKeyStatus() {
+  const { provider, providers } = useDataSource();
+  const state = useApiKeys(provider.apiKeys);
+  const [isOpen, setIsOpen] = useState(false);
+
+  if (!providers.some((candidate) => candidate.apiKeys)) {
+    return null;
+  }
+
+  const summary = provider.apiKeys ? summarize(state, provider.label) : null;
+  const title = summary ? `${summary.title}. Click to manage API keys.` : 'API key settings';
+
+  return (
+    <>
+      <button
+        type="button"
+        onClick={() => setIsOpen(true)}
+        className={`inline-flex items-center gap-1 rounded-full px-2 py-0.5 text-xs font-medium focus:outline-none focus:ring-2 focus:ring-blue-500 ${
+          summary
+            ? TONE_STYLES[summary.tone]
+            : 'text-gray-500 hover:bg-gray-100 dark:text-gray-400 dark:hover:bg-gray-800'
+        }`}
+        title={title}
+        aria-label={title}
+        data-testid="api-key-status"
+      >
+        <svg className="w-3 h-3" fill="none" stroke="currentColor" viewBox="0 0 24 24" aria-hidden="true">
+          <path
+            strokeLinecap="round"
+            strokeLinejoin="round"
+            strokeWidth={2}
+            d="M15 7a2 2 0 012 2m4 0a6 6 0 01-7.743 5.743L11 17H9v2H7v2H4a1 1 0 01-1-1v-2.586a1 1 0 01.293-.707l5.964-5.964A6 6 0 1121 9z"
+          />
+        </svg>
+        {summary?.label}
+      </button>
+      <ApiKeySettings isOpen={isOpen} onClose={() => setIsOpen(false)} />
+    </>
+  );
+}
+
+export default ApiKeyStatus;
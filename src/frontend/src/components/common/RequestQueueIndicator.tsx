@@ -0,0 +1,49 @@
+/**
+ * Request Queue Indicator Component
+ * Shows pending API requests when the data source is rate limited
+ */
+
+import { useRequestQueue } from '../../hooks/useRequestQueue';
+
+/**
+ * Badge with the number of queued requests
+ * Renders nothing while the queue is empty
+ */
+export function RequestQueueIndicator() {
+  const { queued, pausedUntil } = useRequestQueue();
+
+  if (queued === 0 && pausedUntil === null) {
+    return null;
+  }
+
+  const isPaused = pausedUntil !== null;
+  const title = isPaused
+    ? `Rate limit reached. Requests resume at ${new Date(pausedUntil).toLocaleTimeString()}.`
+    : `${queued} request${queued === 1 ? '' : 's'} waiting for the API rate limit`;
+
+  return (
+    <span
+      className={`inline-flex items-center gap-1 rounded-full px-2 py-0.5 text-xs font-medium ${
+        isPaused
+          ? 'bg-red-100 text-red-700 dark:bg-red-900/40 dark:text-red-300'
+          : 'bg-amber-100 text-amber-700 dark:bg-amber-900/40 dark:text-amber-300'
+      }`}
+      title={title}
+      role="status"
+      aria-label={title}
+      data-testid="request-queue-indicator"
+    >
+      <svg className="w-3 h-3" fill="none" stroke="currentColor" viewBox="0 0 24 24" aria-hidden="true">
+        <path
+          strokeLinecap="round"
+          strokeLinejoin="round"
+          strokeWidth={2}
+          d="M12 8v4l3 3m6-3a9 9 0 11-18 0 9 9 0 0118 0z"
+        />
+      </svg>
+      {queued > 0 ? `${queued} queued` : 'Rate limited'}
+    </span>
+  );
+}
+
+export default RequestQueueIndicator;
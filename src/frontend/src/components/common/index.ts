@@ -4,6 +4,9 @@
  */
 
 export { DataSourceToggle } from './DataSourceToggle';
+export { RequestQueueIndicator } from './RequestQueueIndicator';
+export { ApiKeyStatus } from './ApiKeyStatus';
+export { ApiKeySettings } from './ApiKeySettings';
 export { Button, type ButtonVariant, type ButtonSize } from './Button';
 export { Dropdown, type DropdownOption } from './Dropdown';
 export { Modal } from './Modal';
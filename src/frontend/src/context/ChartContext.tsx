@@ -5,9 +5,30 @@
  * TASK-006: Chart Context & State Management
  */
 
-import { createContext, useContext, useReducer, type ReactNode } from 'react';
-import type { ChartType, TimeRange, Interval, ChartState, ChartAction } from '../types';
-import { DEFAULT_INTERVALS } from '../types';
+import { createContext, useContext, useEffect, useReducer, type ReactNode } from 'react';
+import type {
+  ChartType,
+  DisplayTimeZone,
+  PresetTimeRange,
+  CustomDateRange,
+  Interval,
+  CustomInterval,
+  ChartState,
+  ChartAction,
+  CorporateEventType,
+  RefreshInterval,
+} from '../types';
+import { DEFAULT_INTERVALS, DISPLAY_TIMEZONES, EVENT_TYPES, REFRESH_INTERVALS } from '../types';
+import { getCustomRangeDays, getDefaultIntervalForSpan } from '../utils/dateRange';
+import { parseInterval, isNativeInterval } from '../utils/intervals';
+
+const CUSTOM_INTERVALS_STORAGE_KEY = 'financeviz-custom-intervals';
+const DISPLAY_TIMEZONE_STORAGE_KEY = 'financeviz-display-timezone';
+const EXTENDED_HOURS_STORAGE_KEY = 'financeviz-extended-hours';
+const ADJUSTED_PRICES_STORAGE_KEY = 'financeviz-adjusted-prices';
+const EVENT_VISIBILITY_STORAGE_KEY = 'financeviz-event-visibility';
+const AUTO_REFRESH_STORAGE_KEY = 'financeviz-auto-refresh';
+const REFRESH_INTERVAL_STORAGE_KEY = 'financeviz-refresh-interval';
 
 /**
  * Initial chart state
@@ -16,13 +37,104 @@ const initialState: ChartState = {
   symbol: 'AAPL',
   companyName: 'Apple Inc.',
   timeRange: '1D',
+  customRange: null,
   interval: '5min',
+  customIntervals: [],
   chartType: 'candlestick',
+  displayTimeZone: 'exchange',
+  showExtendedHours: false,
+  adjustedPrices: false,
+  eventVisibility: { earnings: true, dividend: true, split: true },
+  autoRefresh: true,
+  refreshInterval: 60,
   isLoading: false,
   error: null,
   dataSource: 'mock',
 };
 
+/**
+ * Restore user-defined intervals from localStorage
+ */
+function loadCustomIntervals(): CustomInterval[] {
+  try {
+    const stored: unknown = JSON.parse(localStorage.getItem(CUSTOM_INTERVALS_STORAGE_KEY) ?? '[]');
+    if (!Array.isArray(stored)) return [];
+    return stored.filter(
+      (item): item is CustomInterval =>
+        typeof item === 'string' && !isNativeInterval(item) && parseInterval(item) !== null
+    );
+  } catch {
+    return [];
+  }
+}
+
+/**
+ * Restore the display timezone from localStorage
+ */
+function loadDisplayTimeZone(fallback: DisplayTimeZone): DisplayTimeZone {
+  const stored = localStorage.getItem(DISPLAY_TIMEZONE_STORAGE_KEY);
+  return DISPLAY_TIMEZONES.find((config) => config.value === stored)?.value ?? fallback;
+}
+
+/**
+ * Restore event marker visibility from localStorage
+ * Types missing from storage keep their default.
+ */
+function loadEventVisibility(
+  fallback: Record<CorporateEventType, boolean>
+): Record<CorporateEventType, boolean> {
+  try {
+    const stored: unknown = JSON.parse(localStorage.getItem(EVENT_VISIBILITY_STORAGE_KEY) ?? '{}');
+    if (typeof stored !== 'object' || stored === null) return fallback;
+    const visibility = { ...fallback };
+    for (const { type } of EVENT_TYPES) {
+      const value = (stored as Record<string, unknown>)[type];
+      if (typeof value === 'boolean') {
+        visibility[type] = value;
+      }
+    }
+    return visibility;
+  } catch {
+    return fallback;
+  }
+}
+
+/**
+ * Restore the auto-refresh interval from localStorage
+ */
+function loadRefreshInterval(fallback: RefreshInterval): RefreshInterval {
+  const stored = Number(localStorage.getItem(REFRESH_INTERVAL_STORAGE_KEY));
+  return REFRESH_INTERVALS.find((config) => config.value === stored)?.value ?? fallback;
+}
+
+/**
+ * Initialize persisted preferences from localStorage
+ */
+function loadPersistedState(state: ChartState): ChartState {
+  if (typeof window === 'undefined') return state;
+  return {
+    ...state,
+    customIntervals: loadCustomIntervals(),
+    displayTimeZone: loadDisplayTimeZone(state.displayTimeZone),
+    showExtendedHours: localStorage.getItem(EXTENDED_HOURS_STORAGE_KEY) === 'true',
+    adjustedPrices: localStorage.getItem(ADJUSTED_PRICES_STORAGE_KEY) === 'true',
+    eventVisibility: loadEventVisibility(state.eventVisibility),
+    // Auto-refresh is on unless turned off
+    autoRefresh: localStorage.getItem(AUTO_REFRESH_STORAGE_KEY) !== 'false',
+    refreshInterval: loadRefreshInterval(state.refreshInterval),
+  };
+}
+
+/**
+ * Default interval for the current time range selection
+ */
+function getDefaultInterval(state: ChartState): Interval {
+  if (state.timeRange === 'CUSTOM') {
+    return getDefaultIntervalForSpan(state.customRange ? getCustomRangeDays(state.customRange) : 365);
+  }
+  return DEFAULT_INTERVALS[state.timeRange];
+}
+
 /**
  * Chart reducer function
  */
@@ -45,17 +157,78 @@ function chartReducer(state: ChartState, action: ChartAction): ChartState {
         error: null,
       };
     }
+    case 'SET_CUSTOM_RANGE': {
+      // Pick an interval suited to the span of the custom range
+      const newInterval = getDefaultIntervalForSpan(getCustomRangeDays(action.payload));
+      return {
+        ...state,
+        timeRange: 'CUSTOM',
+        customRange: action.payload,
+        interval: newInterval,
+        error: null,
+      };
+    }
     case 'SET_INTERVAL':
       return {
         ...state,
         interval: action.payload,
         error: null,
       };
+    case 'ADD_CUSTOM_INTERVAL':
+      if (state.customIntervals.includes(action.payload)) {
+        return state;
+      }
+      return {
+        ...state,
+        customIntervals: [...state.customIntervals, action.payload],
+      };
+    case 'REMOVE_CUSTOM_INTERVAL': {
+      // Switch away from the removed interval if it is selected
+      const isSelected = state.interval === action.payload;
+      return {
+        ...state,
+        customIntervals: state.customIntervals.filter((interval) => interval !== action.payload),
+        interval: isSelected ? getDefaultInterval(state) : state.interval,
+      };
+    }
     case 'SET_CHART_TYPE':
       return {
         ...state,
         chartType: action.payload,
       };
+    case 'SET_DISPLAY_TIMEZONE':
+      return {
+        ...state,
+        displayTimeZone: action.payload,
+      };
+    case 'SET_EXTENDED_HOURS':
+      return {
+        ...state,
+        showExtendedHours: action.payload,
+      };
+    case 'SET_ADJUSTED_PRICES':
+      return {
+        ...state,
+        adjustedPrices: action.payload,
+      };
+    case 'SET_EVENT_VISIBILITY':
+      return {
+        ...state,
+        eventVisibility: {
+          ...state.eventVisibility,
+          [action.payload.eventType]: action.payload.visible,
+        },
+      };
+    case 'SET_AUTO_REFRESH':
+      return {
+        ...state,
+        autoRefresh: action.payload,
+      };
+    case 'SET_REFRESH_INTERVAL':
+      return {
+        ...state,
+        refreshInterval: action.payload,
+      };
     case 'SET_LOADING':
       return {
         ...state,
@@ -85,9 +258,18 @@ interface ChartContextType {
   dispatch: React.Dispatch<ChartAction>;
   // Convenience methods
   setSymbol: (symbol: string, companyName: string) => void;
-  setTimeRange: (timeRange: TimeRange) => void;
+  setTimeRange: (timeRange: PresetTimeRange) => void;
+  setCustomRange: (range: CustomDateRange) => void;
   setInterval: (interval: Interval) => void;
+  addCustomInterval: (interval: CustomInterval) => void;
+  removeCustomInterval: (interval: CustomInterval) => void;
   setChartType: (chartType: ChartType) => void;
+  setDisplayTimeZone: (displayTimeZone: DisplayTimeZone) => void;
+  setShowExtendedHours: (show: boolean) => void;
+  setAdjustedPrices: (adjusted: boolean) => void;
+  setEventVisibility: (eventType: CorporateEventType, visible: boolean) => void;
+  setAutoRefresh: (enabled: boolean) => void;
+  setRefreshInterval: (refreshInterval: RefreshInterval) => void;
   setLoading: (isLoading: boolean) => void;
   setError: (error: string | null) => void;
 }
@@ -103,25 +285,90 @@ interface ChartProviderProps {
  * Provides chart state and actions to all children
  */
 export function ChartProvider({ children }: ChartProviderProps) {
-  const [state, dispatch] = useReducer(chartReducer, initialState);
+  const [state, dispatch] = useReducer(chartReducer, initialState, loadPersistedState);
+
+  // Persist user preferences
+  useEffect(() => {
+    localStorage.setItem(CUSTOM_INTERVALS_STORAGE_KEY, JSON.stringify(state.customIntervals));
+  }, [state.customIntervals]);
+
+  useEffect(() => {
+    localStorage.setItem(DISPLAY_TIMEZONE_STORAGE_KEY, state.displayTimeZone);
+  }, [state.displayTimeZone]);
+
+  useEffect(() => {
+    localStorage.setItem(EXTENDED_HOURS_STORAGE_KEY, String(state.showExtendedHours));
+  }, [state.showExtendedHours]);
+
+  useEffect(() => {
+    localStorage.setItem(ADJUSTED_PRICES_STORAGE_KEY, String(state.adjustedPrices));
+  }, [state.adjustedPrices]);
+
+  useEffect(() => {
+    localStorage.setItem(EVENT_VISIBILITY_STORAGE_KEY, JSON.stringify(state.eventVisibility));
+  }, [state.eventVisibility]);
+
+  useEffect(() => {
+    localStorage.setItem(AUTO_REFRESH_STORAGE_KEY, String(state.autoRefresh));
+  }, [state.autoRefresh]);
+
+  useEffect(() => {
+    localStorage.setItem(REFRESH_INTERVAL_STORAGE_KEY, String(state.refreshInterval));
+  }, [state.refreshInterval]);
 
   // Convenience action creators
   const setSymbol = (symbol: string, companyName: string) => {
     dispatch({ type: 'SET_SYMBOL', payload: { symbol, companyName } });
   };
 
-  const setTimeRange = (timeRange: TimeRange) => {
+  const setTimeRange = (timeRange: PresetTimeRange) => {
     dispatch({ type: 'SET_TIME_RANGE', payload: timeRange });
   };
 
+  const setCustomRange = (range: CustomDateRange) => {
+    dispatch({ type: 'SET_CUSTOM_RANGE', payload: range });
+  };
+
   const setInterval = (interval: Interval) => {
     dispatch({ type: 'SET_INTERVAL', payload: interval });
   };
 
+  const addCustomInterval = (interval: CustomInterval) => {
+    dispatch({ type: 'ADD_CUSTOM_INTERVAL', payload: interval });
+  };
+
+  const removeCustomInterval = (interval: CustomInterval) => {
+    dispatch({ type: 'REMOVE_CUSTOM_INTERVAL', payload: interval });
+  };
+
   const setChartType = (chartType: ChartType) => {
     dispatch({ type: 'SET_CHART_TYPE', payload: chartType });
   };
 
+  const setDisplayTimeZone = (displayTimeZone: DisplayTimeZone) => {
+    dispatch({ type: 'SET_DISPLAY_TIMEZONE', payload: displayTimeZone });
+  };
+
+  const setShowExtendedHours = (show: boolean) => {
+    dispatch({ type: 'SET_EXTENDED_HOURS', payload: show });
+  };
+
+  const setAdjustedPrices = (adjusted: boolean) => {
+    dispatch({ type: 'SET_ADJUSTED_PRICES', payload: adjusted });
+  };
+
+  const setEventVisibility = (eventType: CorporateEventType, visible: boolean) => {
+    dispatch({ type: 'SET_EVENT_VISIBILITY', payload: { eventType, visible } });
+  };
+
+  const setAutoRefresh = (enabled: boolean) => {
+    dispatch({ type: 'SET_AUTO_REFRESH', payload: enabled });
+  };
+
+  const setRefreshInterval = (refreshInterval: RefreshInterval) => {
+    dispatch({ type: 'SET_REFRESH_INTERVAL', payload: refreshInterval });
+  };
+
   const setLoading = (isLoading: boolean) => {
     dispatch({ type: 'SET_LOADING', payload: isLoading });
   };
@@ -135,8 +382,17 @@ export function ChartProvider({ children }: ChartProviderProps) {
     dispatch,
     setSymbol,
     setTimeRange,
+    setCustomRange,
     setInterval,
+    addCustomInterval,
+    removeCustomInterval,
     setChartType,
+    setDisplayTimeZone,
+    setShowExtendedHours,
+    setAdjustedPrices,
+    setEventVisibility,
+    setAutoRefresh,
+    setRefreshInterval,
     setLoading,
     setError,
   };
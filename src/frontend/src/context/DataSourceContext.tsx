@@ -1,19 +1,23 @@
 /**
  * Data Source Context
- * Provides data source state (Mock Data vs Alpha Vantage API) to all components
+ * Provides the selected market data provider to all components
  * 
  * TASK-003: Data Source Toggle Component
  */
 
 import { createContext, useContext, useState, useEffect, type ReactNode } from 'react';
-import type { DataSource } from '../types';
+import type { DataSource, MarketDataProvider } from '../types';
+import { getProvider, hasProvider, getProviders, MOCK_PROVIDER_ID } from '../api/providers';
 
 const STORAGE_KEY = 'financeviz-data-source';
 
 interface DataSourceContextType {
   dataSource: DataSource;
   setDataSource: (source: DataSource) => void;
-  isAlphaVantage: boolean;
+  /** Provider registered under the selected data source id */
+  provider: MarketDataProvider;
+  /** All registered providers */
+  providers: MarketDataProvider[];
   isMock: boolean;
 }
 
@@ -29,14 +33,14 @@ interface DataSourceProviderProps {
  */
 export function DataSourceProvider({ children }: DataSourceProviderProps) {
   const [dataSource, setDataSourceState] = useState<DataSource>(() => {
-    // Initialize from localStorage or default to 'mock'
+    // Initialize from localStorage or default to the mock provider
     if (typeof window !== 'undefined') {
       const stored = localStorage.getItem(STORAGE_KEY);
-      if (stored === 'alphavantage' || stored === 'mock') {
+      if (stored && hasProvider(stored)) {
         return stored;
       }
     }
-    return 'mock';
+    return MOCK_PROVIDER_ID;
   });
 
   // Persist to localStorage when data source changes
@@ -45,14 +49,21 @@ export function DataSourceProvider({ children }: DataSourceProviderProps) {
   }, [dataSource]);
 
   const setDataSource = (source: DataSource) => {
+    if (!hasProvider(source)) {
+      console.warn(`Unknown data source: ${source}`);
+      return;
+    }
     setDataSourceState(source);
   };
 
+  const provider = getProvider(dataSource) ?? getProvider(MOCK_PROVIDER_ID)!;
+
   const value: DataSourceContextType = {
     dataSource,
     setDataSource,
-    isAlphaVantage: dataSource === 'alphavantage',
-    isMock: dataSource === 'mock',
+    provider,
+    providers: getProviders(),
+    isMock: provider.id === MOCK_PROVIDER_ID,
   };
 
   return (
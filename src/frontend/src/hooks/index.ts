@@ -6,7 +6,15 @@
 export { useDebounce } from './useDebounce';
 export { useQuote } from './useQuote';
 export { useStockData } from './useStockData';
+export { useCorporateEvents } from './useCorporateEvents';
+export { useFundamentals } from './useFundamentals';
 export { useChartResize } from './useChartResize';
+export { usePaneLayout } from './usePaneLayout';
+export { useRequestQueue } from './useRequestQueue';
+export { useApiKeys } from './useApiKeys';
+export { useTradeStream } from './useTradeStream';
+export { useAutoRefresh, MIN_REMOTE_REFRESH_INTERVAL } from './useAutoRefresh';
+export { useSimulationScenarios } from './useSimulationScenarios';
 export {
   useIndicator,
   useMultipleIndicators,
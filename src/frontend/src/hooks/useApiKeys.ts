@@ -0,0 +1,25 @@
+/**
+ * useApiKeys Hook
+ * Subscribes to a provider's API keys
+ */
+
+import { useSyncExternalStore } from 'react';
+import type { ApiKeyRingState, ApiKeySource } from '../types';
+
+/** Snapshot used for providers without API keys */
+const NO_KEYS: ApiKeyRingState = { keys: [], activeKey: null, required: false };
+
+const subscribeNoop = () => () => {};
+const getEmptySnapshot = () => NO_KEYS;
+
+/**
+ * Hook returning the keys and the active key of an API key source
+ */
+export function useApiKeys(source: ApiKeySource | undefined): ApiKeyRingState {
+  return useSyncExternalStore(
+    source ? source.subscribe : subscribeNoop,
+    source ? source.getSnapshot : getEmptySnapshot
+  );
+}
+
+export default useApiKeys;
@@ -0,0 +1,87 @@
+/**
+ * useAutoRefresh Hook
+ * Runs a refresh on an interval under the auto-refresh policy (spec 3.8.3)
+ *
+ * - Refreshes pause while the tab is hidden; a refresh missed meanwhile
+ *   runs as soon as the tab is shown again
+ * - Remote sources are not refreshed while offline, while their request
+ *   queue is working through a backlog or held by a rate limit, or once
+ *   refreshes would dig into the half of the per-minute or daily call
+ *   budget kept for user-initiated requests
+ * - Remote data is cached for a minute, so remote sources refresh at most
+ *   once a minute whatever the interval
+ */
+
+import { useEffect, useRef } from 'react';
+import type { RequestQueueSource } from '../types';
+import { isOnline, CACHE_TTL } from '../api';
+import { useDataSource } from '../context';
+
+/** Share of a provider's call budget background refreshes may use */
+const REFRESH_BUDGET_SHARE = 0.5;
+
+/** Shortest refresh interval of remote sources (ms) */
+export const MIN_REMOTE_REFRESH_INTERVAL = CACHE_TTL.QUOTE;
+
+/**
+ * Check whether a request queue has room for a background refresh
+ */
+function hasRequestBudget(queue: RequestQueueSource | undefined): boolean {
+  if (!queue) return true;
+  const { queued, pausedUntil } = queue.getSnapshot();
+  if (queued > 0 || (pausedUntil !== null && pausedUntil > Date.now())) return false;
+
+  const { available, capacity, remainingToday, dailyLimit } = queue.getBudget();
+  const reserved = 1 - REFRESH_BUDGET_SHARE;
+  if (available <= capacity * reserved) return false;
+  return remainingToday === null || dailyLimit === null || remainingToday > dailyLimit * reserved;
+}
+
+/**
+ * Hook calling `refresh` every `intervalMs` milliseconds
+ * Pass null to turn refreshing off.
+ */
+export function useAutoRefresh(refresh: () => void, intervalMs: number | null): void {
+  const { provider } = useDataSource();
+
+  // Keep the latest callback without restarting the timer
+  const refreshRef = useRef(refresh);
+  useEffect(() => {
+    refreshRef.current = refresh;
+  }, [refresh]);
+
+  useEffect(() => {
+    if (intervalMs === null) return;
+
+    const isRemote = provider.capabilities.remote;
+    const delay = isRemote ? Math.max(intervalMs, MIN_REMOTE_REFRESH_INTERVAL) : intervalMs;
+    let missed = false;
+
+    const tick = () => {
+      if (document.hidden) {
+        missed = true;
+        return;
+      }
+      if (isRemote && (!isOnline() || !hasRequestBudget(provider.requestQueue))) {
+        return;
+      }
+      refreshRef.current();
+    };
+
+    const handleVisibilityChange = () => {
+      if (!document.hidden && missed) {
+        missed = false;
+        tick();
+      }
+    };
+
+    const interval = setInterval(tick, delay);
+    document.addEventListener('visibilitychange', handleVisibilityChange);
+    return () => {
+      clearInterval(interval);
+      document.removeEventListener('visibilitychange', handleVisibilityChange);
+    };
+  }, [provider, intervalMs]);
+}
+
+export default useAutoRefresh;
@@ -0,0 +1,104 @@
+/**
+ * useCachedResource Hook
+ * Fetches supplementary data (events, fundamentals) from the active provider
+ *
+ * Remote results are cached for `ttl` and served stale while offline.
+ * Failures leave the data empty rather than showing simulated figures next
+ * to real prices.
+ */
+
+import { useState, useEffect, useRef } from 'react';
+import type { MarketDataProvider } from '../types';
+import { apiCache, getCachedValue, setCachedValue, isOnline } from '../api';
+import { useDataSource } from '../context';
+
+interface CachedResourceOptions<T> {
+  /** Cache key prefix, e.g. 'fundamentals' */
+  name: string;
+  /** Cache key parts identifying the resource, e.g. the symbol */
+  params: string[];
+  /** Fetch from the provider; returns undefined if it does not offer the resource */
+  load: (provider: MarketDataProvider) => Promise<T> | undefined;
+  /** Cache lifetime of remote results (ms) */
+  ttl: number;
+  /** Fetch only while true */
+  enabled?: boolean;
+}
+
+interface CachedResourceResult<T> {
+  data: T | null;
+  isLoading: boolean;
+}
+
+/**
+ * Hook fetching a resource whenever its key, the provider or `enabled` changes
+ * Returns null while disabled, unsupported or failed.
+ */
+export function useCachedResource<T>({
+  name,
+  params,
+  load,
+  ttl,
+  enabled = true,
+}: CachedResourceOptions<T>): CachedResourceResult<T> {
+  const { provider } = useDataSource();
+  const [data, setData] = useState<T | null>(null);
+  const [isLoading, setIsLoading] = useState(false);
+  const cacheKey = apiCache.generateKey(name, provider.id, ...params);
+
+  // Keep the latest loader without refetching on every render
+  const loadRef = useRef(load);
+  useEffect(() => {
+    loadRef.current = load;
+  }, [load]);
+
+  useEffect(() => {
+    let cancelled = false;
+
+    const fetchResource = async () => {
+      setData(null);
+      if (!enabled) {
+        return;
+      }
+
+      setIsLoading(true);
+      try {
+        let result: T | null | undefined;
+        if (!provider.capabilities.remote) {
+          result = await loadRef.current(provider);
+        } else {
+          const cached = await getCachedValue<T>(cacheKey, { allowStale: !isOnline() });
+          if (cached) {
+            result = cached.data;
+          } else {
+            result = await loadRef.current(provider);
+            if (result !== undefined) {
+              setCachedValue(cacheKey, result, ttl);
+            }
+          }
+        }
+        if (!cancelled) {
+          setData(result ?? null);
+        }
+      } catch {
+        // Supplementary data; the chart and quote still work without it
+        if (!cancelled) {
+          setData(null);
+        }
+      } finally {
+        if (!cancelled) {
+          setIsLoading(false);
+        }
+      }
+    };
+
+    fetchResource();
+    return () => {
+      cancelled = true;
+    };
+  }, [cacheKey, ttl, enabled, provider]);
+
+  return { data, isLoading };
+}
+
+export default useCachedResource;
@@ -0,0 +1,60 @@
+/**
+ * useCorporateEvents Hook
+ * Fetches earnings, dividend and split events for the events overlay
+ *
+ * Spec 3.7: Events Overlay
+ *
+ * Each event type is fetched on its own, and only while it is shown, since
+ * remote sources spend one call per type. Events change rarely; remote
+ * results are kept for a day.
+ */
+
+import { useMemo } from 'react';
+import type { CorporateEvent, CorporateEventType } from '../types';
+import { CACHE_TTL } from '../api';
+import { useCachedResource } from './useCachedResource';
+
+interface UseCorporateEventsResult {
+  events: CorporateEvent[];
+  isLoading: boolean;
+}
+
+const NO_EVENTS: CorporateEvent[] = [];
+
+/**
+ * Fetch the events of one type while `enabled`
+ */
+function useEventsOfType(symbol: string, type: CorporateEventType, enabled: boolean): UseCorporateEventsResult {
+  const { data, isLoading } = useCachedResource({
+    name: 'events',
+    params: [symbol, type],
+    load: (provider) => provider.getEvents?.(symbol, type),
+    ttl: CACHE_TTL.EVENTS,
+    enabled: enabled && symbol !== '',
+  });
+
+  return { events: data ?? NO_EVENTS, isLoading };
+}
+
+/**
+ * Hook to fetch the corporate events of the visible types for a symbol,
+ * oldest first
+ * Returns no events for providers without `getEvents`
+ */
+export function useCorporateEvents(
+  symbol: string,
+  visibility: Record<CorporateEventType, boolean>
+): UseCorporateEventsResult {
+  const earnings = useEventsOfType(symbol, 'earnings', visibility.earnings);
+  const dividends = useEventsOfType(symbol, 'dividend', visibility.dividend);
+  const splits = useEventsOfType(symbol, 'split', visibility.split);
+
+  const events = useMemo(
+    () => [...earnings.events, ...dividends.events, ...splits.events].sort((a, b) => a.time - b.time),
+    [earnings.events, dividends.events, splits.events]
+  );
+
+  return { events, isLoading: earnings.isLoading || dividends.isLoading || splits.isLoading };
+}
+
+export default useCorporateEvents;
@@ -0,0 +1,36 @@
+/**
+ * useFundamentals Hook
+ * Fetches company fundamentals for the quote details panel
+ *
+ * Spec 3.6.3: Quote Details
+ *
+ * Fundamentals change with quarterly reports; remote results are kept for
+ * a day.
+ */
+
+import type { CompanyFundamentals } from '../types';
+import { CACHE_TTL } from '../api';
+import { useCachedResource } from './useCachedResource';
+
+interface UseFundamentalsResult {
+  fundamentals: CompanyFundamentals | null;
+  isLoading: boolean;
+}
+
+/**
+ * Hook to fetch company fundamentals for a symbol while `enabled`
+ * Returns null for providers without `getFundamentals`
+ */
+export function useFundamentals(symbol: string, enabled = true): UseFundamentalsResult {
+  const { data, isLoading } = useCachedResource({
+    name: 'fundamentals',
+    params: [symbol],
+    load: (provider) => provider.getFundamentals?.(symbol),
+    ttl: CACHE_TTL.FUNDAMENTALS,
+    enabled: enabled && symbol !== '',
+  });
+
+  return { fundamentals: data, isLoading };
+}
+
+export default useFundamentals;
@@ -0,0 +1,79 @@
+/**
+ * usePaneLayout Hook
+ * Manages heights of oscillator panes stacked below the main chart
+ *
+ * TASK-062: Oscillator Indicator Pane
+ */
+
+import { useState, useCallback, useMemo } from 'react';
+
+/** Default height of a newly added pane in pixels */
+export const DEFAULT_PANE_HEIGHT = 120;
+/** Smallest height a pane can be resized to */
+export const MIN_PANE_HEIGHT = 60;
+/** Height always reserved for the main price chart */
+export const MIN_MAIN_CHART_HEIGHT = 200;
+/** Height of the drag handle above each pane */
+export const PANE_HANDLE_HEIGHT = 6;
+
+interface PaneLayout {
+  /** Height of the main price chart */
+  mainHeight: number;
+  /** Height of each pane, keyed by pane id */
+  paneHeights: Record<string, number>;
+  /** Grow (positive delta) or shrink (negative delta) a pane */
+  resizePane: (id: string, delta: number) => void;
+}
+
+/**
+ * Hook to lay out the main chart and a stack of resizable panes
+ * within a container of fixed height.
+ *
+ * Requested pane heights are scaled down proportionally when they do not
+ * fit, so the main chart always keeps at least MIN_MAIN_CHART_HEIGHT.
+ *
+ * @param paneIds - Ids of the panes to lay out, top to bottom
+ * @param containerHeight - Total available height in pixels
+ */
+export function usePaneLayout(paneIds: string[], containerHeight: number): PaneLayout {
+  const [requestedHeights, setRequestedHeights] = useState<Record<string, number>>({});
+
+  const handlesHeight = paneIds.length * PANE_HANDLE_HEIGHT;
+  const availableForPanes = Math.max(
+    0,
+    containerHeight - MIN_MAIN_CHART_HEIGHT - handlesHeight
+  );
+
+  const paneHeights = useMemo(() => {
+    const requested = paneIds.map((id) => requestedHeights[id] ?? DEFAULT_PANE_HEIGHT);
+    const total = requested.reduce((sum, h) => sum + h, 0);
+    const scale = total > availableForPanes && total > 0 ? availableForPanes / total : 1;
+
+    const heights: Record<string, number> = {};
+    paneIds.forEach((id, index) => {
+      heights[id] = Math.max(MIN_PANE_HEIGHT, Math.floor(requested[index] * scale));
+    });
+    return heights;
+  }, [paneIds, requestedHeights, availableForPanes]);
+
+  const totalPaneHeight = Object.values(paneHeights).reduce((sum, h) => sum + h, 0);
+  const mainHeight = Math.max(0, containerHeight - totalPaneHeight - handlesHeight);
+
+  const resizePane = useCallback(
+    (id: string, delta: number) => {
+      const othersHeight = totalPaneHeight - (paneHeights[id] ?? DEFAULT_PANE_HEIGHT);
+      const maxHeight = Math.max(MIN_PANE_HEIGHT, availableForPanes - othersHeight);
+      setRequestedHeights((prev) => {
+        // Start from the pending height, so moves between renders add up
+        const current = Math.min(maxHeight, prev[id] ?? paneHeights[id] ?? DEFAULT_PANE_HEIGHT);
+        const next = Math.min(maxHeight, Math.max(MIN_PANE_HEIGHT, current + delta));
+        return { ...prev, [id]: next };
+      });
+    },
+    [paneHeights, totalPaneHeight, availableForPanes]
+  );
+
+  return { mainHeight, paneHeights, resizePane };
+}
+
+export default usePaneLayout;
@@ -5,156 +5,180 @@
  * TASK-014: Quote Header Component
  * TASK-090: API/Mock Data Switcher Logic
  * TASK-092: Real-time Quote Integration
+ *
+ * The quote is refreshed under the auto-refresh policy (useAutoRefresh).
+ * Providers with a trade stream update the quote on every trade; polling
+ * pauses while the stream is connected.
  */
 
 import { useState, useEffect, useCallback, useRef } from 'react';
-import type { Quote } from '../types';
-import { getMockQuote } from '../api/mockQuotes';
+import type { Quote, StreamTrade } from '../types';
 import {
-  fetchGlobalQuote,
-  transformGlobalQuoteResponse,
   apiCache,
+  getCachedValue,
+  setCachedValue,
   CACHE_TTL,
-  withRetry,
   getUserFriendlyErrorMessage,
   isOnline,
   createOfflineError,
+  mockProvider,
 } from '../api';
 import { useDataSource } from '../context';
+import { applyTradeToQuote } from '../utils/liveUpdates';
+import { getInstrumentCalendar } from '../utils/instruments';
+import { useTradeStream } from './useTradeStream';
+import { useAutoRefresh } from './useAutoRefresh';
 
 interface UseQuoteResult {
   quote: Quote | null;
   isLoading: boolean;
   error: string | null;
+  /** True when showing an expired cached quote (e.g. while offline) */
+  isStale: boolean;
+  /** True while streamed trades keep the quote up to date */
+  isLive: boolean;
   refetch: () => void;
 }
 
-/** Auto-refresh interval in milliseconds */
+/** Default auto-refresh interval in milliseconds */
 const AUTO_REFRESH_INTERVAL = 60000; // 1 minute
 
 /**
  * Hook to fetch quote data for a symbol
- * Uses mock data or API based on data source context
+ * Uses the provider selected in the data source context.
+ * `refreshInterval` is in milliseconds; null turns auto-refresh off.
  */
-export function useQuote(symbol: string, autoRefresh: boolean = true): UseQuoteResult {
-  const { dataSource } = useDataSource();
+export function useQuote(
+  symbol: string,
+  refreshInterval: number | null = AUTO_REFRESH_INTERVAL
+): UseQuoteResult {
+  const { provider } = useDataSource();
   const [quote, setQuote] = useState<Quote | null>(null);
   const [isLoading, setIsLoading] = useState(false);
   const [error, setError] = useState<string | null>(null);
-  const companyNameRef = useRef<string>('');
+  const [isStale, setIsStale] = useState(false);
+  // Latest load and whether it is running; results of loads it superseded
+  // are dropped
+  const loadRef = useRef({ id: 0, pending: false });
 
-  // Store company name when we get it from mock data
-  useEffect(() => {
-    if (quote?.companyName) {
-      companyNameRef.current = quote.companyName;
-    }
-  }, [quote?.companyName]);
+  /**
+   * Load the quote; a silent load keeps showing the current quote meanwhile,
+   * and keeps it without an error if it fails. It leaves a running load
+   * alone.
+   */
+  const fetchQuote = useCallback(async ({ silent = false }: { silent?: boolean } = {}) => {
+    const load = loadRef.current;
+    if (silent && load.pending) return;
+    const loadId = ++load.id;
+    const isCurrent = () => loadId === load.id;
 
-  const fetchQuote = useCallback(async () => {
     if (!symbol) {
+      load.pending = false;
       setQuote(null);
       return;
     }
 
-    setIsLoading(true);
-    setError(null);
+    load.pending = true;
+    if (!silent) {
+      setIsLoading(true);
+      setError(null);
+      setIsStale(false);
+    }
+
+    const showQuote = (next: Quote) => {
+      if (!isCurrent()) return;
+      setError(null);
+      setIsStale(false);
+      setQuote(next);
+    };
+    const cacheKey = apiCache.generateKey('quote', provider.id, symbol);
 
     try {
-      if (dataSource === 'mock') {
-        // Use mock data
-        // Simulate network delay
-        await new Promise(resolve => setTimeout(resolve, 100));
-        const mockQuote = getMockQuote(symbol);
-        setQuote(mockQuote);
+      if (!provider.capabilities.remote) {
+        showQuote(await provider.getQuote(symbol));
       } else {
+        // Check cache first (memory, then IndexedDB)
+        const cached = await getCachedValue<Quote>(cacheKey);
+        if (cached) {
+          showQuote(cached.data);
+          return;
+        }
+
         // Check if offline
         if (!isOnline()) {
           throw createOfflineError();
         }
 
-        // Generate cache key
-        const cacheKey = apiCache.generateKey('quote', symbol);
-        
-        // Check cache first
-        const cachedQuote = apiCache.get<Quote>(cacheKey);
-        if (cachedQuote) {
-          setQuote(cachedQuote);
-          setIsLoading(false);
-          return;
-        }
-
-        // Fetch from API with retry logic
-        const response = await withRetry(() => fetchGlobalQuote(symbol), 2, 1000);
-        
-        // Get company name from mock data if available, or use stored name
-        let companyName = companyNameRef.current;
-        if (!companyName) {
-          try {
-            const mockQuote = getMockQuote(symbol);
-            companyName = mockQuote.companyName;
-          } catch {
-            companyName = symbol; // Use symbol as fallback
-          }
-        }
-        
-        const apiQuote = transformGlobalQuoteResponse(response, companyName);
+        const apiQuote = await provider.getQuote(symbol);
         
         // Cache the result
-        apiCache.set(cacheKey, apiQuote, CACHE_TTL.QUOTE);
+        setCachedValue(cacheKey, apiQuote, CACHE_TTL.QUOTE);
         
-        setQuote(apiQuote);
+        showQuote(apiQuote);
       }
     } catch (err) {
+      // The next tick retries a failed background refresh
+      if (silent || !isCurrent()) return;
       const errorMessage = getUserFriendlyErrorMessage(err);
       setError(errorMessage);
       
-      // On API error, try to fall back to mock data
-      if (dataSource === 'alphavantage') {
+      // On remote provider error, serve an expired cached quote if we have it,
+      // otherwise fall back to mock data
+      const stale = provider.capabilities.remote
+        ? await getCachedValue<Quote>(cacheKey, { allowStale: true })
+        : null;
+      if (!isCurrent()) return;
+      if (stale) {
+        showQuote(stale.data);
+        setIsStale(true);
+        setError(`${errorMessage} Showing cached data.`);
+      } else if (provider.capabilities.remote) {
         try {
-          const mockQuote = getMockQuote(symbol);
-          setQuote(mockQuote);
-          setError(`${errorMessage} Showing mock data.`);
+          const mockQuote = await mockProvider.getQuote(symbol);
+          if (isCurrent()) {
+            showQuote(mockQuote);
+            setError(`${errorMessage} Showing mock data.`);
+          }
         } catch {
-          setQuote(null);
+          if (isCurrent()) {
+            setQuote(null);
+          }
         }
       } else {
         setQuote(null);
       }
     } finally {
-      setIsLoading(false);
+      if (isCurrent()) {
+        load.pending = false;
+        setIsLoading(false);
+      }
     }
-  }, [symbol, dataSource]);
+  }, [symbol, provider]);
+
+  const handleTrade = useCallback((trade: StreamTrade) => {
+    setQuote((prev) => (prev ? applyTradeToQuote(prev, trade, getInstrumentCalendar(prev.symbol)) : prev));
+  }, []);
+  const streamStatus = useTradeStream(symbol, handleTrade);
+  const isLive = streamStatus === 'open';
 
   // Fetch quote on symbol or data source change
   useEffect(() => {
     fetchQuote();
   }, [fetchQuote]);
 
-  // Auto-refresh quote periodically
-  useEffect(() => {
-    if (!autoRefresh || !symbol) {
-      return;
-    }
-
-    // Use different intervals based on data source
-    const refreshInterval = dataSource === 'mock' ? 10000 : AUTO_REFRESH_INTERVAL;
-    
-    const interval = setInterval(() => {
-      // Only refresh if online (for API mode)
-      if (dataSource === 'alphavantage' && !isOnline()) {
-        return;
-      }
-      fetchQuote();
-    }, refreshInterval);
-    
-    return () => clearInterval(interval);
-  }, [fetchQuote, dataSource, autoRefresh, symbol]);
+  // Auto-refresh quote in the background, unless trades keep it current
+  const refresh = useCallback(() => fetchQuote({ silent: true }), [fetchQuote]);
+  useAutoRefresh(refresh, symbol && !isLive ? refreshInterval : null);
 
   return {
     quote,
     isLoading,
     error,
-    refetch: fetchQuote,
+    isStale,
+    isLive,
+    refetch: () => {
+      fetchQuote();
+    },
   };
 }
 
@@ -0,0 +1,29 @@
+/**
+ * useRequestQueue Hook
+ * Subscribes to the active provider's rate-limited request queue
+ */
+
+import { useSyncExternalStore } from 'react';
+import type { RequestQueueState } from '../types';
+import { useDataSource } from '../context';
+
+/** Snapshot used for providers without a request queue */
+const IDLE_QUEUE: RequestQueueState = { queued: 0, inFlight: 0, pausedUntil: null };
+
+const subscribeNoop = () => () => {};
+const getIdleSnapshot = () => IDLE_QUEUE;
+
+/**
+ * Hook returning the queue depth of the selected data source
+ */
+export function useRequestQueue(): RequestQueueState {
+  const { provider } = useDataSource();
+  const queue = provider.requestQueue;
+
+  return useSyncExternalStore(
+    queue ? queue.subscribe : subscribeNoop,
+    queue ? queue.getSnapshot : getIdleSnapshot
+  );
+}
+
+export default useRequestQueue;
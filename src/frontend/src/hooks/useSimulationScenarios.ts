@@ -0,0 +1,23 @@
+/**
+ * useSimulationScenarios Hook
+ * Subscribes to the simulation scenario chosen per symbol for mock data
+ */
+
+import { useSyncExternalStore } from 'react';
+import { getScenarioAssignments, setSymbolScenario, subscribeScenarios } from '../api/simulation';
+
+interface UseSimulationScenariosResult {
+  /** Scenario ids chosen per symbol (upper case); missing symbols use the default */
+  assignments: Readonly<Record<string, string>>;
+  setScenario: (symbol: string, scenarioId: string) => void;
+}
+
+/**
+ * Hook returning the per-symbol scenario choices
+ */
+export function useSimulationScenarios(): UseSimulationScenariosResult {
+  const assignments = useSyncExternalStore(subscribeScenarios, getScenarioAssignments);
+  return { assignments, setScenario: setSymbolScenario };
+}
+
+export default useSimulationScenarios;
@@ -5,49 +5,90 @@
  * TASK-016: Chart Container Component
  * TASK-090: API/Mock Data Switcher Logic
  * TASK-093: Historical Data Integration
+ *
+ * Remote series are cached whole and refreshed incrementally: only the
+ * newest bars are fetched and merged in by time.
+ *
+ * Intervals are fetched at their native source interval and resampled
+ * locally, so e.g. daily, 2D, weekly and monthly share one cached series.
+ * Bars are tagged with their trading session; extended-hours bars are
+ * dropped unless requested. Split- and dividend-adjusted series are
+ * cached separately from raw ones.
+ *
+ * Fetched bars are validated before display; the data quality report
+ * lists dropped bars, gaps, duplicates, zero-volume bars and spikes.
+ *
+ * Mock series are refetched when the symbol's simulation scenario changes.
+ *
+ * Series are refreshed in the background under the auto-refresh policy
+ * (useAutoRefresh). Streamed trades update the forming bar and open new
+ * bars on interval boundaries; custom ranges are historical and stay as
+ * fetched.
  */
 
-import { useState, useEffect, useCallback } from 'react';
-import type { OHLCV, SupportedSymbol } from '../types';
-import type { TimeRange, Interval } from '../types';
-import { getMockStockData } from '../api/mockData';
+import { useState, useEffect, useCallback, useRef } from 'react';
+import type { OHLCV, DataQualityReport, StreamTrade } from '../types';
+import type {
+  TimeRange,
+  Interval,
+  NativeInterval,
+  CustomDateRange,
+  MarketDataProvider,
+  HistoryRequest,
+} from '../types';
 import {
-  fetchIntradayTimeSeries,
-  fetchDailyTimeSeries,
-  fetchWeeklyTimeSeries,
-  fetchMonthlyTimeSeries,
-  transformIntradayResponse,
-  transformDailyResponse,
-  transformWeeklyResponse,
-  transformMonthlyResponse,
   apiCache,
+  getCachedValue,
+  setCachedValue,
   CACHE_TTL,
-  withRetry,
   getUserFriendlyErrorMessage,
   isOnline,
   createOfflineError,
+  mockProvider,
+  mergeOHLCV,
+  sliceToTimeRange,
 } from '../api';
-import type { IntradayInterval } from '../api';
 import { useDataSource } from '../context';
+import { isIntradayInterval, getSourceInterval } from '../utils/intervals';
+import { resampleOHLCV } from '../utils/resample';
+import { classifySessions, filterRegularSession } from '../utils/sessions';
+import { checkDataQuality } from '../utils/dataQuality';
+import { getInstrumentCalendar } from '../utils/instruments';
+import { applyTradeToBars } from '../utils/liveUpdates';
+import { useSimulationScenarios } from './useSimulationScenarios';
+import { useTradeStream } from './useTradeStream';
+import { useAutoRefresh } from './useAutoRefresh';
 
 interface UseStockDataResult {
   data: OHLCV[];
+  /**
+   * Identity of the request `data` was loaded for (provider, symbol,
+   * interval, range, sessions, adjustment and simulation scenario); bars
+   * with the same key are updates of one series
+   */
+  seriesKey: string;
   isLoading: boolean;
   error: string | null;
+  /** True when showing expired cached data (e.g. while offline) */
+  isStale: boolean;
+  /** Issues found in the source bars of `data` */
+  quality: DataQualityReport | null;
   refetch: () => void;
 }
 
 /**
- * Determine if interval is intraday
+ * Cached series for a symbol/interval/range
+ * The watermark is the time of the last bar, used to refresh incrementally
  */
-function isIntradayInterval(interval: Interval): interval is IntradayInterval {
-  return ['1min', '5min', '15min', '30min', '60min'].includes(interval);
+interface CachedSeries {
+  bars: OHLCV[];
+  watermark: number;
 }
 
 /**
  * Get cache TTL based on interval
  */
-function getCacheTTL(interval: Interval): number {
+function getCacheTTL(interval: NativeInterval): number {
   if (isIntradayInterval(interval)) {
     return CACHE_TTL.INTRADAY;
   }
@@ -58,134 +99,226 @@ function getCacheTTL(interval: Interval): number {
 }
 
 /**
- * Fetch stock data from Alpha Vantage API
+ * Bring an expired cached series up to date
+ * Fetches only recent bars and merges them in; falls back to a full fetch
+ * when the provider can't do that or the recent bars leave a gap
  */
-async function fetchFromAPI(
-  symbol: string,
-  interval: Interval,
-  timeRange: TimeRange
+async function refreshSeries(
+  provider: MarketDataProvider,
+  request: HistoryRequest,
+  cached: CachedSeries
 ): Promise<OHLCV[]> {
-  // Determine output size based on time range
-  const outputSize = ['5Y', 'MAX'].includes(timeRange) ? 'full' : 'compact';
-
-  if (isIntradayInterval(interval)) {
-    const response = await fetchIntradayTimeSeries(symbol, interval, outputSize);
-    return transformIntradayResponse(response, interval);
-  }
-
-  if (interval === 'daily') {
-    const response = await fetchDailyTimeSeries(symbol, outputSize);
-    return transformDailyResponse(response);
+  // A new split or dividend re-adjusts all older bars, so adjusted series
+  // are always refetched whole
+  if (!provider.getLatestHistory || cached.bars.length === 0 || request.adjusted) {
+    return provider.getHistory(request);
   }
 
-  if (interval === 'weekly') {
-    const response = await fetchWeeklyTimeSeries(symbol);
-    return transformWeeklyResponse(response);
+  const latest = await provider.getLatestHistory(request, cached.watermark);
+  if (latest.length === 0 || latest[0].time > cached.watermark) {
+    return provider.getHistory(request);
   }
 
-  if (interval === 'monthly') {
-    const response = await fetchMonthlyTimeSeries(symbol);
-    return transformMonthlyResponse(response);
-  }
-
-  // Fallback to daily
-  const response = await fetchDailyTimeSeries(symbol, outputSize);
-  return transformDailyResponse(response);
+  // Drop bars that have scrolled out of the selected range
+  return sliceToTimeRange(
+    mergeOHLCV(cached.bars, latest),
+    request.timeRange,
+    request.customRange,
+    getInstrumentCalendar(request.symbol)
+  );
 }
 
 /**
  * Hook to fetch OHLCV stock data for charting
- * Uses mock data or API based on data source context
+ * Uses the provider selected in the data source context.
+ * `refreshInterval` is in milliseconds; null turns auto-refresh off.
  */
 export function useStockData(
   symbol: string,
   timeRange: TimeRange,
-  interval: Interval
+  interval: Interval,
+  customRange: CustomDateRange | null = null,
+  includeExtendedHours: boolean = false,
+  adjustedPrices: boolean = false,
+  refreshInterval: number | null = null
 ): UseStockDataResult {
-  const { dataSource } = useDataSource();
+  const { provider } = useDataSource();
   const [data, setData] = useState<OHLCV[]>([]);
+  const [seriesKey, setSeriesKey] = useState('');
   const [isLoading, setIsLoading] = useState(false);
   const [error, setError] = useState<string | null>(null);
+  const [isStale, setIsStale] = useState(false);
+  const [quality, setQuality] = useState<DataQualityReport | null>(null);
+  // Latest load and whether it is running; results of loads it superseded
+  // are dropped
+  const loadRef = useRef({ id: 0, pending: false });
+  const { assignments } = useSimulationScenarios();
+  const scenarioId = provider.capabilities.remote ? undefined : assignments[symbol.toUpperCase()];
+
+  /**
+   * Load the series; a silent load keeps showing the current bars meanwhile,
+   * and keeps them without an error if it fails. It leaves a running load
+   * alone.
+   */
+  const fetchData = useCallback(async ({ silent = false }: { silent?: boolean } = {}) => {
+    const load = loadRef.current;
+    if (silent && load.pending) return;
+    const loadId = ++load.id;
+    const isCurrent = () => loadId === load.id;
 
-  const fetchData = useCallback(async () => {
     if (!symbol) {
+      load.pending = false;
       setData([]);
+      setQuality(null);
       return;
     }
 
-    setIsLoading(true);
-    setError(null);
+    load.pending = true;
+    if (!silent) {
+      setIsLoading(true);
+      setError(null);
+      setIsStale(false);
+    }
+
+    const sourceInterval = getSourceInterval(interval);
+    const isIntraday = isIntradayInterval(sourceInterval);
+    // Crypto and FX pairs trade on their own 24-hour calendars
+    const calendar = getInstrumentCalendar(symbol);
+    const toInterval = (bars: OHLCV[]) => {
+      const classified = isIntraday ? classifySessions(bars, calendar) : bars;
+      const sessionBars = includeExtendedHours ? classified : filterRegularSession(classified);
+      return sourceInterval === interval ? sessionBars : resampleOHLCV(sessionBars, interval, calendar);
+    };
+
+    const adjusted = adjustedPrices && provider.capabilities.adjusted;
+    const request = { symbol, timeRange, interval: sourceInterval, customRange, adjusted };
+    const rangeKey = timeRange === 'CUSTOM' && customRange
+      ? `${customRange.startDate}_${customRange.endDate}`
+      : undefined;
+    const requestKey = [
+      provider.id,
+      symbol,
+      interval,
+      timeRange,
+      rangeKey,
+      includeExtendedHours ? 'extended' : 'regular',
+      adjusted ? 'adjusted' : 'raw',
+      scenarioId,
+    ].join('|');
+    const showBars = (bars: OHLCV[]) => {
+      if (!isCurrent()) return;
+      setError(null);
+      setIsStale(false);
+      const { bars: validBars, report } = checkDataQuality(bars, sourceInterval, calendar);
+      setQuality(report);
+      setData(toInterval(validBars));
+      setSeriesKey(requestKey);
+    };
+    const cacheKey = apiCache.generateKey(
+      adjusted ? 'stockSeriesAdjusted' : 'stockSeries',
+      provider.id,
+      symbol,
+      sourceInterval,
+      timeRange,
+      rangeKey
+    );
 
     try {
-      if (dataSource === 'mock') {
-        // Simulate network delay
-        await new Promise(resolve => setTimeout(resolve, 200));
-        
-        // Get mock data
-        const supportedSymbol = symbol.toUpperCase() as SupportedSymbol;
-        const mockData = getMockStockData(supportedSymbol, timeRange, interval);
-        setData(mockData);
+      if (!provider.capabilities.remote) {
+        showBars(await provider.getHistory(request));
       } else {
+        // Check cache first (memory, then IndexedDB)
+        const cached = await getCachedValue<CachedSeries>(cacheKey, { allowStale: true });
+        if (cached && !cached.stale) {
+          showBars(cached.data.bars);
+          return;
+        }
+
         // Check if offline
         if (!isOnline()) {
           throw createOfflineError();
         }
 
-        // Generate cache key
-        const cacheKey = apiCache.generateKey('stockData', symbol, interval, timeRange);
-        
-        // Check cache first
-        const cachedData = apiCache.get<OHLCV[]>(cacheKey);
-        if (cachedData) {
-          setData(cachedData);
-          setIsLoading(false);
-          return;
-        }
-
-        // Fetch from API with retry logic
-        const apiData = await withRetry(() => fetchFromAPI(symbol, interval, timeRange), 2, 1000);
+        const apiData = cached
+          ? await refreshSeries(provider, request, cached.data)
+          : await provider.getHistory(request);
         
         // Cache the result
-        const ttl = getCacheTTL(interval);
-        apiCache.set(cacheKey, apiData, ttl);
+        const ttl = getCacheTTL(sourceInterval);
+        const watermark = apiData.length > 0 ? apiData[apiData.length - 1].time : 0;
+        setCachedValue<CachedSeries>(cacheKey, { bars: apiData, watermark }, ttl);
         
-        setData(apiData);
+        showBars(apiData);
       }
     } catch (err) {
+      // The next tick retries a failed background refresh
+      if (silent || !isCurrent()) return;
       const errorMessage = getUserFriendlyErrorMessage(err);
       setError(errorMessage);
       
-      // On API error, try to fall back to mock data
-      if (dataSource === 'alphavantage') {
+      // On remote provider error, serve expired cached data if we have it,
+      // otherwise fall back to mock data
+      const stale = provider.capabilities.remote
+        ? await getCachedValue<CachedSeries>(cacheKey, { allowStale: true })
+        : null;
+      if (!isCurrent()) return;
+      if (stale) {
+        showBars(stale.data.bars);
+        setIsStale(true);
+        setError(`${errorMessage} Showing cached data.`);
+      } else if (provider.capabilities.remote) {
         try {
-          const supportedSymbol = symbol.toUpperCase() as SupportedSymbol;
-          const mockData = getMockStockData(supportedSymbol, timeRange, interval);
-          if (mockData.length > 0) {
-            setData(mockData);
+          const mockData = await mockProvider.getHistory(request);
+          if (mockData.length > 0 && isCurrent()) {
+            showBars(mockData);
             setError(`${errorMessage} Showing mock data.`);
           }
         } catch {
           // Mock data not available for this symbol
-          setData([]);
+          if (isCurrent()) {
+            setData([]);
+            setQuality(null);
+          }
         }
       } else {
         setData([]);
+        setQuality(null);
       }
     } finally {
-      setIsLoading(false);
+      if (isCurrent()) {
+        load.pending = false;
+        setIsLoading(false);
+      }
     }
-  }, [symbol, timeRange, interval, dataSource]);
+  }, [symbol, timeRange, interval, customRange, includeExtendedHours, adjustedPrices, provider, scenarioId]);
 
-  // Fetch data when parameters change
+  // Fetch data when parameters or the simulation scenario change
   useEffect(() => {
     fetchData();
   }, [fetchData]);
 
+  const handleTrade = useCallback((trade: StreamTrade) => {
+    setData((prev) =>
+      applyTradeToBars(prev, trade, interval, getInstrumentCalendar(symbol), includeExtendedHours)
+    );
+  }, [symbol, interval, includeExtendedHours]);
+  // Bars of the previous symbol or interval stay shown while loading
+  const streamStatus = useTradeStream(symbol, handleTrade, timeRange !== 'CUSTOM' && !isLoading);
+
+  // Auto-refresh in the background, unless trades keep the bars current
+  const refresh = useCallback(() => fetchData({ silent: true }), [fetchData]);
+  useAutoRefresh(refresh, symbol && streamStatus !== 'open' ? refreshInterval : null);
+
   return {
     data,
+    seriesKey,
     isLoading,
     error,
-    refetch: fetchData,
+    isStale,
+    quality,
+    refetch: () => {
+      fetchData();
+    },
   };
 }
 
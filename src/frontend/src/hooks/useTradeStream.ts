@@ -0,0 +1,71 @@
+/**
+ * useTradeStream Hook
+ * Subscribes to live trades of a symbol from the selected data source
+ *
+ * Trades are handed over once per animation frame, so a burst of trades
+ * renders once.
+ */
+
+import { useEffect, useRef, useSyncExternalStore } from 'react';
+import type { StreamTrade, TradeStreamState, TradeStreamStatus } from '../types';
+import { useDataSource } from '../context';
+
+/** Snapshot used for providers without a trade stream */
+const NO_STREAM: TradeStreamState = { status: 'idle' };
+
+const subscribeNoop = () => () => {};
+const getIdleSnapshot = () => NO_STREAM;
+
+/**
+ * Hook calling `onTrade` for every streamed trade of `symbol`
+ * Returns the stream's connection status; 'idle' when the provider has no
+ * stream or `enabled` is false.
+ */
+export function useTradeStream(
+  symbol: string,
+  onTrade: (trade: StreamTrade) => void,
+  enabled: boolean = true
+): TradeStreamStatus {
+  const { provider } = useDataSource();
+  const stream = enabled && symbol ? provider.tradeStream : undefined;
+
+  // Keep the latest callback without resubscribing
+  const onTradeRef = useRef(onTrade);
+  useEffect(() => {
+    onTradeRef.current = onTrade;
+  }, [onTrade]);
+
+  useEffect(() => {
+    if (!stream) return;
+
+    let pending: StreamTrade[] = [];
+    let frame: number | null = null;
+    const flush = () => {
+      frame = null;
+      const trades = pending;
+      pending = [];
+      trades.forEach((trade) => onTradeRef.current(trade));
+    };
+
+    const unsubscribe = stream.subscribeTrades(symbol, (trade) => {
+      pending.push(trade);
+      if (frame === null) {
+        frame = requestAnimationFrame(flush);
+      }
+    });
+    return () => {
+      unsubscribe();
+      if (frame !== null) {
+        cancelAnimationFrame(frame);
+      }
+    };
+  }, [stream, symbol]);
+
+  const { status } = useSyncExternalStore(
+    stream ? stream.subscribe : subscribeNoop,
+    stream ? stream.getSnapshot : getIdleSnapshot
+  );
+  return stream ? status : 'idle';
+}
+
+export default useTradeStream;
@@ -3,6 +3,8 @@
  * Defines chart visualization options and settings
  */
 
+import type { CorporateEventType } from './stock';
+
 /**
  * Available chart types
  */
@@ -25,24 +27,39 @@ export interface ChartTypeConfig {
   description: string;
 }
 
+/**
+ * Predefined time ranges
+ */
+export type PresetTimeRange = '1D' | '5D' | '1M' | '6M' | 'YTD' | '1Y' | '5Y' | 'MAX';
+
 /**
  * Available time ranges
+ * 'CUSTOM' uses the start/end dates in ChartState.customRange
  */
-export type TimeRange = '1D' | '5D' | '1M' | '6M' | 'YTD' | '1Y' | '5Y' | 'MAX';
+export type TimeRange = PresetTimeRange | 'CUSTOM';
+
+/**
+ * User-selected date range (DR-01)
+ * Dates are calendar days in YYYY-MM-DD form, both inclusive
+ */
+export interface CustomDateRange {
+  startDate: string;
+  endDate: string;
+}
 
 /**
  * Time range configuration
  */
 export interface TimeRangeConfig {
-  range: TimeRange;
+  range: PresetTimeRange;
   label: string;
   days: number; // Number of days for the range (-1 for MAX)
 }
 
 /**
- * Available data intervals
+ * Intervals served natively by data providers
  */
-export type Interval =
+export type NativeInterval =
   | '1min'
   | '5min'
   | '15min'
@@ -52,6 +69,21 @@ export type Interval =
   | 'weekly'
   | 'monthly';
 
+/**
+ * Unit of a resampled interval: minutes, hours, trading days, weeks, months
+ */
+export type IntervalUnit = 'min' | 'h' | 'D' | 'W' | 'M';
+
+/**
+ * Interval aggregated client-side from a finer native series (e.g. '2h', '3M')
+ */
+export type CustomInterval = `${number}${IntervalUnit}`;
+
+/**
+ * Available data intervals
+ */
+export type Interval = NativeInterval | CustomInterval;
+
 /**
  * Interval configuration with display info
  */
@@ -63,9 +95,47 @@ export interface IntervalConfig {
 }
 
 /**
- * Data source options
+ * Timezone used for time-axis labels, the legend and session boundaries
+ * 'exchange' is the listing exchange's zone (US/Eastern)
+ */
+export type DisplayTimeZone = 'exchange' | 'local' | 'UTC';
+
+/**
+ * Display timezone configuration with display info
+ */
+export interface DisplayTimeZoneConfig {
+  value: DisplayTimeZone;
+  label: string;
+}
+
+/**
+ * Seconds between automatic refreshes of quote and chart data (spec 3.8.3)
+ */
+export type RefreshInterval = 5 | 15 | 30 | 60;
+
+/**
+ * Refresh interval configuration with display info
+ */
+export interface RefreshIntervalConfig {
+  value: RefreshInterval;
+  label: string;
+}
+
+/**
+ * Event marker configuration with display info
+ */
+export interface EventTypeConfig {
+  type: CorporateEventType;
+  label: string;
+  /** Letter drawn on the chart marker */
+  marker: string;
+}
+
+/**
+ * Data source identifier
+ * Id of a registered MarketDataProvider (e.g. 'mock', 'alphavantage')
  */
-export type DataSource = 'mock' | 'alphavantage';
+export type DataSource = string;
 
 /**
  * Chart state shape for context
@@ -74,8 +144,22 @@ export interface ChartState {
   symbol: string;
   companyName: string;
   timeRange: TimeRange;
+  /** Dates for the 'CUSTOM' time range */
+  customRange: CustomDateRange | null;
   interval: Interval;
+  /** Intervals added by the user, on top of INTERVALS */
+  customIntervals: CustomInterval[];
   chartType: ChartType;
+  displayTimeZone: DisplayTimeZone;
+  /** Include pre-market and after-hours bars on intraday charts */
+  showExtendedHours: boolean;
+  /** Show split- and dividend-adjusted prices instead of raw prices */
+  adjustedPrices: boolean;
+  /** Event marker types shown on the price chart */
+  eventVisibility: Record<CorporateEventType, boolean>;
+  /** Refresh the quote and chart bars periodically */
+  autoRefresh: boolean;
+  refreshInterval: RefreshInterval;
   isLoading: boolean;
   error: string | null;
   dataSource: DataSource;
@@ -86,9 +170,18 @@ export interface ChartState {
  */
 export type ChartAction =
   | { type: 'SET_SYMBOL'; payload: { symbol: string; companyName: string } }
-  | { type: 'SET_TIME_RANGE'; payload: TimeRange }
+  | { type: 'SET_TIME_RANGE'; payload: PresetTimeRange }
+  | { type: 'SET_CUSTOM_RANGE'; payload: CustomDateRange }
   | { type: 'SET_INTERVAL'; payload: Interval }
+  | { type: 'ADD_CUSTOM_INTERVAL'; payload: CustomInterval }
+  | { type: 'REMOVE_CUSTOM_INTERVAL'; payload: CustomInterval }
   | { type: 'SET_CHART_TYPE'; payload: ChartType }
+  | { type: 'SET_DISPLAY_TIMEZONE'; payload: DisplayTimeZone }
+  | { type: 'SET_EXTENDED_HOURS'; payload: boolean }
+  | { type: 'SET_ADJUSTED_PRICES'; payload: boolean }
+  | { type: 'SET_EVENT_VISIBILITY'; payload: { eventType: CorporateEventType; visible: boolean } }
+  | { type: 'SET_AUTO_REFRESH'; payload: boolean }
+  | { type: 'SET_REFRESH_INTERVAL'; payload: RefreshInterval }
   | { type: 'SET_LOADING'; payload: boolean }
   | { type: 'SET_ERROR'; payload: string | null }
   | { type: 'SET_DATA_SOURCE'; payload: DataSource };
@@ -106,6 +199,34 @@ export const CHART_TYPES: ChartTypeConfig[] = [
   { type: 'baseline', label: 'Baseline', description: 'Price relative to baseline with two-tone coloring' },
 ];
 
+/**
+ * Display timezone options
+ */
+export const DISPLAY_TIMEZONES: DisplayTimeZoneConfig[] = [
+  { value: 'exchange', label: 'Exchange (ET)' },
+  { value: 'local', label: 'Local' },
+  { value: 'UTC', label: 'UTC' },
+];
+
+/**
+ * Auto-refresh interval options (spec 3.8.3)
+ */
+export const REFRESH_INTERVALS: RefreshIntervalConfig[] = [
+  { value: 5, label: '5s' },
+  { value: 15, label: '15s' },
+  { value: 30, label: '30s' },
+  { value: 60, label: '60s' },
+];
+
+/**
+ * Corporate event marker types (spec 3.7)
+ */
+export const EVENT_TYPES: EventTypeConfig[] = [
+  { type: 'earnings', label: 'Earnings', marker: 'E' },
+  { type: 'dividend', label: 'Dividends', marker: 'D' },
+  { type: 'split', label: 'Splits', marker: 'S' },
+];
+
 /**
  * Predefined time range configurations
  */
@@ -122,36 +243,43 @@ export const TIME_RANGES: TimeRangeConfig[] = [
 
 /**
  * Predefined interval configurations
+ * Intervals that aren't native are resampled from a finer series
  */
 export const INTERVALS: IntervalConfig[] = [
   { interval: '1min', label: '1 Min', minutes: 1, isIntraday: true },
+  { interval: '2min', label: '2 Min', minutes: 2, isIntraday: true },
   { interval: '5min', label: '5 Min', minutes: 5, isIntraday: true },
+  { interval: '10min', label: '10 Min', minutes: 10, isIntraday: true },
   { interval: '15min', label: '15 Min', minutes: 15, isIntraday: true },
   { interval: '30min', label: '30 Min', minutes: 30, isIntraday: true },
   { interval: '60min', label: '1 Hour', minutes: 60, isIntraday: true },
+  { interval: '2h', label: '2 Hours', minutes: 120, isIntraday: true },
+  { interval: '4h', label: '4 Hours', minutes: 240, isIntraday: true },
   { interval: 'daily', label: 'Daily', minutes: -1, isIntraday: false },
+  { interval: '2D', label: '2 Days', minutes: -1, isIntraday: false },
   { interval: 'weekly', label: 'Weekly', minutes: -1, isIntraday: false },
   { interval: 'monthly', label: 'Monthly', minutes: -1, isIntraday: false },
+  { interval: '3M', label: 'Quarterly', minutes: -1, isIntraday: false },
 ];
 
 /**
  * Valid intervals for each time range
  */
-export const TIME_RANGE_INTERVALS: Record<TimeRange, Interval[]> = {
-  '1D': ['1min', '5min', '15min', '30min', '60min'],
-  '5D': ['5min', '15min', '30min', '60min'],
-  '1M': ['15min', '30min', '60min', 'daily'],
-  '6M': ['daily', 'weekly'],
-  'YTD': ['daily', 'weekly'],
-  '1Y': ['daily', 'weekly'],
-  '5Y': ['daily', 'weekly', 'monthly'],
-  'MAX': ['daily', 'weekly', 'monthly'],
+export const TIME_RANGE_INTERVALS: Record<PresetTimeRange, Interval[]> = {
+  '1D': ['1min', '2min', '5min', '10min', '15min', '30min', '60min'],
+  '5D': ['5min', '10min', '15min', '30min', '60min', '2h'],
+  '1M': ['15min', '30min', '60min', '2h', '4h', 'daily'],
+  '6M': ['daily', '2D', 'weekly'],
+  'YTD': ['daily', '2D', 'weekly'],
+  '1Y': ['daily', '2D', 'weekly'],
+  '5Y': ['daily', 'weekly', 'monthly', '3M'],
+  'MAX': ['daily', 'weekly', 'monthly', '3M'],
 };
 
 /**
  * Default interval for each time range
  */
-export const DEFAULT_INTERVALS: Record<TimeRange, Interval> = {
+export const DEFAULT_INTERVALS: Record<PresetTimeRange, Interval> = {
   '1D': '5min',
   '5D': '15min',
   '1M': '60min',
@@ -0,0 +1,70 @@
+/**
+ * Data Quality Types
+ * Problems found in a fetched OHLCV series
+ */
+
+import type { OHLCV } from './stock';
+
+/**
+ * Why a bar was dropped from a series
+ */
+export type InvalidBarReason =
+  | 'invalid-time'
+  | 'invalid-number'
+  | 'high-below-low'
+  | 'high-below-body'
+  | 'low-above-body'
+  | 'negative-volume';
+
+export type DataQualityIssueType = 'dropped' | 'gap' | 'duplicate' | 'zero-volume' | 'spike';
+
+interface DataQualityIssueBase {
+  type: DataQualityIssueType;
+  /** Time of the affected bar (NaN for bars without a valid time) */
+  time: number;
+}
+
+/** Bar removed because its values are inconsistent */
+export interface DroppedBarIssue extends DataQualityIssueBase {
+  type: 'dropped';
+  bar: OHLCV;
+  reasons: InvalidBarReason[];
+}
+
+/** Bars missing between `time` and `endTime` */
+export interface GapIssue extends DataQualityIssueBase {
+  type: 'gap';
+  endTime: number;
+  /** Expected bars missing in between (estimated for whole sessions) */
+  missingBars: number;
+}
+
+/** Several bars sharing one timestamp; the last one is kept */
+export interface DuplicateIssue extends DataQualityIssueBase {
+  type: 'duplicate';
+  count: number;
+}
+
+export interface ZeroVolumeIssue extends DataQualityIssueBase {
+  type: 'zero-volume';
+}
+
+/** Move far outside the series' typical bar-to-bar range */
+export interface SpikeIssue extends DataQualityIssueBase {
+  type: 'spike';
+  /** Largest move from the previous close, as a fraction */
+  change: number;
+}
+
+export type DataQualityIssue = DroppedBarIssue | GapIssue | DuplicateIssue | ZeroVolumeIssue | SpikeIssue;
+
+/**
+ * Data quality report of one series
+ */
+export interface DataQualityReport {
+  /** Bars received, including dropped ones */
+  totalBars: number;
+  /** Issues ordered by time */
+  issues: DataQualityIssue[];
+  counts: Record<DataQualityIssueType, number>;
+}
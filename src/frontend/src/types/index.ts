@@ -6,3 +6,6 @@
 export * from './stock';
 export * from './chart';
 export * from './indicators';
+export * from './provider';
+export * from './dataQuality';
+export * from './simulation';
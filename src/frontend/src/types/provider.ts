@@ -0,0 +1,208 @@
+/**
+ * Market Data Provider Types
+ * Contract implemented by every data source (mock, Alpha Vantage, vendors)
+ */
+
+import type {
+  OHLCV,
+  Quote,
+  SymbolSearchResult,
+  CorporateEvent,
+  CorporateEventType,
+  CompanyFundamentals,
+} from './stock';
+import type { TimeRange, NativeInterval, CustomDateRange } from './chart';
+
+/**
+ * Parameters for a historical OHLCV request
+ */
+export interface HistoryRequest {
+  symbol: string;
+  timeRange: TimeRange;
+  /** Resampled intervals are requested at their native source interval */
+  interval: NativeInterval;
+  /** Required when timeRange is 'CUSTOM' */
+  customRange?: CustomDateRange | null;
+  /** Split- and dividend-adjusted prices; ignored without `capabilities.adjusted` */
+  adjusted?: boolean;
+}
+
+/**
+ * Features supported by a provider
+ */
+export interface ProviderCapabilities {
+  /** Provider serves intraday (minute/hour) bars */
+  intraday: boolean;
+  /** Native intervals the provider can serve */
+  intervals: NativeInterval[];
+  /** Provider serves split- and dividend-adjusted history */
+  adjusted: boolean;
+  /** Provider implements its own symbol search */
+  search: boolean;
+  /** Provider needs an API key to work */
+  requiresApiKey: boolean;
+  /**
+   * Data is fetched over the network. Remote providers are cached,
+   * checked for connectivity and fall back to mock data on errors.
+   */
+  remote: boolean;
+}
+
+/**
+ * Scheduling priority for outgoing requests
+ * 'high' is used for the quote and the visible chart series
+ */
+export type RequestPriority = 'high' | 'normal' | 'low';
+
+/**
+ * Snapshot of a provider's request queue
+ */
+export interface RequestQueueState {
+  /** Requests waiting for a rate-limit token */
+  queued: number;
+  /** Requests currently on the wire */
+  inFlight: number;
+  /** Epoch ms until which requests are held after a rate-limit error */
+  pausedUntil: number | null;
+}
+
+/**
+ * Calls a provider can still make before hitting its rate limits
+ */
+export interface RequestBudget {
+  /** Calls that can leave right away in the current window */
+  available: number;
+  /** Calls allowed per window */
+  capacity: number;
+  /** Calls left today, or null when the provider has no daily cap */
+  remainingToday: number | null;
+  /** Calls allowed per day, or null when uncapped */
+  dailyLimit: number | null;
+}
+
+/**
+ * Observable request queue, compatible with useSyncExternalStore
+ */
+export interface RequestQueueSource {
+  subscribe(listener: () => void): () => void;
+  getSnapshot(): RequestQueueState;
+  /** Current call budget; read on demand, as it refills without notifying */
+  getBudget(): RequestBudget;
+}
+
+/**
+ * Health of an API key, as last seen by a test call or a real request
+ * - unverified: added but not used yet
+ * - rate-limited: over its call budget until `rateLimitedUntil`
+ */
+export type ApiKeyStatus = 'unverified' | 'valid' | 'invalid' | 'rate-limited';
+
+/**
+ * An API key configured for a provider
+ */
+export interface ApiKeyEntry {
+  key: string;
+  /** 'env' keys come from the build (.env) and cannot be removed */
+  source: 'user' | 'env';
+  status: ApiKeyStatus;
+  /** Epoch ms until which the key is skipped after a rate-limit error */
+  rateLimitedUntil: number | null;
+  /** Last error reported for the key */
+  message?: string;
+}
+
+/**
+ * Snapshot of a provider's API keys
+ */
+export interface ApiKeyRingState {
+  /** Keys in rotation order */
+  keys: ApiKeyEntry[];
+  /** Key the next request will use, if any */
+  activeKey: string | null;
+  /** Requests fail without a key (false e.g. against a local stub server) */
+  required: boolean;
+}
+
+/**
+ * Observable set of API keys, compatible with useSyncExternalStore
+ */
+export interface ApiKeySource {
+  subscribe(listener: () => void): () => void;
+  getSnapshot(): ApiKeyRingState;
+  /** Add a key (no-op for duplicates) */
+  add(key: string): void;
+  /** Remove a user key */
+  remove(key: string): void;
+  /** Check a key with a test call and record the outcome */
+  validate(key: string): Promise<ApiKeyEntry>;
+}
+
+/**
+ * A trade from a streaming feed
+ */
+export interface StreamTrade {
+  symbol: string;
+  price: number;
+  /** Shares or units traded */
+  volume: number;
+  /** Trade time, epoch ms */
+  timestamp: number;
+}
+
+/**
+ * Connection state of a trade stream
+ * 'idle' without subscribers; 'closed' while waiting to reconnect
+ */
+export type TradeStreamStatus = 'idle' | 'connecting' | 'open' | 'closed';
+
+/**
+ * Snapshot of a trade stream
+ */
+export interface TradeStreamState {
+  status: TradeStreamStatus;
+}
+
+/**
+ * Streaming trade channel; the status is compatible with useSyncExternalStore
+ */
+export interface TradeStreamSource {
+  subscribe(listener: () => void): () => void;
+  getSnapshot(): TradeStreamState;
+  /** Receive trades of a symbol; returns the unsubscribe function */
+  subscribeTrades(symbol: string, listener: (trade: StreamTrade) => void): () => void;
+}
+
+/**
+ * Market data provider
+ * Implementations map vendor responses to the app's domain types
+ */
+export interface MarketDataProvider {
+  /** Unique id, persisted as the selected data source */
+  id: string;
+  /** Display name for the data source selector */
+  label: string;
+  /** Short description shown as a tooltip */
+  description: string;
+  capabilities: ProviderCapabilities;
+  /** Fetch historical bars, oldest first */
+  getHistory(request: HistoryRequest): Promise<OHLCV[]>;
+  /**
+   * Fetch only recent bars, at least those from `since` (Unix seconds) on.
+   * Used to refresh a cached series; omit to always refetch the full history.
+   */
+  getLatestHistory?(request: HistoryRequest, since: number): Promise<OHLCV[]>;
+  /** Fetch the latest quote for a symbol */
+  getQuote(symbol: string): Promise<Quote>;
+  /** Search symbols by ticker or company name */
+  searchSymbols(query: string): Promise<SymbolSearchResult[]>;
+  /** Fetch earnings, dividends or splits, oldest first; omit if unsupported */
+  getEvents?(symbol: string, type: CorporateEventType): Promise<CorporateEvent[]>;
+  /** Fetch company fundamentals (market cap, P/E, EPS, ...); omit if unsupported */
+  getFundamentals?(symbol: string): Promise<CompanyFundamentals>;
+  /** Rate-limited request queue, for providers with a call budget */
+  requestQueue?: RequestQueueSource;
+  /** User-managed API keys, for providers with `capabilities.requiresApiKey` */
+  apiKeys?: ApiKeySource;
+  /** Live trades, to update the quote and the forming bar between fetches */
+  tradeStream?: TradeStreamSource;
+}
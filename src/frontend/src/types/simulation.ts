@@ -0,0 +1,96 @@
+/**
+ * Market Simulation Types
+ * Price models and scripted scenarios driving the mock data
+ */
+
+/**
+ * Return process of a simulated price path
+ * - gbm: geometric Brownian motion (constant volatility)
+ * - jump-diffusion: GBM plus occasional Poisson jumps (Merton)
+ * - garch: GARCH(1,1) volatility clustering
+ */
+export type SimulationModel = 'gbm' | 'jump-diffusion' | 'garch';
+
+/**
+ * Parameters of the return process
+ * Volatility is relative to the instrument's own daily volatility.
+ */
+export interface SimulationParams {
+  /** Annualized drift, e.g. 0.08 for +8% a year */
+  drift: number;
+  /** Multiplier on the instrument's daily volatility */
+  volatilityScale: number;
+  /** Expected jumps per trading day (jump-diffusion) */
+  jumpsPerDay?: number;
+  /** Mean jump size as a log return (jump-diffusion) */
+  jumpMean?: number;
+  /** Jump size standard deviation as a log return (jump-diffusion) */
+  jumpStdDev?: number;
+  /** Weight of the latest shock in the variance (garch) */
+  garchAlpha?: number;
+  /** Persistence of the variance (garch); alpha + beta must stay below 1 */
+  garchBeta?: number;
+}
+
+/**
+ * Overnight gaps between sessions
+ */
+export interface GapParams {
+  /** Chance that a session opens away from the previous close */
+  probability: number;
+  /** Gap size standard deviation, in daily volatilities */
+  stdDev: number;
+}
+
+/**
+ * Scripted event at a session of the simulated path
+ * Scenarios drive the daily path that every interval is cut from, so `bar`
+ * counts trading sessions from the first; negative values count back from
+ * the latest session (-1 is the latest).
+ */
+export type ScenarioEvent =
+  | {
+      /**
+       * Sudden drop (negative magnitude: spike up), partly recovered
+       * The drop is part of the session's open-to-close move; intraday charts show
+       * it spread over that session's minutes, not as a one-minute plunge.
+       */
+      type: 'crash';
+      bar: number;
+      /** Fraction of the price lost, e.g. 0.1 for -10% */
+      magnitude: number;
+      /** Sessions the rebound is spread over */
+      recoveryBars: number;
+      /** Fraction of the loss regained, 0-1 */
+      recovery: number;
+    }
+  | {
+      /** Open away from the previous close, e.g. after news */
+      type: 'gap';
+      bar: number;
+      /** Gap as a fraction of the price, e.g. 0.08 for +8% */
+      magnitude: number;
+    }
+  | {
+      /** Temporary change of drift and volatility */
+      type: 'regime';
+      bar: number;
+      bars: number;
+      drift: number;
+      volatilityScale: number;
+    };
+
+export type ScenarioEventType = ScenarioEvent['type'];
+
+/**
+ * Named simulation setup selectable per symbol
+ */
+export interface SimulationScenario {
+  id: string;
+  label: string;
+  description: string;
+  model: SimulationModel;
+  params: SimulationParams;
+  gaps: GapParams;
+  events: ScenarioEvent[];
+}
@@ -3,6 +3,30 @@
  * Core interfaces for stock market data
  */
 
+/**
+ * Trading session a bar belongs to
+ * Pre-market and after-hours bars make up the extended session
+ */
+export type MarketSession = 'pre' | 'regular' | 'post';
+
+/**
+ * Kind of instrument a symbol refers to
+ * Crypto and FX pairs are written BASE/QUOTE, e.g. BTC/USD or EUR/USD
+ */
+export type AssetClass = 'equity' | 'crypto' | 'forex';
+
+/**
+ * Parsed symbol
+ */
+export interface Instrument {
+  symbol: string;
+  assetClass: AssetClass;
+  /** Traded asset: the ticker, or the pair's base currency */
+  base: string;
+  /** Currency prices are quoted in */
+  quoteCurrency: string;
+}
+
 /**
  * OHLCV (Open, High, Low, Close, Volume) data point
  * Represents a single candlestick/bar in a chart
@@ -14,8 +38,76 @@ export interface OHLCV {
   low: number;
   close: number;
   volume: number;
+  /** Session of intraday bars, set by classifySessions */
+  session?: MarketSession;
+}
+
+/**
+ * Corporate action affecting historical prices
+ * Splits and cash dividends take effect at the open of their ex-date bar.
+ */
+export type CorporateActionType = 'split' | 'dividend';
+
+/**
+ * Split or dividend on an ex-date
+ */
+export interface CorporateAction {
+  /** Time of the first bar trading ex-action (Unix seconds) */
+  time: number;
+  type: CorporateActionType;
+  /** Split ratio (new shares per old share) or cash dividend per share */
+  value: number;
+}
+
+/**
+ * Corporate event shown on the chart (spec 3.7, EV-01..03)
+ */
+export type CorporateEventType = 'earnings' | 'dividend' | 'split';
+
+interface CorporateEventBase {
+  type: CorporateEventType;
+  /** Event date as a date-only stamp (UTC midnight, Unix seconds) */
+  time: number;
+}
+
+/**
+ * Quarterly earnings release
+ */
+export interface EarningsEvent extends CorporateEventBase {
+  type: 'earnings';
+  /** Fiscal quarter end (YYYY-MM-DD) */
+  fiscalDateEnding: string;
+  reportedEPS?: number;
+  estimatedEPS?: number;
+  /** Reported minus estimated EPS */
+  surprise?: number;
+  surprisePercent?: number;
+  reportTime?: 'pre-market' | 'post-market';
+}
+
+/**
+ * Cash dividend; `time` is the ex-dividend date
+ */
+export interface DividendEvent extends CorporateEventBase {
+  type: 'dividend';
+  /** Cash amount per share */
+  amount: number;
+  declarationDate?: string;
+  recordDate?: string;
+  paymentDate?: string;
+}
+
+/**
+ * Stock split; `time` is the effective date
+ */
+export interface SplitEvent extends CorporateEventBase {
+  type: 'split';
+  /** New shares per old share (e.g. 4 for a 4-for-1 split) */
+  ratio: number;
 }
 
+export type CorporateEvent = EarningsEvent | DividendEvent | SplitEvent;
+
 /**
  * Stock quote information
  * Real-time or delayed price data for a symbol
@@ -36,9 +128,43 @@ export interface Quote {
   week52High?: number;
   week52Low?: number;
   avgVolume?: number;
+  /** Trailing twelve months earnings per share */
+  eps?: number;
+  /** Trailing annual dividend yield, in percent */
+  dividendYield?: number;
+  beta?: number;
+  /** Currency prices are quoted in; USD when omitted */
+  currency?: string;
   timestamp: number;
 }
 
+/**
+ * Company fundamentals
+ * Slow-moving valuation figures shown in the quote details panel
+ *
+ * Spec 3.6.3: Quote Details
+ */
+export interface CompanyFundamentals {
+  symbol: string;
+  marketCap?: number;
+  sharesOutstanding?: number;
+  peRatio?: number;
+  /** Trailing twelve months earnings per share */
+  eps?: number;
+  /** Trailing annual dividend yield, in percent */
+  dividendYield?: number;
+  beta?: number;
+  week52High?: number;
+  week52Low?: number;
+  sector?: string;
+  industry?: string;
+}
+
+/**
+ * Instrument type shown in symbol search
+ */
+export type SymbolType = 'Stock' | 'ETF' | 'Index' | 'Crypto' | 'Forex';
+
 /**
  * Symbol search result
  * Used in autocomplete/search functionality
@@ -46,7 +172,7 @@ export interface Quote {
 export interface SymbolSearchResult {
   symbol: string;
   name: string;
-  type: 'Stock' | 'ETF' | 'Index' | 'Crypto';
+  type: SymbolType;
   exchange: string;
   currency: string;
 }
@@ -62,9 +188,23 @@ export interface StockDataResponse {
 }
 
 /**
- * Supported stock symbols for mock data
+ * Symbol with mock data
+ * The mock universe is open: every symbol in the search database has data,
+ * with curated or generated parameters.
+ */
+export type SupportedSymbol = string;
+
+/**
+ * Crypto or FX pair with mock data
  */
-export type SupportedSymbol = 'AAPL' | 'MSFT' | 'GOOGL' | 'AMZN' | 'TSLA';
+export interface PairInfo {
+  symbol: string;
+  name: string;
+  basePrice: number;
+  volatility: number;
+  /** Typical daily volume in units of the base currency; 0 for FX */
+  avgVolume: number;
+}
 
 /**
  * Company info mapping
@@ -76,4 +216,7 @@ export interface CompanyInfo {
   sector: string;
   basePrice: number;
   volatility: number;
+  /** Omitted for ETFs and indices */
+  sharesOutstanding?: number;
+  beta?: number;
 }
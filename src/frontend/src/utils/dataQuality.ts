@@ -0,0 +1,204 @@
+/**
+ * Data Quality Utilities
+ * Validates fetched OHLCV series and reports what looks wrong
+ *
+ * Invalid bars are dropped with their reasons and duplicate timestamps
+ * collapsed, then the remaining series is checked for gaps against the
+ * trading calendar, zero-volume bars and price spikes. Intraday gap,
+ * volume and spike checks only look at the regular session, since
+ * extended-hours trading is thin by nature.
+ */
+
+import type {
+  OHLCV,
+  NativeInterval,
+  InvalidBarReason,
+  DataQualityIssue,
+  DataQualityIssueType,
+  DataQualityReport,
+} from '../types';
+import { getZonedDateKey } from './timezone';
+import { parseInterval } from './intervals';
+import { getMarketSession, getSessionDateKey } from './sessions';
+import { US_EQUITY_CALENDAR, getTradingDaysBetween, type TradingCalendar } from './tradingCalendar';
+
+/** A move is a spike when it exceeds this multiple of the median move */
+const SPIKE_MEDIAN_MULTIPLE = 12;
+
+/** ...and at least this fraction of the previous close */
+const SPIKE_MIN_CHANGE = 0.01;
+
+/** Moves needed before the median is meaningful */
+const SPIKE_MIN_SAMPLES = 20;
+
+const SECONDS_PER_DAY = 24 * 60 * 60;
+
+/**
+ * Reasons a bar is invalid; empty when the bar is fine
+ */
+export function getInvalidBarReasons(bar: OHLCV): InvalidBarReason[] {
+  if (!Number.isFinite(bar.time)) {
+    return ['invalid-time'];
+  }
+  if (![bar.open, bar.high, bar.low, bar.close, bar.volume].every(Number.isFinite)) {
+    return ['invalid-number'];
+  }
+
+  const reasons: InvalidBarReason[] = [];
+  if (bar.high < bar.low) reasons.push('high-below-low');
+  if (bar.high < bar.open || bar.high < bar.close) reasons.push('high-below-body');
+  if (bar.low > bar.open || bar.low > bar.close) reasons.push('low-above-body');
+  if (bar.volume < 0) reasons.push('negative-volume');
+  return reasons;
+}
+
+/**
+ * Median of a non-empty list
+ */
+function median(values: number[]): number {
+  const sorted = [...values].sort((a, b) => a - b);
+  const middle = Math.floor(sorted.length / 2);
+  return sorted.length % 2 ? sorted[middle] : (sorted[middle - 1] + sorted[middle]) / 2;
+}
+
+/**
+ * Months since year 0 of a date-only bar
+ */
+function getMonthIndex(time: number): number {
+  const date = new Date(time * 1000);
+  return date.getUTCFullYear() * 12 + date.getUTCMonth();
+}
+
+/**
+ * Expected bars missing between two consecutive bars
+ */
+function countMissingBars(
+  prev: OHLCV,
+  curr: OHLCV,
+  interval: NativeInterval,
+  calendar: TradingCalendar
+): number {
+  const spec = parseInterval(interval);
+  if (!spec) return 0;
+
+  switch (spec.unit) {
+    case 'minute': {
+      const prevDate = getSessionDateKey(prev.time, calendar);
+      const currDate = getSessionDateKey(curr.time, calendar);
+      if (prevDate === currDate) {
+        return Math.max(Math.round((curr.time - prev.time) / (spec.count * 60)) - 1, 0);
+      }
+      // Whole sessions missing, estimated at the regular session length
+      const missingSessions = getTradingDaysBetween(prevDate, currDate, calendar).length;
+      return missingSessions * Math.floor((calendar.hours.close - calendar.hours.open) / spec.count);
+    }
+    case 'day':
+      return getTradingDaysBetween(
+        getZonedDateKey(prev.time, 'UTC', true),
+        getZonedDateKey(curr.time, 'UTC', true),
+        calendar
+      ).length;
+    case 'week':
+      return Math.max(Math.round((curr.time - prev.time) / (7 * SECONDS_PER_DAY)) - 1, 0);
+    case 'month':
+      return Math.max(getMonthIndex(curr.time) - getMonthIndex(prev.time) - 1, 0);
+  }
+}
+
+/**
+ * Find price spikes: moves from the previous close far beyond the
+ * median move of the series. Intraday moves across sessions are skipped.
+ */
+function findSpikes(bars: OHLCV[], intraday: boolean, calendar: TradingCalendar): DataQualityIssue[] {
+  const moves: { time: number; change: number }[] = [];
+  for (let i = 1; i < bars.length; i++) {
+    const prev = bars[i - 1];
+    const curr = bars[i];
+    if (prev.close <= 0) continue;
+    if (intraday && getSessionDateKey(prev.time, calendar) !== getSessionDateKey(curr.time, calendar)) {
+      continue;
+    }
+    const change = [curr.high, curr.low, curr.close]
+      .map((price) => price / prev.close - 1)
+      .reduce((largest, value) => (Math.abs(value) > Math.abs(largest) ? value : largest), 0);
+    moves.push({ time: curr.time, change });
+  }
+
+  if (moves.length < SPIKE_MIN_SAMPLES) return [];
+
+  const typicalMove = median(moves.map((move) => Math.abs(move.change)));
+  const threshold = Math.max(typicalMove * SPIKE_MEDIAN_MULTIPLE, SPIKE_MIN_CHANGE);
+  return moves
+    .filter((move) => Math.abs(move.change) > threshold)
+    .map((move) => ({ type: 'spike' as const, time: move.time, change: move.change }));
+}
+
+/**
+ * Validate a series at its native interval
+ * Returns the usable bars, oldest first, and a report of every issue found.
+ */
+export function checkDataQuality(
+  data: OHLCV[],
+  interval: NativeInterval,
+  calendar: TradingCalendar = US_EQUITY_CALENDAR
+): { bars: OHLCV[]; report: DataQualityReport } {
+  const issues: DataQualityIssue[] = [];
+
+  // Drop invalid bars
+  const valid: OHLCV[] = [];
+  for (const bar of data) {
+    const reasons = getInvalidBarReasons(bar);
+    if (reasons.length > 0) {
+      issues.push({ type: 'dropped', time: bar.time, bar, reasons });
+    } else {
+      valid.push(bar);
+    }
+  }
+
+  // Collapse duplicate timestamps, keeping the last bar
+  const byTime = new Map<number, OHLCV>();
+  const duplicates = new Map<number, number>();
+  for (const bar of valid) {
+    if (byTime.has(bar.time)) {
+      duplicates.set(bar.time, (duplicates.get(bar.time) ?? 1) + 1);
+    }
+    byTime.set(bar.time, bar);
+  }
+  duplicates.forEach((count, time) => issues.push({ type: 'duplicate', time, count }));
+  const bars = Array.from(byTime.values()).sort((a, b) => a.time - b.time);
+
+  // Gap, volume and spike checks look at regular-session bars only
+  const intraday = parseInterval(interval)?.unit === 'minute';
+  const checked = intraday ? bars.filter((bar) => getMarketSession(bar.time, calendar) === 'regular') : bars;
+
+  for (let i = 1; i < checked.length; i++) {
+    const missingBars = countMissingBars(checked[i - 1], checked[i], interval, calendar);
+    if (missingBars > 0) {
+      issues.push({ type: 'gap', time: checked[i - 1].time, endTime: checked[i].time, missingBars });
+    }
+  }
+
+  // Sources without volume (indexes) report zero on every bar
+  if (checked.some((bar) => bar.volume > 0)) {
+    checked
+      .filter((bar) => bar.volume === 0)
+      .forEach((bar) => issues.push({ type: 'zero-volume', time: bar.time }));
+  }
+
+  issues.push(...findSpikes(checked, intraday, calendar));
+
+  // Bars without a valid time first, then by time
+  const sortKey = (issue: DataQualityIssue) => (Number.isFinite(issue.time) ? issue.time : Number.MIN_SAFE_INTEGER);
+  issues.sort((a, b) => sortKey(a) - sortKey(b));
+
+  const counts: Record<DataQualityIssueType, number> = {
+    dropped: 0,
+    gap: 0,
+    duplicate: 0,
+    'zero-volume': 0,
+    spike: 0,
+  };
+  issues.forEach((issue) => counts[issue.type]++);
+
+  return { bars, report: { totalBars: data.length, issues, counts } };
+}
@@ -0,0 +1,189 @@
+/**
+ * Custom Date Range Utilities
+ * Parsing, validation (DR-02) and interval selection for custom ranges
+ */
+
+import {
+  TIME_RANGES,
+  TIME_RANGE_INTERVALS,
+  DEFAULT_INTERVALS,
+  type CustomDateRange,
+  type Interval,
+  type TimeRange,
+} from '../types';
+import { parseInterval } from './intervals';
+
+/** How far back a custom range may start (DR-02) */
+export const MAX_CUSTOM_RANGE_YEARS = 20;
+
+const MS_PER_DAY = 24 * 60 * 60 * 1000;
+
+/**
+ * Parse a YYYY-MM-DD string as local midnight
+ */
+export function parseDateInput(value: string): Date | null {
+  const match = /^(\d{4})-(\d{2})-(\d{2})$/.exec(value);
+  if (!match) return null;
+  const date = new Date(Number(match[1]), Number(match[2]) - 1, Number(match[3]));
+  return isNaN(date.getTime()) ? null : date;
+}
+
+/**
+ * Format a date as YYYY-MM-DD (local calendar day)
+ */
+export function formatDateInput(date: Date): string {
+  const month = String(date.getMonth() + 1).padStart(2, '0');
+  const day = String(date.getDate()).padStart(2, '0');
+  return `${date.getFullYear()}-${month}-${day}`;
+}
+
+/**
+ * Concrete window of a custom range: start of the first day to end of the last
+ */
+export function getCustomRangeWindow(range: CustomDateRange): { start: Date; end: Date } | null {
+  const start = parseDateInput(range.startDate);
+  const endDay = parseDateInput(range.endDate);
+  if (!start || !endDay) return null;
+  const end = new Date(endDay);
+  end.setHours(23, 59, 59, 999);
+  return { start, end };
+}
+
+/**
+ * Number of calendar days covered by a custom range
+ */
+export function getCustomRangeDays(range: CustomDateRange): number {
+  const window = getCustomRangeWindow(range);
+  if (!window) return 0;
+  return Math.ceil((window.end.getTime() - window.start.getTime()) / MS_PER_DAY);
+}
+
+/**
+ * Earliest day a custom range may start on
+ * Mock data reaches back just as far, so every valid range is charted in full.
+ */
+export function getEarliestCustomRangeStart(today: Date = new Date()): Date {
+  const earliest = new Date(today.getFullYear(), today.getMonth(), today.getDate());
+  earliest.setFullYear(earliest.getFullYear() - MAX_CUSTOM_RANGE_YEARS);
+  return earliest;
+}
+
+/**
+ * Validate a custom range
+ * Returns an error message, or null when the range is valid
+ */
+export function validateCustomRange(range: CustomDateRange, today: Date = new Date()): string | null {
+  const start = parseDateInput(range.startDate);
+  const end = parseDateInput(range.endDate);
+
+  if (!start || !end) {
+    return 'Please select both a start and an end date.';
+  }
+  if (end <= start) {
+    return 'End date must be after start date.';
+  }
+  if (end > today) {
+    return 'End date cannot be in the future.';
+  }
+
+  if (start < getEarliestCustomRangeStart(today)) {
+    return `Start date cannot be more than ${MAX_CUSTOM_RANGE_YEARS} years ago.`;
+  }
+
+  return null;
+}
+
+/**
+ * Intervals offered for a span of calendar days
+ * Mirrors the preset ranges with a similar span
+ */
+export function getIntervalsForSpan(days: number): Interval[] {
+  if (days <= 2) return TIME_RANGE_INTERVALS['1D'];
+  if (days <= 7) return TIME_RANGE_INTERVALS['5D'];
+  if (days <= 31) return TIME_RANGE_INTERVALS['1M'];
+  if (days <= 366) return TIME_RANGE_INTERVALS['1Y'];
+  return TIME_RANGE_INTERVALS['5Y'];
+}
+
+/**
+ * Default interval for a span of calendar days
+ */
+export function getDefaultIntervalForSpan(days: number): Interval {
+  if (days <= 2) return DEFAULT_INTERVALS['1D'];
+  if (days <= 7) return DEFAULT_INTERVALS['5D'];
+  if (days <= 31) return DEFAULT_INTERVALS['1M'];
+  if (days <= 366) return DEFAULT_INTERVALS['1Y'];
+  return DEFAULT_INTERVALS['5Y'];
+}
+
+/** Longest span intraday series are offered for */
+const MAX_INTRADAY_SPAN_DAYS = 31;
+
+/** Shortest span daily and coarser series are offered for */
+const MIN_DAILY_SPAN_DAYS = 28;
+
+/** Regular session length in minutes */
+const SESSION_MINUTES = 390;
+
+/** Approximate calendar days per bar unit, for span checks */
+const UNIT_CALENDAR_DAYS = { day: 7 / 5, week: 7, month: 30.4 };
+
+/**
+ * Number of calendar days covered by a time range (Infinity for MAX)
+ */
+export function getTimeRangeDays(
+  timeRange: TimeRange,
+  customRange: CustomDateRange | null,
+  today: Date = new Date()
+): number {
+  if (timeRange === 'CUSTOM') {
+    return customRange ? getCustomRangeDays(customRange) : 0;
+  }
+  if (timeRange === 'MAX') {
+    return Infinity;
+  }
+  if (timeRange === 'YTD') {
+    const startOfYear = new Date(today.getFullYear(), 0, 1);
+    return Math.ceil((today.getTime() - startOfYear.getTime()) / MS_PER_DAY);
+  }
+  return TIME_RANGES.find((config) => config.range === timeRange)?.days ?? 0;
+}
+
+/**
+ * Check whether a user-defined interval suits a span of calendar days
+ * Intraday intervals need a short span, coarser ones a long enough span
+ * for at least two bars.
+ */
+export function isIntervalValidForSpan(interval: Interval, days: number): boolean {
+  const spec = parseInterval(interval);
+  if (!spec || days <= 0) return false;
+
+  if (spec.unit === 'minute') {
+    const sessions = Math.max(1, Math.round((days * 5) / 7));
+    return days <= MAX_INTRADAY_SPAN_DAYS && spec.count * 2 <= sessions * SESSION_MINUTES;
+  }
+  return days >= MIN_DAILY_SPAN_DAYS && spec.count * UNIT_CALENDAR_DAYS[spec.unit] * 2 <= days;
+}
+
+/**
+ * Valid intervals for the current time range selection
+ * User-defined intervals are included when they suit the span.
+ */
+export function getValidIntervals(
+  timeRange: TimeRange,
+  customRange: CustomDateRange | null,
+  userIntervals: readonly Interval[] = []
+): Interval[] {
+  const builtIn = timeRange === 'CUSTOM'
+    ? (customRange ? getIntervalsForSpan(getCustomRangeDays(customRange)) : [])
+    : TIME_RANGE_INTERVALS[timeRange];
+  if (userIntervals.length === 0) {
+    return builtIn;
+  }
+
+  const days = getTimeRangeDays(timeRange, customRange);
+  return [
+    ...builtIn,
+    ...userIntervals.filter((interval) => !builtIn.includes(interval) && isIntervalValidForSpan(interval, days)),
+  ];
+}
@@ -4,3 +4,12 @@
  */
 
 export * from './heikinAshi';
+export * from './intervals';
+export * from './dateRange';
+export * from './resample';
+export * from './liveUpdates';
+export * from './timezone';
+export * from './sessions';
+export * from './tradingCalendar';
+export * from './dataQuality';
+export * from './instruments';
@@ -0,0 +1,102 @@
+/**
+ * Instrument Utilities
+ * Tells equities, crypto and FX pairs apart, and formats their prices
+ *
+ * Pairs are written BASE/QUOTE (BTC/USD, EUR/USD). A pair of two fiat
+ * currencies is FX; any other pair is crypto. Everything else is an
+ * equity quoted in USD.
+ */
+
+import type { AssetClass, Instrument } from '../types';
+import { CRYPTO_CALENDAR, FOREX_CALENDAR, US_EQUITY_CALENDAR, type TradingCalendar } from './tradingCalendar';
+
+/** Fiat currencies traded as FX pairs */
+const FIAT_CURRENCIES = new Set([
+  'USD', 'EUR', 'GBP', 'JPY', 'CHF', 'CAD', 'AUD', 'NZD',
+  'CNY', 'HKD', 'SGD', 'SEK', 'NOK', 'DKK', 'MXN', 'INR',
+]);
+
+/** Quote currencies priced without decimals in their smallest unit */
+const LOW_DENOMINATION_CURRENCIES = new Set(['JPY']);
+
+const PAIR_PATTERN = /^([A-Z0-9]{2,10})\/([A-Z0-9]{3,5})$/;
+
+/**
+ * Parse a symbol into its asset class and quote currency
+ */
+export function parseInstrument(symbol: string): Instrument {
+  const upper = symbol.toUpperCase();
+  const match = PAIR_PATTERN.exec(upper);
+  if (!match) {
+    return { symbol: upper, assetClass: 'equity', base: upper, quoteCurrency: 'USD' };
+  }
+
+  const [, base, quoteCurrency] = match;
+  const assetClass: AssetClass = FIAT_CURRENCIES.has(base) && FIAT_CURRENCIES.has(quoteCurrency) ? 'forex' : 'crypto';
+  return { symbol: upper, assetClass, base, quoteCurrency };
+}
+
+/**
+ * Trading calendar of an instrument
+ * Equities follow the US exchange calendar.
+ */
+export function getInstrumentCalendar(symbol: string): TradingCalendar {
+  switch (parseInstrument(symbol).assetClass) {
+    case 'crypto':
+      return CRYPTO_CALENDAR;
+    case 'forex':
+      return FOREX_CALENDAR;
+    default:
+      return US_EQUITY_CALENDAR;
+  }
+}
+
+/**
+ * Decimals to show for a price
+ * FX quotes use pips (4 decimals, 2 for yen pairs) plus one; cheap
+ * crypto needs more digits than a stock price.
+ */
+export function getPriceDecimals(instrument: Instrument, price?: number): number {
+  if (instrument.assetClass === 'forex') {
+    return LOW_DENOMINATION_CURRENCIES.has(instrument.quoteCurrency) ? 3 : 5;
+  }
+  if (instrument.assetClass === 'crypto' && price !== undefined) {
+    const magnitude = Math.abs(price);
+    if (magnitude < 1) return 6;
+    if (magnitude < 10) return 4;
+  }
+  return 2;
+}
+
+/** Currency formatters by currency and decimals */
+const currencyFormatters = new Map<string, Intl.NumberFormat>();
+
+/**
+ * Format an amount in a currency, e.g. "$185.50", "€0.92", "¥151.234"
+ * Codes Intl doesn't know (e.g. USDT) are appended instead.
+ */
+export function formatCurrency(value: number, currency: string, decimals: number = 2): string {
+  if (!/^[A-Z]{3}$/.test(currency)) {
+    return `${value.toFixed(decimals)} ${currency}`;
+  }
+
+  const key = `${currency}|${decimals}`;
+  let formatter = currencyFormatters.get(key);
+  if (!formatter) {
+    formatter = new Intl.NumberFormat('en-US', {
+      style: 'currency',
+      currency,
+      minimumFractionDigits: decimals,
+      maximumFractionDigits: decimals,
+    });
+    currencyFormatters.set(key, formatter);
+  }
+  return formatter.format(value);
+}
+
+/**
+ * Format a price of an instrument in its quote currency
+ */
+export function formatInstrumentPrice(value: number, instrument: Instrument): string {
+  return formatCurrency(value, instrument.quoteCurrency, getPriceDecimals(instrument, value));
+}
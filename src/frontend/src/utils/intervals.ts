@@ -0,0 +1,156 @@
+/**
+ * Interval Utilities
+ * Parsing of native and resampled intervals, shared by data providers and hooks
+ */
+
+import {
+  INTERVALS,
+  type Interval,
+  type NativeInterval,
+  type CustomInterval,
+  type IntervalUnit,
+} from '../types';
+import type { IntradayInterval } from '../api/types';
+
+/**
+ * Unit bars are bucketed by when resampling
+ */
+export type IntervalBucketUnit = 'minute' | 'day' | 'week' | 'month';
+
+/**
+ * Parsed interval: each bar spans `count` units
+ * Days count trading days, hours are expressed in minutes
+ */
+export interface IntervalSpec {
+  unit: IntervalBucketUnit;
+  count: number;
+}
+
+const NATIVE_SPECS: Record<NativeInterval, IntervalSpec> = {
+  '1min': { unit: 'minute', count: 1 },
+  '5min': { unit: 'minute', count: 5 },
+  '15min': { unit: 'minute', count: 15 },
+  '30min': { unit: 'minute', count: 30 },
+  '60min': { unit: 'minute', count: 60 },
+  daily: { unit: 'day', count: 1 },
+  weekly: { unit: 'week', count: 1 },
+  monthly: { unit: 'month', count: 1 },
+};
+
+/** Every native interval, finest first */
+export const NATIVE_INTERVALS = Object.keys(NATIVE_SPECS) as NativeInterval[];
+
+/** Native intraday intervals, coarsest first, used as resampling sources */
+const INTRADAY_SOURCES: IntradayInterval[] = ['60min', '30min', '15min', '5min', '1min'];
+
+const UNIT_SPECS: Record<IntervalUnit, { unit: IntervalBucketUnit; multiplier: number }> = {
+  min: { unit: 'minute', multiplier: 1 },
+  h: { unit: 'minute', multiplier: 60 },
+  D: { unit: 'day', multiplier: 1 },
+  W: { unit: 'week', multiplier: 1 },
+  M: { unit: 'month', multiplier: 1 },
+};
+
+/** Largest multiple accepted per unit; beyond it a bar spans a whole coarser unit */
+export const MAX_INTERVAL_COUNT: Record<IntervalUnit, number> = {
+  min: 390,
+  h: 6,
+  D: 30,
+  W: 26,
+  M: 12,
+};
+
+const UNIT_LABELS: Record<IntervalUnit, [string, string]> = {
+  min: ['Min', 'Min'],
+  h: ['Hour', 'Hours'],
+  D: ['Day', 'Days'],
+  W: ['Week', 'Weeks'],
+  M: ['Month', 'Months'],
+};
+
+const CUSTOM_INTERVAL_PATTERN = /^(\d+)(min|h|D|W|M)$/;
+
+/**
+ * Check whether providers serve an interval directly
+ */
+export function isNativeInterval(interval: string): interval is NativeInterval {
+  return Object.prototype.hasOwnProperty.call(NATIVE_SPECS, interval);
+}
+
+/**
+ * Parse an interval into its bucket unit and size
+ * Returns null for malformed or out-of-bounds custom intervals
+ */
+export function parseInterval(interval: string): IntervalSpec | null {
+  if (isNativeInterval(interval)) {
+    return NATIVE_SPECS[interval];
+  }
+
+  const match = CUSTOM_INTERVAL_PATTERN.exec(interval);
+  if (!match) return null;
+
+  const count = Number(match[1]);
+  const unit = match[2] as IntervalUnit;
+  if (count < 1 || count > MAX_INTERVAL_COUNT[unit]) return null;
+
+  return { unit: UNIT_SPECS[unit].unit, count: count * UNIT_SPECS[unit].multiplier };
+}
+
+/**
+ * Build a custom interval from a count and unit, or null if out of bounds
+ */
+export function toCustomInterval(count: number, unit: IntervalUnit): CustomInterval | null {
+  if (!Number.isInteger(count)) return null;
+  const interval: CustomInterval = `${count}${unit}`;
+  return parseInterval(interval) ? interval : null;
+}
+
+/**
+ * Check whether two intervals produce the same bars (e.g. '60min' and '1h')
+ */
+export function isSameInterval(a: Interval, b: Interval): boolean {
+  const specA = parseInterval(a);
+  const specB = parseInterval(b);
+  return !!specA && !!specB && specA.unit === specB.unit && specA.count === specB.count;
+}
+
+/**
+ * Native interval to fetch for an interval
+ * Minute intervals use the coarsest native interval that divides them;
+ * day, week and month intervals are all derived from daily bars.
+ */
+export function getSourceInterval(interval: Interval): NativeInterval {
+  const spec = parseInterval(interval);
+  if (!spec || spec.unit !== 'minute') {
+    return 'daily';
+  }
+  return INTRADAY_SOURCES.find((source) => spec.count % NATIVE_SPECS[source].count === 0) ?? '1min';
+}
+
+/**
+ * Determine if interval is intraday
+ */
+export function isIntradayInterval(interval: Interval): boolean {
+  return parseInterval(interval)?.unit === 'minute';
+}
+
+/**
+ * Determine if a native interval is an intraday API interval
+ */
+export function isNativeIntradayInterval(interval: NativeInterval): interval is IntradayInterval {
+  return NATIVE_SPECS[interval].unit === 'minute';
+}
+
+/**
+ * Display label for an interval, e.g. '4 Hours' for '4h'
+ */
+export function getIntervalLabel(interval: Interval): string {
+  const config = INTERVALS.find((item) => item.interval === interval);
+  if (config) return config.label;
+
+  const match = CUSTOM_INTERVAL_PATTERN.exec(interval);
+  if (!match) return interval;
+  const count = Number(match[1]);
+  const [singular, plural] = UNIT_LABELS[match[2] as IntervalUnit];
+  return `${count} ${count === 1 ? singular : plural}`;
+}
@@ -0,0 +1,117 @@
+/**
+ * Live Updates
+ * Folds streamed trades into a quote and into the newest bar of a series
+ *
+ * A trade updates the forming bar while it falls into the same bucket
+ * (see resampleOHLCV) and opens a new bar on the next interval boundary.
+ * Day and coarser bars, and quote highs, lows and volume, only count
+ * regular-session trades.
+ */
+
+import type { OHLCV, Quote, Interval, StreamTrade, MarketSession } from '../types';
+import { parseInterval, type IntervalSpec } from './intervals';
+import { isSameBucket } from './resample';
+import { getExchangeMinutes, getMarketSession, getSessionDateKey, isWithinTradingHours } from './sessions';
+import { getSessionHours, US_EQUITY_CALENDAR, type TradingCalendar } from './tradingCalendar';
+import { parseInstrument, getPriceDecimals } from './instruments';
+
+/**
+ * Time of the bar a trade opens
+ * Minute bars start on the interval grid counted from the regular open,
+ * but not before the start of the trade's session; day and coarser bars
+ * are date-only stamps of the session date.
+ */
+function getNewBarTime(time: number, session: MarketSession, spec: IntervalSpec, calendar: TradingCalendar): number {
+  const dateKey = getSessionDateKey(time, calendar);
+  if (spec.unit !== 'minute') {
+    return Date.parse(dateKey) / 1000;
+  }
+
+  const hours = getSessionHours(dateKey, calendar) ?? calendar.hours;
+  const sessionStart = session === 'pre' ? hours.preOpen : session === 'regular' ? hours.open : hours.close;
+  const minutes = getExchangeMinutes(time, calendar.timeZone);
+  const bucketStart = Math.max(
+    sessionStart,
+    hours.open + Math.floor((minutes - hours.open) / spec.count) * spec.count
+  );
+  return time - (time % 60) - (minutes - bucketStart) * 60;
+}
+
+/**
+ * Apply a trade to a chronologically sorted series at an interval
+ * Returns the series unchanged for trades outside the shown sessions or
+ * older than its newest bar.
+ */
+export function applyTradeToBars(
+  bars: OHLCV[],
+  trade: StreamTrade,
+  interval: Interval,
+  calendar: TradingCalendar = US_EQUITY_CALENDAR,
+  includeExtendedHours: boolean = false
+): OHLCV[] {
+  const spec = parseInterval(interval);
+  const last = bars[bars.length - 1];
+  if (!spec || !last) return bars;
+
+  const time = Math.floor(trade.timestamp / 1000);
+  if (!isWithinTradingHours(time, calendar)) return bars;
+  const intraday = spec.unit === 'minute';
+  const session = getMarketSession(time, calendar);
+  if (session !== 'regular' && !(intraday && includeExtendedHours)) return bars;
+
+  const { price, volume } = trade;
+  const bar: OHLCV = {
+    time: getNewBarTime(time, session, spec, calendar),
+    open: price,
+    high: price,
+    low: price,
+    close: price,
+    volume,
+    ...(intraday ? { session } : {}),
+  };
+
+  if (isSameBucket(last, bar, interval, calendar)) {
+    const forming: OHLCV = {
+      ...last,
+      high: Math.max(last.high, price),
+      low: Math.min(last.low, price),
+      close: price,
+      volume: last.volume + volume,
+    };
+    return [...bars.slice(0, -1), forming];
+  }
+  if (bar.time <= last.time) return bars;
+  return [...bars, bar];
+}
+
+/**
+ * Apply a trade to a quote of the same symbol
+ */
+export function applyTradeToQuote(
+  quote: Quote,
+  trade: StreamTrade,
+  calendar: TradingCalendar = US_EQUITY_CALENDAR
+): Quote {
+  if (trade.symbol.toUpperCase() !== quote.symbol.toUpperCase()) return quote;
+
+  const { price } = trade;
+  const decimals = getPriceDecimals(parseInstrument(quote.symbol), price);
+  const change = price - quote.previousClose;
+  const updated: Quote = {
+    ...quote,
+    price,
+    change: parseFloat(change.toFixed(decimals)),
+    changePercent: quote.previousClose ? parseFloat(((change / quote.previousClose) * 100).toFixed(2)) : 0,
+    timestamp: trade.timestamp,
+  };
+
+  if (getMarketSession(Math.floor(trade.timestamp / 1000), calendar) !== 'regular') {
+    return updated;
+  }
+  return {
+    ...updated,
+    high: Math.max(quote.high, price),
+    low: Math.min(quote.low, price),
+    volume: quote.volume + trade.volume,
+  };
+}
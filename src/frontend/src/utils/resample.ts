@@ -0,0 +1,161 @@
+/**
+ * OHLCV Resampling
+ * Aggregates a finer series into coarser bars
+ *
+ * Buckets are aligned to the market rather than the clock:
+ * - minute buckets start at the 9:30 ET session open, so 4h bars are
+ *   9:30-13:30 and 13:30-16:00, and never span two sessions (pre/regular/post)
+ * - day buckets count trading days (weekdays, or every day for markets
+ *   without weekends), weeks start on Monday
+ * Clock times are read in the trading calendar's time zone.
+ * - month buckets are aligned to the calendar year (quarterly = Jan/Apr/Jul/Oct)
+ *
+ * Each bar is stamped with the time of the first source bar in its bucket.
+ */
+
+import type { OHLCV, Interval } from '../types';
+import { parseInterval, type IntervalSpec } from './intervals';
+import { getMarketSession } from './sessions';
+import { US_EQUITY_CALENDAR, type TradingCalendar } from './tradingCalendar';
+
+const SECONDS_PER_DAY = 24 * 60 * 60;
+
+/** Day number of Monday 1970-01-05, the first week boundary after the epoch */
+const FIRST_MONDAY = 4;
+
+/** Date and wall clocks by time zone */
+const marketClocks = new Map<string, Intl.DateTimeFormat>();
+
+function getMarketClock(timeZone: string): Intl.DateTimeFormat {
+  let clock = marketClocks.get(timeZone);
+  if (!clock) {
+    clock = new Intl.DateTimeFormat('en-US', {
+      timeZone,
+      year: 'numeric',
+      month: 'numeric',
+      day: 'numeric',
+      hour: 'numeric',
+      minute: 'numeric',
+      hourCycle: 'h23',
+    });
+    marketClocks.set(timeZone, clock);
+  }
+  return clock;
+}
+
+/**
+ * Calendar position of a bar in the exchange timezone
+ */
+interface MarketTime {
+  year: number;
+  /** 1-12 */
+  month: number;
+  /** Days since 1970-01-01 of the session date */
+  dayNumber: number;
+  /** Minutes after midnight */
+  minutes: number;
+}
+
+/**
+ * Resolve a bar time to its session date and wall-clock time
+ * Date-only bars (stamped at UTC midnight) keep their UTC date.
+ */
+function getMarketTime(time: number, intraday: boolean, timeZone: string): MarketTime {
+  if (!intraday) {
+    const date = new Date(time * 1000);
+    return {
+      year: date.getUTCFullYear(),
+      month: date.getUTCMonth() + 1,
+      dayNumber: time / SECONDS_PER_DAY,
+      minutes: 0,
+    };
+  }
+
+  const parts = getMarketClock(timeZone).formatToParts(new Date(time * 1000));
+  const get = (type: Intl.DateTimeFormatPartTypes) =>
+    Number(parts.find((part) => part.type === type)?.value ?? 0);
+  const year = get('year');
+  const month = get('month');
+  return {
+    year,
+    month,
+    dayNumber: Date.UTC(year, month - 1, get('day')) / (SECONDS_PER_DAY * 1000),
+    minutes: get('hour') * 60 + get('minute'),
+  };
+}
+
+/**
+ * Key of the bucket a bar falls into; equal keys are merged
+ */
+function getBucketKey(bar: OHLCV, spec: IntervalSpec, calendar: TradingCalendar): string {
+  const market = getMarketTime(bar.time, spec.unit === 'minute', calendar.timeZone);
+  const daysSinceMonday = market.dayNumber - FIRST_MONDAY;
+  const week = Math.floor(daysSinceMonday / 7);
+
+  switch (spec.unit) {
+    case 'minute': {
+      const session = bar.session ?? getMarketSession(bar.time, calendar);
+      return `${market.dayNumber}:${session}:${Math.floor((market.minutes - calendar.hours.open) / spec.count)}`;
+    }
+    case 'day': {
+      if (calendar.weekendDays.length === 0) {
+        return String(Math.floor(market.dayNumber / spec.count));
+      }
+      // Weekday ordinal, so weekends don't break up multi-day bars
+      const tradingDay = week * 5 + Math.min(daysSinceMonday - week * 7, 4);
+      return String(Math.floor(tradingDay / spec.count));
+    }
+    case 'week':
+      return String(Math.floor(week / spec.count));
+    case 'month':
+      return String(Math.floor((market.year * 12 + market.month - 1) / spec.count));
+  }
+}
+
+/**
+ * Resample a chronologically sorted series to an interval
+ * The source series must be at least as fine as the target interval.
+ */
+export function resampleOHLCV(
+  data: OHLCV[],
+  interval: Interval,
+  calendar: TradingCalendar = US_EQUITY_CALENDAR
+): OHLCV[] {
+  const spec = parseInterval(interval);
+  if (!spec || data.length === 0) {
+    return data;
+  }
+
+  const result: OHLCV[] = [];
+  let currentKey: string | null = null;
+
+  for (const bar of data) {
+    const key = getBucketKey(bar, spec, calendar);
+    const last = result[result.length - 1];
+
+    if (key === currentKey && last) {
+      last.high = Math.max(last.high, bar.high);
+      last.low = Math.min(last.low, bar.low);
+      last.close = bar.close;
+      last.volume += bar.volume;
+    } else {
+      result.push({ ...bar });
+      currentKey = key;
+    }
+  }
+
+  return result;
+}
+
+/**
+ * Check whether two bars fall into the same bucket of an interval
+ */
+export function isSameBucket(
+  a: OHLCV,
+  b: OHLCV,
+  interval: Interval,
+  calendar: TradingCalendar = US_EQUITY_CALENDAR
+): boolean {
+  const spec = parseInterval(interval);
+  return spec !== null && getBucketKey(a, spec, calendar) === getBucketKey(b, spec, calendar);
+}
@@ -0,0 +1,135 @@
+/**
+ * Trading Session Utilities
+ * Classifies intraday bars into pre-market, regular and after-hours sessions
+ *
+ * US equity hours (ET): pre-market 4:00-9:30, regular 9:30-16:00,
+ * after-hours 16:00-20:00. Holidays and early closes come from the
+ * trading calendar; round-the-clock calendars (crypto, FX) only have a
+ * regular session.
+ */
+
+import type { OHLCV, MarketSession } from '../types';
+import { EXCHANGE_TIMEZONE, getZonedDateKey } from './timezone';
+import { US_EQUITY_CALENDAR, getSessionHours, type TradingCalendar } from './tradingCalendar';
+
+/** Order of sessions within a trading day */
+const SESSION_RANK: Record<MarketSession, number> = { pre: 0, regular: 1, post: 2 };
+
+/** Wall clocks by time zone */
+const exchangeClocks = new Map<string, Intl.DateTimeFormat>();
+
+function getExchangeClock(timeZone: string): Intl.DateTimeFormat {
+  let clock = exchangeClocks.get(timeZone);
+  if (!clock) {
+    clock = new Intl.DateTimeFormat('en-US', { timeZone, hour: 'numeric', minute: 'numeric', hourCycle: 'h23' });
+    exchangeClocks.set(timeZone, clock);
+  }
+  return clock;
+}
+
+/**
+ * Minutes after midnight in the exchange timezone
+ */
+export function getExchangeMinutes(time: number, timeZone: string = EXCHANGE_TIMEZONE): number {
+  const parts = getExchangeClock(timeZone).formatToParts(new Date(time * 1000));
+  const hour = Number(parts.find((part) => part.type === 'hour')?.value ?? 0);
+  const minute = Number(parts.find((part) => part.type === 'minute')?.value ?? 0);
+  return hour * 60 + minute;
+}
+
+/**
+ * Session date of an intraday bar in the calendar's timezone
+ */
+export function getSessionDateKey(time: number, calendar: TradingCalendar = US_EQUITY_CALENDAR): string {
+  return getZonedDateKey(time, calendar.timeZone, false);
+}
+
+/**
+ * Session an intraday bar time falls in
+ * Early-close days end the regular session early; bars on closed days
+ * are classified by full-day hours.
+ */
+export function getMarketSession(time: number, calendar: TradingCalendar = US_EQUITY_CALENDAR): MarketSession {
+  const hours = getSessionHours(getSessionDateKey(time, calendar), calendar) ?? calendar.hours;
+  const minutes = getExchangeMinutes(time, calendar.timeZone);
+  if (minutes < hours.open) return 'pre';
+  if (minutes < hours.close) return 'regular';
+  return 'post';
+}
+
+/**
+ * Check whether an intraday bar time is within extended trading hours
+ * of a trading day
+ */
+export function isWithinTradingHours(time: number, calendar: TradingCalendar = US_EQUITY_CALENDAR): boolean {
+  const hours = getSessionHours(getSessionDateKey(time, calendar), calendar);
+  if (!hours) return false;
+  const minutes = getExchangeMinutes(time, calendar.timeZone);
+  return minutes >= hours.preOpen && minutes < hours.postClose;
+}
+
+/**
+ * Tag each bar of an intraday series with its session
+ */
+export function classifySessions(data: OHLCV[], calendar: TradingCalendar = US_EQUITY_CALENDAR): OHLCV[] {
+  return data.map((bar) => (bar.session ? bar : { ...bar, session: getMarketSession(bar.time, calendar) }));
+}
+
+/**
+ * Drop pre-market and after-hours bars
+ * Unclassified (daily and coarser) bars are kept.
+ */
+export function filterRegularSession(data: OHLCV[]): OHLCV[] {
+  return data.filter((bar) => (bar.session ?? 'regular') === 'regular');
+}
+
+/**
+ * Check whether a bar starts a new trading session
+ * A session starts on a new calendar day in `timeZone`, or when the
+ * session order goes backwards (e.g. after-hours followed by pre-market).
+ */
+export function isNewTradingSession(
+  prev: OHLCV,
+  curr: OHLCV,
+  timeZone: string = EXCHANGE_TIMEZONE
+): boolean {
+  if (prev.session && curr.session) {
+    return (
+      getZonedDateKey(prev.time, timeZone, false) !== getZonedDateKey(curr.time, timeZone, false) ||
+      SESSION_RANK[curr.session] < SESSION_RANK[prev.session]
+    );
+  }
+  // Untagged bars: consecutive date-only bars land on distinct dates in
+  // any zone, so reading them as instants still finds every boundary
+  return getZonedDateKey(prev.time, timeZone, false) !== getZonedDateKey(curr.time, timeZone, false);
+}
+
+/**
+ * Running high/low of the current session at each bar
+ */
+export interface SessionRange {
+  time: number;
+  high: number;
+  low: number;
+}
+
+/**
+ * Day high/low as of each bar, reset at every new session
+ */
+export function calculateSessionRange(data: OHLCV[], timeZone: string = EXCHANGE_TIMEZONE): SessionRange[] {
+  const result: SessionRange[] = [];
+  let high = -Infinity;
+  let low = Infinity;
+
+  data.forEach((bar, i) => {
+    if (i > 0 && isNewTradingSession(data[i - 1], bar, timeZone)) {
+      high = -Infinity;
+      low = Infinity;
+    }
+    high = Math.max(high, bar.high);
+    low = Math.min(low, bar.low);
+    result.push({ time: bar.time, high, low });
+  });
+
+  return result;
+}
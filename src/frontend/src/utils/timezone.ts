@@ -0,0 +1,165 @@
+/**
+ * Timezone Utilities
+ * Zone-aware parsing and formatting of bar times
+ *
+ * Bar times are Unix seconds. Daily and coarser bars are stamped at UTC
+ * midnight of their session date ("date-only" bars) and always show that
+ * date, whatever the display timezone. Intraday bars can fall on UTC
+ * midnight too (crypto, FX, 20:00 ET in summer), so callers say which
+ * kind a time is instead of it being read off the timestamp.
+ */
+
+import type { DisplayTimeZone } from '../types';
+
+/** Exchange timezone for US equities */
+export const EXCHANGE_TIMEZONE = 'America/New_York';
+
+const DATE_TIME_PATTERN = /^(\d{4})-(\d{2})-(\d{2})(?:[ T](\d{2}):(\d{2})(?::(\d{2}))?)?$/;
+
+/** Formatters are costly to create; reuse them per zone and options */
+const formatterCache = new Map<string, Intl.DateTimeFormat>();
+
+function getFormatter(
+  timeZone: string,
+  options: Intl.DateTimeFormatOptions,
+  locale: string = 'en-US'
+): Intl.DateTimeFormat {
+  const key = `${locale}|${timeZone}|${JSON.stringify(options)}`;
+  let formatter = formatterCache.get(key);
+  if (!formatter) {
+    formatter = new Intl.DateTimeFormat(locale, { ...options, timeZone });
+    formatterCache.set(key, formatter);
+  }
+  return formatter;
+}
+
+/**
+ * Resolve a display timezone setting to an IANA zone
+ */
+export function resolveTimeZone(displayTimeZone: DisplayTimeZone): string {
+  switch (displayTimeZone) {
+    case 'exchange':
+      return EXCHANGE_TIMEZONE;
+    case 'local':
+      return Intl.DateTimeFormat().resolvedOptions().timeZone;
+    case 'UTC':
+      return 'UTC';
+  }
+}
+
+/**
+ * Wall-clock fields of an instant in a timezone
+ */
+function getZonedParts(date: Date, timeZone: string): Record<string, number> {
+  const parts = getFormatter(timeZone, {
+    year: 'numeric',
+    month: 'numeric',
+    day: 'numeric',
+    hour: 'numeric',
+    minute: 'numeric',
+    second: 'numeric',
+    hourCycle: 'h23',
+  }).formatToParts(date);
+  const fields: Record<string, number> = {};
+  for (const part of parts) {
+    if (part.type !== 'literal') {
+      fields[part.type] = Number(part.value);
+    }
+  }
+  return fields;
+}
+
+/**
+ * Offset of a timezone from UTC at an instant, in milliseconds
+ */
+function getTimeZoneOffset(date: Date, timeZone: string): number {
+  const fields = getZonedParts(date, timeZone);
+  const asUTC = Date.UTC(fields.year, fields.month - 1, fields.day, fields.hour, fields.minute, fields.second);
+  return asUTC - Math.floor(date.getTime() / 1000) * 1000;
+}
+
+/**
+ * Parse a "YYYY-MM-DD" or "YYYY-MM-DD HH:mm[:ss]" string to Unix seconds
+ * Wall-clock times are read in `timeZone`; dates become date-only stamps.
+ * Returns NaN for unparseable input.
+ */
+export function parseZonedDateTime(value: string, timeZone: string): number {
+  const match = DATE_TIME_PATTERN.exec(value.trim());
+  if (!match) return NaN;
+
+  const [year, month, day] = [Number(match[1]), Number(match[2]) - 1, Number(match[3])];
+  if (match[4] === undefined) {
+    return Date.UTC(year, month, day) / 1000;
+  }
+
+  const wallClock = Date.UTC(year, month, day, Number(match[4]), Number(match[5]), Number(match[6] ?? 0));
+  // Correct by the offset at the guess, then again in case the guess
+  // landed on the other side of a DST change
+  let instant = wallClock - getTimeZoneOffset(new Date(wallClock), timeZone);
+  instant = wallClock - getTimeZoneOffset(new Date(instant), timeZone);
+  return instant / 1000;
+}
+
+/**
+ * Format Unix seconds as "YYYY-MM-DD HH:mm:ss" wall-clock time in a timezone
+ * The inverse of parseZonedDateTime for date-times.
+ */
+export function formatZonedDateTime(time: number, timeZone: string): string {
+  const { year, month, day, hour, minute, second } = getZonedParts(new Date(time * 1000), timeZone);
+  const pad = (value: number) => String(value).padStart(2, '0');
+  return `${year}-${pad(month)}-${pad(day)} ${pad(hour)}:${pad(minute)}:${pad(second)}`;
+}
+
+/**
+ * Calendar date of a bar in a timezone (YYYY-MM-DD)
+ * Used to find session boundaries; date-only bars keep their UTC date.
+ */
+export function getZonedDateKey(time: number, timeZone: string, dateOnly: boolean): string {
+  const zone = dateOnly ? 'UTC' : timeZone;
+  // en-CA formats dates as YYYY-MM-DD
+  const formatter = getFormatter(zone, { year: 'numeric', month: '2-digit', day: '2-digit' }, 'en-CA');
+  return formatter.format(new Date(time * 1000));
+}
+
+/**
+ * Format a bar time for the legend and crosshair label
+ */
+export function formatBarTime(time: number, timeZone: string, dateOnly: boolean): string {
+  const date = new Date(time * 1000);
+  if (dateOnly) {
+    return getFormatter('UTC', { weekday: 'short', year: 'numeric', month: 'short', day: 'numeric' }).format(date);
+  }
+  return getFormatter(timeZone, {
+    weekday: 'short',
+    month: 'short',
+    day: 'numeric',
+    hour: '2-digit',
+    minute: '2-digit',
+    hourCycle: 'h23',
+    timeZoneName: 'short',
+  }).format(date);
+}
+
+/**
+ * Granularity of a time-axis tick label
+ * Mirrors lightweight-charts' TickMarkType values.
+ */
+export type TickMarkLevel = 'year' | 'month' | 'day' | 'time';
+
+/**
+ * Format a time-axis tick label
+ */
+export function formatTickMark(time: number, level: TickMarkLevel, timeZone: string, dateOnly: boolean): string {
+  const date = new Date(time * 1000);
+  const zone = dateOnly ? 'UTC' : timeZone;
+  switch (level) {
+    case 'year':
+      return getFormatter(zone, { year: 'numeric' }).format(date);
+    case 'month':
+      return getFormatter(zone, { month: 'short' }).format(date);
+    case 'day':
+      return getFormatter(zone, { day: 'numeric' }).format(date);
+    case 'time':
+      return getFormatter(zone, { hour: '2-digit', minute: '2-digit', hourCycle: 'h23' }).format(date);
+  }
+}
@@ -0,0 +1,350 @@
+/**
+ * Exchange Trading Calendar
+ * Holidays, early closes and session hours per exchange
+ *
+ * Dates are session dates (YYYY-MM-DD) and times are minutes after
+ * midnight in the calendar's time zone (ET for US equities). NYSE and
+ * NASDAQ share one calendar; index quotes follow it too. Crypto trades
+ * around the clock every day; FX is modeled as 24-hour sessions Monday
+ * to Friday (UTC).
+ */
+
+import { EXCHANGE_TIMEZONE } from './timezone';
+
+/** Pre-market open in minutes after midnight ET */
+export const PRE_MARKET_OPEN_MINUTES = 4 * 60;
+
+/** Regular session open in minutes after midnight ET */
+export const SESSION_OPEN_MINUTES = 9 * 60 + 30;
+
+/** Regular session close in minutes after midnight ET */
+export const SESSION_CLOSE_MINUTES = 16 * 60;
+
+/** After-hours close in minutes after midnight ET */
+export const POST_MARKET_CLOSE_MINUTES = 20 * 60;
+
+/** End of a 24-hour session */
+const FULL_DAY_MINUTES = 24 * 60;
+
+/** Regular session close on early-close days (13:00 ET) */
+export const EARLY_CLOSE_MINUTES = 13 * 60;
+
+/**
+ * Trading hours of one session date
+ */
+export interface SessionHours {
+  preOpen: number;
+  open: number;
+  close: number;
+  postClose: number;
+}
+
+/**
+ * Holidays and early closes of one calendar year
+ */
+export interface TradingYear {
+  /** Session date -> holiday name */
+  holidays: Map<string, string>;
+  /** Session dates closing at `earlyClose` */
+  earlyCloses: Set<string>;
+}
+
+/**
+ * Trading calendar of an exchange
+ */
+export interface TradingCalendar {
+  id: string;
+  name: string;
+  /** Time zone session dates and hours are expressed in */
+  timeZone: string;
+  /** Days of the week without trading (0 = Sunday) */
+  weekendDays: number[];
+  /** Hours of a full trading day */
+  hours: SessionHours;
+  /** Regular close on early-close days */
+  earlyClose: number;
+  /** Build the holidays and early closes of a year */
+  getYear: (year: number) => TradingYear;
+}
+
+const MS_PER_DAY = 24 * 60 * 60 * 1000;
+
+/**
+ * Session date key of a UTC calendar date
+ */
+function toDateKey(year: number, month: number, day: number): string {
+  return new Date(Date.UTC(year, month, day)).toISOString().slice(0, 10);
+}
+
+/**
+ * Day of week (0 = Sunday) of a session date key
+ */
+function getWeekday(dateKey: string): number {
+  return new Date(`${dateKey}T00:00:00Z`).getUTCDay();
+}
+
+/**
+ * Date key `days` calendar days after a date key
+ */
+function addDays(dateKey: string, days: number): string {
+  return new Date(Date.parse(`${dateKey}T00:00:00Z`) + days * MS_PER_DAY).toISOString().slice(0, 10);
+}
+
+/**
+ * Nth weekday of a month, e.g. the 3rd Monday of January
+ */
+function nthWeekday(year: number, month: number, weekday: number, n: number): string {
+  const first = new Date(Date.UTC(year, month, 1)).getUTCDay();
+  return toDateKey(year, month, 1 + ((weekday - first + 7) % 7) + (n - 1) * 7);
+}
+
+/**
+ * Last weekday of a month, e.g. the last Monday of May
+ */
+function lastWeekday(year: number, month: number, weekday: number): string {
+  const lastDay = new Date(Date.UTC(year, month + 1, 0));
+  const offset = (lastDay.getUTCDay() - weekday + 7) % 7;
+  return toDateKey(year, month, lastDay.getUTCDate() - offset);
+}
+
+/**
+ * Easter Sunday (anonymous Gregorian algorithm)
+ */
+function easterSunday(year: number): string {
+  const a = year % 19;
+  const b = Math.floor(year / 100);
+  const c = year % 100;
+  const d = Math.floor(b / 4);
+  const e = b % 4;
+  const f = Math.floor((b + 8) / 25);
+  const g = Math.floor((b - f + 1) / 3);
+  const h = (19 * a + b - d - g + 15) % 30;
+  const i = Math.floor(c / 4);
+  const k = c % 4;
+  const l = (32 + 2 * e + 2 * i - h - k) % 7;
+  const m = Math.floor((a + 11 * h + 22 * l) / 451);
+  const month = Math.floor((h + l - 7 * m + 114) / 31);
+  const day = ((h + l - 7 * m + 114) % 31) + 1;
+  return toDateKey(year, month - 1, day);
+}
+
+/**
+ * Weekday a fixed-date holiday is observed on
+ * Saturday holidays move to Friday, Sunday holidays to Monday.
+ */
+function observed(dateKey: string): string {
+  const weekday = getWeekday(dateKey);
+  if (weekday === 6) return addDays(dateKey, -1);
+  if (weekday === 0) return addDays(dateKey, 1);
+  return dateKey;
+}
+
+/** One-off NYSE closures (national days of mourning, weather) */
+const US_SPECIAL_CLOSURES: Record<string, string> = {
+  '2012-10-29': 'Hurricane Sandy',
+  '2012-10-30': 'Hurricane Sandy',
+  '2018-12-05': 'National Day of Mourning',
+  '2025-01-09': 'National Day of Mourning',
+};
+
+/**
+ * NYSE/NASDAQ holiday and early-close rules
+ */
+function getUSEquityYear(year: number): TradingYear {
+  const holidays = new Map<string, string>();
+
+  // New Year's Day on a Saturday is not observed (it would fall in the old year)
+  const newYear = toDateKey(year, 0, 1);
+  if (getWeekday(newYear) !== 6) {
+    holidays.set(observed(newYear), "New Year's Day");
+  }
+  holidays.set(nthWeekday(year, 0, 1, 3), 'Martin Luther King Jr. Day');
+  holidays.set(nthWeekday(year, 1, 1, 3), "Washington's Birthday");
+  holidays.set(addDays(easterSunday(year), -2), 'Good Friday');
+  holidays.set(lastWeekday(year, 4, 1), 'Memorial Day');
+  if (year >= 2022) {
+    holidays.set(observed(toDateKey(year, 5, 19)), 'Juneteenth');
+  }
+  const independenceDay = observed(toDateKey(year, 6, 4));
+  holidays.set(independenceDay, 'Independence Day');
+  holidays.set(nthWeekday(year, 8, 1, 1), 'Labor Day');
+  const thanksgiving = nthWeekday(year, 10, 4, 4);
+  holidays.set(thanksgiving, 'Thanksgiving Day');
+  holidays.set(observed(toDateKey(year, 11, 25)), 'Christmas Day');
+
+  for (const [date, name] of Object.entries(US_SPECIAL_CLOSURES)) {
+    if (date.startsWith(`${year}-`)) {
+      holidays.set(date, name);
+    }
+  }
+
+  // Early closes: eve of Independence Day, day after Thanksgiving, Christmas Eve
+  const earlyCloses = new Set<string>();
+  const candidates = [toDateKey(year, 6, 3), addDays(thanksgiving, 1), toDateKey(year, 11, 24)];
+  for (const date of candidates) {
+    const weekday = getWeekday(date);
+    if (weekday !== 0 && weekday !== 6 && !holidays.has(date) && date !== independenceDay) {
+      earlyCloses.add(date);
+    }
+  }
+
+  return { holidays, earlyCloses };
+}
+
+/** NYSE and NASDAQ trading calendar */
+export const US_EQUITY_CALENDAR: TradingCalendar = {
+  id: 'XNYS',
+  name: 'NYSE / NASDAQ',
+  timeZone: EXCHANGE_TIMEZONE,
+  weekendDays: [0, 6],
+  hours: {
+    preOpen: PRE_MARKET_OPEN_MINUTES,
+    open: SESSION_OPEN_MINUTES,
+    close: SESSION_CLOSE_MINUTES,
+    postClose: POST_MARKET_CLOSE_MINUTES,
+  },
+  earlyClose: EARLY_CLOSE_MINUTES,
+  getYear: getUSEquityYear,
+};
+
+/** Whole-day hours of round-the-clock markets */
+const FULL_DAY_HOURS: SessionHours = { preOpen: 0, open: 0, close: FULL_DAY_MINUTES, postClose: FULL_DAY_MINUTES };
+
+/** Round-the-clock markets have no holidays or early closes */
+function getEmptyYear(): TradingYear {
+  return { holidays: new Map(), earlyCloses: new Set() };
+}
+
+/** Crypto trading calendar: every day, all day (UTC) */
+export const CRYPTO_CALENDAR: TradingCalendar = {
+  id: 'CRYPTO',
+  name: 'Crypto (24/7)',
+  timeZone: 'UTC',
+  weekendDays: [],
+  hours: FULL_DAY_HOURS,
+  earlyClose: FULL_DAY_MINUTES,
+  getYear: getEmptyYear,
+};
+
+/** FX trading calendar: all day Monday to Friday (UTC) */
+export const FOREX_CALENDAR: TradingCalendar = {
+  id: 'FOREX',
+  name: 'Forex (24/5)',
+  timeZone: 'UTC',
+  weekendDays: [0, 6],
+  hours: FULL_DAY_HOURS,
+  earlyClose: FULL_DAY_MINUTES,
+  getYear: getEmptyYear,
+};
+
+/** Calendar by listing exchange (as in SYMBOL_DATABASE) */
+const EXCHANGE_CALENDARS: Record<string, TradingCalendar> = {
+  NYSE: US_EQUITY_CALENDAR,
+  NASDAQ: US_EQUITY_CALENDAR,
+  INDEX: US_EQUITY_CALENDAR,
+  CRYPTO: CRYPTO_CALENDAR,
+  FOREX: FOREX_CALENDAR,
+};
+
+/**
+ * Trading calendar of a listing exchange
+ * Unknown exchanges fall back to the US equity calendar.
+ */
+export function getTradingCalendar(exchange?: string): TradingCalendar {
+  return (exchange && EXCHANGE_CALENDARS[exchange.toUpperCase()]) || US_EQUITY_CALENDAR;
+}
+
+/** Years are rebuilt rarely; cache them per calendar */
+const yearCache = new Map<string, TradingYear>();
+
+function getTradingYear(dateKey: string, calendar: TradingCalendar): TradingYear {
+  const year = Number(dateKey.slice(0, 4));
+  const key = `${calendar.id}|${year}`;
+  let tradingYear = yearCache.get(key);
+  if (!tradingYear) {
+    tradingYear = calendar.getYear(year);
+    yearCache.set(key, tradingYear);
+  }
+  return tradingYear;
+}
+
+/**
+ * Name of the holiday on a session date, or null
+ */
+export function getHoliday(dateKey: string, calendar: TradingCalendar = US_EQUITY_CALENDAR): string | null {
+  return getTradingYear(dateKey, calendar).holidays.get(dateKey) ?? null;
+}
+
+/**
+ * Check whether the exchange trades on a date
+ */
+export function isTradingDay(dateKey: string, calendar: TradingCalendar = US_EQUITY_CALENDAR): boolean {
+  return (
+    !calendar.weekendDays.includes(getWeekday(dateKey)) && !getTradingYear(dateKey, calendar).holidays.has(dateKey)
+  );
+}
+
+/**
+ * Check whether a trading day closes early
+ */
+export function isEarlyClose(dateKey: string, calendar: TradingCalendar = US_EQUITY_CALENDAR): boolean {
+  return getTradingYear(dateKey, calendar).earlyCloses.has(dateKey);
+}
+
+/**
+ * Trading hours of a date, or null when the exchange is closed
+ * Early closes end the regular session and after-hours early.
+ */
+export function getSessionHours(
+  dateKey: string,
+  calendar: TradingCalendar = US_EQUITY_CALENDAR
+): SessionHours | null {
+  if (!isTradingDay(dateKey, calendar)) {
+    return null;
+  }
+  const { hours } = calendar;
+  if (!isEarlyClose(dateKey, calendar)) {
+    return hours;
+  }
+  return {
+    ...hours,
+    close: calendar.earlyClose,
+    postClose: calendar.earlyClose + (hours.postClose - hours.close),
+  };
+}
+
+/**
+ * Last `count` trading days on or before a date, oldest first
+ */
+export function getRecentTradingDays(
+  dateKey: string,
+  count: number,
+  calendar: TradingCalendar = US_EQUITY_CALENDAR
+): string[] {
+  const days: string[] = [];
+  let cursor = dateKey;
+  while (days.length < count) {
+    if (isTradingDay(cursor, calendar)) {
+      days.unshift(cursor);
+    }
+    cursor = addDays(cursor, -1);
+  }
+  return days;
+}
+
+/**
+ * Trading days strictly between two dates, oldest first
+ */
+export function getTradingDaysBetween(
+  fromKey: string,
+  toKey: string,
+  calendar: TradingCalendar = US_EQUITY_CALENDAR
+): string[] {
+  const days: string[] = [];
+  for (let cursor = addDays(fromKey, 1); cursor < toKey; cursor = addDays(cursor, 1)) {
+    if (isTradingDay(cursor, calendar)) {
+      days.push(cursor);
+    }
+  }
+  return days;
+}
@@ -1,9 +1,20 @@
 import { defineConfig } from 'vite'
 import react from '@vitejs/plugin-react'
+import { finnhubFixtureServer } from './dev/finnhubFixtureServer'
+import { alphaVantageFixtureServer } from './dev/alphaVantageFixtureServer'
+import { alphaVantageStubServer } from './dev/alphaVantageStubServer'
+import { tradeFeedServer } from './dev/tradeFeedServer'
 
 // https://vite.dev/config/
 export default defineConfig({
-  plugins: [react()],
+  // The fixture, stub and mock trade feed servers only run under `vite dev`; see .env.example
+  plugins: [
+    react(),
+    finnhubFixtureServer(),
+    alphaVantageFixtureServer(),
+    alphaVantageStubServer(),
+    tradeFeedServer(),
+  ],
   // Base path for GitHub Pages - uses repo name from environment or defaults to '/'
   base: process.env.GITHUB_ACTIONS ? '/FinanceViz/' : '/',
   server: {